@@ -0,0 +1,3 @@
+// Runtime overrides, loaded before the app bundle. Deployments may replace this file without a rebuild.
+// See docs/BACKEND_SERVICE.md for the available keys.
+window.__APP_CONFIG__ = window.__APP_CONFIG__ || {};
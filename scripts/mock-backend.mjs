@@ -0,0 +1,153 @@
+// Local stub for the document backend (render.pdf, extract-*, upload-*).
+// Usage: npm run mock:backend, then start the app with VITE_BACKEND_URL=http://localhost:8787
+import { createServer } from "node:http";
+import { Readable } from "node:stream";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const PORT = Number(process.env.MOCK_BACKEND_PORT || 8787);
+const UPLOAD_DIR = path.resolve(process.env.MOCK_BACKEND_DIR || ".mock-backend/uploads");
+const BASE_URL = `http://localhost:${PORT}`;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { ...corsHeaders, ...headers });
+  res.end(body);
+};
+
+const sendJson = (res, status, body) =>
+  send(res, status, JSON.stringify(body), { "Content-Type": "application/json" });
+
+const toWebRequest = (req) =>
+  new Request(`${BASE_URL}${req.url}`, {
+    method: req.method,
+    headers: req.headers,
+    body: Readable.toWeb(req),
+    duplex: "half",
+  });
+
+const escapePdfText = (text) =>
+  String(text).replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+
+// Same single-page text PDF as src/lib/backendMock.ts
+const buildPlainTextPdf = (lines) => {
+  const stream = [
+    "BT", "/F1 10 Tf", "12 TL", "40 800 Td",
+    ...lines.slice(0, 60).map((line) => `(${escapePdfText(String(line).slice(0, 110))}) '`),
+    "ET",
+  ].join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+  return Buffer.from(pdf, "latin1");
+};
+
+const describePayload = (payload) => {
+  const lines = [`[MOCK] ${payload.reportName ?? "Report"}`, payload.company ?? "", ""];
+  for (const c of payload.components ?? []) {
+    const props = c.props ?? {};
+    if (props.text) lines.push(props.text);
+    if (c.type === "table" && Array.isArray(props.rows)) {
+      if (props.headers?.length) lines.push(props.headers.join(" | "));
+      props.rows.forEach((row) => lines.push(row.map((cell) => cell ?? "").join(" | ")));
+    }
+    if (c.type === "image-grid") lines.push("[images]");
+  }
+  return lines;
+};
+
+const saveUpload = async (request) => {
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!file || typeof file === "string") return null;
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const name = `${Date.now()}-${file.name.replace(/[^\w.-]/g, "_")}`;
+  await writeFile(path.join(UPLOAD_DIR, name), Buffer.from(await file.arrayBuffer()));
+  return { name, originalName: file.name, type: file.type };
+};
+
+const routes = {
+  "POST /render.pdf": async (req, res) => {
+    const payload = await toWebRequest(req).json();
+    send(res, 200, buildPlainTextPdf(describePayload(payload)), { "Content-Type": "application/pdf" });
+  },
+  "POST /extract-bill-data": async (req, res) => {
+    await toWebRequest(req).json();
+    sendJson(res, 200, {
+      success: true,
+      extractedData: { bill_of_entry_no: "MOCK-BOE-0001", bill_of_entry_date: "2026-01-01" },
+    });
+  },
+  "POST /extract-selective-fields": async (req, res) => {
+    const { fieldsToExtract = [] } = await toWebRequest(req).json();
+    sendJson(res, 200, {
+      success: true,
+      extractedData: Object.fromEntries(fieldsToExtract.map((f) => [f, `MOCK ${f}`])),
+      fieldDetails: Object.fromEntries(
+        fieldsToExtract.map((f, i) => [f, { confidence: [0.95, 0.8, 0.55][i % 3], page: 1, bbox: [40, 80 + i * 24, 300, 18] }])
+      ),
+    });
+  },
+  "POST /extract-line-items": async (req, res) => {
+    await toWebRequest(req).json();
+    sendJson(res, 200, {
+      success: true,
+      lineItems: [
+        { description: "MOCK Front Bumper", hsn_code: "87081090", quantity: 1, amount: 4500, gst_percent: 28 },
+        { description: "MOCK Bonnet", hsn_code: "87082900", quantity: 1, amount: 8100, gst_percent: 28 },
+        { description: "MOCK Denting and painting", kind: "labour", amount: 3500, gst_percent: 18 },
+      ],
+    });
+  },
+  "POST /upload-image": async (req, res) => {
+    const saved = await saveUpload(toWebRequest(req));
+    if (!saved) return sendJson(res, 400, { error: "Missing file" });
+    sendJson(res, 200, { url: `${BASE_URL}/files/${saved.name}` });
+  },
+  "POST /upload-doc": async (req, res) => {
+    const saved = await saveUpload(toWebRequest(req));
+    if (!saved) return sendJson(res, 400, { error: "Missing file" });
+    sendJson(res, 200, { success: true, url: `${BASE_URL}/files/${saved.name}`, fileName: saved.originalName });
+  },
+};
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, "");
+
+  try {
+    if (req.method === "GET" && req.url.startsWith("/files/")) {
+      const name = path.basename(decodeURIComponent(req.url.slice("/files/".length)));
+      return send(res, 200, await readFile(path.join(UPLOAD_DIR, name)));
+    }
+
+    const handler = routes[`${req.method} ${req.url.split("?")[0]}`];
+    if (!handler) return sendJson(res, 404, { error: "Not found" });
+
+    console.log(`[mock-backend] ${req.method} ${req.url}`);
+    await handler(req, res);
+  } catch (error) {
+    console.error("[mock-backend] Error:", error);
+    sendJson(res, 500, { error: error.message });
+  }
+}).listen(PORT, () => {
+  console.log(`[mock-backend] Listening on ${BASE_URL}`);
+});
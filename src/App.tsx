@@ -27,6 +27,8 @@ import { ClientReportsDashboard } from "./pages/ClientReportsDashboard";
 import { VASReportDetail } from "./pages/VASReportDetail";
 import { ClientReportDetail } from "./pages/ClientReportDetail";
 import {ImageGenerator} from "./pages/ImageGenerator"
+import { FeeRegister } from "./pages/FeeRegister";
+import { Receivables } from "./pages/Receivables";
 const queryClient = new QueryClient();
 
 /**
@@ -75,6 +77,10 @@ const App = () => (
               {/* Claims Management */}
               <Route path="/claims" element={<ClaimsDashboard />} />
               
+              {/* Fee-Bill Register */}
+              <Route path="/fee-register" element={<FeeRegister />} />
+              <Route path="/receivables" element={<Receivables />} />
+              
               {/* Analytics */}
               <Route path="analytics" element={<Analytics />} />
               
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CopyPlus, Plus, Trash2, TrendingDown } from "lucide-react";
+import {
+  useDeleteDepreciationRuleSet,
+  useDepreciationRuleSets,
+  useSaveDepreciationRuleSet,
+} from "@/hooks/useDepreciationRules";
+import { useInsurers } from "@/hooks/useInsurers";
+import {
+  DepreciationRuleSet,
+  DepreciationRuleSetInput,
+  DepreciationSlab,
+  formatDepreciationSlab,
+  validateDepreciationSlabs,
+} from "@/lib/depreciation";
+
+const ANY = "any";
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const nextVersionOf = ({ name, insurer_id, metal_slabs, rubber_plastic_percent, fibreglass_percent, glass_percent }: DepreciationRuleSet): DepreciationRuleSetInput => ({
+  name,
+  insurer_id,
+  effective_from: today(),
+  metal_slabs: metal_slabs.map((s) => ({ ...s })),
+  rubber_plastic_percent,
+  fibreglass_percent,
+  glass_percent,
+  notes: null,
+});
+
+const parseOptional = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export const DepreciationRulesManager = () => {
+  const { data: ruleSets = [], isLoading } = useDepreciationRuleSets();
+  const { data: insurers = [] } = useInsurers();
+  const saveMutation = useSaveDepreciationRuleSet();
+  const deleteMutation = useDeleteDepreciationRuleSet();
+  const [editing, setEditing] = useState<DepreciationRuleSetInput | null>(null);
+
+  const update = (changes: Partial<DepreciationRuleSetInput>) =>
+    setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const updateSlab = (index: number, changes: Partial<DepreciationSlab>) => {
+    if (!editing) return;
+    update({ metal_slabs: editing.metal_slabs.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+  };
+
+  const addSlab = () => {
+    if (!editing) return;
+    const slabs = editing.metal_slabs;
+    const last = slabs[slabs.length - 1];
+    const previousEnd = slabs[slabs.length - 2]?.up_to_months ?? 0;
+    const closed = last ? [...slabs.slice(0, -1), { ...last, up_to_months: previousEnd + 12 }] : [];
+    update({ metal_slabs: [...closed, { up_to_months: null, percent: last?.percent ?? 0 }] });
+  };
+
+  const removeSlab = (index: number) => {
+    if (!editing || editing.metal_slabs.length === 1) return;
+    const slabs = editing.metal_slabs.filter((_, i) => i !== index);
+    slabs[slabs.length - 1] = { ...slabs[slabs.length - 1], up_to_months: null };
+    update({ metal_slabs: slabs });
+  };
+
+  const slabProblem = editing ? validateDepreciationSlabs(editing.metal_slabs) : null;
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveMutation.mutate(editing, { onSuccess: () => setEditing(null) });
+  };
+
+  // Versions grouped by insurer, the default rules first; newest version first in each
+  const scopes = [...new Set(ruleSets.map((s) => s.insurer_id))].sort((a, b) =>
+    a === null ? -1 : b === null ? 1 : 0
+  );
+  const defaultRules = ruleSets.find((s) => s.insurer_id === null);
+
+  const newInsurerRules = () => {
+    const base = defaultRules ? nextVersionOf(defaultRules) : null;
+    setEditing({
+      name: "",
+      insurer_id: insurers.find((i) => !scopes.includes(i.id))?.id ?? null,
+      effective_from: today(),
+      metal_slabs: base?.metal_slabs ?? [{ up_to_months: null, percent: 0 }],
+      rubber_plastic_percent: base?.rubber_plastic_percent ?? 50,
+      fibreglass_percent: base?.fibreglass_percent ?? 30,
+      glass_percent: base?.glass_percent ?? 0,
+      notes: null,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingDown className="w-5 h-5" />
+              Depreciation Rules
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Motor assessments compute depreciation on spares from the vehicle's age and the part material. The
+              assessment uses the latest version in effect on the date of accident, for the claim's insurer or else the
+              default. Saving creates a new version; earlier versions are kept.
+            </p>
+          </div>
+          <Button onClick={newInsurerRules}>
+            <Plus className="w-4 h-4 mr-2" />
+            Insurer rules
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : ruleSets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No depreciation rules yet. Depreciation is entered by hand.</p>
+          ) : (
+            scopes.map((scope) => {
+              const versions = ruleSets.filter((s) => s.insurer_id === scope);
+              const latest = versions[0];
+              return (
+                <div key={scope ?? ANY} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold">{latest.name}</h3>
+                        <Badge variant="outline">{latest.insurer_name ?? "All insurers"}</Badge>
+                      </div>
+                      <p className="text-sm">
+                        Glass {latest.glass_percent}% · Rubber/plastic {latest.rubber_plastic_percent}% · Fibreglass{" "}
+                        {latest.fibreglass_percent}%
+                      </p>
+                      <ul className="text-sm text-muted-foreground grid grid-cols-2 md:grid-cols-4 gap-x-4">
+                        {latest.metal_slabs.map((slab, i) => (
+                          <li key={i}>
+                            Metal {formatDepreciationSlab(latest.metal_slabs, i)}: {slab.percent}%
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setEditing(nextVersionOf(latest))}>
+                      <CopyPlus className="w-4 h-4 mr-2" />
+                      New version
+                    </Button>
+                  </div>
+
+                  <div className="space-y-1">
+                    {versions.map((version) => (
+                      <div key={version.id} className="flex items-center justify-between text-sm bg-muted/50 rounded px-3 py-1">
+                        <span>
+                          v{version.version} · effective {format(new Date(version.effective_from), "dd MMM yyyy")}
+                          {version.notes && <span className="text-muted-foreground"> · {version.notes}</span>}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() =>
+                            confirm(`Delete version ${version.version} of "${version.name}"?`) &&
+                            deleteMutation.mutate(version.id)
+                          }
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New depreciation rule version</DialogTitle>
+            <DialogDescription>
+              Applies to accidents on or after the effective date. Assessments pick up the new rates when next opened,
+              except for rates the surveyor has overridden.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="dep-name">Name</Label>
+                  <Input id="dep-name" value={editing.name} onChange={(e) => update({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Insurer</Label>
+                  <Select
+                    value={editing.insurer_id ?? ANY}
+                    onValueChange={(value) => update({ insurer_id: value === ANY ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All insurers</SelectItem>
+                      {insurers.map((insurer) => (
+                        <SelectItem key={insurer.id} value={insurer.id}>
+                          {insurer.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dep-effective">Effective from</Label>
+                  <Input
+                    id="dep-effective"
+                    type="date"
+                    value={editing.effective_from}
+                    onChange={(e) => update({ effective_from: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="dep-glass">Glass (%)</Label>
+                  <Input
+                    id="dep-glass"
+                    type="number"
+                    step="0.01"
+                    value={editing.glass_percent}
+                    onChange={(e) => update({ glass_percent: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dep-plastic">Rubber / plastic (%)</Label>
+                  <Input
+                    id="dep-plastic"
+                    type="number"
+                    step="0.01"
+                    value={editing.rubber_plastic_percent}
+                    onChange={(e) => update({ rubber_plastic_percent: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dep-fibre">Fibreglass (%)</Label>
+                  <Input
+                    id="dep-fibre"
+                    type="number"
+                    step="0.01"
+                    value={editing.fibreglass_percent}
+                    onChange={(e) => update({ fibreglass_percent: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Metal parts by vehicle age</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addSlab}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add slab
+                  </Button>
+                </div>
+                <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                  <span>Age</span>
+                  <span>Up to (months)</span>
+                  <span>Depreciation (%)</span>
+                  <span />
+                </div>
+                {editing.metal_slabs.map((slab, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                    <span className="text-sm">{formatDepreciationSlab(editing.metal_slabs, i)}</span>
+                    <Input
+                      type="number"
+                      value={slab.up_to_months ?? ""}
+                      placeholder="No limit"
+                      disabled={i === editing.metal_slabs.length - 1}
+                      onChange={(e) => updateSlab(i, { up_to_months: parseOptional(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={slab.percent}
+                      onChange={(e) => updateSlab(i, { percent: Number(e.target.value) })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeSlab(i)}
+                      disabled={editing.metal_slabs.length === 1}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {slabProblem && <p className="text-sm text-destructive">{slabProblem}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dep-notes">What changed</Label>
+                <Textarea
+                  id="dep-notes"
+                  rows={2}
+                  value={editing.notes ?? ""}
+                  onChange={(e) => update({ notes: e.target.value || null })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveMutation.isPending || !editing?.name.trim() || !editing?.effective_from || !!slabProblem}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save version"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ListX, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  useDeleteDisallowanceReason,
+  useDisallowanceReasons,
+  useSaveDisallowanceReason,
+} from "@/hooks/useDisallowanceReasons";
+import { DisallowanceReasonInput, DisallowanceReasonScope } from "@/lib/assessmentVariance";
+
+const SCOPE_LABELS: Record<DisallowanceReasonScope, string> = {
+  both: "Spares and labour",
+  spare: "Spares only",
+  labour: "Labour only",
+};
+
+export const DisallowanceReasonsManager = () => {
+  const { data: reasons = [], isLoading } = useDisallowanceReasons();
+  const saveMutation = useSaveDisallowanceReason();
+  const deleteMutation = useDeleteDisallowanceReason();
+  const [editing, setEditing] = useState<DisallowanceReasonInput | null>(null);
+
+  const update = (changes: Partial<DisallowanceReasonInput>) =>
+    setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveMutation.mutate({ ...editing, label: editing.label.trim() }, { onSuccess: () => setEditing(null) });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ListX className="w-5 h-5" />
+            Disallowance Reasons
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Reasons a surveyor can give for assessing a line below the estimate. They are printed in the variance
+            annexure of the report. Inactive reasons stay on assessments that already use them.
+          </p>
+        </div>
+        <Button
+          onClick={() =>
+            setEditing({
+              label: "",
+              description: null,
+              applies_to: "both",
+              sort_order: (reasons[reasons.length - 1]?.sort_order ?? 0) + 1,
+              is_active: true,
+            })
+          }
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add reason
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : reasons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reasons yet.</p>
+        ) : (
+          reasons.map((reason) => (
+            <div key={reason.id} className="flex items-start justify-between gap-4 text-sm bg-muted/50 rounded px-3 py-2">
+              <div>
+                <div className="flex items-center gap-2 font-medium">
+                  {reason.label}
+                  <Badge variant="outline">{SCOPE_LABELS[reason.applies_to]}</Badge>
+                  {!reason.is_active && <Badge variant="secondary">Inactive</Badge>}
+                </div>
+                {reason.description && <p className="text-muted-foreground">{reason.description}</p>}
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setEditing({
+                      id: reason.id,
+                      label: reason.label,
+                      description: reason.description,
+                      applies_to: reason.applies_to,
+                      sort_order: reason.sort_order,
+                      is_active: reason.is_active,
+                    })
+                  }
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => confirm(`Remove "${reason.label}"?`) && deleteMutation.mutate(reason.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit reason" : "New reason"}</DialogTitle>
+            <DialogDescription>Shown to surveyors in the assessment variance view.</DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reason-label">Reason</Label>
+                <Input id="reason-label" value={editing.label} onChange={(e) => update({ label: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reason-description">Guidance (optional)</Label>
+                <Textarea
+                  id="reason-description"
+                  rows={2}
+                  value={editing.description ?? ""}
+                  onChange={(e) => update({ description: e.target.value || null })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Applies to</Label>
+                  <Select
+                    value={editing.applies_to}
+                    onValueChange={(value) => update({ applies_to: value as DisallowanceReasonScope })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SCOPE_LABELS) as DisallowanceReasonScope[]).map((scope) => (
+                        <SelectItem key={scope} value={scope}>
+                          {SCOPE_LABELS[scope]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reason-order">Order</Label>
+                  <Input
+                    id="reason-order"
+                    type="number"
+                    value={editing.sort_order}
+                    onChange={(e) => update({ sort_order: Number(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={editing.is_active} onCheckedChange={(checked) => update({ is_active: checked })} />
+                Active
+              </label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!editing?.label.trim() || saveMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
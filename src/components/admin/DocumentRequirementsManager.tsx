@@ -6,25 +6,28 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Trash2, Plus, FileText, Save, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { usePolicyTypes } from "@/hooks/useClaims";
+import { useExtractionProfiles } from "@/hooks/useExtractionProfiles";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-
-interface PolicyType {
-  id: string;
-  name: string;
-  description: string;
-  parent_id?: string;
-  required_documents?: string[];
-}
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DEFAULT_MAX_SIZE_MB,
+  DocumentRule,
+  DocumentRules,
+  FILE_TYPE_GROUPS,
+} from "@/lib/documentRules";
 
 export const DocumentRequirementsManager = () => {
   const { data: allPolicyTypes = [], isLoading, refetch } = usePolicyTypes();
   const [selectedPolicyId, setSelectedPolicyId] = useState<string>("");
   const [documentInput, setDocumentInput] = useState("");
   const [documents, setDocuments] = useState<string[]>([]);
+  const [rules, setRules] = useState<DocumentRules>({});
   const [saving, setSaving] = useState(false);
+  const { data: extractionProfiles = [] } = useExtractionProfiles();
 
   const selectedPolicy = allPolicyTypes.find((pt) => pt.id === selectedPolicyId);
 
@@ -32,6 +35,33 @@ export const DocumentRequirementsManager = () => {
     setSelectedPolicyId(policyId);
     const policy = allPolicyTypes.find((pt) => pt.id === policyId);
     setDocuments(policy?.required_documents || []);
+    setRules(policy?.document_rules || {});
+  };
+
+  const updateRule = (doc: string, patch: Partial<DocumentRule>) => {
+    setRules((prev) => ({ ...prev, [doc]: { ...prev[doc], ...patch } }));
+  };
+
+  const isGroupAllowed = (doc: string, groupKey: string) => {
+    const allowed = rules[doc]?.allowed_types;
+    // No explicit list means every group is accepted
+    if (!allowed?.length) return true;
+    return FILE_TYPE_GROUPS[groupKey].mimeTypes.every((m) => allowed.includes(m));
+  };
+
+  const toggleGroup = (doc: string, groupKey: string, checked: boolean) => {
+    const current = Object.keys(FILE_TYPE_GROUPS).filter((key) => isGroupAllowed(doc, key));
+    const next = checked
+      ? [...new Set([...current, groupKey])]
+      : current.filter((key) => key !== groupKey);
+    if (next.length === 0) {
+      toast.error("At least one file type must be allowed");
+      return;
+    }
+    const allowed = next.length === Object.keys(FILE_TYPE_GROUPS).length
+      ? undefined
+      : next.flatMap((key) => FILE_TYPE_GROUPS[key].mimeTypes);
+    updateRule(doc, { allowed_types: allowed });
   };
 
   const handleAddDocument = () => {
@@ -43,7 +73,13 @@ export const DocumentRequirementsManager = () => {
   };
 
   const handleRemoveDocument = (index: number) => {
+    const removed = documents[index];
     setDocuments(documents.filter((_, i) => i !== index));
+    setRules((prev) => {
+      const next = { ...prev };
+      delete next[removed];
+      return next;
+    });
   };
 
   const handleSave = async () => {
@@ -53,7 +89,7 @@ export const DocumentRequirementsManager = () => {
     try {
       const { error } = await supabase
         .from("policy_types")
-        .update({ required_documents: documents })
+        .update({ required_documents: documents, document_rules: rules as Json })
         .eq("id", selectedPolicyId);
 
       if (error) throw error;
@@ -84,7 +120,7 @@ export const DocumentRequirementsManager = () => {
           Manage Document Requirements by Policy Type
         </CardTitle>
         <CardDescription>
-          Define which documents are required for each policy type/subtype. These will be shown to users when creating claims.
+          Define which documents are required for each policy type/subtype, which file types and sizes public upload links accept for each, and which extraction profile reads it.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -161,20 +197,79 @@ export const DocumentRequirementsManager = () => {
                   {documents.map((doc, index) => (
                     <div
                       key={index}
-                      className="flex items-center justify-between p-3 bg-white border rounded-lg hover:shadow-sm transition-shadow"
+                      className="p-3 bg-white border rounded-lg hover:shadow-sm transition-shadow space-y-2"
                     >
-                      <div className="flex items-center gap-2">
-                        <FileText className="w-4 h-4 text-muted-foreground" />
-                        <span>{doc}</span>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <FileText className="w-4 h-4 text-muted-foreground" />
+                          <span>{doc}</span>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveDocument(index)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 pl-6 text-sm">
+                        <label className="flex items-center gap-1.5 cursor-pointer font-medium">
+                          <Checkbox
+                            checked={!!rules[doc]?.mandatory}
+                            onCheckedChange={(checked) => updateRule(doc, { mandatory: checked === true || undefined })}
+                          />
+                          Mandatory
+                        </label>
+                        {Object.entries(FILE_TYPE_GROUPS).map(([key, group]) => (
+                          <label key={key} className="flex items-center gap-1.5 cursor-pointer">
+                            <Checkbox
+                              checked={isGroupAllowed(doc, key)}
+                              onCheckedChange={(checked) => toggleGroup(doc, key, checked === true)}
+                            />
+                            {group.label}
+                          </label>
+                        ))}
+                        <div className="flex items-center gap-1.5">
+                          <span className="text-muted-foreground">Max size</span>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="h-8 w-20"
+                            placeholder={String(DEFAULT_MAX_SIZE_MB)}
+                            value={rules[doc]?.max_size_mb ?? ""}
+                            onChange={(e) =>
+                              updateRule(doc, {
+                                max_size_mb: e.target.value ? Number(e.target.value) : undefined,
+                              })
+                            }
+                          />
+                          <span className="text-muted-foreground">MB</span>
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                          <span className="text-muted-foreground">Extraction</span>
+                          <Select
+                            value={rules[doc]?.extraction_profile_id ?? "none"}
+                            onValueChange={(value) =>
+                              updateRule(doc, { extraction_profile_id: value === "none" ? undefined : value })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-56">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">No extraction profile</SelectItem>
+                              {extractionProfiles
+                                .filter((p) => p.is_active || p.id === rules[doc]?.extraction_profile_id)
+                                .map((p) => (
+                                  <SelectItem key={p.id} value={p.id}>
+                                    {p.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleRemoveDocument(index)}
-                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                      >
-                        <X className="w-4 h-4" />
-                      </Button>
                     </div>
                   ))}
                 </div>
@@ -187,6 +282,7 @@ export const DocumentRequirementsManager = () => {
                 onClick={() => {
                   setSelectedPolicyId("");
                   setDocuments([]);
+                  setRules({});
                   setDocumentInput("");
                 }}
               >
@@ -231,6 +327,7 @@ export const DocumentRequirementsManager = () => {
                       {pt.required_documents?.map((doc, i) => (
                         <Badge key={i} variant="secondary" className="text-xs">
                           {doc}
+                          {pt.document_rules?.[doc]?.mandatory && " *"}
                         </Badge>
                       ))}
                     </div>
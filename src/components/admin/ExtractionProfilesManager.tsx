@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileSearch, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  useDeleteExtractionProfile,
+  useExtractionProfiles,
+  useSaveExtractionProfile,
+} from "@/hooks/useExtractionProfiles";
+import {
+  EXTRACTION_VALUE_TYPE_LABELS,
+  ExtractionFieldMapping,
+  ExtractionProfileInput,
+  ExtractionValueType,
+  validateExtractionFields,
+} from "@/lib/extractionProfiles";
+
+const EMPTY_MAPPING: ExtractionFieldMapping = { key: "", field: "", type: "text" };
+
+export const ExtractionProfilesManager = () => {
+  const { data: profiles = [], isLoading } = useExtractionProfiles();
+  const saveMutation = useSaveExtractionProfile();
+  const deleteMutation = useDeleteExtractionProfile();
+  const [editing, setEditing] = useState<ExtractionProfileInput | null>(null);
+
+  const update = (changes: Partial<ExtractionProfileInput>) =>
+    setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const updateMapping = (index: number, changes: Partial<ExtractionFieldMapping>) =>
+    setEditing((prev) =>
+      prev ? { ...prev, fields: prev.fields.map((f, i) => (i === index ? { ...f, ...changes } : f)) } : prev
+    );
+
+  const errors = editing ? validateExtractionFields(editing.fields) : [];
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveMutation.mutate(
+      { ...editing, name: editing.name.trim(), document_type: editing.document_type.trim() },
+      { onSuccess: () => setEditing(null) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FileSearch className="w-5 h-5" />
+            Extraction Profiles
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            What to read from each kind of document and which claim field each value goes to. Pick a profile for a
+            document requirement under Document Requirements.
+          </p>
+        </div>
+        <Button
+          onClick={() =>
+            setEditing({ name: "", document_type: "", description: null, fields: [{ ...EMPTY_MAPPING }], is_active: true })
+          }
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add profile
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : profiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No profiles yet.</p>
+        ) : (
+          profiles.map((profile) => (
+            <div key={profile.id} className="flex items-start justify-between gap-4 text-sm bg-muted/50 rounded px-3 py-2">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 font-medium">
+                  {profile.name}
+                  <Badge variant="outline">{profile.document_type}</Badge>
+                  {!profile.is_active && <Badge variant="secondary">Inactive</Badge>}
+                </div>
+                {profile.description && <p className="text-muted-foreground">{profile.description}</p>}
+                <div className="flex flex-wrap gap-1">
+                  {profile.fields.map((f) => (
+                    <span key={f.key} className="font-mono text-xs bg-white border rounded px-1.5 py-0.5">
+                      {f.key} → {f.field}
+                    </span>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setEditing({
+                      id: profile.id,
+                      name: profile.name,
+                      document_type: profile.document_type,
+                      description: profile.description,
+                      fields: profile.fields,
+                      is_active: profile.is_active,
+                    })
+                  }
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => confirm(`Remove "${profile.name}"?`) && deleteMutation.mutate(profile.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit profile" : "New profile"}</DialogTitle>
+            <DialogDescription>
+              Keys are sent to the extraction service; values are converted to the chosen type before they are saved to
+              the claim.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-name">Name</Label>
+                  <Input id="profile-name" value={editing.name} onChange={(e) => update({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-document-type">Document type</Label>
+                  <Input
+                    id="profile-document-type"
+                    placeholder="e.g. Commercial Invoice"
+                    value={editing.document_type}
+                    onChange={(e) => update({ document_type: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-description">Notes (optional)</Label>
+                <Textarea
+                  id="profile-description"
+                  rows={2}
+                  value={editing.description ?? ""}
+                  onChange={(e) => update({ description: e.target.value || null })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_150px_40px] gap-2 text-xs font-medium text-muted-foreground">
+                  <span>Extraction key</span>
+                  <span>Form field</span>
+                  <span>Type</span>
+                  <span />
+                </div>
+                {editing.fields.map((mapping, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_150px_40px] gap-2">
+                    <Input
+                      className="font-mono"
+                      placeholder="invoice_no"
+                      value={mapping.key}
+                      onChange={(e) => updateMapping(i, { key: e.target.value })}
+                    />
+                    <Input
+                      className="font-mono"
+                      placeholder="invoice_number"
+                      value={mapping.field}
+                      onChange={(e) => updateMapping(i, { field: e.target.value })}
+                    />
+                    <Select
+                      value={mapping.type}
+                      onValueChange={(value) => updateMapping(i, { type: value as ExtractionValueType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(EXTRACTION_VALUE_TYPE_LABELS) as ExtractionValueType[]).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {EXTRACTION_VALUE_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => update({ fields: editing.fields.filter((_, j) => j !== i) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => update({ fields: [...editing.fields, { ...EMPTY_MAPPING }] })}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add field
+                </Button>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5">
+                  {errors.map((error) => (
+                    <li key={error}>{error}</li>
+                  ))}
+                </ul>
+              )}
+
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={editing.is_active} onCheckedChange={(checked) => update({ is_active: checked })} />
+                Active
+              </label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={
+                !editing?.name.trim() || !editing?.document_type.trim() || errors.length > 0 || saveMutation.isPending
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { IndianRupee, Pencil, Plus, Trash2 } from "lucide-react";
+import { useDeleteFeeSchedule, useFeeSchedules, useSaveFeeSchedule } from "@/hooks/useFeeSchedules";
+import { useInsurers } from "@/hooks/useInsurers";
+import { usePolicyTypes } from "@/hooks/useClaims";
+import { FeeSchedule, FeeScheduleInput, FeeSlab, formatSlabRange, validateSlabs } from "@/lib/feeSchedule";
+
+const ANY = "any";
+
+const emptySchedule = (): FeeScheduleInput => ({
+  name: "",
+  insurer_id: null,
+  policy_type_id: null,
+  is_active: true,
+  slabs: [{ from: 0, to: null, base_fee: 0, percent: 0 }],
+  minimum_fee: null,
+  maximum_fee: null,
+  reinspection_fee: 0,
+  conveyance_per_visit: 0,
+  travel_rate_per_km: 0,
+  photo_rate: 0,
+});
+
+const toInput = ({ insurer_name, policy_type_name, ...schedule }: FeeSchedule): FeeScheduleInput => schedule;
+
+const parseOptional = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export const FeeScheduleManager = () => {
+  const { data: schedules = [], isLoading } = useFeeSchedules();
+  const { data: insurers = [] } = useInsurers();
+  const { data: policyTypes = [] } = usePolicyTypes();
+  const saveMutation = useSaveFeeSchedule();
+  const deleteMutation = useDeleteFeeSchedule();
+  const [editing, setEditing] = useState<FeeScheduleInput | null>(null);
+
+  const update = (changes: Partial<FeeScheduleInput>) => setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const updateSlab = (index: number, changes: Partial<FeeSlab>) => {
+    if (!editing) return;
+    const slabs = editing.slabs.map((s, i) => (i === index ? { ...s, ...changes } : s));
+    // Keep slabs contiguous: the next slab starts where this one ends
+    if (changes.to !== undefined && slabs[index + 1] && changes.to !== null) {
+      slabs[index + 1] = { ...slabs[index + 1], from: changes.to };
+    }
+    update({ slabs });
+  };
+
+  const addSlab = () => {
+    if (!editing) return;
+    const last = editing.slabs[editing.slabs.length - 1];
+    const start = last ? (last.to ?? last.from + 100000) : 0;
+    const slabs = last ? [...editing.slabs.slice(0, -1), { ...last, to: start }] : [];
+    update({ slabs: [...slabs, { from: start, to: null, base_fee: last?.base_fee ?? 0, percent: last?.percent ?? 0 }] });
+  };
+
+  const removeSlab = (index: number) => {
+    if (!editing || editing.slabs.length === 1) return;
+    const slabs = editing.slabs.filter((_, i) => i !== index);
+    slabs[slabs.length - 1] = { ...slabs[slabs.length - 1], to: null };
+    if (index === 0) slabs[0] = { ...slabs[0], from: 0 };
+    update({ slabs });
+  };
+
+  const slabProblem = editing ? validateSlabs(editing.slabs) : null;
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveMutation.mutate(editing, { onSuccess: () => setEditing(null) });
+  };
+
+  const scopeLabel = (s: FeeSchedule) =>
+    [s.insurer_name ?? "All insurers", s.policy_type_name ?? "All policy types"].join(" · ");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <IndianRupee className="w-5 h-5" />
+              Fee Schedules
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Survey fees are computed from the slab matching the estimated loss. A schedule for a specific insurer
+              or policy type overrides the default.
+            </p>
+          </div>
+          <Button onClick={() => setEditing(emptySchedule())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New schedule
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : schedules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No fee schedules yet.</p>
+          ) : (
+            schedules.map((schedule) => (
+              <div key={schedule.id} className="border rounded-lg p-4 flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{schedule.name}</h3>
+                    {!schedule.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{scopeLabel(schedule)}</p>
+                  <ul className="text-sm space-y-0.5">
+                    {schedule.slabs.map((slab, i) => (
+                      <li key={i}>
+                        Loss {formatSlabRange(slab)}: ₹{slab.base_fee.toLocaleString("en-IN")} + {slab.percent}% of
+                        excess
+                      </li>
+                    ))}
+                  </ul>
+                  {(schedule.minimum_fee !== null || schedule.maximum_fee !== null) && (
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.minimum_fee !== null && `Minimum ₹${schedule.minimum_fee.toLocaleString("en-IN")}`}
+                      {schedule.minimum_fee !== null && schedule.maximum_fee !== null && " · "}
+                      {schedule.maximum_fee !== null && `Cap ₹${schedule.maximum_fee.toLocaleString("en-IN")}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(toInput(schedule))}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => confirm(`Delete "${schedule.name}"?`) && deleteMutation.mutate(schedule.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit fee schedule" : "New fee schedule"}</DialogTitle>
+            <DialogDescription>
+              Fee = slab base fee + percentage of the loss above the slab start, kept between the minimum and cap.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fee-schedule-name">Name</Label>
+                  <Input
+                    id="fee-schedule-name"
+                    value={editing.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Insurer</Label>
+                  <Select
+                    value={editing.insurer_id ?? ANY}
+                    onValueChange={(value) => update({ insurer_id: value === ANY ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All insurers</SelectItem>
+                      {insurers.map((insurer) => (
+                        <SelectItem key={insurer.id} value={insurer.id}>
+                          {insurer.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Policy type</Label>
+                  <Select
+                    value={editing.policy_type_id ?? ANY}
+                    onValueChange={(value) => update({ policy_type_id: value === ANY ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>All policy types</SelectItem>
+                      {policyTypes.map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Slabs by estimated loss</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addSlab}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add slab
+                  </Button>
+                </div>
+                <div className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                  <span>From (₹)</span>
+                  <span>To (₹)</span>
+                  <span>Base fee (₹)</span>
+                  <span>% of excess</span>
+                  <span />
+                </div>
+                {editing.slabs.map((slab, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+                    <Input type="number" value={slab.from} disabled />
+                    <Input
+                      type="number"
+                      value={slab.to ?? ""}
+                      placeholder="No limit"
+                      disabled={i === editing.slabs.length - 1}
+                      onChange={(e) => updateSlab(i, { to: parseOptional(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={slab.base_fee}
+                      onChange={(e) => updateSlab(i, { base_fee: Number(e.target.value) })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={slab.percent}
+                      onChange={(e) => updateSlab(i, { percent: Number(e.target.value) })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeSlab(i)}
+                      disabled={editing.slabs.length === 1}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {slabProblem && <p className="text-sm text-destructive">{slabProblem}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fee-min">Minimum fee (₹)</Label>
+                  <Input
+                    id="fee-min"
+                    type="number"
+                    value={editing.minimum_fee ?? ""}
+                    placeholder="None"
+                    onChange={(e) => update({ minimum_fee: parseOptional(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fee-max">Fee cap (₹)</Label>
+                  <Input
+                    id="fee-max"
+                    type="number"
+                    value={editing.maximum_fee ?? ""}
+                    placeholder="None"
+                    onChange={(e) => update({ maximum_fee: parseOptional(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fee-reinspection">Reinspection fee (₹)</Label>
+                  <Input
+                    id="fee-reinspection"
+                    type="number"
+                    value={editing.reinspection_fee}
+                    onChange={(e) => update({ reinspection_fee: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fee-conveyance">Conveyance per visit (₹)</Label>
+                  <Input
+                    id="fee-conveyance"
+                    type="number"
+                    value={editing.conveyance_per_visit}
+                    onChange={(e) => update({ conveyance_per_visit: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fee-travel">Travel rate (₹/km)</Label>
+                  <Input
+                    id="fee-travel"
+                    type="number"
+                    step="0.001"
+                    value={editing.travel_rate_per_km}
+                    onChange={(e) => update({ travel_rate_per_km: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fee-photo">Per photograph (₹)</Label>
+                  <Input
+                    id="fee-photo"
+                    type="number"
+                    value={editing.photo_rate}
+                    onChange={(e) => update({ photo_rate: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="fee-active"
+                  checked={editing.is_active}
+                  onCheckedChange={(checked) => update({ is_active: checked })}
+                />
+                <Label htmlFor="fee-active">Active</Label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saveMutation.isPending || !editing?.name.trim() || !!slabProblem}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
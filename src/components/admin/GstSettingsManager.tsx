@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Receipt, Save } from "lucide-react";
+import { useGstSettings, useSaveGstSettings, useUpdateInsurerGstin } from "@/hooks/useGstSettings";
+import { Insurer, useInsurers } from "@/hooks/useInsurers";
+import { GstSettingsInput, gstStateName, stateCodeFromGstin, validateGstin } from "@/lib/gst";
+
+const emptySettings: GstSettingsInput = {
+  gst_registered: false,
+  gstin: "",
+  legal_name: "",
+  trade_name: "",
+  address: "",
+  location: "",
+  pincode: "",
+  state_code: null,
+  sac_code: "997162",
+  gst_rate: 18,
+};
+
+const InsurerGstinRow = ({ insurer }: { insurer: Insurer }) => {
+  const updateMutation = useUpdateInsurerGstin();
+  const [gstin, setGstin] = useState(insurer.gstin || "");
+  const problem = gstin.trim() ? validateGstin(gstin) : null;
+  const changed = gstin.trim().toUpperCase() !== (insurer.gstin || "");
+
+  return (
+    <div className="flex items-center gap-3">
+      <span className="w-64 text-sm truncate">{insurer.name}</span>
+      <Input
+        value={gstin}
+        onChange={(e) => setGstin(e.target.value.toUpperCase())}
+        placeholder="GSTIN"
+        className={`w-56 font-mono ${problem ? "border-destructive" : ""}`}
+        maxLength={15}
+      />
+      <span className="text-xs text-muted-foreground w-40 truncate">
+        {problem ?? gstStateName(stateCodeFromGstin(gstin))}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={!changed || !!problem || updateMutation.isPending}
+        onClick={() => updateMutation.mutate({ id: insurer.id, gstin })}
+      >
+        Save
+      </Button>
+    </div>
+  );
+};
+
+export const GstSettingsManager = () => {
+  const { data: settings, isLoading } = useGstSettings();
+  const { data: insurers = [] } = useInsurers();
+  const saveMutation = useSaveGstSettings();
+  const [form, setForm] = useState<GstSettingsInput>(emptySettings);
+
+  useEffect(() => {
+    if (!settings) return;
+    const { id, created_at, updated_at, updated_by, ...values } = settings;
+    setForm(values);
+  }, [settings]);
+
+  const update = (changes: Partial<GstSettingsInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const gstinProblem = form.gstin?.trim() ? validateGstin(form.gstin) : null;
+  const stateCode = stateCodeFromGstin(form.gstin);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="w-5 h-5" />
+            GST Registration
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Used on fee bills issued as tax invoices and in the e-invoice export. The state in the GSTIN decides
+            between CGST/SGST and IGST.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="flex items-center gap-3">
+            <Switch checked={form.gst_registered} onCheckedChange={(checked) => update({ gst_registered: checked })} />
+            <span className="text-sm">Registered under GST: new fee bills are tax invoices</span>
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="gst-gstin">GSTIN</Label>
+              <Input
+                id="gst-gstin"
+                value={form.gstin || ""}
+                onChange={(e) => update({ gstin: e.target.value.toUpperCase() })}
+                className={`font-mono ${gstinProblem ? "border-destructive" : ""}`}
+                maxLength={15}
+              />
+              <p className={`text-xs ${gstinProblem ? "text-destructive" : "text-muted-foreground"}`}>
+                {gstinProblem ?? (stateCode ? `State: ${stateCode} ${gstStateName(stateCode)}` : "")}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="gst-sac">SAC code</Label>
+                <Input id="gst-sac" value={form.sac_code} onChange={(e) => update({ sac_code: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="gst-rate">GST rate (%)</Label>
+                <Input
+                  id="gst-rate"
+                  type="number"
+                  step="0.01"
+                  value={form.gst_rate}
+                  onChange={(e) => update({ gst_rate: Number(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst-legal-name">Legal name</Label>
+              <Input
+                id="gst-legal-name"
+                value={form.legal_name || ""}
+                onChange={(e) => update({ legal_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst-trade-name">Trade name</Label>
+              <Input
+                id="gst-trade-name"
+                value={form.trade_name || ""}
+                onChange={(e) => update({ trade_name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="gst-address">Address</Label>
+              <Textarea
+                id="gst-address"
+                rows={2}
+                value={form.address || ""}
+                onChange={(e) => update({ address: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst-location">City / location</Label>
+              <Input
+                id="gst-location"
+                value={form.location || ""}
+                onChange={(e) => update({ location: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst-pincode">PIN code</Label>
+              <Input
+                id="gst-pincode"
+                value={form.pincode || ""}
+                onChange={(e) => update({ pincode: e.target.value.replace(/\D/g, "") })}
+                maxLength={6}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => saveMutation.mutate(form)} disabled={!!gstinProblem || saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Insurer GSTINs</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Pre-filled as the recipient GSTIN on tax invoices. A bill can use a different GSTIN for an office in
+            another state.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {insurers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No insurers yet.</p>
+          ) : (
+            insurers.map((insurer) => <InsurerGstinRow key={insurer.id} insurer={insurer} />)
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
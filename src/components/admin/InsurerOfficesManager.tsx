@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { useInsurers } from "@/hooks/useInsurers";
+import { useDeleteInsurerOffice, useInsurerOffices, useSaveInsurerOffice } from "@/hooks/useOrganisationProfiles";
+import { InsurerOfficeInput } from "@/lib/organisationProfiles";
+
+export const InsurerOfficesManager = () => {
+  const { data: insurers = [] } = useInsurers();
+  const { data: offices = [], isLoading } = useInsurerOffices();
+  const saveMutation = useSaveInsurerOffice();
+  const deleteMutation = useDeleteInsurerOffice();
+  const [editing, setEditing] = useState<InsurerOfficeInput | null>(null);
+
+  const update = (changes: Partial<InsurerOfficeInput>) => setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+  const editingInsurer = insurers.find((i) => i.id === editing?.insurer_id);
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveMutation.mutate(editing, { onSuccess: () => setEditing(null) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="w-5 h-5" />
+          Insurer Offices
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The office a fee bill is addressed to. A bill uses the insurer's default office unless another is picked.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : insurers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No insurers yet.</p>
+        ) : (
+          insurers.map((insurer) => {
+            const own = offices.filter((o) => o.insurer_id === insurer.id);
+            return (
+              <div key={insurer.id} className="border rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">{insurer.name}</h3>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setEditing({ insurer_id: insurer.id, office_name: "", address: "", is_default: own.length === 0 })
+                    }
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add office
+                  </Button>
+                </div>
+                {own.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No offices. Fee bills show only the insurer's name.</p>
+                ) : (
+                  own.map((office) => (
+                    <div key={office.id} className="flex items-start justify-between gap-4 text-sm bg-muted/50 rounded px-3 py-2">
+                      <div>
+                        <div className="flex items-center gap-2 font-medium">
+                          {office.office_name}
+                          {office.is_default && <Badge variant="outline">Default</Badge>}
+                        </div>
+                        <p className="text-muted-foreground whitespace-pre-line">{office.address}</p>
+                      </div>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            setEditing({
+                              id: office.id,
+                              insurer_id: office.insurer_id,
+                              office_name: office.office_name,
+                              address: office.address,
+                              is_default: office.is_default,
+                            })
+                          }
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => confirm("Remove this office?") && deleteMutation.mutate(office.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit office" : "New office"}</DialogTitle>
+            <DialogDescription>{editingInsurer?.name}</DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="office-name">Office</Label>
+                <Input
+                  id="office-name"
+                  value={editing.office_name}
+                  onChange={(e) => update({ office_name: e.target.value })}
+                  placeholder="D.O. Tatibandh"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="office-address">Address</Label>
+                <Textarea id="office-address" rows={3} value={editing.address} onChange={(e) => update({ address: e.target.value })} />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={editing.is_default} onCheckedChange={(checked) => update({ is_default: checked })} />
+                Default office for this insurer
+              </label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!editing?.office_name.trim() || !editing?.address.trim() || saveMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Hash, Pencil, Plus } from "lucide-react";
+import { useInvoiceSeries, useSaveInvoiceSeries } from "@/hooks/useFeeInvoices";
+import { InvoiceSeries, InvoiceSeriesInput, financialYearOf, formatInvoiceNumber } from "@/lib/feeInvoices";
+
+const emptySeries = (): InvoiceSeriesInput => ({
+  name: "",
+  prefix: "",
+  number_format: "{prefix}/{fy}/{seq}",
+  sequence_padding: 4,
+  is_default: false,
+  is_active: true,
+});
+
+const toInput = ({ id, name, prefix, number_format, sequence_padding, is_default, is_active }: InvoiceSeries) => ({
+  id,
+  name,
+  prefix,
+  number_format,
+  sequence_padding,
+  is_default,
+  is_active,
+});
+
+export const InvoiceSeriesManager = () => {
+  const { data: seriesList = [], isLoading } = useInvoiceSeries();
+  const saveMutation = useSaveInvoiceSeries();
+  const [editing, setEditing] = useState<InvoiceSeriesInput | null>(null);
+
+  const currentYear = financialYearOf(new Date());
+  const update = (changes: Partial<InvoiceSeriesInput>) => setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const formatProblem = editing && !editing.number_format.includes("{seq}") ? "The format must contain {seq}" : null;
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveMutation.mutate(editing, { onSuccess: () => setEditing(null) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="w-5 h-5" />
+              Invoice Series
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Each surveyor firm issues fee bills from its own series. Numbers restart every financial year and are
+              allocated when a fee bill is finalized.
+            </p>
+          </div>
+          <Button onClick={() => setEditing(emptySeries())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New series
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : seriesList.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoice series yet. Fee bills cannot be finalized without one.</p>
+          ) : (
+            seriesList.map((series) => (
+              <div key={series.id} className="border rounded-lg p-4 flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{series.name}</h3>
+                    {series.is_default && <Badge>Default</Badge>}
+                    {!series.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <p className="text-sm font-mono text-muted-foreground">
+                    {formatInvoiceNumber(series, currentYear, 1)}, {formatInvoiceNumber(series, currentYear, 2)}, ...
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => setEditing(toInput(series))}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit invoice series" : "New invoice series"}</DialogTitle>
+            <DialogDescription>
+              Use {"{prefix}"}, {"{fy}"} and {"{seq}"} in the format. Changing it does not renumber issued invoices.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="series-name">Firm / series name</Label>
+                <Input id="series-name" value={editing.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="series-prefix">Prefix</Label>
+                  <Input
+                    id="series-prefix"
+                    value={editing.prefix}
+                    onChange={(e) => update({ prefix: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="series-format">Number format</Label>
+                  <Input
+                    id="series-format"
+                    value={editing.number_format}
+                    onChange={(e) => update({ number_format: e.target.value })}
+                    className={`font-mono ${formatProblem ? "border-destructive" : ""}`}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="series-padding">Sequence digits</Label>
+                <Input
+                  id="series-padding"
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={editing.sequence_padding}
+                  onChange={(e) => update({ sequence_padding: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="w-24"
+                />
+              </div>
+              <p className="text-sm">
+                First number in {currentYear}:{" "}
+                <span className="font-mono">{formatProblem ?? formatInvoiceNumber(editing, currentYear, 1)}</span>
+              </p>
+              <div className="flex items-center gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={editing.is_default} onCheckedChange={(checked) => update({ is_default: checked })} />
+                  Default series
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={editing.is_active} onCheckedChange={(checked) => update({ is_active: checked })} />
+                  Active
+                </label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!editing?.name.trim() || !editing?.prefix.trim() || !!formatProblem || saveMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
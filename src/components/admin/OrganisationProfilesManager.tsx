@@ -0,0 +1,596 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Building, Landmark, Loader2, Pencil, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  useDeleteOrganisationBankAccount,
+  useOrganisationProfiles,
+  useSaveOrganisationBankAccount,
+  useSaveOrganisationProfile,
+} from "@/hooks/useOrganisationProfiles";
+import { useInvoiceSeries } from "@/hooks/useFeeInvoices";
+import {
+  OrganisationBankAccount,
+  OrganisationBankAccountInput,
+  OrganisationProfileInput,
+  OrganisationProfileWithAccounts,
+  bankDisplayName,
+  uploadOrganisationAsset,
+} from "@/lib/organisationProfiles";
+import { gstStateName, stateCodeFromGstin, validateGstin } from "@/lib/gst";
+
+const NONE = "none";
+
+const emptyProfile = (): OrganisationProfileInput => ({
+  name: "",
+  firm_name: "",
+  licence_number: null,
+  licence_valid_until: null,
+  address: null,
+  phone: null,
+  email: null,
+  signatory_name: "",
+  signatory_designation: null,
+  signature_url: null,
+  letterhead_first_page_url: null,
+  letterhead_other_pages_url: null,
+  user_id: null,
+  invoice_series_id: null,
+  gstin: null,
+  gst_legal_name: null,
+  gst_trade_name: null,
+  gst_address: null,
+  gst_location: null,
+  gst_pincode: null,
+  gst_state_code: null,
+  is_default: false,
+  is_active: true,
+});
+
+const toInput = ({ bank_accounts: _accounts, created_at: _created, updated_at: _updated, ...profile }: OrganisationProfileWithAccounts) =>
+  profile;
+
+const emptyAccount = (profileId: string, primary: boolean): OrganisationBankAccountInput => ({
+  profile_id: profileId,
+  bank_name: "",
+  branch: null,
+  account_name: null,
+  account_number: "",
+  ifsc_code: "",
+  is_primary: primary,
+});
+
+const toAccountInput = ({ created_at: _created, ...account }: OrganisationBankAccount) => account;
+
+interface AssetFieldProps {
+  id: string;
+  label: string;
+  value: string | null;
+  folder: string;
+  onChange: (url: string | null) => void;
+}
+
+// Image URL with an upload button; the uploaded file's public URL replaces the value
+const AssetField = ({ id, label, value, folder, onChange }: AssetFieldProps) => {
+  const [uploading, setUploading] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      onChange(await uploadOrganisationAsset(file, folder));
+    } catch (error) {
+      console.error("[OrganisationProfilesManager] Upload error:", error);
+      toast.error("Failed to upload image: " + (error as Error).message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input id={id} value={value ?? ""} onChange={(e) => onChange(e.target.value || null)} placeholder="https://..." />
+        <Button type="button" variant="outline" size="icon" asChild disabled={uploading}>
+          <label className="cursor-pointer">
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+      </div>
+      {value && <img src={value} alt={label} className="h-16 max-w-full object-contain border rounded" />}
+    </div>
+  );
+};
+
+export const OrganisationProfilesManager = () => {
+  const { data: profiles = [], isLoading } = useOrganisationProfiles();
+  const { data: invoiceSeries = [] } = useInvoiceSeries();
+  const saveProfileMutation = useSaveOrganisationProfile();
+  const saveAccountMutation = useSaveOrganisationBankAccount();
+  const deleteAccountMutation = useDeleteOrganisationBankAccount();
+  const [editing, setEditing] = useState<OrganisationProfileInput | null>(null);
+  const [editingAccount, setEditingAccount] = useState<OrganisationBankAccountInput | null>(null);
+
+  // Surveyors a profile can belong to
+  const { data: surveyors = [] } = useQuery({
+    queryKey: ["organisation-surveyors"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("user_id, display_name, first_name, last_name");
+      if (error) throw error;
+      return (data || []).map((p) => ({
+        user_id: p.user_id,
+        name: p.display_name || [p.first_name, p.last_name].filter(Boolean).join(" ") || `user-${p.user_id.substring(0, 8)}`,
+      }));
+    },
+  });
+
+  const update = (changes: Partial<OrganisationProfileInput>) =>
+    setEditing((prev) => (prev ? { ...prev, ...changes } : prev));
+  const updateAccount = (changes: Partial<OrganisationBankAccountInput>) =>
+    setEditingAccount((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const gstinProblem = editing?.gstin?.trim() ? validateGstin(editing.gstin) : null;
+  const gstStateCode = stateCodeFromGstin(editing?.gstin);
+
+  const ifscProblem =
+    editingAccount?.ifsc_code && !/^[A-Z]{4}0[A-Z0-9]{6}$/.test(editingAccount.ifsc_code)
+      ? "IFSC is 4 letters, a zero and 6 letters or digits"
+      : null;
+
+  const handleSave = () => {
+    if (!editing) return;
+    saveProfileMutation.mutate(editing, { onSuccess: () => setEditing(null) });
+  };
+
+  const handleSaveAccount = () => {
+    if (!editingAccount) return;
+    saveAccountMutation.mutate(editingAccount, { onSuccess: () => setEditingAccount(null) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Building className="w-5 h-5" />
+              Organisation Profiles
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              The firm name, signatory, bank details and letterhead fee bills and reports are issued under. A surveyor
+              uses their own profile; everyone else uses the default.
+            </p>
+          </div>
+          <Button onClick={() => setEditing(emptyProfile())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New profile
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No organisation profiles yet.</p>
+          ) : (
+            profiles.map((profile) => (
+              <div key={profile.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{profile.name}</h3>
+                      {profile.is_default && <Badge>Default</Badge>}
+                      {!profile.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm">
+                      {profile.firm_name}
+                      {profile.licence_number && ` · Licence ${profile.licence_number}`}
+                      {profile.licence_valid_until &&
+                        ` (valid until ${format(new Date(profile.licence_valid_until), "dd MMM yyyy")})`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Signed by {profile.signatory_name}
+                      {profile.user_id &&
+                        ` · Used by ${surveyors.find((s) => s.user_id === profile.user_id)?.name ?? "a surveyor"}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {profile.signature_url && (
+                      <img src={profile.signature_url} alt="Signature" className="h-10 object-contain" />
+                    )}
+                    <Button variant="ghost" size="icon" onClick={() => setEditing(toInput(profile))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  {profile.bank_accounts.map((account) => (
+                    <div key={account.id} className="flex items-center justify-between gap-4 text-sm bg-muted/50 rounded px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <Landmark className="w-4 h-4 text-muted-foreground" />
+                        <span>{bankDisplayName(account)}</span>
+                        <span className="font-mono">A/C {account.account_number}</span>
+                        <span className="font-mono">IFSC {account.ifsc_code}</span>
+                        {account.is_primary && <Badge variant="outline">Primary</Badge>}
+                      </div>
+                      <div className="flex items-center">
+                        <Button variant="ghost" size="icon" onClick={() => setEditingAccount(toAccountInput(account))}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => confirm("Remove this bank account?") && deleteAccountMutation.mutate(account.id)}
+                          disabled={deleteAccountMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditingAccount(emptyAccount(profile.id, profile.bank_accounts.length === 0))}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add bank account
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit organisation profile" : "New organisation profile"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to fee bills and reports printed from now on. Finalized fee bills keep the details they were
+              issued with.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-name">Profile name</Label>
+                  <Input id="profile-name" value={editing.name} onChange={(e) => update({ name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-firm">Firm name</Label>
+                  <Input id="profile-firm" value={editing.firm_name} onChange={(e) => update({ firm_name: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-licence">IRDAI licence number</Label>
+                  <Input
+                    id="profile-licence"
+                    value={editing.licence_number ?? ""}
+                    onChange={(e) => update({ licence_number: e.target.value || null })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-licence-expiry">Licence valid until</Label>
+                  <Input
+                    id="profile-licence-expiry"
+                    type="date"
+                    value={editing.licence_valid_until ?? ""}
+                    onChange={(e) => update({ licence_valid_until: e.target.value || null })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-address">Address</Label>
+                <Textarea
+                  id="profile-address"
+                  rows={2}
+                  value={editing.address ?? ""}
+                  onChange={(e) => update({ address: e.target.value || null })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profile-phone">Phone</Label>
+                  <Input id="profile-phone" value={editing.phone ?? ""} onChange={(e) => update({ phone: e.target.value || null })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-email">Email</Label>
+                  <Input id="profile-email" value={editing.email ?? ""} onChange={(e) => update({ email: e.target.value || null })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-signatory">Signatory</Label>
+                  <Input
+                    id="profile-signatory"
+                    value={editing.signatory_name}
+                    onChange={(e) => update({ signatory_name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-designation">Designation</Label>
+                  <Input
+                    id="profile-designation"
+                    value={editing.signatory_designation ?? ""}
+                    onChange={(e) => update({ signatory_designation: e.target.value || null })}
+                    placeholder="Surveyor & Loss Assessor"
+                  />
+                </div>
+              </div>
+              <AssetField
+                id="profile-signature"
+                label="Signature image"
+                value={editing.signature_url}
+                folder={editing.id ?? "new"}
+                onChange={(url) => update({ signature_url: url })}
+              />
+              <AssetField
+                id="profile-letterhead-first"
+                label="Letterhead - first page background"
+                value={editing.letterhead_first_page_url}
+                folder={editing.id ?? "new"}
+                onChange={(url) => update({ letterhead_first_page_url: url })}
+              />
+              <AssetField
+                id="profile-letterhead-other"
+                label="Letterhead - footer-only background for later pages"
+                value={editing.letterhead_other_pages_url}
+                folder={editing.id ?? "new"}
+                onChange={(url) => update({ letterhead_other_pages_url: url })}
+              />
+              <div className="space-y-3 border rounded-lg p-3">
+                <div>
+                  <p className="text-sm font-medium">GST registration</p>
+                  <p className="text-xs text-muted-foreground">
+                    Supplier on this profile's tax invoices and e-invoices. Leave the GSTIN empty to use the firm
+                    registration from Settings &gt; GST.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-gstin">GSTIN</Label>
+                    <Input
+                      id="profile-gstin"
+                      value={editing.gstin ?? ""}
+                      onChange={(e) => update({ gstin: e.target.value.toUpperCase() || null })}
+                      className={`font-mono ${gstinProblem ? "border-destructive" : ""}`}
+                      maxLength={15}
+                    />
+                    <p className={`text-xs ${gstinProblem ? "text-destructive" : "text-muted-foreground"}`}>
+                      {gstinProblem ?? (gstStateCode ? `State: ${gstStateCode} ${gstStateName(gstStateCode)}` : "")}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-gst-legal-name">Legal name</Label>
+                    <Input
+                      id="profile-gst-legal-name"
+                      value={editing.gst_legal_name ?? ""}
+                      onChange={(e) => update({ gst_legal_name: e.target.value || null })}
+                      placeholder={editing.firm_name}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-gst-trade-name">Trade name</Label>
+                    <Input
+                      id="profile-gst-trade-name"
+                      value={editing.gst_trade_name ?? ""}
+                      onChange={(e) => update({ gst_trade_name: e.target.value || null })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="profile-gst-location">City / location</Label>
+                    <Input
+                      id="profile-gst-location"
+                      value={editing.gst_location ?? ""}
+                      onChange={(e) => update({ gst_location: e.target.value || null })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="profile-gst-address">Registered address</Label>
+                  <Textarea
+                    id="profile-gst-address"
+                    rows={2}
+                    value={editing.gst_address ?? ""}
+                    onChange={(e) => update({ gst_address: e.target.value || null })}
+                    placeholder={editing.address ?? ""}
+                  />
+                </div>
+                <div className="space-y-2 w-1/2 pr-2">
+                  <Label htmlFor="profile-gst-pincode">PIN code</Label>
+                  <Input
+                    id="profile-gst-pincode"
+                    value={editing.gst_pincode ?? ""}
+                    onChange={(e) => update({ gst_pincode: e.target.value.replace(/\D/g, "") || null })}
+                    maxLength={6}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Surveyor</Label>
+                  <Select value={editing.user_id ?? NONE} onValueChange={(value) => update({ user_id: value === NONE ? null : value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Anyone</SelectItem>
+                      {surveyors.map((surveyor) => (
+                        <SelectItem key={surveyor.user_id} value={surveyor.user_id}>
+                          {surveyor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Invoice series</Label>
+                  <Select
+                    value={editing.invoice_series_id ?? NONE}
+                    onValueChange={(value) => update({ invoice_series_id: value === NONE ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Default series</SelectItem>
+                      {invoiceSeries.map((series) => (
+                        <SelectItem key={series.id} value={series.id}>
+                          {series.name} ({series.prefix})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={editing.is_default} onCheckedChange={(checked) => update({ is_default: checked })} />
+                  Default profile
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={editing.is_active} onCheckedChange={(checked) => update({ is_active: checked })} />
+                  Active
+                </label>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={
+                !editing?.name.trim() ||
+                !editing?.firm_name.trim() ||
+                !editing?.signatory_name.trim() ||
+                !!gstinProblem ||
+                saveProfileMutation.isPending
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingAccount} onOpenChange={(open) => !open && setEditingAccount(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingAccount?.id ? "Edit bank account" : "New bank account"}</DialogTitle>
+            <DialogDescription>Printed on fee bills for RTGS/NEFT payment.</DialogDescription>
+          </DialogHeader>
+
+          {editingAccount && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="account-bank">Bank</Label>
+                  <Input
+                    id="account-bank"
+                    value={editingAccount.bank_name}
+                    onChange={(e) => updateAccount({ bank_name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="account-branch">Branch</Label>
+                  <Input
+                    id="account-branch"
+                    value={editingAccount.branch ?? ""}
+                    onChange={(e) => updateAccount({ branch: e.target.value || null })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="account-name">Account holder</Label>
+                <Input
+                  id="account-name"
+                  value={editingAccount.account_name ?? ""}
+                  onChange={(e) => updateAccount({ account_name: e.target.value || null })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="account-number">Account number</Label>
+                  <Input
+                    id="account-number"
+                    value={editingAccount.account_number}
+                    onChange={(e) => updateAccount({ account_number: e.target.value.trim() })}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="account-ifsc">IFSC</Label>
+                  <Input
+                    id="account-ifsc"
+                    value={editingAccount.ifsc_code}
+                    maxLength={11}
+                    onChange={(e) => updateAccount({ ifsc_code: e.target.value.toUpperCase().trim() })}
+                    className={`font-mono ${ifscProblem ? "border-destructive" : ""}`}
+                  />
+                  {ifscProblem && <p className="text-xs text-destructive">{ifscProblem}</p>}
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={editingAccount.is_primary}
+                  onCheckedChange={(checked) => updateAccount({ is_primary: checked })}
+                />
+                Primary account
+              </label>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingAccount(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveAccount}
+              disabled={
+                !editingAccount?.bank_name.trim() ||
+                !editingAccount?.account_number ||
+                !editingAccount?.ifsc_code ||
+                !!ifscProblem ||
+                saveAccountMutation.isPending
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -134,7 +134,8 @@ export const ParsingConfigManager = () => {
             Document Parsing Configuration
           </CardTitle>
           <p className="text-sm text-muted-foreground">
-            Configure which fields to extract from Bill of Entry and Policy Documents for each policy type
+            Configure which fields to extract from Bill of Entry and Policy Documents for each policy type.
+            These lists are only used when the document requirement has no extraction profile.
           </p>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { BellRing, Save } from "lucide-react";
+import { toast } from "sonner";
+import { useReminderSettings, useSaveReminderSettings } from "@/hooks/useDocumentReminders";
+import { REMINDER_PLACEHOLDERS, formatCadence, parseCadence } from "@/lib/documentReminders";
+
+interface SettingsForm {
+  cadence: string;
+  link_expiry_days: number;
+  email_subject: string;
+  email_body: string;
+  sms_body: string;
+}
+
+export const ReminderSettingsManager = () => {
+  const { data: settings, isLoading } = useReminderSettings();
+  const saveMutation = useSaveReminderSettings();
+  const [form, setForm] = useState<SettingsForm | null>(null);
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm({
+      cadence: formatCadence(settings.default_cadence_days),
+      link_expiry_days: settings.link_expiry_days,
+      email_subject: settings.email_subject,
+      email_body: settings.email_body,
+      sms_body: settings.sms_body,
+    });
+  }, [settings]);
+
+  const update = (changes: Partial<SettingsForm>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = () => {
+    if (!form) return;
+    let cadence: number[];
+    try {
+      cadence = parseCadence(form.cadence);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+    const { cadence: _, ...templates } = form;
+    saveMutation.mutate({ ...templates, default_cadence_days: cadence });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Document Reminders
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Messages sent to the insured and broker while a claim's documents are missing. Each claim sets up its own
+          schedule from its Documents tab, starting from the cadence below.
+        </p>
+      </CardHeader>
+      {form && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reminder-default-cadence">Default cadence (days after setup)</Label>
+              <Input
+                id="reminder-default-cadence"
+                value={form.cadence}
+                onChange={(e) => update({ cadence: e.target.value })}
+                placeholder="3, 7, 14"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reminder-link-expiry">Upload link open for (days)</Label>
+              <Input
+                id="reminder-link-expiry"
+                type="number"
+                min={1}
+                value={form.link_expiry_days}
+                onChange={(e) => update({ link_expiry_days: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="reminder-email-subject">Email subject</Label>
+              <Input
+                id="reminder-email-subject"
+                value={form.email_subject}
+                onChange={(e) => update({ email_subject: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="reminder-email-body">Email body</Label>
+              <Textarea
+                id="reminder-email-body"
+                rows={10}
+                value={form.email_body}
+                onChange={(e) => update({ email_body: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="reminder-sms-body">SMS</Label>
+              <Textarea
+                id="reminder-sms-body"
+                rows={3}
+                value={form.sms_body}
+                onChange={(e) => update({ sms_body: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">{form.sms_body.length} characters before placeholders</p>
+            </div>
+          </div>
+
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Placeholders:</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-x-4 gap-y-1">
+              {REMINDER_PLACEHOLDERS.map((p) => (
+                <span key={p.key}>
+                  <code className="font-mono">{`{{${p.key}}}`}</code> {p.description}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -1,10 +1,20 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Settings as SettingsIcon, FileText, Edit } from "lucide-react";
+import { Settings as SettingsIcon, FileText, Edit, GitBranch, IndianRupee, Receipt, Hash, Building, TrendingDown } from "lucide-react";
 import { PolicyTypesManager } from "@/components/admin/PolicyTypesManager";
 import { NewClaimFieldsManager } from "@/components/admin/NewClaimFieldsManager";
 import { DocumentRequirementsManager } from "@/components/admin/DocumentRequirementsManager";
+import { ReminderSettingsManager } from "@/components/admin/ReminderSettingsManager";
 import { ParsingConfigManager } from "@/components/admin/ParsingConfigManager";
+import { ExtractionProfilesManager } from "@/components/admin/ExtractionProfilesManager";
+import { StatusWorkflowManager } from "@/components/admin/StatusWorkflowManager";
+import { FeeScheduleManager } from "@/components/admin/FeeScheduleManager";
+import { GstSettingsManager } from "@/components/admin/GstSettingsManager";
+import { InvoiceSeriesManager } from "@/components/admin/InvoiceSeriesManager";
+import { OrganisationProfilesManager } from "@/components/admin/OrganisationProfilesManager";
+import { InsurerOfficesManager } from "@/components/admin/InsurerOfficesManager";
+import { DepreciationRulesManager } from "@/components/admin/DepreciationRulesManager";
+import { DisallowanceReasonsManager } from "@/components/admin/DisallowanceReasonsManager";
 
 export const SettingsPage = () => {
   return (
@@ -20,7 +30,7 @@ export const SettingsPage = () => {
       </div>
 
       <Tabs defaultValue="policy-types" className="space-y-6">
-        <TabsList className="grid w-full max-w-2xl grid-cols-4">
+        <TabsList className="grid w-full max-w-6xl grid-cols-10">
           <TabsTrigger value="policy-types" className="flex items-center gap-2">
             <FileText className="w-4 h-4" />
             Policy Types
@@ -37,6 +47,30 @@ export const SettingsPage = () => {
             <SettingsIcon className="w-4 h-4" />
             Parsing Config
           </TabsTrigger>
+          <TabsTrigger value="status-workflow" className="flex items-center gap-2">
+            <GitBranch className="w-4 h-4" />
+            Status Workflow
+          </TabsTrigger>
+          <TabsTrigger value="fee-schedules" className="flex items-center gap-2">
+            <IndianRupee className="w-4 h-4" />
+            Fee Schedules
+          </TabsTrigger>
+          <TabsTrigger value="gst" className="flex items-center gap-2">
+            <Receipt className="w-4 h-4" />
+            GST
+          </TabsTrigger>
+          <TabsTrigger value="invoice-series" className="flex items-center gap-2">
+            <Hash className="w-4 h-4" />
+            Invoice Series
+          </TabsTrigger>
+          <TabsTrigger value="organisation" className="flex items-center gap-2">
+            <Building className="w-4 h-4" />
+            Organisation
+          </TabsTrigger>
+          <TabsTrigger value="assessment" className="flex items-center gap-2">
+            <TrendingDown className="w-4 h-4" />
+            Assessment
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="policy-types" className="space-y-4">
@@ -48,10 +82,32 @@ export const SettingsPage = () => {
         </TabsContent>
         <TabsContent value="doc-requirements" className="space-y-4">
           <DocumentRequirementsManager />
+          <ReminderSettingsManager />
         </TabsContent>
         <TabsContent value="parsing-config" className="space-y-4">
+          <ExtractionProfilesManager />
           <ParsingConfigManager />
         </TabsContent>
+        <TabsContent value="status-workflow" className="space-y-4">
+          <StatusWorkflowManager />
+        </TabsContent>
+        <TabsContent value="fee-schedules" className="space-y-4">
+          <FeeScheduleManager />
+        </TabsContent>
+        <TabsContent value="gst" className="space-y-4">
+          <GstSettingsManager />
+        </TabsContent>
+        <TabsContent value="invoice-series" className="space-y-4">
+          <InvoiceSeriesManager />
+        </TabsContent>
+        <TabsContent value="organisation" className="space-y-4">
+          <OrganisationProfilesManager />
+          <InsurerOfficesManager />
+        </TabsContent>
+        <TabsContent value="assessment" className="space-y-4">
+          <DepreciationRulesManager />
+          <DisallowanceReasonsManager />
+        </TabsContent>
         
       </Tabs>
     </div>
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitBranch, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useDeleteStatusTransition,
+  useSaveStatusTransition,
+  useStatusTransitions,
+} from "@/hooks/useClaimWorkflow";
+import {
+  CLAIM_STATUSES,
+  STATUS_GUARDS,
+  StatusGuard,
+  StatusTransition,
+  WORKFLOW_ROLES,
+  claimStatusLabel,
+} from "@/lib/claimWorkflow";
+
+const NO_GUARD = "none";
+
+export const StatusWorkflowManager = () => {
+  const { data: transitions = [], isLoading } = useStatusTransitions();
+  const saveMutation = useSaveStatusTransition();
+  const deleteMutation = useDeleteStatusTransition();
+  const [newFrom, setNewFrom] = useState("");
+  const [newTo, setNewTo] = useState("");
+
+  const updateTransition = (transition: StatusTransition, changes: Partial<StatusTransition>) => {
+    const next = { ...transition, ...changes };
+    if (next.allowed_roles.length === 0) {
+      toast.error("At least one role must be allowed");
+      return;
+    }
+    saveMutation.mutate(next);
+  };
+
+  const toggleRole = (transition: StatusTransition, role: string, checked: boolean) => {
+    updateTransition(transition, {
+      allowed_roles: checked
+        ? [...transition.allowed_roles, role]
+        : transition.allowed_roles.filter((r) => r !== role),
+    });
+  };
+
+  const handleAdd = () => {
+    if (!newFrom || !newTo) {
+      toast.error("Choose both statuses");
+      return;
+    }
+    if (newFrom === newTo) {
+      toast.error("A transition must change the status");
+      return;
+    }
+    if (transitions.some((t) => t.from_status === newFrom && t.to_status === newTo)) {
+      toast.error("This transition already exists");
+      return;
+    }
+    saveMutation.mutate(
+      {
+        from_status: newFrom,
+        to_status: newTo,
+        allowed_roles: [...WORKFLOW_ROLES],
+        requires_reason: false,
+        guard: null,
+      },
+      {
+        onSuccess: () => {
+          setNewFrom("");
+          setNewTo("");
+        },
+      }
+    );
+  };
+
+  // Group by source status, in workflow order
+  const grouped = CLAIM_STATUSES.map((status) => ({
+    status,
+    items: transitions.filter((t) => t.from_status === status.value),
+  })).filter((g) => g.items.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5" />
+            Claim Status Workflow
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Only the transitions listed here can be made. Each one can be limited to roles, require a
+            reason, or wait for a condition such as a finalized fee bill.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : (
+            grouped.map(({ status, items }) => (
+              <div key={status.value} className="border rounded-lg p-4 space-y-3">
+                <h3 className="font-semibold">From {status.label}</h3>
+                {items.map((transition) => (
+                  <div
+                    key={transition.id}
+                    className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_12rem_auto] items-center gap-4 border-t pt-3"
+                  >
+                    <span className="text-sm font-medium">→ {claimStatusLabel(transition.to_status)}</span>
+
+                    <div className="flex items-center gap-3">
+                      {WORKFLOW_ROLES.map((role) => (
+                        <div key={role} className="flex items-center gap-1">
+                          <Checkbox
+                            id={`${transition.id}-${role}`}
+                            checked={transition.allowed_roles.includes(role)}
+                            onCheckedChange={(checked) => toggleRole(transition, role, checked === true)}
+                          />
+                          <Label htmlFor={`${transition.id}-${role}`} className="text-sm capitalize">
+                            {role}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`${transition.id}-reason`}
+                        checked={transition.requires_reason}
+                        onCheckedChange={(checked) => updateTransition(transition, { requires_reason: checked })}
+                      />
+                      <Label htmlFor={`${transition.id}-reason`} className="text-sm">
+                        Reason required
+                      </Label>
+                    </div>
+
+                    <Select
+                      value={transition.guard ?? NO_GUARD}
+                      onValueChange={(value) =>
+                        updateTransition(transition, { guard: value === NO_GUARD ? null : (value as StatusGuard) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_GUARD}>No condition</SelectItem>
+                        {STATUS_GUARDS.map((guard) => (
+                          <SelectItem key={guard.value} value={guard.value}>
+                            {guard.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteMutation.mutate(transition.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+
+          <div className="border rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold">Add transition</h3>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Select value={newFrom} onValueChange={setNewFrom}>
+                <SelectTrigger>
+                  <SelectValue placeholder="From status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLAIM_STATUSES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newTo} onValueChange={setNewTo}>
+                <SelectTrigger>
+                  <SelectValue placeholder="To status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLAIM_STATUSES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={saveMutation.isPending}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
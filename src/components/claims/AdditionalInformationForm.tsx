@@ -24,6 +24,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EditableTable, TableModal } from './TableComponents';
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { discardQueuedImage, isNetworkError, queueImageUpload, saveFormData } from "@/lib/offlineQueue";
+import { getBackendClient } from "@/lib/backendClient";
+import { FIELD_SOURCES_KEY, fieldSourcesOf, withoutFieldSource } from "@/lib/extractionReview";
+import { ExtractionSourceBadge } from "./ExtractionSourceBadge";
 
 
 
@@ -65,46 +69,46 @@ const ImageGrid: React.FC<ImageGridProps> = ({ sectionKey, images, setImages, cl
   if (!e.target.files?.length) return;
 
   const file = e.target.files[0];
-  const formData = new FormData();
-  formData.append("file", file);
 
   const toastId = toast.loading("Uploading image...");
 
+  // CRITICAL: Detect table type using service_id/company_id
+  const isVASReport = 'service_id' in claim;
+  const isClientReport = 'company_id' in claim && !('service_id' in claim);
+  const tableName = isVASReport ? 'vas_reports' : isClientReport ? 'client_reports' : 'claims';
+
   try {
     console.log("Uploading image to backend...");
-    const res = await fetch("https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws/upload-image", {
-      method: "POST",
-      body: formData,
-    });
-    console.log("Upload response:", res);
-
-    if (!res.ok) throw new Error("Upload failed");
-    const data = await res.json();
+    let data;
+    try {
+      data = await getBackendClient().uploadImage(file);
+    } catch (uploadErr) {
+      if (!isNetworkError(uploadErr)) throw uploadErr;
+
+      // No connection: keep the image on this device and upload it once back online
+      const placeholder = await queueImageUpload(tableName, claimId, sectionKey, index, file);
+      const updated = [...images];
+      updated[index] = placeholder;
+      setImages(updated);
+      toast.warning("You're offline. The image will upload when the connection returns.", { id: toastId, duration: 3000 });
+      return;
+    }
+    console.log("Upload response:", data);
 
     const updated = [...images];
     updated[index] = data.url;
     setImages(updated);
     console.log(sectionKey, " ke images updated:", updated);
 
-    // CRITICAL: Detect table type using service_id/company_id
-    const isVASReport = 'service_id' in claim;
-    const isClientReport = 'company_id' in claim && !('service_id' in claim);
-    const tableName = isVASReport ? 'vas_reports' : isClientReport ? 'client_reports' : 'claims';
-
     console.log('💾 Saving image to table:', tableName);
 
-    const { error: uploadError } = await supabase
-      .from(tableName)
-      .update({
-        form_data: {
-          ...claimFormData,
-          [`${sectionKey}_images`]: updated,
-          custom_fields_metadata: customFields,
-          hidden_fields: Array.from(hiddenFields),
-          field_labels: fieldLabels,
-        }
-      })
-      .eq('id', claimId);
+    const { error: uploadError } = await saveFormData(tableName, claimId, {
+      ...claimFormData,
+      [`${sectionKey}_images`]: updated,
+      custom_fields_metadata: customFields,
+      hidden_fields: Array.from(hiddenFields),
+      field_labels: fieldLabels,
+    });
 
     if (uploadError) throw uploadError;
 
@@ -123,6 +127,11 @@ const ImageGrid: React.FC<ImageGridProps> = ({ sectionKey, images, setImages, cl
   const toastId = toast.loading("Removing image...");
 
   try {
+    // An image still waiting in the offline queue is simply not uploaded
+    if (images[index]?.startsWith("blob:")) {
+      await discardQueuedImage(images[index]);
+    }
+
     const updated = [...images];
     updated[index] = "";
     setImages(updated);
@@ -134,18 +143,13 @@ const ImageGrid: React.FC<ImageGridProps> = ({ sectionKey, images, setImages, cl
 
     console.log('💾 Removing image from table:', tableName);
 
-    const { error: removeError } = await supabase
-      .from(tableName)
-      .update({
-        form_data: {
-          ...claimFormData,
-          [`${sectionKey}_images`]: updated,
-          custom_fields_metadata: customFields,
-          hidden_fields: Array.from(hiddenFields),
-          field_labels: fieldLabels,
-        }
-      })
-      .eq('id', claimId);
+    const { error: removeError } = await saveFormData(tableName, claimId, {
+      ...claimFormData,
+      [`${sectionKey}_images`]: updated,
+      custom_fields_metadata: customFields,
+      hidden_fields: Array.from(hiddenFields),
+      field_labels: fieldLabels,
+    });
 
     if (removeError) throw removeError;
 
@@ -349,11 +353,8 @@ useEffect(() => {
       }
     });
 
-    // Use direct Supabase update with correct table
-    const { error } = await supabase
-      .from(tableName)
-      .update({ form_data: cleanedData })
-      .eq("id", claim.id);
+    // Claims are saved with a version check; reports are updated directly
+    const { error } = await saveFormData(tableName, claim.id, cleanedData);
       
     if (error) {
       console.error('❌ Autosave error:', error);
@@ -457,10 +458,7 @@ const isInitialMount = useRef(true);
       
       console.log('💾 Saving to table:', tableName, { isVASReport, isClientReport });
 
-      const { error } = await supabase
-        .from(tableName)  // ← Use dynamic tableName
-        .update({ form_data: dataWithMetadata })
-        .eq('id', claim.id);
+      const { error } = await saveFormData(tableName, claim.id, dataWithMetadata);
 
       if (error) {
         console.error('❌ Save error:', error);
@@ -502,6 +500,7 @@ const isInitialMount = useRef(true);
         custom_fields_metadata: customFields,
         hidden_fields: Array.from(hiddenFields),
         field_labels: fieldLabels,
+        [FIELD_SOURCES_KEY]: withoutFieldSource(existingData, fieldName),
       };
       
       // CRITICAL: Detect table type using service_id/company_id
@@ -511,10 +510,7 @@ const isInitialMount = useRef(true);
 
       console.log('💾 Saving custom field to table:', tableName);
 
-      const { error } = await supabase
-        .from(tableName)
-        .update({ form_data: dataWithMetadata })
-        .eq('id', claim.id);
+      const { error } = await saveFormData(tableName, claim.id, dataWithMetadata);
 
       if (error) {
         console.error('❌ Save error:', error);
@@ -588,18 +584,13 @@ const isInitialMount = useRef(true);
 
     console.log('💾 Saving label to table:', tableName);
 
-    const { error } = await supabase
-      .from(tableName)
-      .update({
-        form_data: {
-          ...existingData,
-          field_labels: updatedLabels,
-          custom_fields_metadata: customFields as unknown[],
-          hidden_fields: Array.from(hiddenFields),
-          dynamic_sections_metadata: updatedSections,
-        }
-      })
-      .eq('id', claim.id);
+    const { error } = await saveFormData(tableName, claim.id, {
+      ...existingData,
+      field_labels: updatedLabels,
+      custom_fields_metadata: customFields as unknown[],
+      hidden_fields: Array.from(hiddenFields),
+      dynamic_sections_metadata: updatedSections,
+    });
     
     if (error) {
       console.error('❌ Save label error:', error);
@@ -638,10 +629,7 @@ const isInitialMount = useRef(true);
 
     console.log('💾 Removing field from table:', tableName);
 
-    const { error } = await supabase
-      .from(tableName)
-      .update({ form_data: dataWithMetadata })
-      .eq('id', claim.id);
+    const { error } = await saveFormData(tableName, claim.id, dataWithMetadata);
     
     if (error) {
       console.error('❌ Remove field error:', error);
@@ -1303,6 +1291,7 @@ const loadTemplate = (template: FormTemplate) => {
     const fieldValue = watch(field.name);
     const displayedLabel = fieldLabels[field.name] ?? field.label;
     const isEditingLabel = editingLabels.has(field.name);
+    const fieldSource = fieldSourcesOf(claim.form_data)[field.name];
 
     if (hiddenFields.has(field.name)) {
       return null;
@@ -1358,6 +1347,7 @@ const loadTemplate = (template: FormTemplate) => {
                     onClick={isEditing ? () => setEditingLabels(prev => { const next = new Set(prev); next.add(field.name); return next; }) : undefined}
                   >
                     {displayedLabel} {field.required && <span className="text-destructive">*</span>}
+                    <ExtractionSourceBadge source={fieldSource} />
                   </Label>
                 )}
                 {showActions && (
@@ -1457,6 +1447,7 @@ const loadTemplate = (template: FormTemplate) => {
                     onClick={isEditing ? () => setEditingLabels(prev => { const next = new Set(prev); next.add(field.name); return next; }) : undefined}
                   >
                     {displayedLabel} {field.required && <span className="text-destructive">*</span>}
+                    <ExtractionSourceBadge source={fieldSource} />
                   </Label>
                 )}
                 {showActions && (
@@ -1559,6 +1550,7 @@ const loadTemplate = (template: FormTemplate) => {
                     onClick={isEditing ? () => setEditingLabels(prev => { const next = new Set(prev); next.add(field.name); return next; }) : undefined}
                   >
                     {displayedLabel} {field.required && <span className="text-destructive">*</span>}
+                    <ExtractionSourceBadge source={fieldSource} />
                   </Label>
                 )}
                 {showActions && (
@@ -1658,6 +1650,7 @@ const loadTemplate = (template: FormTemplate) => {
                     onClick={isEditing ? () => setEditingLabels(prev => { const next = new Set(prev); next.add(field.name); return next; }) : undefined}
                   >
                     {displayedLabel} {field.required && <span className="text-destructive">*</span>}
+                    <ExtractionSourceBadge source={fieldSource} />
                   </Label>
                 )}
                 {showActions && (
@@ -1788,6 +1781,7 @@ const loadTemplate = (template: FormTemplate) => {
                     onClick={isEditing ? () => setEditingLabels(prev => { const next = new Set(prev); next.add(field.name); return next; }) : undefined}
                   >
                     {displayedLabel} {field.required && <span className="text-destructive">*</span>}
+                    <ExtractionSourceBadge source={fieldSource} />
                   </Label>
                 )}
                 {showActions && (
@@ -2,41 +2,82 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Save, Plus, Trash2, Loader2 } from "lucide-react";
+import { Save, Plus, Trash2, Loader2, FileUp, Printer } from "lucide-react";
 import { toast } from "sonner";
 import { useUpdateClaimSilent, type Claim } from "@/hooks/useClaims";
+import { useDepreciationRuleSets } from "@/hooks/useDepreciationRules";
+import { computeDepreciation, findDepreciationRuleSet } from "@/lib/depreciation";
+import { ExistingLine, ImportTarget, ImportedLine } from "@/lib/estimateImport";
+import {
+  UNEXPLAINED_REASON,
+  VARIANCE_TABLE_LABELS,
+  VarianceTable,
+  buildVarianceLines,
+  buildVarianceReportComponents,
+  groupVarianceByReason,
+} from "@/lib/assessmentVariance";
+import { useDisallowanceReasons } from "@/hooks/useDisallowanceReasons";
+import { useRenderReportPdf } from "@/hooks/usePdfRenderer";
+import { useOrganisationProfiles } from "@/hooks/useOrganisationProfiles";
+import { letterheadAssets, resolveOrganisationProfile } from "@/lib/organisationProfiles";
+import { EMPTY_SALVAGE, SalvageRecord, acceptedSalvageBid } from "@/lib/salvage";
+import { EstimateImportDialog } from "./EstimateImportDialog";
+import { SalvagePanel } from "./SalvagePanel";
 
 // -------------------- Types --------------------
+// GST charged at one rate, split equally into CGST and SGST
+type GstBreakupRow = {
+  gst_percent: number;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+};
+
 type SpareRow = {
   invoice_no: string;    // numeric-only string
   description: string;
+  hsn_code: string;
+  gst_percent: number | null; // null = table default (CGST + SGST)
   quantity: number;
   estimated_amount: number;
   assessed_glass: number;
   assessed_plastic_rubber: number;
+  assessed_fibreglass: number;
   assessed_others_metal: number;
   remarks: string;
+  disallowance_reason: string; // label from the managed list, when assessed below estimate
 };
 type SpareTotals = {
-  cgst_percent: number;
+  cgst_percent: number;     // default for rows without their own rate
   sgst_percent: number;
   dep_glass_percent: number;
   dep_plastic_percent: number;
+  dep_fibre_percent: number;
   dep_metal_percent: number;
+  // rates follow the depreciation rules unless overridden
+  dep_glass_override: boolean;
+  dep_plastic_override: boolean;
+  dep_fibre_override: boolean;
+  dep_metal_override: boolean;
+  depreciation_rule_set_id: string | null;
+  depreciation_rule_version: number | null;
 
   qty_total: number;
   estimated_total: number;
   assessed_glass_total: number;
   assessed_plastic_total: number;
+  assessed_fibre_total: number;
   assessed_metal_total: number;
   assessed_total: number;
 
+  gst_breakup: GstBreakupRow[];
   cgst_amount: number;
   sgst_amount: number;
   total_with_gst: number;
 
   dep_glass_amount: number;
   dep_plastic_amount: number;
+  dep_fibre_amount: number;
   dep_metal_amount: number;
   depreciation_total: number;
 
@@ -46,18 +87,22 @@ type SpareTotals = {
 type LabourRow = {
   invoice_no: string;    // numeric-only string
   description: string;
+  sac_code: string;
+  gst_percent: number | null; // null = table default (CGST + SGST)
   estimated_amount: number;
   assessed_amount: number;
   remarks: string;
+  disallowance_reason: string;
 };
 type LabourTotals = {
-  cgst_percent: number;
+  cgst_percent: number;     // default for rows without their own rate
   sgst_percent: number;
   imt_percent: number;      // editable; set 0 if you don't want it
 
   estimated_total: number;
   assessed_total: number;
 
+  gst_breakup: GstBreakupRow[];
   cgst_amount: number;
   sgst_amount: number;
   total_with_gst: number;
@@ -85,11 +130,14 @@ type Summary = {
   gross_assessed: number;   // spare assessed_total + labour assessed_total
   dep_glass_amount: number;
   dep_plastic_amount: number;
+  dep_fibre_amount: number;
   dep_metal_amount: number;
   imt_spares_deduction: number; // 0 (not considered) – kept for structure
   imt_labour_deduction: number;
   net_after_dep_imt: number;
-  salvage_value: number;     // editable
+  gst_breakup: GstBreakupRow[]; // spares and labour together
+  gst_total: number;
+  salvage_value: number;     // editable unless a salvage bid is accepted
   policy_excess: number;     // editable
   final_net_liability: number;
 };
@@ -107,6 +155,7 @@ type AssessmentRoot = {
       supplementary: LabourRow[];
       totals: LabourTotals;
     };
+    salvage: SalvageRecord;
     summary: Summary;
   };
 };
@@ -118,24 +167,119 @@ interface Props {
 // -------------------- Helpers --------------------
 const r2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
 
+const lineGstPercent = (own: number | null | undefined, defaultPercent: number) =>
+  typeof own === "number" && Number.isFinite(own) ? own : defaultPercent;
+
+/** Group taxable amounts by GST rate, lowest rate first */
+const buildGstBreakup = (lines: { amount: number; gst_percent: number }[]): GstBreakupRow[] => {
+  const byRate = new Map<number, number>();
+  lines.forEach(({ amount, gst_percent }) => {
+    if (!amount) return;
+    byRate.set(gst_percent, (byRate.get(gst_percent) || 0) + amount);
+  });
+  return [...byRate.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([gst_percent, taxable]) => {
+      const half = r2((taxable * gst_percent) / 200);
+      return { gst_percent, taxable_amount: r2(taxable), cgst_amount: half, sgst_amount: half };
+    });
+};
+
+const mergeGstBreakups = (...breakups: GstBreakupRow[][]) =>
+  buildGstBreakup(breakups.flat().map((b) => ({ amount: b.taxable_amount, gst_percent: b.gst_percent })));
+
+// blank GST % = use the table default
+const parseGstPercent = (v: unknown) => (v === "" || v === null || v === undefined ? null : Number(v));
+
+const sameBreakup = (a: GstBreakupRow[] | undefined, b: GstBreakupRow[]) => JSON.stringify(a ?? []) === JSON.stringify(b);
+
 const EMPTY_SPARE_ROW: SpareRow = {
   invoice_no: "",
   description: "",
+  hsn_code: "",
+  gst_percent: null,
   quantity: 0,
   estimated_amount: 0,
   assessed_glass: 0,
   assessed_plastic_rubber: 0,
+  assessed_fibreglass: 0,
   assessed_others_metal: 0,
   remarks: "",
+  disallowance_reason: "",
 };
 const EMPTY_LABOUR_ROW: LabourRow = {
   invoice_no: "",
   description: "",
+  sac_code: "",
+  gst_percent: null,
   estimated_amount: 0,
   assessed_amount: 0,
   remarks: "",
+  disallowance_reason: "",
 };
 
+const VARIANCE_PATHS = {
+  new_spares: "assessment.spare.new_spares",
+  supplementary: "assessment.spare.supplementary",
+  labour: "assessment.labour.main",
+  labour_supplementary: "assessment.labour.supplementary",
+} as const satisfies Record<VarianceTable, string>;
+
+const importedSpareRow = (line: ImportedLine): SpareRow => ({
+  ...EMPTY_SPARE_ROW,
+  invoice_no: line.invoice_no,
+  description: line.description,
+  hsn_code: line.hsn_code,
+  gst_percent: line.gst_percent,
+  quantity: line.quantity,
+  estimated_amount: line.estimated_amount,
+  assessed_glass: line.material === "glass" ? line.assessed_amount : 0,
+  assessed_plastic_rubber: line.material === "plastic" ? line.assessed_amount : 0,
+  assessed_fibreglass: line.material === "fibre" ? line.assessed_amount : 0,
+  assessed_others_metal: line.material === "metal" ? line.assessed_amount : 0,
+  remarks: line.remarks,
+});
+
+const importedLabourRow = (line: ImportedLine): LabourRow => ({
+  ...EMPTY_LABOUR_ROW,
+  invoice_no: line.invoice_no,
+  description: line.description,
+  sac_code: line.hsn_code,
+  gst_percent: line.gst_percent,
+  estimated_amount: line.estimated_amount,
+  assessed_amount: line.assessed_amount,
+  remarks: line.remarks,
+});
+
+const GstBreakupTable = ({ title, rows }: { title: string; rows: GstBreakupRow[] }) =>
+  rows.length === 0 ? null : (
+    <>
+      <div className="section-title">{title}</div>
+      <table className="assess-table">
+        <thead>
+          <tr>
+            <th>GST RATE</th>
+            <th>TAXABLE VALUE</th>
+            <th>CGST</th>
+            <th>SGST</th>
+            <th>TOTAL GST</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((b) => (
+            <tr key={b.gst_percent}>
+              <td className="center">{b.gst_percent}%</td>
+              <td className="num">{r2(b.taxable_amount).toFixed(2)}</td>
+              <td className="num">{r2(b.cgst_amount).toFixed(2)}</td>
+              <td className="num">{r2(b.sgst_amount).toFixed(2)}</td>
+              <td className="num">{r2(b.cgst_amount + b.sgst_amount).toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </>
+  );
+
 // -------------------- Component --------------------
 export const Assessment = ({ claim }: Props) => {
   const updateClaim = useUpdateClaimSilent();
@@ -158,30 +302,45 @@ export const Assessment = ({ claim }: Props) => {
         existing?.header?.annotation ?? "Annotation to below assessment calculations...",
     };
 
-    const spareDefaults: SpareTotals = existing?.spare?.totals ?? {
+    // Rates on assessments saved before depreciation was computed were typed in; keep them
+    const existingSpare = existing?.spare?.totals;
+    const typedRates = !!existingSpare && existingSpare.dep_metal_override === undefined;
+
+    const spareDefaults: SpareTotals = {
       cgst_percent: 0,
       sgst_percent: 0,
       dep_glass_percent: 0,
       dep_plastic_percent: 0,
+      dep_fibre_percent: 0,
       dep_metal_percent: 0,
+      dep_glass_override: typedRates,
+      dep_plastic_override: typedRates,
+      dep_fibre_override: false,
+      dep_metal_override: typedRates,
+      depreciation_rule_set_id: null,
+      depreciation_rule_version: null,
 
       qty_total: 0,
       estimated_total: 0,
       assessed_glass_total: 0,
       assessed_plastic_total: 0,
+      assessed_fibre_total: 0,
       assessed_metal_total: 0,
       assessed_total: 0,
 
+      gst_breakup: [],
       cgst_amount: 0,
       sgst_amount: 0,
       total_with_gst: 0,
 
       dep_glass_amount: 0,
       dep_plastic_amount: 0,
+      dep_fibre_amount: 0,
       dep_metal_amount: 0,
       depreciation_total: 0,
 
       net_amount: 0,
+      ...existingSpare,
     };
 
     const labourDefaults: LabourTotals = existing?.labour?.totals ?? {
@@ -192,6 +351,7 @@ export const Assessment = ({ claim }: Props) => {
       estimated_total: 0,
       assessed_total: 0,
 
+      gst_breakup: [],
       cgst_amount: 0,
       sgst_amount: 0,
       total_with_gst: 0,
@@ -207,10 +367,13 @@ export const Assessment = ({ claim }: Props) => {
       gross_assessed: 0,
       dep_glass_amount: 0,
       dep_plastic_amount: 0,
+      dep_fibre_amount: 0,
       dep_metal_amount: 0,
       imt_spares_deduction: 0,
       imt_labour_deduction: 0,
       net_after_dep_imt: 0,
+      gst_breakup: [],
+      gst_total: 0,
       salvage_value: 0,
       policy_excess: 0,
       final_net_liability: 0,
@@ -229,6 +392,7 @@ export const Assessment = ({ claim }: Props) => {
           supplementary: existing?.labour?.supplementary ?? [],
           totals: labourDefaults,
         },
+        salvage: existing?.salvage ?? EMPTY_SALVAGE,
         summary: summaryDefaults,
       },
     };
@@ -248,25 +412,108 @@ export const Assessment = ({ claim }: Props) => {
   // ---------- dropdowns with indicators ----------
   const [openSpare, setOpenSpare] = useState(true);
   const [openLabour, setOpenLabour] = useState(false);
+  const [openSalvage, setOpenSalvage] = useState(false);
   const [openSummary, setOpenSummary] = useState(false);
 
+  // ---------- import from estimate / invoice ----------
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Rows as they were when the dialog opened, for duplicate detection
+  const existingLines = useMemo<Record<ImportTarget, ExistingLine[]>>(() => {
+    if (!importOpen) return { new_spares: [], supplementary: [], labour: [] };
+    return {
+      new_spares: getValues("assessment.spare.new_spares") || [],
+      supplementary: getValues("assessment.spare.supplementary") || [],
+      labour: getValues("assessment.labour.main") || [],
+    };
+  }, [importOpen, getValues]);
+
+  const handleImport = (target: ImportTarget, lines: ImportedLine[]) => {
+    if (target === "labour") {
+      labMain.append(lines.map(importedLabourRow));
+      setOpenLabour(true);
+    } else {
+      (target === "new_spares" ? spareNew : spareSup).append(lines.map(importedSpareRow));
+      setOpenSpare(true);
+    }
+    toast.success(`Imported ${lines.length} line${lines.length === 1 ? "" : "s"}`);
+  };
+
   // ---------- exclusive logic (spare) ----------
   const handleExclusiveSpare = (
     table: "assessment.spare.new_spares" | "assessment.spare.supplementary",
     index: number,
-    field: "assessed_glass" | "assessed_plastic_rubber" | "assessed_others_metal",
+    field: "assessed_glass" | "assessed_plastic_rubber" | "assessed_fibreglass" | "assessed_others_metal",
     raw: string
   ) => {
     const val = raw === "" ? 0 : Number(raw);
     if (Number.isNaN(val)) return;
     const base = `${table}.${index}` as const;
-    (["assessed_glass", "assessed_plastic_rubber", "assessed_others_metal"] as const).forEach((f) =>
+    (["assessed_glass", "assessed_plastic_rubber", "assessed_fibreglass", "assessed_others_metal"] as const).forEach((f) =>
       setValue(`${base}.${f}`, 0, { shouldDirty: true, shouldValidate: false })
     );
     setValue(`${base}.${field}`, val, { shouldDirty: true, shouldValidate: true });
   };
 
+  // ---------- depreciation rates (from the vehicle's age) ----------
+  const { data: depreciationRuleSets = [] } = useDepreciationRuleSets();
+  const [registrationDate, accidentDate] = watch([
+    "assessment.header.registration_date",
+    "assessment.header.date_of_accident",
+  ]);
+  const [glassOverride, plasticOverride, fibreOverride, metalOverride] = watch([
+    "assessment.spare.totals.dep_glass_override",
+    "assessment.spare.totals.dep_plastic_override",
+    "assessment.spare.totals.dep_fibre_override",
+    "assessment.spare.totals.dep_metal_override",
+  ]);
+  const claimInsurer = claim.form_data?.insurer as string | undefined;
+
+  const computedDep = useMemo(() => {
+    const ruleSet = findDepreciationRuleSet(depreciationRuleSets, claimInsurer, accidentDate);
+    return ruleSet ? computeDepreciation(ruleSet, registrationDate, accidentDate) : null;
+  }, [depreciationRuleSets, claimInsurer, registrationDate, accidentDate]);
+
+  useEffect(() => {
+    if (!computedDep) return;
+    const { ruleSet, rates, ageLabel } = computedDep;
+
+    const apply = (
+      k: "dep_glass_percent" | "dep_plastic_percent" | "dep_fibre_percent" | "dep_metal_percent",
+      v: number
+    ) => {
+      if (getValues(`assessment.spare.totals.${k}`) !== v)
+        setValue(`assessment.spare.totals.${k}`, v, { shouldDirty: true, shouldValidate: false });
+    };
+    if (!glassOverride) apply("dep_glass_percent", rates.glass);
+    if (!plasticOverride) apply("dep_plastic_percent", rates.plastic);
+    if (!fibreOverride) apply("dep_fibre_percent", rates.fibre);
+    if (!metalOverride) apply("dep_metal_percent", rates.metal);
+
+    // record which rules the computed rates came from
+    const allOverridden = glassOverride && plasticOverride && fibreOverride && metalOverride;
+    if (!allOverridden && getValues("assessment.spare.totals.depreciation_rule_set_id") !== ruleSet.id) {
+      setValue("assessment.spare.totals.depreciation_rule_set_id", ruleSet.id, { shouldDirty: true });
+      setValue("assessment.spare.totals.depreciation_rule_version", ruleSet.version, { shouldDirty: true });
+    }
+
+    // header shows the basis of the metal rate
+    if (!metalOverride) {
+      if (getValues("assessment.header.on_road_age") !== ageLabel)
+        setValue("assessment.header.on_road_age", ageLabel, { shouldDirty: true });
+      if (getValues("assessment.header.age_depreciation_rate") !== `${rates.metal}%`)
+        setValue("assessment.header.age_depreciation_rate", `${rates.metal}%`, { shouldDirty: true });
+    }
+  }, [computedDep, glassOverride, plasticOverride, fibreOverride, metalOverride, getValues, setValue]);
+
   // ---------- calculations: spare ----------
+  const spareDefaultGst =
+    (Number(watch("assessment.spare.totals.cgst_percent")) || 0) +
+    (Number(watch("assessment.spare.totals.sgst_percent")) || 0);
+  const labourDefaultGst =
+    (Number(watch("assessment.labour.totals.cgst_percent")) || 0) +
+    (Number(watch("assessment.labour.totals.sgst_percent")) || 0);
+
   const spareRows = [
     ...(watch("assessment.spare.new_spares") || []),
     ...(watch("assessment.spare.supplementary") || []),
@@ -277,6 +524,7 @@ export const Assessment = ({ claim }: Props) => {
     "assessment.spare.totals.dep_glass_percent",
     "assessment.spare.totals.dep_plastic_percent",
     "assessment.spare.totals.dep_metal_percent",
+    "assessment.spare.totals.dep_fibre_percent",
   ]);
 
   useEffect(() => {
@@ -289,26 +537,43 @@ export const Assessment = ({ claim }: Props) => {
     const assessed_metal_total = r2(
       spareRows.reduce((a, r) => a + (Number(r.assessed_others_metal) || 0), 0)
     );
-    const assessed_total = r2(assessed_glass_total + assessed_plastic_total + assessed_metal_total);
+    const assessed_fibre_total = r2(spareRows.reduce((a, r) => a + (Number(r.assessed_fibreglass) || 0), 0));
+    const assessed_total = r2(
+      assessed_glass_total + assessed_plastic_total + assessed_fibre_total + assessed_metal_total
+    );
 
-    const [cgstP, sgstP, depGP, depPP, depMP] = sparePerc.map(Number);
-    const cgst_amount = r2((assessed_total * (cgstP || 0)) / 100);
-    const sgst_amount = r2((assessed_total * (sgstP || 0)) / 100);
+    const [cgstP, sgstP, depGP, depPP, depMP, depFP] = sparePerc.map(Number);
+    const gst_breakup = buildGstBreakup(
+      spareRows.map((r) => ({
+        amount:
+          (Number(r.assessed_glass) || 0) +
+          (Number(r.assessed_plastic_rubber) || 0) +
+          (Number(r.assessed_fibreglass) || 0) +
+          (Number(r.assessed_others_metal) || 0),
+        gst_percent: lineGstPercent(r.gst_percent, (cgstP || 0) + (sgstP || 0)),
+      }))
+    );
+    const cgst_amount = r2(gst_breakup.reduce((a, b) => a + b.cgst_amount, 0));
+    const sgst_amount = r2(gst_breakup.reduce((a, b) => a + b.sgst_amount, 0));
     const total_with_gst = r2(assessed_total + cgst_amount + sgst_amount);
 
     const dep_glass_amount = r2((assessed_glass_total * (depGP || 0)) / 100);
     const dep_plastic_amount = r2((assessed_plastic_total * (depPP || 0)) / 100);
+    const dep_fibre_amount = r2((assessed_fibre_total * (depFP || 0)) / 100);
     const dep_metal_amount = r2((assessed_metal_total * (depMP || 0)) / 100);
-    const depreciation_total = r2(dep_glass_amount + dep_plastic_amount + dep_metal_amount);
+    const depreciation_total = r2(dep_glass_amount + dep_plastic_amount + dep_fibre_amount + dep_metal_amount);
 
     const net_amount = r2(total_with_gst - depreciation_total);
 
-    const patch = (k: keyof SpareTotals, v: number) =>
+    const patch = (k: Exclude<keyof SpareTotals, "gst_breakup">, v: number) =>
       setValue(`assessment.spare.totals.${k}`, v, { shouldDirty: false, shouldValidate: false });
+    if (!sameBreakup(getValues("assessment.spare.totals.gst_breakup"), gst_breakup))
+      setValue("assessment.spare.totals.gst_breakup", gst_breakup, { shouldDirty: false, shouldValidate: false });
     patch("qty_total", qty_total);
     patch("estimated_total", estimated_total);
     patch("assessed_glass_total", assessed_glass_total);
     patch("assessed_plastic_total", assessed_plastic_total);
+    patch("assessed_fibre_total", assessed_fibre_total);
     patch("assessed_metal_total", assessed_metal_total);
     patch("assessed_total", assessed_total);
     patch("cgst_amount", cgst_amount);
@@ -316,10 +581,11 @@ export const Assessment = ({ claim }: Props) => {
     patch("total_with_gst", total_with_gst);
     patch("dep_glass_amount", dep_glass_amount);
     patch("dep_plastic_amount", dep_plastic_amount);
+    patch("dep_fibre_amount", dep_fibre_amount);
     patch("dep_metal_amount", dep_metal_amount);
     patch("depreciation_total", depreciation_total);
     patch("net_amount", net_amount);
-  }, [spareRows, sparePerc, setValue]);
+  }, [spareRows, sparePerc, getValues, setValue]);
 
   // ---------- calculations: labour ----------
   const labourRows = [
@@ -337,15 +603,23 @@ export const Assessment = ({ claim }: Props) => {
     const assessed_total = r2(labourRows.reduce((a, r) => a + (Number(r.assessed_amount) || 0), 0));
 
     const [cgstP, sgstP, imtP] = labourPerc.map(Number);
-    const cgst_amount = r2((assessed_total * (cgstP || 0)) / 100);
-    const sgst_amount = r2((assessed_total * (sgstP || 0)) / 100);
+    const gst_breakup = buildGstBreakup(
+      labourRows.map((r) => ({
+        amount: Number(r.assessed_amount) || 0,
+        gst_percent: lineGstPercent(r.gst_percent, (cgstP || 0) + (sgstP || 0)),
+      }))
+    );
+    const cgst_amount = r2(gst_breakup.reduce((a, b) => a + b.cgst_amount, 0));
+    const sgst_amount = r2(gst_breakup.reduce((a, b) => a + b.sgst_amount, 0));
     const total_with_gst = r2(assessed_total + cgst_amount + sgst_amount);
 
     const imt_deduction = r2((assessed_total * (imtP || 0)) / 100);
     const final_total = r2(total_with_gst - imt_deduction);
 
-    const patch = (k: keyof LabourTotals, v: number) =>
+    const patch = (k: Exclude<keyof LabourTotals, "gst_breakup">, v: number) =>
       setValue(`assessment.labour.totals.${k}`, v, { shouldDirty: false, shouldValidate: false });
+    if (!sameBreakup(getValues("assessment.labour.totals.gst_breakup"), gst_breakup))
+      setValue("assessment.labour.totals.gst_breakup", gst_breakup, { shouldDirty: false, shouldValidate: false });
     patch("estimated_total", estimated_total);
     patch("assessed_total", assessed_total);
     patch("cgst_amount", cgst_amount);
@@ -353,13 +627,23 @@ export const Assessment = ({ claim }: Props) => {
     patch("total_with_gst", total_with_gst);
     patch("imt_deduction", imt_deduction);
     patch("final_total", final_total);
-  }, [labourRows, labourPerc, setValue]);
+  }, [labourRows, labourPerc, getValues, setValue]);
 
   // ---------- SUMMARY (auto, read-only except salvage/policy_excess) ----------
   const spareTotals = watch("assessment.spare.totals");
   const labourTotals = watch("assessment.labour.totals");
   const salvageValue = watch("assessment.summary.salvage_value");
   const policyExcess = watch("assessment.summary.policy_excess");
+  const salvage = watch("assessment.salvage");
+  const acceptedBid = acceptedSalvageBid(salvage);
+
+  // The accepted salvage bid is the salvage value
+  useEffect(() => {
+    if (!acceptedBid) return;
+    const amount = r2(acceptedBid.amount);
+    if (r2(getValues("assessment.summary.salvage_value")) !== amount)
+      setValue("assessment.summary.salvage_value", amount, { shouldDirty: true });
+  }, [acceptedBid, getValues, setValue]);
 
   // Auto-open summary when there’s data
   useEffect(() => {
@@ -378,6 +662,7 @@ export const Assessment = ({ claim }: Props) => {
 
     const dep_glass_amount = r2(spareTotals?.dep_glass_amount || 0);
     const dep_plastic_amount = r2(spareTotals?.dep_plastic_amount || 0);
+    const dep_fibre_amount = r2(spareTotals?.dep_fibre_amount || 0);
     const dep_metal_amount = r2(spareTotals?.dep_metal_amount || 0);
 
     // IMT on spares not considered (kept for completeness)
@@ -385,13 +670,21 @@ export const Assessment = ({ claim }: Props) => {
     const imt_labour_deduction = r2(labourTotals?.imt_deduction || 0);
 
     const net_after_dep_imt = r2(
-      gross_assessed - (dep_glass_amount + dep_plastic_amount + dep_metal_amount) - imt_labour_deduction
+      gross_assessed - (dep_glass_amount + dep_plastic_amount + dep_fibre_amount + dep_metal_amount) - imt_labour_deduction
     );
 
-    const final_net_liability = r2(net_after_dep_imt - (Number(salvageValue) || 0) - (Number(policyExcess) || 0));
+    // GST on spares and labour, rate by rate
+    const gst_breakup = mergeGstBreakups(spareTotals?.gst_breakup ?? [], labourTotals?.gst_breakup ?? []);
+    const gst_total = r2(gst_breakup.reduce((a, b) => a + b.cgst_amount + b.sgst_amount, 0));
 
-    const patch = (k: keyof Summary, v: number) =>
+    const final_net_liability = r2(
+      net_after_dep_imt + gst_total - (Number(salvageValue) || 0) - (Number(policyExcess) || 0)
+    );
+
+    const patch = (k: Exclude<keyof Summary, "gst_breakup">, v: number) =>
       setValue(`assessment.summary.${k}`, v, { shouldDirty: false, shouldValidate: false });
+    if (!sameBreakup(getValues("assessment.summary.gst_breakup"), gst_breakup))
+      setValue("assessment.summary.gst_breakup", gst_breakup, { shouldDirty: false, shouldValidate: false });
 
     patch("total_spare_assessed", total_spare_assessed);
     patch("total_labour_assessed", total_labour_assessed);
@@ -399,25 +692,30 @@ export const Assessment = ({ claim }: Props) => {
     patch("gross_assessed", gross_assessed);
     patch("dep_glass_amount", dep_glass_amount);
     patch("dep_plastic_amount", dep_plastic_amount);
+    patch("dep_fibre_amount", dep_fibre_amount);
     patch("dep_metal_amount", dep_metal_amount);
     patch("imt_spares_deduction", imt_spares_deduction);
     patch("imt_labour_deduction", imt_labour_deduction);
     patch("net_after_dep_imt", net_after_dep_imt);
+    patch("gst_total", gst_total);
     patch("final_net_liability", final_net_liability);
   }, [
     spareTotals,
     labourTotals,
     salvageValue,
     policyExcess,
+    getValues,
     setValue,
   ]);
 
   // ---------- independent auto-saves ----------
   const spareSaveTimer = useRef<NodeJS.Timeout | null>(null);
   const labourSaveTimer = useRef<NodeJS.Timeout | null>(null);
+  const salvageSaveTimer = useRef<NodeJS.Timeout | null>(null);
   const summarySaveTimer = useRef<NodeJS.Timeout | null>(null);
   const [savingSpare, setSavingSpare] = useState(false);
   const [savingLabour, setSavingLabour] = useState(false);
+  const [savingSalvage, setSavingSalvage] = useState(false);
   const [savingSummary, setSavingSummary] = useState(false);
 
   // watch spare subtree
@@ -454,6 +752,23 @@ export const Assessment = ({ claim }: Props) => {
     return () => sub.unsubscribe();
   }, [watch, claim.id, claim.form_data, getValues, updateClaim]);
 
+  // watch salvage subtree
+  useEffect(() => {
+    const sub = watch((_, { name }) => {
+      if (!name?.startsWith("assessment.salvage")) return;
+      if (salvageSaveTimer.current) clearTimeout(salvageSaveTimer.current);
+      setSavingSalvage(true);
+      salvageSaveTimer.current = setTimeout(async () => {
+        await updateClaim.mutateAsync({
+          id: claim.id,
+          updates: { form_data: { ...claim.form_data, assessment: getValues().assessment } },
+        });
+        setSavingSalvage(false);
+      }, 1000);
+    });
+    return () => sub.unsubscribe();
+  }, [watch, claim.id, claim.form_data, getValues, updateClaim]);
+
   // watch summary (only salvage/policy_excess are editable)
   useEffect(() => {
     const sub = watch((_, { name }) => {
@@ -480,6 +795,60 @@ export const Assessment = ({ claim }: Props) => {
     toast.success("Assessment saved");
   };
 
+  // ---------- variance (estimate vs assessed) ----------
+  const { data: disallowanceReasons = [] } = useDisallowanceReasons();
+  const [openVariance, setOpenVariance] = useState(false);
+  const varianceLines = buildVarianceLines(watch("assessment"));
+  const varianceGroups = groupVarianceByReason(varianceLines);
+  const varianceTotals = varianceLines.reduce(
+    (acc, l) => ({
+      estimated: r2(acc.estimated + l.estimated),
+      assessed: r2(acc.assessed + l.assessed),
+      disallowed: r2(acc.disallowed + Math.max(l.disallowed, 0)),
+    }),
+    { estimated: 0, assessed: 0, disallowed: 0 }
+  );
+
+  const reasonOptions = (table: VarianceTable, current: string) => {
+    const scope = table.startsWith("labour") ? "labour" : "spare";
+    const labels = disallowanceReasons
+      .filter((r) => r.is_active && (r.applies_to === "both" || r.applies_to === scope))
+      .map((r) => r.label);
+    // keep a reason that has since been renamed or retired
+    return current && !labels.includes(current) ? [current, ...labels] : labels;
+  };
+
+  const renderPdf = useRenderReportPdf();
+  const { data: organisationProfiles = [] } = useOrganisationProfiles();
+  const [printingVariance, setPrintingVariance] = useState(false);
+
+  const handlePrintVariance = async () => {
+    const issuer = resolveOrganisationProfile(
+      organisationProfiles,
+      claim.form_data?.organisation_profile_id as string | undefined,
+      claim.user_id
+    );
+    setPrintingVariance(true);
+    try {
+      const { blob } = await renderPdf({
+        company: claim.policy_types?.name || "Insurance Company",
+        reportName: `Variance Annexure - ${claim.claim_number}`,
+        assets: letterheadAssets(issuer),
+        components: [
+          { type: "header", props: { text: "ANNEXURE: ESTIMATE VS ASSESSED" } },
+          { type: "para", props: { text: getValues("assessment.header.insured_and_regn") || claim.claim_number } },
+          ...buildVarianceReportComponents(getValues("assessment")),
+        ],
+      });
+      window.open(URL.createObjectURL(blob), "_blank");
+    } catch (error) {
+      console.error("PDF API error:", error);
+      toast.error("Failed to generate PDF: " + (error as Error).message);
+    } finally {
+      setPrintingVariance(false);
+    }
+  };
+
   // ---------- styles ----------
   const css = `
     .assess-table { border-collapse: collapse; width: 100%; border: 1px solid #000; background: #fff; }
@@ -494,6 +863,8 @@ export const Assessment = ({ claim }: Props) => {
     th.glass-col, td.glass-col { min-width: 90px; }
     th.desc-col, td.desc-col { width: 460px; }
     .totals-row { background:#fff2cc; font-weight:600; }
+    .cut-row { background:#fef2f2; }
+    .computed-rate { display:flex; align-items:center; justify-content:space-between; gap:8px; font-size:12px; }
     details summary { cursor: pointer; list-style: none; }
     details summary::-webkit-details-marker { display:none; }
     .section-toggle { display:flex; align-items:center; justify-content:space-between; padding:8px 10px; background:#f8fafc; border-bottom:1px solid #e2e8f0; }
@@ -515,12 +886,23 @@ export const Assessment = ({ claim }: Props) => {
               <Loader2 className="w-3 h-3 animate-spin" /> Auto-saving...
             </span>
           )}
+          <Button size="sm" variant="outline" onClick={() => setImportOpen(true)}>
+            <FileUp className="w-4 h-4 mr-2" /> Import
+          </Button>
           <Button size="sm" onClick={handleManualSave} className="bg-slate-700 hover:bg-slate-800">
             <Save className="w-4 h-4 mr-2" /> Save
           </Button>
         </div>
       </div>
 
+      <EstimateImportDialog
+        claimId={claim.id}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        existing={existingLines}
+        onImport={handleImport}
+      />
+
       {/* ===== Header ===== */}
       <Card className="bg-white border-2 border-gray-300">
         <div className="section-title">Annexure-A: Attached to and forming part of Report</div>
@@ -547,7 +929,14 @@ export const Assessment = ({ claim }: Props) => {
             <tr>
               <td className="center">Date of Accident</td>
               <td><input type="date" className="assess-input" {...register("assessment.header.date_of_accident")} /></td>
-              <td colSpan={2}></td>
+              <td className="center">Depreciation Rules</td>
+              <td className="read-only-cell">
+                {computedDep
+                  ? `${computedDep.ruleSet.name} (v${computedDep.ruleSet.version})`
+                  : depreciationRuleSets.length > 0
+                  ? "Enter registration date and date of accident"
+                  : "Not configured"}
+              </td>
             </tr>
             <tr>
               <td colSpan={4}>
@@ -584,16 +973,19 @@ export const Assessment = ({ claim }: Props) => {
                     <th style={{ width: 45 }}>Sl.</th>
                     <th style={{ width: 90 }}>Invoice No.</th>
                     <th className="desc-col">Description of New Spares and Quantity</th>
+                    <th style={{ width: 90 }}>HSN</th>
                     <th style={{ width: 70 }}>Qty</th>
+                    <th style={{ width: 70 }}>GST %</th>
                     <th style={{ width: 120 }}>Estimated</th>
-                    <th colSpan={3} style={{ width: 320 }}>Assessed Amount</th>
+                    <th colSpan={4} style={{ width: 420 }}>Assessed Amount</th>
                     <th style={{ width: 220 }}>Remarks</th>
                     <th style={{ width: 32 }}></th>
                   </tr>
                   <tr>
-                    <th colSpan={5}></th>
+                    <th colSpan={7}></th>
                     <th className="glass-col">Glass</th>
                     <th>Plastic/Rub.</th>
+                    <th>Fibreglass</th>
                     <th>Others/Metal</th>
                     <th colSpan={2}></th>
                   </tr>
@@ -620,6 +1012,9 @@ export const Assessment = ({ claim }: Props) => {
                         <td className="desc-col">
                           <input className="assess-input" {...register(`${prefix}.description`)} />
                         </td>
+                        <td>
+                          <input className="assess-input center" {...register(`${prefix}.hsn_code`)} />
+                        </td>
                         <td>
                           <input
                             type="number"
@@ -627,6 +1022,14 @@ export const Assessment = ({ claim }: Props) => {
                             {...register(`${prefix}.quantity`, { valueAsNumber: true })}
                           />
                         </td>
+                        <td>
+                          <input
+                            type="number"
+                            className="assess-input num"
+                            placeholder={String(spareDefaultGst)}
+                            {...register(`${prefix}.gst_percent`, { setValueAs: parseGstPercent })}
+                          />
+                        </td>
                         <td>
                           <input
                             type="number"
@@ -654,6 +1057,16 @@ export const Assessment = ({ claim }: Props) => {
                             }
                           />
                         </td>
+                        <td>
+                          <input
+                            type="number"
+                            className="assess-input num"
+                            value={watch(`${prefix}.assessed_fibreglass`) || ""}
+                            onChange={(e) =>
+                              handleExclusiveSpare(path, idx, "assessed_fibreglass", e.target.value)
+                            }
+                          />
+                        </td>
                         <td>
                           <input
                             type="number"
@@ -710,7 +1123,7 @@ export const Assessment = ({ claim }: Props) => {
               </tr>
 
               <tr>
-                <td className="center">ADD: CGST (%)</td>
+                <td className="center">DEFAULT CGST (%)</td>
                 <td>
                   <input type="number" className="assess-input num"
                     {...register("assessment.spare.totals.cgst_percent", { valueAsNumber: true })} />
@@ -728,7 +1141,7 @@ export const Assessment = ({ claim }: Props) => {
               </tr>
 
               <tr>
-                <td className="center">ADD: SGST (%)</td>
+                <td className="center">DEFAULT SGST (%)</td>
                 <td>
                   <input type="number" className="assess-input num"
                     {...register("assessment.spare.totals.sgst_percent", { valueAsNumber: true })} />
@@ -756,13 +1169,18 @@ export const Assessment = ({ claim }: Props) => {
                   <input className="assess-input num read-only-cell" readOnly
                     value={r2(watch("assessment.spare.totals.assessed_metal_total") || 0).toFixed(2)} />
                 </td>
-                <td colSpan={2}></td>
+                <td className="center">FIBREGLASS TOTAL</td>
+                <td>
+                  <input className="assess-input num read-only-cell" readOnly
+                    value={r2(watch("assessment.spare.totals.assessed_fibre_total") || 0).toFixed(2)} />
+                </td>
               </tr>
 
               <tr>
                 <td className="center">DEP. ON GLASS (%)</td>
                 <td>
-                  <input type="number" className="assess-input num"
+                  <input type="number" className={`assess-input num ${glassOverride ? "" : "read-only-cell"}`}
+                    readOnly={!glassOverride}
                     {...register("assessment.spare.totals.dep_glass_percent", { valueAsNumber: true })} />
                 </td>
                 <td className="center">DEP. AMOUNT (GLASS)</td>
@@ -770,13 +1188,22 @@ export const Assessment = ({ claim }: Props) => {
                   <input className="assess-input num read-only-cell" readOnly
                     value={r2(watch("assessment.spare.totals.dep_glass_amount") || 0).toFixed(2)} />
                 </td>
-                <td colSpan={2}></td>
+                <td colSpan={2}>
+                  <label className="computed-rate">
+                    <span>Computed: {computedDep ? `${computedDep.rates.glass}%` : "—"}</span>
+                    <span className="flex items-center gap-1">
+                      <input type="checkbox" {...register("assessment.spare.totals.dep_glass_override")} />
+                      Override
+                    </span>
+                  </label>
+                </td>
               </tr>
 
               <tr>
                 <td className="center">DEP. ON PLASTIC (%)</td>
                 <td>
-                  <input type="number" className="assess-input num"
+                  <input type="number" className={`assess-input num ${plasticOverride ? "" : "read-only-cell"}`}
+                    readOnly={!plasticOverride}
                     {...register("assessment.spare.totals.dep_plastic_percent", { valueAsNumber: true })} />
                 </td>
                 <td className="center">DEP. AMOUNT (PLASTIC)</td>
@@ -784,13 +1211,44 @@ export const Assessment = ({ claim }: Props) => {
                   <input className="assess-input num read-only-cell" readOnly
                     value={r2(watch("assessment.spare.totals.dep_plastic_amount") || 0).toFixed(2)} />
                 </td>
-                <td colSpan={2}></td>
+                <td colSpan={2}>
+                  <label className="computed-rate">
+                    <span>Computed: {computedDep ? `${computedDep.rates.plastic}%` : "—"}</span>
+                    <span className="flex items-center gap-1">
+                      <input type="checkbox" {...register("assessment.spare.totals.dep_plastic_override")} />
+                      Override
+                    </span>
+                  </label>
+                </td>
+              </tr>
+              <tr>
+                <td className="center">DEP. ON FIBREGLASS (%)</td>
+                <td>
+                  <input type="number" className={`assess-input num ${fibreOverride ? "" : "read-only-cell"}`}
+                    readOnly={!fibreOverride}
+                    {...register("assessment.spare.totals.dep_fibre_percent", { valueAsNumber: true })} />
+                </td>
+                <td className="center">DEP. AMOUNT (FIBREGLASS)</td>
+                <td>
+                  <input className="assess-input num read-only-cell" readOnly
+                    value={r2(watch("assessment.spare.totals.dep_fibre_amount") || 0).toFixed(2)} />
+                </td>
+                <td colSpan={2}>
+                  <label className="computed-rate">
+                    <span>Computed: {computedDep ? `${computedDep.rates.fibre}%` : "—"}</span>
+                    <span className="flex items-center gap-1">
+                      <input type="checkbox" {...register("assessment.spare.totals.dep_fibre_override")} />
+                      Override
+                    </span>
+                  </label>
+                </td>
               </tr>
 
               <tr>
                 <td className="center">DEP. ON METAL (%)</td>
                 <td>
-                  <input type="number" className="assess-input num"
+                  <input type="number" className={`assess-input num ${metalOverride ? "" : "read-only-cell"}`}
+                    readOnly={!metalOverride}
                     {...register("assessment.spare.totals.dep_metal_percent", { valueAsNumber: true })} />
                 </td>
                 <td className="center">DEP. AMOUNT (METAL)</td>
@@ -798,7 +1256,15 @@ export const Assessment = ({ claim }: Props) => {
                   <input className="assess-input num read-only-cell" readOnly
                     value={r2(watch("assessment.spare.totals.dep_metal_amount") || 0).toFixed(2)} />
                 </td>
-                <td colSpan={2}></td>
+                <td colSpan={2}>
+                  <label className="computed-rate">
+                    <span>Computed: {computedDep ? `${computedDep.rates.metal}%` : "—"}</span>
+                    <span className="flex items-center gap-1">
+                      <input type="checkbox" {...register("assessment.spare.totals.dep_metal_override")} />
+                      Override
+                    </span>
+                  </label>
+                </td>
               </tr>
 
               <tr className="totals-row">
@@ -816,6 +1282,7 @@ export const Assessment = ({ claim }: Props) => {
               </tr>
             </tbody>
           </table>
+          <GstBreakupTable title="GST BREAKUP (SPARES)" rows={watch("assessment.spare.totals.gst_breakup") || []} />
         </Card>
       </details>
 
@@ -845,6 +1312,8 @@ export const Assessment = ({ claim }: Props) => {
                     <th style={{ width: 45 }}>Sl.</th>
                     <th style={{ width: 90 }}>Invoice No.</th>
                     <th className="desc-col">Detail of Labour / Repair Charges</th>
+                    <th style={{ width: 90 }}>SAC</th>
+                    <th style={{ width: 70 }}>GST %</th>
                     <th style={{ width: 120 }}>Estimated Amount</th>
                     <th style={{ width: 120 }}>Assessed Amount</th>
                     <th style={{ width: 260 }}>Detail of Damages / Extent of Repairs Done</th>
@@ -873,6 +1342,17 @@ export const Assessment = ({ claim }: Props) => {
                         <td className="desc-col">
                           <input className="assess-input" {...register(`${prefix}.description`)} />
                         </td>
+                        <td>
+                          <input className="assess-input center" {...register(`${prefix}.sac_code`)} />
+                        </td>
+                        <td>
+                          <input
+                            type="number"
+                            className="assess-input num"
+                            placeholder={String(labourDefaultGst)}
+                            {...register(`${prefix}.gst_percent`, { setValueAs: parseGstPercent })}
+                          />
+                        </td>
                         <td>
                           <input
                             type="number"
@@ -929,7 +1409,7 @@ export const Assessment = ({ claim }: Props) => {
               </tr>
 
               <tr>
-                <td className="center">ADD: CGST (%)</td>
+                <td className="center">DEFAULT CGST (%)</td>
                 <td>
                   <input type="number" className="assess-input num"
                     {...register("assessment.labour.totals.cgst_percent", { valueAsNumber: true })} />
@@ -943,7 +1423,7 @@ export const Assessment = ({ claim }: Props) => {
               </tr>
 
               <tr>
-                <td className="center">ADD: SGST (%)</td>
+                <td className="center">DEFAULT SGST (%)</td>
                 <td>
                   <input type="number" className="assess-input num"
                     {...register("assessment.labour.totals.sgst_percent", { valueAsNumber: true })} />
@@ -989,9 +1469,44 @@ export const Assessment = ({ claim }: Props) => {
               </tr>
             </tbody>
           </table>
+          <GstBreakupTable title="GST BREAKUP (LABOUR)" rows={watch("assessment.labour.totals.gst_breakup") || []} />
         </Card>
       </details>
 
+      {/* ===== SALVAGE DISPOSAL (items, bids, accepted buyer, sale) ===== */}
+      <details open={openSalvage} onToggle={(e) => setOpenSalvage((e.target as HTMLDetailsElement).open)}>
+        <summary>
+          <div className="section-toggle">
+            <div className="flex items-center">
+              <span className="chev">▸</span>
+              <span className="font-semibold">Salvage Disposal</span>
+            </div>
+            <div className="flex items-center gap-2">
+              {acceptedBid && (
+                <span className="text-xs text-gray-600">
+                  Sold to {acceptedBid.bidder_name || "accepted bidder"} for {r2(acceptedBid.amount).toFixed(2)}
+                </span>
+              )}
+              {savingSalvage && <Loader2 className="w-3 h-3 animate-spin text-gray-500" />}
+            </div>
+          </div>
+        </summary>
+
+        <div className="space-y-3 mt-2">
+          <SalvagePanel
+            claimId={claim.id}
+            salvage={salvage ?? EMPTY_SALVAGE}
+            onChange={(next) =>
+              setValue(
+                "assessment.salvage",
+                typeof next === "function" ? next(getValues("assessment.salvage") ?? EMPTY_SALVAGE) : next,
+                { shouldDirty: true }
+              )
+            }
+          />
+        </div>
+      </details>
+
       {/* ===== SUMMARY OF ASSESSMENT (auto, read-only; salvage & policy excess editable) ===== */}
       <details open={openSummary} onToggle={(e) => setOpenSummary((e.target as HTMLDetailsElement).open)}>
         <summary>
@@ -1071,6 +1586,15 @@ export const Assessment = ({ claim }: Props) => {
                     value={r2(watch("assessment.summary.dep_plastic_amount") || 0).toFixed(2)} />
                 </td>
               </tr>
+              <tr>
+                <td><strong>LESS: DEPRECIATION ON FIBREGLASS PARTS</strong></td>
+                <td className="center">@</td>
+                <td className="read-only-cell"></td>
+                <td>
+                  <input className="assess-input num read-only-cell" readOnly
+                    value={r2(watch("assessment.summary.dep_fibre_amount") || 0).toFixed(2)} />
+                </td>
+              </tr>
               <tr>
                 <td>
                   <div><strong>LESS: DEPRECIATION ON METAL / OTHER PARTS</strong></div>
@@ -1103,14 +1627,29 @@ export const Assessment = ({ claim }: Props) => {
                 </td>
               </tr>
 
+              {(watch("assessment.summary.gst_breakup") || []).map((b) => (
+                <tr key={b.gst_percent}>
+                  <td><strong>ADD: GST @ {b.gst_percent}%</strong></td>
+                  <td className="center">on</td>
+                  <td>
+                    <input className="assess-input num read-only-cell" readOnly value={r2(b.taxable_amount).toFixed(2)} />
+                  </td>
+                  <td>
+                    <input className="assess-input num read-only-cell" readOnly
+                      value={r2(b.cgst_amount + b.sgst_amount).toFixed(2)} />
+                  </td>
+                </tr>
+              ))}
+
               <tr>
                 <td><strong>LESS: SALVAGE VALUE & R.O</strong></td>
-                <td></td>
+                <td className="text-xs text-gray-600">{acceptedBid ? "From accepted salvage bid" : ""}</td>
                 <td className="read-only-cell"></td>
                 <td>
                   <input
                     type="number"
-                    className="assess-input num"
+                    className={`assess-input num${acceptedBid ? " read-only-cell" : ""}`}
+                    readOnly={!!acceptedBid}
                     {...register("assessment.summary.salvage_value", { valueAsNumber: true })}
                   />
                 </td>
@@ -1140,6 +1679,141 @@ export const Assessment = ({ claim }: Props) => {
           </table>
         </Card>
       </details>
+
+      {/* ===== VARIANCE (estimate vs assessed, with disallowance reasons) ===== */}
+      <details open={openVariance} onToggle={(e) => setOpenVariance((e.target as HTMLDetailsElement).open)}>
+        <summary>
+          <div className="section-toggle">
+            <div className="flex items-center">
+              <span className="chev">▸</span>
+              <span className="font-semibold">Estimate vs Assessed Variance</span>
+            </div>
+            {varianceTotals.disallowed > 0 && (
+              <span className="text-xs text-gray-600">Disallowed {varianceTotals.disallowed.toFixed(2)}</span>
+            )}
+          </div>
+        </summary>
+
+        <Card className="bg-white border-2 border-gray-300">
+          <div className="section-title flex items-center justify-between">
+            <span>ITEM-WISE VARIANCE</span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7"
+              onClick={handlePrintVariance}
+              disabled={printingVariance || varianceTotals.disallowed === 0}
+            >
+              {printingVariance ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Printer className="w-4 h-4 mr-2" />
+              )}
+              Print annexure
+            </Button>
+          </div>
+          <div className="scroll-area">
+            <table className="assess-table">
+              <thead>
+                <tr>
+                  <th style={{ width: 45 }}>Sl.</th>
+                  <th style={{ width: 150 }}>Table</th>
+                  <th className="desc-col">Description</th>
+                  <th style={{ width: 110 }}>Estimated</th>
+                  <th style={{ width: 110 }}>Assessed</th>
+                  <th style={{ width: 110 }}>Disallowed</th>
+                  <th style={{ width: 70 }}>%</th>
+                  <th style={{ width: 260 }}>Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {varianceLines.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="center">No estimated lines yet</td>
+                  </tr>
+                ) : (
+                  varianceLines.map((line) => (
+                    <tr key={`${line.table}-${line.index}`} className={line.disallowed > 0 ? "cut-row" : undefined}>
+                      <td className="center read-only-cell">{line.index + 1}</td>
+                      <td>{VARIANCE_TABLE_LABELS[line.table]}</td>
+                      <td className="desc-col">{line.description}</td>
+                      <td className="num">{line.estimated.toFixed(2)}</td>
+                      <td className="num">{line.assessed.toFixed(2)}</td>
+                      <td className="num">{line.disallowed.toFixed(2)}</td>
+                      <td className="num">{line.percent}%</td>
+                      <td>
+                        {line.disallowed > 0 && (
+                          <select
+                            className="assess-input"
+                            value={line.reason}
+                            onChange={(e) =>
+                              setValue(
+                                `${VARIANCE_PATHS[line.table]}.${line.index}.disallowance_reason`,
+                                e.target.value,
+                                { shouldDirty: true }
+                              )
+                            }
+                          >
+                            <option value="">Select reason…</option>
+                            {reasonOptions(line.table, line.reason).map((label) => (
+                              <option key={label} value={label}>
+                                {label}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+                <tr className="totals-row">
+                  <td colSpan={3} className="center">TOTAL</td>
+                  <td className="num">{varianceTotals.estimated.toFixed(2)}</td>
+                  <td className="num">{varianceTotals.assessed.toFixed(2)}</td>
+                  <td className="num">{varianceTotals.disallowed.toFixed(2)}</td>
+                  <td className="num">
+                    {varianceTotals.estimated > 0
+                      ? r2((varianceTotals.disallowed / varianceTotals.estimated) * 100)
+                      : 0}
+                    %
+                  </td>
+                  <td></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {varianceGroups.length > 0 && (
+            <>
+              <div className="section-title">DISALLOWANCE BY REASON</div>
+              <table className="assess-table">
+                <thead>
+                  <tr>
+                    <th>Reason</th>
+                    <th style={{ width: 80 }}>Items</th>
+                    <th style={{ width: 110 }}>Estimated</th>
+                    <th style={{ width: 110 }}>Disallowed</th>
+                    <th style={{ width: 70 }}>%</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {varianceGroups.map((group) => (
+                    <tr key={group.reason} className={group.reason === UNEXPLAINED_REASON ? "cut-row" : undefined}>
+                      <td>{group.reason}</td>
+                      <td className="center">{group.lines.length}</td>
+                      <td className="num">{group.estimated.toFixed(2)}</td>
+                      <td className="num">{group.disallowed.toFixed(2)}</td>
+                      <td className="num">
+                        {group.estimated > 0 ? r2((group.disallowed / group.estimated) * 100) : 0}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </Card>
+      </details>
     </div>
   );
 };
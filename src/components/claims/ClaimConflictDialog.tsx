@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { GitMerge } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ClaimConflictError,
+  ConflictChoice,
+  onClaimConflict,
+  resolveClaimConflict,
+} from "@/lib/claimConcurrency";
+import { formatAuditValue } from "@/lib/fieldAudit";
+
+interface ClaimConflictDialogProps {
+  claimId: string;
+  /** Labels for form_data keys */
+  fieldLabels?: Record<string, string>;
+}
+
+export const ClaimConflictDialog = ({ claimId, fieldLabels }: ClaimConflictDialogProps) => {
+  const queryClient = useQueryClient();
+  const [conflict, setConflict] = useState<ClaimConflictError | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(
+    () =>
+      onClaimConflict((next) => {
+        if (next.claimId !== claimId) return;
+        setConflict(next);
+        setChoices(Object.fromEntries(next.conflicts.map((c) => [c.key, "mine" as ConflictChoice])));
+      }),
+    [claimId]
+  );
+
+  const chooseAll = (choice: ConflictChoice) => {
+    if (!conflict) return;
+    setChoices(Object.fromEntries(conflict.conflicts.map((c) => [c.key, choice])));
+  };
+
+  const handleSave = async () => {
+    if (!conflict) return;
+    setSaving(true);
+    try {
+      await resolveClaimConflict(conflict, choices);
+      setConflict(null);
+      queryClient.invalidateQueries({ queryKey: ["claim"] });
+      queryClient.invalidateQueries({ queryKey: ["claims"] });
+      toast.success("Changes merged and saved");
+    } catch (error) {
+      // A newer conflict re-opens this dialog through the listener
+      if (!(error instanceof ClaimConflictError)) {
+        console.error("[ClaimConflictDialog] Error:", error);
+        toast.error("Failed to save merged changes: " + (error as Error).message);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    setConflict(null);
+    queryClient.invalidateQueries({ queryKey: ["claim"] });
+  };
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && !saving && handleDiscard()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Someone else edited this claim
+          </DialogTitle>
+          <DialogDescription>
+            Their other changes have been merged with yours. These fields were changed on both sides; pick the
+            value to keep for each.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto border rounded-lg divide-y">
+          <div className="grid grid-cols-[10rem_1fr_1fr] gap-4 px-4 py-2 bg-muted text-xs font-semibold uppercase text-muted-foreground">
+            <span>Field</span>
+            <span>Your value</span>
+            <span>Their value</span>
+          </div>
+          {conflict?.conflicts.map((c) => (
+            <RadioGroup
+              key={c.key}
+              value={choices[c.key]}
+              onValueChange={(value) => setChoices((prev) => ({ ...prev, [c.key]: value as ConflictChoice }))}
+              className="grid grid-cols-[10rem_1fr_1fr] gap-4 px-4 py-3 items-start"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium break-words">{fieldLabels?.[c.key] || c.key}</p>
+                <p className="text-xs text-muted-foreground break-words">Was: {formatAuditValue(c.base)}</p>
+              </div>
+              {(["mine", "theirs"] as const).map((side) => (
+                <Label
+                  key={side}
+                  htmlFor={`${c.key}-${side}`}
+                  className={`flex items-start gap-2 rounded-md border p-2 cursor-pointer font-normal ${
+                    choices[c.key] === side ? "border-primary bg-primary/5" : ""
+                  }`}
+                >
+                  <RadioGroupItem value={side} id={`${c.key}-${side}`} className="mt-0.5" />
+                  <span className="text-sm break-words min-w-0">{formatAuditValue(side === "mine" ? c.mine : c.theirs)}</span>
+                </Label>
+              ))}
+            </RadioGroup>
+          ))}
+        </div>
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => chooseAll("mine")}>
+              Keep all mine
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => chooseAll("theirs")}>
+              Keep all theirs
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={handleDiscard} disabled={saving}>
+              Discard my changes
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save merged"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
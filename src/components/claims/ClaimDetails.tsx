@@ -1,68 +1,39 @@
-import { useState, useRef, useEffect } from "react";
+import { useState } from "react";
 import { useParams } from "react-router-dom";
 import { Json } from "@/integrations/supabase/types";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { ArrowLeft, FileText, Info, Eye, Upload, CheckCircle2, Clock, AlertCircle, IndianRupee } from "lucide-react";
-import { useClaimById, useUpdateClaim, useUpdateClaimSilent } from "@/hooks/useClaims";
+import { ArrowLeft, FileText, Info, Eye, Upload, IndianRupee, History } from "lucide-react";
+import { useClaimById, usePolicyTypes, useUpdateClaimSilent } from "@/hooks/useClaims";
 import { PolicyDetailsForm } from "./PolicyDetailsForm";
 import { AdditionalInformationForm } from "./AdditionalInformationForm";
 import { ReportPreview } from "./ReportPreview";
+import { ReportVersionHistory } from "./ReportVersionHistory";
+import { ClaimStatusSelect } from "./ClaimStatusSelect";
+import { ClaimStatusTimeline } from "./ClaimStatusTimeline";
+import { FieldHistoryDrawer } from "./FieldHistoryDrawer";
+import { ClaimPresenceIndicator } from "./ClaimPresenceIndicator";
+import { ClaimConflictDialog } from "./ClaimConflictDialog";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
 import { DocumentManager } from "./DocumentManager";
 import { Link } from "react-router-dom";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
-import { Tables } from "@/integrations/supabase/types";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { useAuth } from '../auth/AuthProvider';
 import {SelectiveDocumentExtractor} from "./SelectiveDocumentExtractor"
+import { FIELD_SOURCES_KEY, FieldSources } from "@/lib/extractionReview";
 import { FeeBillForm } from "./FeeBillForm";
 import { Assessment } from "./Assessment";
 import { DocumentsTab } from "../documents/DocumentsTab";
+import { ExtractionReviewQueue } from "./ExtractionReviewQueue";
 
 
 
-const statusConfig = {
-  submitted: { color: "bg-slate-600", icon: Clock, label: "Submitted" },
-  under_review: { color: "bg-amber-600", icon: AlertCircle, label: "Under Review" },
-  approved: { color: "bg-green-700", icon: CheckCircle2, label: "Approved" },
-  rejected: { color: "bg-red-600", icon: AlertCircle, label: "Rejected" },
-  paid: { color: "bg-green-800", icon: CheckCircle2, label: "Paid" },
-  pending:{color: "bg-blue-600", icon: AlertCircle, label:"Pending"},
-};
-
-type ClaimDocumentRow = Tables<'claim_documents'>;
-type ClaimStatus = "pending" | "submitted" | "under_review" | "approved" | "rejected" | "paid";
-
-interface ExtractedBillData {
-  consignee_name?: string;
-  consignee_importer?: string;
-  applicant_survey?: string;
-  underwriter_name?: string;
-  cha_name?: string;
-  certificate_no?: string;
-  endorsement_no?: string;
-  invoice_no?: string;
-  invoice_date?: string;
-  invoice_value?: string;
-  invoice_pcs?: string;
-  invoice_gross_wt?: string;
-  invoice_net_wt?: string;
-}
-
-
 export const ClaimDetails = () => {
   const { id } = useParams<{ id: string }>();
   const { data: claim, isLoading } = useClaimById(id!);
   const [activeTab, setActiveTab] = useState("policy-details");
-  const [isUploading, setIsUploading] = useState(false);
-  const [isExtracting, setIsExtracting] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const [uploadedBillOfEntry, setUploadedBillOfEntry] = useState<ClaimDocumentRow | null>(null);
   const queryClient = useQueryClient();
   const {isAdmin, user} = useAuth();
 
@@ -77,17 +48,18 @@ export const ClaimDetails = () => {
 // ];
 
 
-const handlePolicyDocumentExtracted = async (extractedData: Record<string, any>) => {
+const handlePolicyDocumentExtracted = async (extractedData: Record<string, any>, fieldSources: FieldSources) => {
   console.log('✅ Policy Document Data Extracted:', extractedData);
   
   try {
     // Get current form data
     const currentFormData = claim?.form_data || {};
     
-    // Merge with extracted data
+    // Merge the fields accepted in review, tagged with their source document
     const updatedFormData = {
       ...currentFormData,
-      ...extractedData
+      ...extractedData,
+      [FIELD_SOURCES_KEY]: fieldSources
     };
 
     // Save to database
@@ -95,7 +67,8 @@ const handlePolicyDocumentExtracted = async (extractedData: Record<string, any>)
       id: claim!.id,
       updates: {
         form_data: updatedFormData as Json
-      }
+      },
+      source: "ai_extraction",
     });
 
     // Show success message
@@ -110,17 +83,18 @@ const handlePolicyDocumentExtracted = async (extractedData: Record<string, any>)
   }
 };
 
-const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) => {
+const handleBillOfEntryExtracted = async (extractedData: Record<string, any>, fieldSources: FieldSources) => {
   console.log('✅ Bill of Entry Data Extracted:', extractedData);
   
   try {
     // Get current form data
     const currentFormData = claim?.form_data || {};
     
-    // Merge with extracted data
+    // Merge the fields accepted in review, tagged with their source document
     const updatedFormData = {
       ...currentFormData,
-      ...extractedData
+      ...extractedData,
+      [FIELD_SOURCES_KEY]: fieldSources
     };
 
     // Save to database
@@ -128,7 +102,8 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
       id: claim!.id,
       updates: {
         form_data: updatedFormData as Json
-      }
+      },
+      source: "ai_extraction",
     });
 
     // Show success message
@@ -143,37 +118,32 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
   }
 };
 
-
-  useEffect(() => {
-    const loadExistingDocuments = async () => {
-      if (!id) return;
-      
-      try {
-        const { data: documents, error } = await supabase
-          .from('claim_documents')
-          .select('*')
-          .eq('claim_id', id)
-          .eq('field_label', 'Bill of Entry')
-          .order('created_at', { ascending: false })
-          .limit(1);
-
-        if (error) {
-          console.error('Error loading documents:', error);
-          return;
-        }
-
-        if (documents && documents.length > 0) {
-          setUploadedBillOfEntry(documents[0]);
-        }
-      } catch (error) {
-        console.error('Failed to load existing documents:', error);
-      }
-    };
-
-    loadExistingDocuments();
-  }, [id]);
-
-  
+// Requirements read through an extraction profile, other than the two fixed extractors above
+const { data: policyTypes = [] } = usePolicyTypes();
+const claimPolicyType = policyTypes.find((pt) => pt.id === claim?.policy_type_id);
+const profiledRequirements = (claimPolicyType?.required_documents || []).filter(
+  (label) =>
+    label !== "Bill of Entry" &&
+    label !== "Policy Document" &&
+    !!claimPolicyType?.document_rules?.[label]?.extraction_profile_id
+);
+
+const handleRequirementExtracted = (label: string) => async (extractedData: Record<string, unknown>, fieldSources: FieldSources) => {
+  try {
+    await updateClaimSilentMutation.mutateAsync({
+      id: claim!.id,
+      updates: {
+        form_data: { ...(claim?.form_data || {}), ...extractedData, [FIELD_SOURCES_KEY]: fieldSources } as Json
+      },
+      source: "ai_extraction",
+    });
+    toast.success(`✅ Successfully saved ${Object.keys(extractedData).length} fields from ${label}!`);
+    queryClient.invalidateQueries({ queryKey: ["claim", id] });
+  } catch (error) {
+    console.error('❌ Failed to save extracted data:', error);
+    toast.error('Failed to save extracted data to database');
+  }
+};
 
   const handleTabChange = (value: string) => {
     const sectionNames: Record<string, string> = {
@@ -196,219 +166,8 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
   };
   
 
-  const updateClaimMutation = useUpdateClaim();
   const updateClaimSilentMutation = useUpdateClaimSilent();
 
-  const populateFormFields = async (extractedData: ExtractedBillData) => {
-    console.log('populateFormFields called with:', extractedData);
-    
-    // Map the extracted data to your form field names
-    const mappedData: Record<string, unknown> = {};
-    
-    Object.entries(extractedData).forEach(([key, value]) => {
-      if (value) {
-        // Map extracted keys to actual form field names
-        switch (key) {
-          case 'consignee_name':
-            mappedData['consigner_name'] = (value);
-            break;
-          case 'consignee_importer':
-            mappedData['consignee_name'] = (value);
-            break;
-          case 'applicant_survey':
-            mappedData['applicant_survey'] = (value);
-            break;
-          case 'underwriter_name':
-            mappedData['underwriter_name'] = (value);
-            break;
-          case 'cha_name':
-            mappedData['cha_name'] = (value);
-            break;
-          case 'certificate_no':
-            mappedData['certificate_no'] = (value);
-            break;
-          case 'endorsement_no':
-            mappedData['endorsement_no'] = (value);
-            break;
-          case 'invoice_no':
-            mappedData['invoice_no'] = (value);
-            break;
-          case 'invoice_date':
-            mappedData['invoice_date'] = (value);
-            break;
-          case 'invoice_value':
-            mappedData['invoice_value'] = (value);
-            break;
-          case 'invoice_pcs':
-            mappedData['invoice_pkg_count'] = (value);
-            break;
-          case 'invoice_gross_wt':
-            mappedData['invoice_gross_wt'] = (value);
-            break;
-          case 'invoice_net_wt':
-            mappedData['invoice_net_wt'] = (value);
-            break;
-          default:
-            mappedData[key] = (value);
-        }
-      }
-    });
-
-    try {
-      // Get current form data and merge with extracted data
-      const currentFormData = (claim?.form_data as Record<string, unknown>) || {};
-      const updatedFormData = {
-        ...currentFormData,
-        ...mappedData
-      };
-
-      // Update the claim in the database
-      await updateClaimSilentMutation.mutateAsync({
-        id: claim!.id,
-        updates: {
-          form_data: updatedFormData as unknown as Json
-        }
-      });
-
-      console.log(`Successfully saved ${Object.keys(mappedData).length} fields to database`);
-      toast.success(`Extracted and saved ${Object.keys(mappedData).length} fields to database!`);
-      
-      // Refresh the claim data to show updated fields
-      queryClient.invalidateQueries({ queryKey: ["claim", id] });
-      
-    } catch (error) {
-      console.error('Failed to save extracted data:', error);
-      toast.error('Failed to save extracted data to database');
-    }
-  };
-
-  const handleStatusUpdate = async (newStatus: ClaimStatus) => {
-    try {
-      await updateClaimMutation.mutateAsync({
-        id: claim!.id,
-        updates: { status: newStatus }
-      });
-      toast.success(`Claim status updated to ${newStatus}`);
-    } catch (error) {
-      toast.error("Failed to update claim status");
-    }
-  };
-
-  // Upload Bill of Entry mutation
-  const uploadBillOfEntryMutation = useMutation<ClaimDocumentRow, Error, File>({
-    mutationFn: async (file: File): Promise<ClaimDocumentRow> => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("User not authenticated");
-
-      const fileName = `${Date.now()}-${file.name}`;
-      const filePath = `${user.id}/${id}/${fileName}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from("claim-documents")
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
-
-      const { data, error } = await supabase
-        .from("claim_documents")
-        .insert({
-          claim_id: id!,
-          file_name: file.name,
-          file_path: filePath,
-          file_type: file.type,
-          file_size: file.size,
-          uploaded_by: user.id,
-          field_label: 'Bill of Entry',
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
-    },
-    onSuccess: (data: ClaimDocumentRow) => {
-      queryClient.invalidateQueries({ queryKey: ["claim-documents", id] });
-      setUploadedBillOfEntry(data);
-      toast.success("Bill of Entry uploaded successfully!");
-    },
-    onError: (error) => {
-      toast.error("Failed to upload Bill of Entry: " + error.message);
-    },
-  });
-
-  const extractBillDataMutation = useMutation({
-    mutationFn: async (documentData: ClaimDocumentRow) => {
-      const { data: fileData, error } = await supabase.storage
-        .from('claim-documents')
-        .download(documentData.file_path);
-
-      if (error) throw new Error(`Failed to download file: ${error.message}`);
-
-      const arrayBuffer = await fileData.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
-      
-      let binary = '';
-      for (let i = 0; i < uint8Array.length; i++) {
-        binary += String.fromCharCode(uint8Array[i]);
-      }
-      const base64Data = btoa(binary);
-
-      const response = await fetch('https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws/extract-bill-data', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          pdfData: base64Data,
-          claimId: id
-        })
-      });
-
-      if (!response.ok) throw new Error('Extraction failed');
-      return response.json();
-    },
-    onSuccess: (result) => {
-      if (result.success && result.extractedData) {
-        populateFormFields(result.extractedData);
-      } else {
-        toast.error("Extraction failed: " + result.message);
-      }
-    },
-    onError: (error) => {
-      toast.error("Failed to extract data: " + error.message);
-    },
-  });
-
-  const handleExtractData = async () => {
-    if (!uploadedBillOfEntry) return;
-    
-    setIsExtracting(true);
-    try {
-      await extractBillDataMutation.mutateAsync(uploadedBillOfEntry);
-    } finally {
-      setIsExtracting(false);
-    }
-  };
-
-  const handleReUpload = () => {
-    setUploadedBillOfEntry(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.click();
-    }
-  };
-
-  const handleBillOfEntryUpload = async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
-
-    setIsUploading(true);
-    try {
-      await uploadBillOfEntryMutation.mutateAsync(files[0]);
-    } finally {
-      setIsUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="min-h-screen p-6 bg-gradient-background">
@@ -465,8 +224,7 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
   );
 }
 
-  const currentStatus = statusConfig[claim.status as keyof typeof statusConfig];
-  const StatusIcon = currentStatus?.icon || Clock;
+  const fieldLabels = (claim.form_data as Record<string, unknown>)?.field_labels as Record<string, string> | undefined;
 
   return (
     <div className="min-h-screen p-6 bg-gradient-background">
@@ -487,25 +245,7 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
                     <h1 className="text-2xl font-bold text-slate-800">
                       {claim.title}
                     </h1>
-                    <Select
-                      value={claim.status}
-                      onValueChange={(newStatus: ClaimStatus) => handleStatusUpdate(newStatus)}
-                    >
-                      <SelectTrigger className="w-48">
-                        <Badge className={`${currentStatus?.color} text-white px-3 py-1 flex items-center gap-1 shadow-sm`}>
-                          <StatusIcon className="w-3 h-3" />
-                          {currentStatus?.label}
-                        </Badge>
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="pending">Pending</SelectItem>
-                        <SelectItem value="submitted">Submitted</SelectItem>
-                        <SelectItem value="under_review">Under Review</SelectItem>
-                        <SelectItem value="approved">Approved</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                        <SelectItem value="paid">Paid</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <ClaimStatusSelect claimId={claim.id} status={claim.status} />
                   </div>
                   <p className="text-muted-foreground flex items-center gap-2 mt-1">
                     <span className="font-medium">Claim #{claim.claim_number}</span>
@@ -514,10 +254,22 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
                   </p>
                 </div>
               </div>
+              <div className="flex items-center gap-4">
+                <ClaimPresenceIndicator claimId={claim.id} />
+                <SyncStatusIndicator recordId={claim.id} />
+                <FieldHistoryDrawer claimId={claim.id} fieldLabels={fieldLabels}>
+                  <Button variant="outline" size="sm">
+                    <History className="w-4 h-4 mr-2" />
+                    History
+                  </Button>
+                </FieldHistoryDrawer>
+              </div>
             </div>
           </CardHeader>
         </Card>
 
+        <ClaimConflictDialog claimId={claim.id} fieldLabels={fieldLabels} />
+
         {/* Main Content Layout with Sidebar */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Fixed Sidebar */}
@@ -537,10 +289,19 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
               </CardContent>
             </Card>
 
+            <ClaimStatusTimeline claimId={claim.id} />
+
+            {/* Issued report versions */}
+            <ReportVersionHistory claimId={claim.id} />
+
+            {/* Results of server-side extraction awaiting review */}
+            <ExtractionReviewQueue claim={claim} />
+
             {/* Bill of Entry Upload */}
             <SelectiveDocumentExtractor
               claimId={id!}
               policyTypeId={claim.policy_type_id}
+              currentData={claim.form_data}
               documentLabel="Bill of Entry"
               documentTitle="Bill of Entry"
               documentDescription="Upload your Bill of Entry document (PDF format required for field extraction)"
@@ -551,12 +312,26 @@ const handleBillOfEntryExtracted = async (extractedData: Record<string, any>) =>
             <SelectiveDocumentExtractor
               claimId={id!}
               policyTypeId={claim.policy_type_id}
+              currentData={claim.form_data}
               documentLabel="Policy Document"
               documentTitle="Policy Document"
               documentDescription="Upload your policy document (PDF format required for field extraction)"
               onDataExtracted={handlePolicyDocumentExtracted}
             />
 
+            {profiledRequirements.map((label) => (
+              <SelectiveDocumentExtractor
+                key={label}
+                claimId={id!}
+                policyTypeId={claim.policy_type_id}
+                currentData={claim.form_data}
+                documentLabel={label}
+                documentTitle={label}
+                documentDescription={`Upload the ${label} (PDF format required for field extraction)`}
+                onDataExtracted={handleRequirementExtracted(label)}
+              />
+            ))}
+
           </div>
 
           {/* Main Content Area */}
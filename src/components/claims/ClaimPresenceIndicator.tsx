@@ -0,0 +1,53 @@
+import { Eye } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useClaimPresence } from "@/hooks/useClaimPresence";
+
+const MAX_AVATARS = 4;
+
+const initials = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+interface ClaimPresenceIndicatorProps {
+  claimId: string;
+}
+
+export const ClaimPresenceIndicator = ({ claimId }: ClaimPresenceIndicatorProps) => {
+  const viewers = useClaimPresence(claimId);
+
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Eye className="w-4 h-4 text-muted-foreground" />
+      <div className="flex -space-x-2">
+        {shown.map((viewer) => (
+          <Tooltip key={viewer.user_id}>
+            <TooltipTrigger asChild>
+              <Avatar className="h-7 w-7 border-2 border-white">
+                <AvatarFallback className="text-xs bg-amber-100 text-amber-800">{initials(viewer.name)}</AvatarFallback>
+              </Avatar>
+            </TooltipTrigger>
+            <TooltipContent>{viewer.name} is viewing this claim</TooltipContent>
+          </Tooltip>
+        ))}
+        {hidden > 0 && (
+          <Avatar className="h-7 w-7 border-2 border-white">
+            <AvatarFallback className="text-xs">+{hidden}</AvatarFallback>
+          </Avatar>
+        )}
+      </div>
+      <span className="text-xs text-muted-foreground hidden md:inline">
+        {viewers.length === 1 ? `${viewers[0].name} also has this claim open` : `${viewers.length} others have this claim open`}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { CheckCircle2, Clock, AlertCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useStatusTransitions, useTransitionClaimStatus } from "@/hooks/useClaimWorkflow";
+import { useDocumentChecklist } from "@/hooks/useDocumentChecklist";
+import { STATUS_GUARDS, StatusTransition, claimStatusLabel, getAvailableTransitions } from "@/lib/claimWorkflow";
+import { outstandingMandatory } from "@/lib/documentChecklist";
+
+const statusConfig = {
+  submitted: { color: "bg-slate-600", icon: Clock, label: "Submitted" },
+  under_review: { color: "bg-amber-600", icon: AlertCircle, label: "Under Review" },
+  approved: { color: "bg-green-700", icon: CheckCircle2, label: "Approved" },
+  rejected: { color: "bg-red-600", icon: AlertCircle, label: "Rejected" },
+  paid: { color: "bg-green-800", icon: CheckCircle2, label: "Paid" },
+  pending:{color: "bg-blue-600", icon: AlertCircle, label:"Pending"},
+};
+
+interface ClaimStatusSelectProps {
+  claimId: string;
+  status: string;
+}
+
+export const ClaimStatusSelect = ({ claimId, status }: ClaimStatusSelectProps) => {
+  const { userRole } = useAuth();
+  const { data: transitions = [] } = useStatusTransitions();
+  const transitionMutation = useTransitionClaimStatus(claimId);
+  const [pending, setPending] = useState<StatusTransition | null>(null);
+  const [reason, setReason] = useState("");
+
+  const currentStatus = statusConfig[status as keyof typeof statusConfig];
+  const StatusIcon = currentStatus?.icon || Clock;
+  const available = getAvailableTransitions(transitions, status, userRole);
+
+  const handleSelect = (toStatus: string) => {
+    const transition = available.find((t) => t.to_status === toStatus);
+    if (!transition) return;
+    setReason("");
+    setPending(transition);
+  };
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    transitionMutation.mutate(
+      { toStatus: pending.to_status, reason: reason.trim() || undefined },
+      { onSuccess: () => setPending(null) }
+    );
+  };
+
+  const guardLabel = pending?.guard ? STATUS_GUARDS.find((g) => g.value === pending.guard)?.label : null;
+  const checksDocuments = pending?.guard === "documents_complete";
+  const { data: checklist = [] } = useDocumentChecklist(claimId, checksDocuments);
+  const missingDocuments = checksDocuments ? outstandingMandatory(checklist) : [];
+
+  return (
+    <>
+      <Select value={status} onValueChange={handleSelect} disabled={available.length === 0}>
+        <SelectTrigger className="w-48">
+          <Badge className={`${currentStatus?.color} text-white px-3 py-1 flex items-center gap-1 shadow-sm`}>
+            <StatusIcon className="w-3 h-3" />
+            {currentStatus?.label ?? claimStatusLabel(status)}
+          </Badge>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={status} disabled>
+            {claimStatusLabel(status)} (current)
+          </SelectItem>
+          {available.map((t) => (
+            <SelectItem key={t.id} value={t.to_status}>
+              Move to {claimStatusLabel(t.to_status)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Move claim to {pending && claimStatusLabel(pending.to_status)}
+            </DialogTitle>
+            <DialogDescription>
+              From {claimStatusLabel(status)}. This change is recorded in the claim's status history.
+              {guardLabel && ` Requires: ${guardLabel}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {missingDocuments.length > 0 && (
+            <p className="text-sm text-amber-700">
+              Verify or waive these documents on the Documents tab first: {missingDocuments.join(", ")}.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="status-reason">
+              Reason{pending?.requires_reason ? " *" : " (optional)"}
+            </Label>
+            <Textarea
+              id="status-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              placeholder={pending?.to_status === "rejected" ? "Why is this claim being rejected?" : ""}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={
+                transitionMutation.isPending ||
+                missingDocuments.length > 0 ||
+                (!!pending?.requires_reason && !reason.trim())
+              }
+            >
+              {transitionMutation.isPending ? "Updating..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
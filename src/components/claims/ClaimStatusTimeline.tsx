@@ -0,0 +1,48 @@
+import { format } from "date-fns";
+import { GitCommitVertical } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useClaimStatusHistory } from "@/hooks/useClaimWorkflow";
+import { claimStatusLabel } from "@/lib/claimWorkflow";
+
+interface ClaimStatusTimelineProps {
+  claimId: string;
+}
+
+export const ClaimStatusTimeline = ({ claimId }: ClaimStatusTimelineProps) => {
+  const { data: history = [], isLoading } = useClaimStatusHistory(claimId);
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GitCommitVertical className="w-4 h-4" />
+          Status History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes yet.</p>
+        ) : (
+          <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+            {history.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-slate-400" />
+                <p className="text-sm font-medium">
+                  {entry.from_status ? `${claimStatusLabel(entry.from_status)} → ` : ""}
+                  {claimStatusLabel(entry.to_status)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(entry.changed_at), "MMM dd, yyyy HH:mm")}
+                  {entry.changed_by_name && ` · ${entry.changed_by_name}`}
+                </p>
+                {entry.reason && <p className="text-xs mt-1 italic break-words">"{entry.reason}"</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
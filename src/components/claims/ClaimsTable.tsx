@@ -10,6 +10,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Card, CardContent } from "@/components/ui/card";
 import { Claim, useDeleteClaim } from "@/hooks/useClaims";
+import { useDocumentCompleteness } from "@/hooks/useDocumentChecklist";
+import { completenessPercent } from "@/lib/documentChecklist";
 
 interface ClaimsTableProps {
   claims: Claim[];
@@ -41,6 +43,24 @@ export const ClaimsTable = ({ claims }: ClaimsTableProps) => {
   const [dateFromFilter, setDateFromFilter] = useState("");
   const [dateToFilter, setDateToFilter] = useState("");
   const deleteClaim= useDeleteClaim();
+  const claimIds = useMemo(() => claims.map(claim => claim.id), [claims]);
+  const { data: completeness = {} } = useDocumentCompleteness(claimIds);
+
+  const renderCompleteness = (claimId: string) => {
+    const counts = completeness[claimId];
+    const percent = completenessPercent(counts);
+    if (!counts || percent === null) return <span>-</span>;
+    return (
+      <span
+        className={counts.mandatory_outstanding > 0 ? 'text-amber-700' : undefined}
+        title={`${counts.received} of ${counts.total} received, ${counts.complete} verified or waived${
+          counts.mandatory_outstanding > 0 ? `, ${counts.mandatory_outstanding} mandatory outstanding` : ''
+        }`}
+      >
+        {percent}%
+      </span>
+    );
+  };
 
   // Filter and sort claims
   const filteredAndSortedClaims = useMemo(() => {
@@ -255,6 +275,7 @@ export const ClaimsTable = ({ claims }: ClaimsTableProps) => {
                       <div>Created: {format(new Date(claim.created_at), 'MMM dd, yyyy')}</div>
                       <div>Updated: {format(new Date(claim.updated_at), 'MMM dd, yyyy')}</div>
                       <div>Intimation: {claim.intimation_date ? format(new Date(claim.intimation_date), 'MMM dd, yyyy') : 'Not set'}</div>
+                      <div>Documents: {renderCompleteness(claim.id)}</div>
                       {claim.claim_amount && (
                         <div className="font-medium text-foreground">
                           Amount: Rs. {claim.claim_amount.toLocaleString()}
@@ -294,6 +315,7 @@ export const ClaimsTable = ({ claims }: ClaimsTableProps) => {
                 <TableHead>Policy Type</TableHead>
                 <TableHead>Assigned surveyor</TableHead>
                 <TableHead>Insurer</TableHead>
+                <TableHead>Documents</TableHead>
                 <TableHead 
                   className="cursor-pointer hover:bg-muted/50"
                   onClick={() => handleSort('updated_at')}
@@ -326,6 +348,7 @@ export const ClaimsTable = ({ claims }: ClaimsTableProps) => {
                   <TableCell>{claim.policy_types?.name || '-'}</TableCell>
                   <TableCell>{claim.surveyor_name || '-'}</TableCell>
                   <TableCell>{claim.insurer_name || '-'}</TableCell>
+                  <TableCell>{renderCompleteness(claim.id)}</TableCell>
                   <TableCell>{format(new Date(claim.updated_at), 'MMM dd, yyyy')}</TableCell>
                   <TableCell>
                     <DropdownMenu>
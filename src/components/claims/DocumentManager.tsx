@@ -126,13 +126,7 @@ export const DocumentManager = ({ claimId }: DocumentManagerProps) => {
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      
-      // Filter out token placeholders
-      const realDocs = (data as ClaimDocument[]).filter(
-        doc => !doc.file_name.startsWith("__TOKEN_PLACEHOLDER_")
-      );
-      
-      return realDocs;
+      return data as ClaimDocument[];
     },
   });
 
@@ -0,0 +1,351 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { BackendServiceError, ExtractedLineItem, blobToBase64, getBackendClient } from "@/lib/backendClient";
+import { DepreciationMaterial } from "@/lib/depreciation";
+import {
+  ColumnMapping,
+  ExistingLine,
+  IMPORT_FIELDS,
+  IMPORT_TARGET_LABELS,
+  ImportTarget,
+  ImportedLine,
+  findDuplicateLines,
+  guessColumnMapping,
+  mapExtractedItems,
+  mapSpreadsheetRows,
+  readSpreadsheet,
+} from "@/lib/estimateImport";
+
+const NONE = "none";
+
+const MATERIAL_LABELS: Record<DepreciationMaterial, string> = {
+  glass: "Glass",
+  plastic: "Plastic/Rub.",
+  fibre: "Fibreglass",
+  metal: "Others/Metal",
+};
+
+type Source =
+  | { kind: "sheet"; fileName: string; rows: string[][] }
+  | { kind: "extraction"; fileName: string; items: ExtractedLineItem[] };
+
+interface EstimateImportDialogProps {
+  claimId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rows already in each table, for duplicate detection */
+  existing: Record<ImportTarget, ExistingLine[]>;
+  onImport: (target: ImportTarget, lines: ImportedLine[]) => void;
+}
+
+export const EstimateImportDialog = ({ claimId, open, onOpenChange, existing, onImport }: EstimateImportDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [source, setSource] = useState<Source | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [target, setTarget] = useState<ImportTarget>("new_spares");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [prefillAssessed, setPrefillAssessed] = useState(false);
+  // Per-line choices, keyed by position in the preview
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [materials, setMaterials] = useState<Record<number, DepreciationMaterial>>({});
+
+  useEffect(() => {
+    if (open) return;
+    setSource(null);
+    setMapping(null);
+    setExcluded(new Set());
+    setMaterials({});
+  }, [open]);
+
+  const headers = useMemo(() => {
+    if (source?.kind !== "sheet") return [];
+    const width = Math.max(0, ...source.rows.map((r) => r.length));
+    return Array.from({ length: width }, (_, i) =>
+      hasHeader && source.rows[0]?.[i]?.trim() ? source.rows[0][i].trim() : `Column ${i + 1}`
+    );
+  }, [source, hasHeader]);
+
+  const lines = useMemo(() => {
+    if (!source) return [];
+    if (source.kind === "extraction") return mapExtractedItems(source.items, target, prefillAssessed);
+    if (!mapping) return [];
+    return mapSpreadsheetRows(hasHeader ? source.rows.slice(1) : source.rows, mapping, prefillAssessed);
+  }, [source, mapping, hasHeader, target, prefillAssessed]);
+
+  const duplicates = useMemo(() => findDuplicateLines(lines, existing[target]), [lines, existing, target]);
+
+  // Duplicates start unticked; anything else the surveyor changed is reset when the lines change
+  useEffect(() => {
+    setExcluded(new Set(duplicates));
+    setMaterials({});
+  }, [duplicates]);
+
+  const handleFile = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setLoading(true);
+    try {
+      if (/\.pdf$/i.test(file.name) || file.type === "application/pdf") {
+        const result = await getBackendClient().extractLineItems({
+          pdfData: await blobToBase64(file),
+          claimId,
+          documentType: "Estimate",
+        });
+        if (!result.success || !result.lineItems?.length) {
+          toast.error("No line items found: " + (result.message || "the document could not be read"));
+          return;
+        }
+        setSource({ kind: "extraction", fileName: file.name, items: result.lineItems });
+        if (result.lineItems.every((item) => item.kind === "labour")) setTarget("labour");
+      } else {
+        const rows = await readSpreadsheet(file);
+        if (rows.length === 0) {
+          toast.error("The file has no rows");
+          return;
+        }
+        setSource({ kind: "sheet", fileName: file.name, rows });
+        setHasHeader(true);
+        setMapping(guessColumnMapping(rows[0]));
+      }
+    } catch (error) {
+      console.error("[EstimateImportDialog] Error:", error);
+      const message =
+        error instanceof BackendServiceError && error.code === "timeout"
+          ? "Extraction timed out. Try a smaller document or import a CSV/XLSX export instead."
+          : (error as Error).message;
+      toast.error("Failed to read estimate: " + message);
+    } finally {
+      setLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const toggleLine = (index: number, include: boolean) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (include) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const selected = lines
+    .map((line, i) => ({ ...line, material: materials[i] ?? line.material }))
+    .filter((_, i) => !excluded.has(i));
+
+  const mappingComplete =
+    source?.kind !== "sheet" || (!!mapping && IMPORT_FIELDS.every((f) => !f.required || mapping[f.key] !== null));
+
+  const handleImport = () => {
+    onImport(target, selected);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import estimate / invoice</DialogTitle>
+          <DialogDescription>
+            Add line items from a CSV or XLSX export, or read them from an estimate PDF with the extraction service.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>File</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.xlsx,.pdf,text/csv,application/pdf"
+                  className="hidden"
+                  onChange={(e) => handleFile(e.target.files)}
+                />
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={loading}>
+                  {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                  {loading ? "Reading..." : source ? "Choose another file" : "Choose file"}
+                </Button>
+                {source && (
+                  <span className="text-sm text-muted-foreground flex items-center gap-1">
+                    <FileSpreadsheet className="w-4 h-4" />
+                    {source.fileName}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Add to</Label>
+              <Select value={target} onValueChange={(value) => setTarget(value as ImportTarget)}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(IMPORT_TARGET_LABELS) as ImportTarget[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {IMPORT_TARGET_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <Checkbox checked={prefillAssessed} onCheckedChange={(checked) => setPrefillAssessed(checked === true)} />
+              Use estimated amount as assessed
+            </label>
+          </div>
+
+          {source?.kind === "sheet" && mapping && (
+            <div className="space-y-3 border rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-sm">Columns</h3>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+                  First row is a header
+                </label>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-xs">
+                      {field.label}
+                      {field.required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] === null ? NONE : String(mapping[field.key])}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field.key]: value === NONE ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Not in file</SelectItem>
+                        {headers.map((header, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {source && mappingComplete && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {lines.length} line{lines.length === 1 ? "" : "s"} found
+                  {duplicates.size > 0 && (
+                    <span className="text-amber-700"> · {duplicates.size} look like duplicates and are unticked</span>
+                  )}
+                </span>
+                <span className="text-muted-foreground">{selected.length} to import</span>
+              </div>
+              <div className="border rounded-lg max-h-[40vh] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10"></TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>HSN / SAC</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead className="text-right">GST %</TableHead>
+                      <TableHead className="text-right">Estimated</TableHead>
+                      <TableHead className="text-right">Assessed</TableHead>
+                      {target !== "labour" && <TableHead>Column</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground">
+                          No lines with a description and amount for this table.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      lines.map((line, i) => (
+                        <TableRow key={i} className={excluded.has(i) ? "opacity-50" : undefined}>
+                          <TableCell>
+                            <Checkbox
+                              checked={!excluded.has(i)}
+                              onCheckedChange={(checked) => toggleLine(i, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {line.description}
+                            {duplicates.has(i) && (
+                              <Badge variant="outline" className="ml-2 text-amber-700 border-amber-300">
+                                Duplicate
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{line.hsn_code}</TableCell>
+                          <TableCell className="text-right">{line.quantity}</TableCell>
+                          <TableCell className="text-right">{line.gst_percent ?? ""}</TableCell>
+                          <TableCell className="text-right">{line.estimated_amount.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{line.assessed_amount.toFixed(2)}</TableCell>
+                          {target !== "labour" && (
+                            <TableCell>
+                              <Select
+                                value={materials[i] ?? line.material}
+                                onValueChange={(value) =>
+                                  setMaterials((prev) => ({ ...prev, [i]: value as DepreciationMaterial }))
+                                }
+                              >
+                                <SelectTrigger className="h-8 w-32">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(MATERIAL_LABELS) as DepreciationMaterial[]).map((m) => (
+                                    <SelectItem key={m} value={m}>
+                                      {MATERIAL_LABELS[m]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={selected.length === 0 || !mappingComplete}>
+            Import {selected.length > 0 ? selected.length : ""} line{selected.length === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExternalLink } from "lucide-react";
+import { ExtractionProposal, LOW_CONFIDENCE, acceptedByDefault, sourceDocumentLink } from "@/lib/extractionReview";
+
+interface ExtractionReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentLabel: string;
+  fileName: string;
+  /** Signed URL of the source document, once available */
+  documentUrl: string | null;
+  proposals: ExtractionProposal[];
+  fieldLabels?: Record<string, string>;
+  onConfirm: (accepted: ExtractionProposal[]) => void;
+  isSaving?: boolean;
+}
+
+const display = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === ""
+    ? ""
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+const ConfidenceBadge = ({ confidence }: { confidence: number | null }) => {
+  if (confidence === null) return <span className="text-xs text-muted-foreground">-</span>;
+  const percent = Math.round(confidence * 100);
+  const tone =
+    confidence >= 0.85
+      ? "bg-green-100 text-green-800 border-green-200"
+      : confidence >= LOW_CONFIDENCE
+        ? "bg-amber-100 text-amber-800 border-amber-200"
+        : "bg-red-100 text-red-800 border-red-200";
+  return (
+    <Badge variant="outline" className={tone}>
+      {percent}%
+    </Badge>
+  );
+};
+
+/**
+ * Review extracted values before they reach form_data. Empty fields with a confident value are
+ * ticked by default; anything that would replace what the surveyor typed has to be ticked by hand.
+ */
+export const ExtractionReviewDialog = ({
+  open,
+  onOpenChange,
+  documentLabel,
+  fileName,
+  documentUrl,
+  proposals,
+  fieldLabels = {},
+  onConfirm,
+  isSaving,
+}: ExtractionReviewDialogProps) => {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (open) setAccepted(new Set(proposals.filter(acceptedByDefault).map((p) => p.field)));
+  }, [open, proposals]);
+
+  const toggle = (field: string, checked: boolean) =>
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(field);
+      else next.delete(field);
+      return next;
+    });
+
+  const selectable = proposals.filter((p) => !p.unchanged);
+  const overwrites = selectable.filter((p) => accepted.has(p.field) && display(p.current) !== "").length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review extracted data: {documentLabel}</DialogTitle>
+          <DialogDescription>
+            From {fileName}. Only ticked fields are saved. Fields that already have a value are left unticked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={selectable.length > 0 && selectable.every((p) => accepted.has(p.field))}
+                  onCheckedChange={(checked) =>
+                    setAccepted(checked === true ? new Set(selectable.map((p) => p.field)) : new Set())
+                  }
+                />
+              </TableHead>
+              <TableHead>Field</TableHead>
+              <TableHead>Current value</TableHead>
+              <TableHead>Extracted value</TableHead>
+              <TableHead className="w-24">Confidence</TableHead>
+              <TableHead className="w-20">Source</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {proposals.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  Nothing was extracted from this document.
+                </TableCell>
+              </TableRow>
+            )}
+            {proposals.map((p) => (
+              <TableRow key={p.field} className={p.unchanged ? "opacity-60" : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={accepted.has(p.field)}
+                    disabled={p.unchanged}
+                    onCheckedChange={(checked) => toggle(p.field, checked === true)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{fieldLabels[p.field] || p.field}</div>
+                  {fieldLabels[p.field] && <div className="text-xs font-mono text-muted-foreground">{p.field}</div>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {display(p.current) || <span className="text-muted-foreground">empty</span>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  <div className="font-medium">{display(p.proposed)}</div>
+                  {p.unchanged && <div className="text-xs text-muted-foreground">Same as current</div>}
+                  {p.detail?.sourceText && p.detail.sourceText !== display(p.proposed) && (
+                    <div className="text-xs text-muted-foreground">Read as "{p.detail.sourceText}"</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <ConfidenceBadge confidence={p.confidence} />
+                </TableCell>
+                <TableCell>
+                  {documentUrl ? (
+                    <a
+                      href={sourceDocumentLink(documentUrl, p.detail)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                    >
+                      {p.detail?.page ? `p. ${p.detail.page}` : "Open"}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">-</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter className="sm:justify-between">
+          <span className="text-sm text-muted-foreground self-center">
+            {accepted.size} of {selectable.length} selected
+            {overwrites > 0 && `, replacing ${overwrites} existing value${overwrites === 1 ? "" : "s"}`}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Discard
+            </Button>
+            <Button
+              onClick={() => onConfirm(proposals.filter((p) => accepted.has(p.field)))}
+              disabled={accepted.size === 0 || isSaving}
+            >
+              Save selected
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
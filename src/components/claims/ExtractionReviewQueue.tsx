@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileSearch } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { Claim, useUpdateClaimSilent } from "@/hooks/useClaims";
+import { useExtractionJobs, useMarkExtractionJobReviewed } from "@/hooks/useExtractionJobs";
+import { useExtractionProfiles } from "@/hooks/useExtractionProfiles";
+import { ExtractionJob, isExtractionJobActive, jobsAwaitingReview } from "@/lib/extractionJobs";
+import { applyExtractionProfile, keyedByFormField } from "@/lib/extractionProfiles";
+import {
+  ExtractionProposal,
+  FIELD_SOURCES_KEY,
+  buildExtractionProposals,
+  tagFieldSources,
+} from "@/lib/extractionReview";
+import { ExtractionReviewDialog } from "./ExtractionReviewDialog";
+
+interface ExtractionReviewQueueProps {
+  claim: Claim;
+}
+
+interface OpenReview {
+  job: ExtractionJob;
+  proposals: ExtractionProposal[];
+  documentUrl: string | null;
+}
+
+/**
+ * Results of server-side extraction waiting to be merged into the claim. Nothing reaches
+ * form_data until the surveyor confirms it in the review dialog.
+ */
+export const ExtractionReviewQueue = ({ claim }: ExtractionReviewQueueProps) => {
+  const { data: jobs = [] } = useExtractionJobs(claim.id);
+  const { data: profiles = [] } = useExtractionProfiles();
+  const updateClaimSilentMutation = useUpdateClaimSilent();
+  const markReviewedMutation = useMarkExtractionJobReviewed(claim.id);
+  const [review, setReview] = useState<OpenReview | null>(null);
+
+  const awaiting = jobsAwaitingReview(jobs);
+  const inProgress = jobs.filter(isExtractionJobActive).length;
+  const currentData = (claim.form_data as Record<string, unknown>) || {};
+
+  if (awaiting.length === 0 && inProgress === 0) return null;
+
+  const openReview = async (job: ExtractionJob) => {
+    if (!job.result) return;
+    let values: Record<string, unknown> = job.result.extractedData;
+    let details = job.result.fieldDetails || {};
+    const profile = profiles.find((p) => p.id === job.extraction_profile_id);
+    if (profile) {
+      const applied = applyExtractionProfile(profile, job.result.extractedData);
+      values = applied.values;
+      if (applied.uncoerced.length > 0) {
+        toast.warning(`Kept as text, please check: ${applied.uncoerced.join(", ")}`);
+      }
+      details = keyedByFormField(profile, details);
+    }
+
+    const filePath = job.claim_documents?.file_path;
+    let documentUrl: string | null = null;
+    if (filePath) {
+      if (/^https?:\/\//.test(filePath)) {
+        documentUrl = filePath;
+      } else {
+        const { data: signed } = await supabase.storage.from("claim-documents").createSignedUrl(filePath, 3600);
+        documentUrl = signed?.signedUrl ?? null;
+      }
+    }
+
+    setReview({ job, proposals: buildExtractionProposals(values, details, currentData), documentUrl });
+  };
+
+  const handleConfirm = async (accepted: ExtractionProposal[]) => {
+    if (!review) return;
+    const { job } = review;
+    const label = job.document_label || "document";
+    try {
+      const fieldSources = tagFieldSources(currentData, accepted, {
+        id: job.document_id,
+        label,
+        file_name: job.claim_documents?.file_name || label,
+      });
+      await updateClaimSilentMutation.mutateAsync({
+        id: claim.id,
+        updates: {
+          form_data: {
+            ...currentData,
+            ...Object.fromEntries(accepted.map((p) => [p.field, p.proposed])),
+            [FIELD_SOURCES_KEY]: fieldSources,
+          } as Json,
+        },
+        source: "ai_extraction",
+      });
+      await markReviewedMutation.mutateAsync(job.id);
+      toast.success(`Saved ${accepted.length} fields from ${label}`);
+      setReview(null);
+    } catch (error) {
+      console.error("[ExtractionReviewQueue] Failed to save extracted data:", error);
+      toast.error("Failed to save extracted data: " + (error as Error).message);
+    }
+  };
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileSearch className="w-5 h-5" />
+          Extracted Data
+          {awaiting.length > 0 && <Badge variant="secondary">{awaiting.length}</Badge>}
+        </CardTitle>
+        {inProgress > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {inProgress} document{inProgress === 1 ? "" : "s"} still being extracted
+          </p>
+        )}
+      </CardHeader>
+      {awaiting.length > 0 && (
+        <CardContent className="space-y-2">
+          {awaiting.map((job) => (
+            <div key={job.id} className="rounded border bg-muted/50 px-3 py-2 text-sm space-y-2">
+              <div>
+                <p className="font-medium">{job.document_label}</p>
+                <p className="text-xs text-muted-foreground truncate" title={job.claim_documents?.file_name}>
+                  {job.claim_documents?.file_name}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" className="flex-1" onClick={() => openReview(job)}>
+                  Review
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => markReviewedMutation.mutate(job.id)}
+                  disabled={markReviewedMutation.isPending}
+                >
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <ExtractionReviewDialog
+        open={!!review}
+        onOpenChange={(open) => !open && setReview(null)}
+        documentLabel={review?.job.document_label || ""}
+        fileName={review?.job.claim_documents?.file_name || ""}
+        documentUrl={review?.documentUrl ?? null}
+        proposals={review?.proposals ?? []}
+        fieldLabels={currentData.field_labels as Record<string, string> | undefined}
+        onConfirm={handleConfirm}
+        isSaving={updateClaimSilentMutation.isPending || markReviewedMutation.isPending}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,26 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { FileSearch } from "lucide-react";
+import type { FieldSource } from "@/lib/extractionReview";
+
+/** Marks a form field whose value was accepted from an extracted document */
+export const ExtractionSourceBadge = ({ source }: { source?: FieldSource }) => {
+  if (!source) return null;
+  const details = [
+    source.file_name,
+    source.page ? `page ${source.page}` : null,
+    typeof source.confidence === "number" ? `${Math.round(source.confidence * 100)}% confidence` : null,
+    format(new Date(source.extracted_at), "dd MMM yyyy, HH:mm"),
+  ].filter(Boolean);
+
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 px-1.5 py-0 text-[10px] font-normal text-blue-700 border-blue-200 bg-blue-50"
+      title={details.join(" · ")}
+    >
+      <FileSearch className="w-3 h-3" />
+      Extracted from {source.document_label}
+    </Badge>
+  );
+};
@@ -1,11 +1,46 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useUpdateClaimSilent, type Claim } from "@/hooks/useClaims";
 import { toast } from "sonner";
-import { Loader2, Save } from "lucide-react";
+import { Loader2, Save, Lock, LockOpen, FileJson } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
+import { type RenderPdfPayload } from "@/lib/backendClient";
+import { useRenderReportPdf } from "@/hooks/usePdfRenderer";
+import { useFeeSchedules } from "@/hooks/useFeeSchedules";
+import { Switch } from "@/components/ui/switch";
+import {
+  FeeSchedule,
+  SurveyFee,
+  computeSurveyFee,
+  findFeeSchedule,
+  formatSlabRange,
+} from "@/lib/feeSchedule";
+import { useGstSettings } from "@/hooks/useGstSettings";
+import { useInsurers } from "@/hooks/useInsurers";
+import { useClaimFeeInvoice, useInvoiceSeries, useIssueFeeInvoice } from "@/hooks/useFeeInvoices";
+import { FeePaymentsCard } from "./FeePaymentsCard";
+import { useInsurerOffices, useOrganisationProfiles } from "@/hooks/useOrganisationProfiles";
+import {
+  bankAccountFor,
+  bankDisplayName,
+  insurerOfficeFor,
+  letterheadAssets,
+  resolveOrganisationProfile,
+} from "@/lib/organisationProfiles";
+import {
+  GST_STATES,
+  GstBreakup,
+  buildEInvoice,
+  computeGst,
+  gstStateName,
+  gstSupplierFor,
+  stateCodeFromGstin,
+  validateEInvoice,
+  validateGstin,
+} from "@/lib/gst";
 
 // Number to words converter
 const numberToWords = (num: number): string => {
@@ -52,22 +87,17 @@ interface FeeBillFormProps {
 // This is where you configure all fields, labels, and text
 // Easy to modify without touching the JSX below!
 
-// API Configuration
-const API_BASE = "https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws";
-
-// Fixed text configuration
+// Fixed text configuration. The firm, signatory, bank account and insurer office come
+// from the organisation profile (Settings > Organisation).
 const FIXED_TEXT = {
   pageTitle: "Fee Bill Details",
   invoiceHeader: "SURVEY FEE INVOICE",
-  companyAddress: "UNITED INDIA INSURANCE CO. LTD., D.O. Tatibandh,\nRaipur",
   nonGstBadge: "NON-GST INVOICE",
+  gstBadge: "TAX INVOICE",
   bankDetailsLabel: "BANK DETAILS FOR RTGS",
-  bankName: "ICICI BANK LTD., Nehru Nagar (East), Bhilai-490020 (C.G.)",
-  accountNumber: "001605050333",
-  ifscCode: "ICIC0000186",
   feeTableNote: "** All the below amounts are in Indian Rupees **",
-  signatureName: "RAJESH GONDALIA",
   advanceReceiptHeader: "ADVANCE RECEIPT",
+  paymentReceiptHeader: "PAYMENT RECEIPT",
 };
 
 // Policy information fields configuration (READ-ONLY - auto-populated)
@@ -133,6 +163,8 @@ const EDITABLE_POLICY_FIELDS = [
 ];
 
 // Fee breakdown fields configuration
+// 'scheduled' rows come from the fee schedule matching the claim (see Settings > Fee Schedules)
+// unless the user overrides them; scheduleDefault seeds a row's value from that schedule.
 const FEE_BREAKDOWN_FIELDS = [
   {
     section: 'Final Survey',
@@ -140,14 +172,19 @@ const FEE_BREAKDOWN_FIELDS = [
       {
         key: 'final_survey_base',
         label: 'Base Fee',
-        type: 'editable' as const,
+        type: 'scheduled' as const,
         defaultValue: 2800.00,
+        scheduled: (fee: SurveyFee) => fee.base,
       },
       {
         key: 'final_survey_additional',
-        label: 'Addl. Fee @ 0.70%',
-        type: 'calculated' as const,
-        calculation: (values: any) => (Number(values.final_survey_base) || 0) * 0.007,
+        label: 'Addl. Fee',
+        type: 'scheduled' as const,
+        scheduled: (fee: SurveyFee) => fee.additional,
+        scheduleLabel: (fee: SurveyFee) =>
+          fee.adjustedBy === 'minimum' ? 'Addl. Fee (to minimum fee)'
+            : fee.adjustedBy === 'maximum' ? 'Addl. Fee (capped)'
+            : `Addl. Fee @ ${(fee.slab?.percent ?? 0).toFixed(2)}%`,
       },
     ],
   },
@@ -159,6 +196,7 @@ const FEE_BREAKDOWN_FIELDS = [
         label: '',
         type: 'editable' as const,
         defaultValue: 1000.00,
+        scheduleDefault: (schedule: FeeSchedule, _values?: Record<string, unknown>) => schedule.reinspection_fee,
       },
     ],
   },
@@ -170,6 +208,8 @@ const FEE_BREAKDOWN_FIELDS = [
         label: 'Visits Billed',
         type: 'editable' as const,
         defaultValue: 1500.00,
+        scheduleDefault: (schedule: FeeSchedule, values?: Record<string, unknown>) =>
+          schedule.conveyance_per_visit * (Number(values?.local_conveyance_visits) || 0),
         additionalInput: {
           key: 'local_conveyance_visits',
           defaultValue: 3,
@@ -189,7 +229,7 @@ const FEE_BREAKDOWN_FIELDS = [
           (Number(values.travelling_km) || 0) * (Number(values.travelling_rate) || 0),
         additionalInputs: [
           { key: 'travelling_km', defaultValue: 0, label: 'Kms' },
-          { key: 'travelling_rate', defaultValue: 15.307, label: '@ ₹', suffix: '/km' },
+          { key: 'travelling_rate', defaultValue: 15.307, label: '@ ₹', suffix: '/km', scheduleDefault: (schedule: FeeSchedule, _values?: Record<string, unknown>) => schedule.travel_rate_per_km },
         ],
       },
     ],
@@ -216,7 +256,7 @@ const FEE_BREAKDOWN_FIELDS = [
           (Number(values.photography_survey_count) || 0) * (Number(values.photography_per_photo) || 0),
         additionalInputs: [
           { key: 'photography_survey_count', defaultValue: 1, label: 'Total Photographs #', suffix: 'Nos.' },
-          { key: 'photography_per_photo', defaultValue: 10, label: '@ ₹', suffix: 'per photograph' },
+          { key: 'photography_per_photo', defaultValue: 10, label: '@ ₹', suffix: 'per photograph', scheduleDefault: (schedule: FeeSchedule, _values?: Record<string, unknown>) => schedule.photo_rate },
         ],
       },
     ],
@@ -228,15 +268,71 @@ const FEE_BREAKDOWN_FIELDS = [
 export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
   const [autoSaving, setAutoSaving] = useState(false);
   const updateClaimMutation = useUpdateClaimSilent();
+  const renderPdf = useRenderReportPdf();
+  // The autosave subscription outlives renders, so read the latest form_data through a ref
+  const latestFormData = useRef(claim.form_data);
+  latestFormData.current = claim.form_data;
+
+  // Fee schedule for this claim's insurer and policy type, read by the calculation subscription
+  const { data: feeSchedules = [], isLoading: feeSchedulesLoading } = useFeeSchedules();
+  const feeSchedule = findFeeSchedule(
+    feeSchedules,
+    claim.form_data?.insurer as string | undefined,
+    claim.policy_type_id
+  );
+  const feeScheduleRef = useRef(feeSchedule);
+  feeScheduleRef.current = feeSchedule;
+
+  // Firm GST registration, unless the issuing profile has its own; the insurer's GSTIN
+  // pre-fills the recipient
+  const { data: gstSettings } = useGstSettings();
+  const { data: insurers = [] } = useInsurers();
+  const insurerName = String(claim.form_data?.insurer || '').trim().toLowerCase();
+  const insurer = insurers.find(i => i.name?.trim().toLowerCase() === insurerName);
+  const gstSettingsRef = useRef(gstSettings);
+  gstSettingsRef.current = gstSettings;
+
+  // Invoice numbers come from a series, allocated when the bill is finalized
+  const { data: invoiceSeries = [] } = useInvoiceSeries();
+  const activeSeries = invoiceSeries.filter(series => series.is_active);
+  const issueInvoiceMutation = useIssueFeeInvoice();
+  const { data: feeInvoice } = useClaimFeeInvoice(claim.id);
+
+  // Issuing identity: the profile picked on the bill, else the claim surveyor's own, else
+  // the default. Its details are copied onto the bill so a finalized bill keeps them.
+  const { data: organisationProfiles = [] } = useOrganisationProfiles();
+  const { data: insurerOffices = [] } = useInsurerOffices();
+  const organisationProfilesRef = useRef(organisationProfiles);
+  organisationProfilesRef.current = organisationProfiles;
+
+  // Once payments are recorded the advance receipt becomes a receipt for what was received
+  const received = feeInvoice && Number(feeInvoice.amount_received) > 0 ? feeInvoice : null;
+  const receiptHeader = received ? FIXED_TEXT.paymentReceiptHeader : FIXED_TEXT.advanceReceiptHeader;
+  const receiptTds = received && Number(received.tds_deducted) > 0
+    ? `, net of TDS of ₹ ${Number(received.tds_deducted).toLocaleString('en-IN', { minimumFractionDigits: 2 })} deducted at source`
+    : '';
   
   // Build default values from configuration
   const buildDefaultValues = () => {
     const defaults: any = {
-      invoice_number: claim.claim_number || "",
+      // Bills finalized before invoice series existed keep the number they were issued with
+      invoice_number: claim.form_data?.fee_invoice_id || claim.form_data?.fee_bill_finalized_at
+        ? claim.form_data?.invoice_number || ""
+        : "",
+      invoice_series_id: claim.form_data?.invoice_series_id || "",
       invoice_date: claim.form_data?.invoice_date || format(new Date(), 'yyyy-MM-dd'),
-      bank_name: FIXED_TEXT.bankName,
-      account_number: FIXED_TEXT.accountNumber,
-      ifsc_code: FIXED_TEXT.ifscCode,
+      organisation_profile_id: claim.form_data?.organisation_profile_id || "",
+      bank_account_id: claim.form_data?.bank_account_id || "",
+      insurer_office_id: claim.form_data?.insurer_office_id || "",
+      firm_name: claim.form_data?.firm_name || "",
+      licence_number: claim.form_data?.licence_number || "",
+      signatory_name: claim.form_data?.signatory_name || "",
+      signatory_designation: claim.form_data?.signatory_designation || "",
+      signature_url: claim.form_data?.signature_url || "",
+      bank_name: claim.form_data?.bank_name || "",
+      account_number: claim.form_data?.account_number || "",
+      ifsc_code: claim.form_data?.ifsc_code || "",
+      insurer_office_address: claim.form_data?.insurer_office_address || "",
     };
 
     // Add read-only policy info fields
@@ -272,9 +368,26 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
       });
     });
 
+    // Manual override of the scheduled survey fee
+    defaults.fee_override = !!claim.form_data?.fee_override;
+    defaults.fee_override_reason = claim.form_data?.fee_override_reason || "";
+
+    // Tax invoice details (GST mode)
+    defaults.gst_mode = !!claim.form_data?.gst_mode;
+    defaults.gst_recipient_gstin = claim.form_data?.gst_recipient_gstin || "";
+    defaults.gst_recipient_address = claim.form_data?.gst_recipient_address || "";
+    defaults.gst_recipient_location = claim.form_data?.gst_recipient_location || "";
+    defaults.gst_recipient_pincode = claim.form_data?.gst_recipient_pincode || "";
+    defaults.gst_place_of_supply = claim.form_data?.gst_place_of_supply || "";
+    defaults.gst_reverse_charge = !!claim.form_data?.gst_reverse_charge;
+    defaults.gst_sac_code = claim.form_data?.gst_sac_code || "";
+
     // Add totals
     defaults.total_above = claim.form_data?.total_above || 0;
     defaults.gst_amount = claim.form_data?.gst_amount || 0;
+    defaults.cgst_amount = claim.form_data?.cgst_amount || 0;
+    defaults.sgst_amount = claim.form_data?.sgst_amount || 0;
+    defaults.igst_amount = claim.form_data?.igst_amount || 0;
     defaults.total_amount = claim.form_data?.total_amount || 0;
 
     return defaults;
@@ -284,17 +397,50 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
     defaultValues: buildDefaultValues()
   });
 
+  // Place of supply falls back to the recipient's state, taken from their GSTIN
+  const placeOfSupplyOf = (values: Record<string, unknown>) =>
+    (values.gst_place_of_supply as string) || stateCodeFromGstin(values.gst_recipient_gstin as string) || null;
+
+  // Supplier for the profile picked on the bill; its state decides CGST/SGST against IGST
+  const gstSupplierOf = (values: Record<string, unknown>) =>
+    gstSupplierFor(
+      resolveOrganisationProfile(organisationProfilesRef.current, values.organisation_profile_id as string, claim.user_id),
+      gstSettingsRef.current
+    );
+
+  const gstBreakup = (taxableValue: number, values: Record<string, unknown>): GstBreakup | null => {
+    const settings = gstSettingsRef.current;
+    if (!settings) return null;
+    return computeGst(
+      taxableValue,
+      Number(settings.gst_rate),
+      gstSupplierOf(values).stateCode || null,
+      placeOfSupplyOf(values),
+      !!values.gst_reverse_charge
+    );
+  };
+
   // Auto-calculation logic
   useEffect(() => {
     let autoSaveTimer: NodeJS.Timeout | null = null;
     
     const subscription = watch((values) => {
       let total = 0;
+      const schedule = feeScheduleRef.current;
+      const fee = schedule && !values.fee_override
+        ? computeSurveyFee(schedule, Number(values.estimated_loss_amount) || 0)
+        : null;
 
       // Calculate all fee breakdown fields
       FEE_BREAKDOWN_FIELDS.forEach(section => {
         section.rows.forEach(row => {
-          if (row.type === 'calculated' && row.calculation) {
+          if (row.type === 'scheduled' && fee) {
+            const scheduledValue = row.scheduled(fee);
+            if (values[row.key] !== scheduledValue) {
+              setValue(row.key, scheduledValue, { shouldValidate: false, shouldDirty: false });
+            }
+            total += scheduledValue;
+          } else if (row.type === 'calculated' && row.calculation) {
             const calculatedValue = row.calculation(values);
             const formattedValue = Number(Number(calculatedValue).toFixed(2));
             const currentValue = values[row.key];
@@ -304,22 +450,31 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
               setValue(row.key, formattedValue, { shouldValidate: false, shouldDirty: false });
             }
             total += calculatedValue;
-          } else if (row.type === 'editable') {
+          } else if (row.type === 'editable' || row.type === 'scheduled') {
             total += Number(values[row.key]) || 0;
           }
         });
       });
 
       const totalAbove = Number(total.toFixed(2));
-      const totalAmount = Number(total.toFixed(2));
+      const tax = values.gst_mode ? gstBreakup(totalAbove, values) : null;
+      const totalAmount = tax ? tax.amountPayable : totalAbove;
+      const taxValues = {
+        gst_amount: tax?.totalTax ?? 0,
+        cgst_amount: tax?.cgst ?? 0,
+        sgst_amount: tax?.sgst ?? 0,
+        igst_amount: tax?.igst ?? 0,
+      };
       
       // Only update if values changed
       if (values.total_above !== totalAbove) {
         setValue('total_above', totalAbove, { shouldValidate: false, shouldDirty: false });
       }
-      if (values.gst_amount !== 0) {
-        setValue('gst_amount', 0, { shouldValidate: false, shouldDirty: false });
-      }
+      Object.entries(taxValues).forEach(([key, value]) => {
+        if (values[key] !== value) {
+          setValue(key, value, { shouldValidate: false, shouldDirty: false });
+        }
+      });
       if (values.total_amount !== totalAmount) {
         setValue('total_amount', totalAmount, { shouldValidate: false, shouldDirty: false });
       }
@@ -346,13 +501,111 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
     };
   }, [watch, setValue, getValues]);
 
+  // Apply the matched schedule once it loads: seed rates the bill has not stored yet and
+  // refresh the scheduled lines. A finalized bill keeps the figures it was finalized with.
+  const appliedFeeScheduleId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!feeSchedule || appliedFeeScheduleId.current === feeSchedule.id) return;
+    appliedFeeScheduleId.current = feeSchedule.id;
+    if (claim.form_data?.fee_bill_finalized_at) return;
+    const values = getValues();
+
+    FEE_BREAKDOWN_FIELDS.forEach(section => {
+      section.rows.forEach(row => {
+        const inputs = [row, ...('additionalInputs' in row && row.additionalInputs ? row.additionalInputs : [])];
+        inputs.forEach(input => {
+          if ('scheduleDefault' in input && input.scheduleDefault && claim.form_data?.[input.key] === undefined) {
+            setValue(input.key, Number(input.scheduleDefault(feeSchedule, values).toFixed(3)));
+          }
+        });
+      });
+    });
+
+    if (!values.fee_override) {
+      const fee = computeSurveyFee(feeSchedule, Number(values.estimated_loss_amount) || 0);
+      FEE_BREAKDOWN_FIELDS.forEach(section => {
+        section.rows.forEach(row => {
+          if (row.type === 'scheduled' && values[row.key] !== row.scheduled(fee)) {
+            setValue(row.key, row.scheduled(fee));
+          }
+        });
+      });
+    }
+  }, [feeSchedule, claim.form_data, getValues, setValue]);
+
+  // New bills follow the firm's GST registration, once the settings load. Setting gst_mode
+  // also reruns the calculation so the tax reflects the loaded settings.
+  const gstInitialised = useRef(false);
+  useEffect(() => {
+    if (!gstSettings || gstInitialised.current) return;
+    gstInitialised.current = true;
+    if (claim.form_data?.fee_bill_finalized_at) return;
+    if (!getValues('gst_sac_code')) {
+      setValue('gst_sac_code', gstSettings.sac_code);
+    }
+    setValue('gst_mode', claim.form_data?.gst_mode ?? (gstSettings.gst_registered && !!gstSettings.gstin));
+  }, [gstSettings, claim.form_data, getValues, setValue]);
+
+  // The insurer's GSTIN pre-fills the recipient when the bill has none
+  const insurerGstin = insurer?.gstin;
+  const billFinalizedAt = claim.form_data?.fee_bill_finalized_at;
+  useEffect(() => {
+    if (!insurerGstin || billFinalizedAt || getValues('gst_recipient_gstin')) return;
+    setValue('gst_recipient_gstin', insurerGstin);
+  }, [insurerGstin, billFinalizedAt, getValues, setValue]);
+
+  // Unnumbered bills default to the default active series
+  useEffect(() => {
+    if (getValues('invoice_series_id')) return;
+    const active = invoiceSeries.filter(series => series.is_active);
+    const series = active.find(s => s.is_default) ?? active[0];
+    if (series) setValue('invoice_series_id', series.id);
+  }, [invoiceSeries, getValues, setValue]);
+
+  // Copy the issuing profile, its bank account and the insurer office onto the bill. An
+  // unnumbered bill also switches to the profile's own invoice series.
+  const insurerId = insurer?.id;
+  const applyIssuer = useCallback((profileId?: string, accountId?: string, officeId?: string) => {
+    const profile = resolveOrganisationProfile(organisationProfiles, profileId, claim.user_id);
+    const account = bankAccountFor(profile, accountId);
+    const office = insurerOfficeFor(insurerOffices, insurerId, officeId);
+    const fields: Record<string, string> = {
+      organisation_profile_id: profile?.id ?? '',
+      firm_name: profile?.firm_name ?? '',
+      licence_number: profile?.licence_number ?? '',
+      signatory_name: profile?.signatory_name ?? '',
+      signatory_designation: profile?.signatory_designation ?? '',
+      signature_url: profile?.signature_url ?? '',
+      bank_account_id: account?.id ?? '',
+      bank_name: account ? bankDisplayName(account) : '',
+      account_number: account?.account_number ?? '',
+      ifsc_code: account?.ifsc_code ?? '',
+      insurer_office_id: office?.id ?? '',
+      insurer_office_address: office?.address ?? '',
+    };
+    Object.entries(fields).forEach(([key, value]) => {
+      if (getValues(key) !== value) setValue(key, value);
+    });
+
+    const seriesId = profile?.invoice_series_id;
+    if (seriesId && !getValues('invoice_number') && invoiceSeries.some(s => s.is_active && s.id === seriesId)) {
+      setValue('invoice_series_id', seriesId);
+    }
+  }, [organisationProfiles, insurerOffices, insurerId, invoiceSeries, claim.user_id, getValues, setValue]);
+
+  // Reapply as profiles, offices and series load so an open bill picks up their current details
+  useEffect(() => {
+    if (organisationProfiles.length === 0 || billFinalizedAt) return;
+    applyIssuer(getValues('organisation_profile_id'), getValues('bank_account_id'), getValues('insurer_office_id'));
+  }, [applyIssuer, organisationProfiles.length, billFinalizedAt, getValues]);
+
   const saveData = async (data: any) => {
     try {
       await updateClaimMutation.mutateAsync({
         id: claim.id,
         updates: {
           form_data: {
-            ...claim.form_data,
+            ...latestFormData.current,
             ...data
           }
         }
@@ -369,29 +622,181 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
     toast.success("Fee bill details saved!");
   };
 
+  // A finalized fee bill is locked; marking the claim paid requires one (see claim_status_transitions)
+  const finalizedAt = claim.form_data?.fee_bill_finalized_at as string | undefined;
+  const isFinalized = !!finalizedAt;
+
+  const feeOverride = !!watch('fee_override');
+  const currentFee = feeSchedule && !feeOverride
+    ? computeSurveyFee(feeSchedule, Number(watch('estimated_loss_amount')) || 0)
+    : null;
+  const overrideReasonMissing = feeOverride && !String(watch('fee_override_reason') || '').trim();
+
+  const rowLabel = (row: (typeof FEE_BREAKDOWN_FIELDS)[number]['rows'][number]) =>
+    'scheduleLabel' in row && row.scheduleLabel && currentFee ? row.scheduleLabel(currentFee) : row.label;
+
+  // Bills finalized before organisation profiles existed fall back to the current profile
+  const issuer = resolveOrganisationProfile(organisationProfiles, watch('organisation_profile_id'), claim.user_id);
+  const activeProfiles = organisationProfiles.filter(p => p.is_active || p.id === issuer?.id);
+  const gstSupplier = gstSupplierFor(issuer, gstSettings);
+  const ownOffices = insurerOffices.filter(o => o.insurer_id === insurer?.id);
+  const signatoryName = watch('signatory_name') || issuer?.signatory_name || '';
+  const signatureUrl = watch('signature_url') || (watch('signatory_name') ? '' : issuer?.signature_url) || '';
+  const officeAddress =
+    watch('insurer_office_address') || insurerOfficeFor(insurerOffices, insurer?.id, watch('insurer_office_id'))?.address || '';
+  const recipientBlock = [String(watch('insurer_name') || '').toUpperCase(), officeAddress].filter(Boolean).join(',\n');
+  const receivedFrom = String(watch('insurer_name') || '') || 'the Insurers';
+
+  const gstMode = !!watch('gst_mode');
+  const recipientGstin = String(watch('gst_recipient_gstin') || '');
+  const recipientGstinProblem = recipientGstin ? validateGstin(recipientGstin) : null;
+  const placeOfSupply = placeOfSupplyOf({
+    gst_place_of_supply: watch('gst_place_of_supply'),
+    gst_recipient_gstin: recipientGstin,
+  });
+  const currentTax = gstMode ? gstBreakup(Number(watch('total_above')) || 0, getValues()) : null;
+
+  // Tax lines under the fee total; under reverse charge the tax is shown but not added
+  const taxRows = (tax: GstBreakup | null, reverseCharge: boolean): [string, number][] => {
+    if (!tax) return [["ADD: GST (NOT LIABLE TO PAY) < 0% >", 0]];
+    const prefix = reverseCharge ? "" : "ADD: ";
+    const suffix = reverseCharge ? " (payable by recipient under reverse charge)" : "";
+    return tax.supplyType === 'intra'
+      ? [
+          [`${prefix}CGST @ ${tax.rate / 2}%${suffix}`, tax.cgst],
+          [`${prefix}SGST @ ${tax.rate / 2}%${suffix}`, tax.sgst],
+        ]
+      : [[`${prefix}IGST @ ${tax.rate}%${suffix}`, tax.igst]];
+  };
+
+  const setFinalized = async (finalized: boolean) => {
+    if (finalized && overrideReasonMissing) {
+      toast.error("Give a reason for overriding the scheduled fee before finalizing");
+      return;
+    }
+    if (finalized && gstMode) {
+      const problem = !gstSupplier.gstin
+        ? "Add the firm's GSTIN in Settings > GST or on the organisation profile before issuing a tax invoice"
+        : validateGstin(recipientGstin) && `Recipient GSTIN: ${validateGstin(recipientGstin)}`;
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+    }
+    if (finalized && !claim.form_data?.fee_invoice_id && !getValues('invoice_series_id')) {
+      toast.error("Set up an invoice series in Settings > Invoice Series before finalizing");
+      return;
+    }
+    try {
+      const values = getValues();
+      let invoiceFields = {};
+      if (finalized) {
+        const invoice = await issueInvoiceMutation.mutateAsync({
+          claimId: claim.id,
+          seriesId: values.invoice_series_id,
+          invoiceDate: values.invoice_date,
+          taxableValue: Number(values.total_above) || 0,
+          taxAmount: Number(values.gst_amount) || 0,
+          totalAmount: Number(values.total_amount) || 0,
+          gstInvoice: !!values.gst_mode,
+        });
+        setValue('invoice_number', invoice.invoice_number, { shouldDirty: false });
+        invoiceFields = {
+          invoice_number: invoice.invoice_number,
+          invoice_series_id: invoice.series_id,
+          fee_invoice_id: invoice.id,
+        };
+      }
+
+      await updateClaimMutation.mutateAsync({
+        id: claim.id,
+        updates: {
+          form_data: {
+            ...claim.form_data,
+            ...values,
+            ...invoiceFields,
+            fee_bill_finalized_at: finalized ? new Date().toISOString() : null,
+          },
+        },
+      });
+      toast.success(finalized ? `Invoice ${getValues('invoice_number')} issued` : "Fee bill reopened for editing");
+    } catch (error) {
+      console.error("Finalize fee bill error:", error);
+      toast.error("Failed to update fee bill: " + (error as Error).message);
+    }
+  };
+
+  const buildEInvoiceInput = (values: Record<string, unknown>) => ({
+    invoiceNumber: String(values.invoice_number || ''),
+    invoiceDate: String(values.invoice_date || ''),
+    seller: gstSupplierOf(values),
+    buyer: {
+      gstin: String(values.gst_recipient_gstin || ''),
+      legalName: String(values.insurer_name || ''),
+      address: String(values.gst_recipient_address || ''),
+      location: String(values.gst_recipient_location || ''),
+      pincode: String(values.gst_recipient_pincode || ''),
+      stateCode: stateCodeFromGstin(values.gst_recipient_gstin as string) || '',
+    },
+    placeOfSupply: placeOfSupplyOf(values) || '',
+    reverseCharge: !!values.gst_reverse_charge,
+    sacCode: String(values.gst_sac_code || ''),
+    rate: Number(gstSettings?.gst_rate) || 0,
+    lines: FEE_BREAKDOWN_FIELDS.flatMap(section =>
+      section.rows.map(row => ({
+        description: [section.section, rowLabel(row)].filter(Boolean).join(' - '),
+        amount: Number(values[row.key]) || 0,
+      }))
+    ),
+  });
+
+  // JSON for the GST portal's bulk e-invoice upload, which takes an array of invoices
+  const handleExportEInvoice = () => {
+    if (!isFinalized) {
+      toast.error("Finalize the fee bill before exporting the e-invoice");
+      return;
+    }
+    const input = buildEInvoiceInput(getValues());
+    const problems = validateEInvoice(input);
+    if (problems.length > 0) {
+      toast.error("E-invoice cannot be exported", { description: problems.join("; ") });
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify([buildEInvoice(input)], null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `e-invoice-${input.invoiceNumber.replace(/[^A-Za-z0-9-]/g, '_')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success("E-invoice JSON downloaded");
+  };
+
   const handlePrintFeeBill = async () => {
     const values = getValues();
+    const tax = values.gst_mode ? gstBreakup(Number(values.total_above) || 0, values) : null;
+    const pos = placeOfSupplyOf(values);
     
     // Build JSON payload for Lambda
-    const payload = {
+    const payload: RenderPdfPayload = {
       company: values.insurer_name || "Insurance Company",
-      reportName: `Fee Bill - ${values.invoice_number}`,
-      assets: {
-        firstPageBackground: "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20bg.png?updatedAt=1763381793043",
-        otherPagesBackground: "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20footer%20only%20bg",
-      },
+      reportName: `Fee Bill - ${values.invoice_number || claim.claim_number}`,
+      assets: letterheadAssets(issuer),
       components: [
         {
           type: "header",
           style: { wrapper: "px-0 py-2", title: "text-3xl font-extrabold tracking-wide text-black center" },
-          props: { text: FIXED_TEXT.invoiceHeader },
+          props: { text: tax ? FIXED_TEXT.gstBadge : FIXED_TEXT.invoiceHeader },
         },
         {
           type: "table",
           props: {
             headers: ["Field", "Value"],
             rows: [
-              ["Invoice No.", values.invoice_number],
+              ["Invoice No.", values.invoice_number || "DRAFT - number allocated on finalize"],
               ["Date", (() => {
                 try {
                   const date = new Date(values.invoice_date);
@@ -400,14 +805,32 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
                   return format(new Date(), "MMM dd, yyyy");
                 }
               })()],
-              ["Company", FIXED_TEXT.companyAddress],
+              ["Issued by", [values.firm_name || issuer?.firm_name, values.licence_number && `Licence No. ${values.licence_number}`].filter(Boolean).join(" | ") || "-"],
+              ["Company", recipientBlock || "-"],
             ],
           },
         },
+        ...(tax
+          ? [
+              {
+                type: "table" as const,
+                props: {
+                  headers: ["GST Details", ""],
+                  rows: [
+                    ["Supplier GSTIN", gstSupplierOf(values).gstin || "-"],
+                    ["Recipient GSTIN", values.gst_recipient_gstin || "-"],
+                    ["Place of Supply", pos ? `${pos} - ${gstStateName(pos)}` : "-"],
+                    ["SAC", values.gst_sac_code || "-"],
+                    ["Tax Payable on Reverse Charge", values.gst_reverse_charge ? "Yes" : "No"],
+                  ],
+                },
+              },
+            ]
+          : []),
         { type: "subheader", props: { text: FIXED_TEXT.bankDetailsLabel } },
         {
           type: "para",
-          props: { text: `${FIXED_TEXT.bankName} | A/C No.- ${FIXED_TEXT.accountNumber} | IFSC: ${FIXED_TEXT.ifscCode}` },
+          props: { text: `${values.bank_name} | A/C No.- ${values.account_number} | IFSC: ${values.ifsc_code}` },
         },
         { type: "subheader", props: { text: "Policy Information" } },
         {
@@ -428,7 +851,7 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
             rows: FEE_BREAKDOWN_FIELDS.flatMap(section =>
               section.rows.map(row => [
                 section.section,
-                row.label || "",
+                rowLabel(row) || "",
                 Number(values[row.key]).toFixed(2),
               ])
             ),
@@ -440,36 +863,47 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
             headers: ["", "Amount (₹)"],
             rows: [
               ["TOTAL OF ABOVE", Number(values.total_above).toFixed(2)],
-              ["ADD: GST (NOT LIABLE TO PAY)", "0.00"],
+              ...taxRows(tax, !!values.gst_reverse_charge).map(([label, amount]) => [label, amount.toFixed(2)]),
               ["TOTAL AMOUNT", Number(values.total_amount).toFixed(2)],
             ],
           },
         },
-        { type: "subheader", props: { text: FIXED_TEXT.advanceReceiptHeader } },
+        ...(tax
+          ? [
+              { type: "subheader" as const, props: { text: "Tax Summary" } },
+              {
+                type: "table" as const,
+                props: {
+                  headers: ["SAC", "Taxable Value", "CGST", "SGST", "IGST", "Total Tax"],
+                  rows: [[
+                    values.gst_sac_code || "-",
+                    tax.taxableValue.toFixed(2),
+                    tax.cgst.toFixed(2),
+                    tax.sgst.toFixed(2),
+                    tax.igst.toFixed(2),
+                    tax.totalTax.toFixed(2),
+                  ]],
+                },
+              },
+            ]
+          : []),
+        { type: "subheader", props: { text: receiptHeader } },
         {
           type: "para",
           props: { 
-            text: `Received with thanks from 'United India Insurance Co. Ltd.' a sum of ${numberToWords(Number(values.total_amount))} Only towards above survey-bill.\n\n${FIXED_TEXT.signatureName}` 
+            text: `Received with thanks from '${receivedFrom}' a sum of ${numberToWords(Number(received ? received.amount_received : values.total_amount))} Only towards above survey-bill${receiptTds}.` 
           },
         },
+        ...(signatureUrl ? [{ type: "image-grid" as const, props: { rows: [[signatureUrl]] } }] : []),
+        {
+          type: "para",
+          props: { text: [signatoryName, values.signatory_designation].filter(Boolean).join("\n") },
+        },
       ],
     };
 
     try {
-      const res = await fetch(`${API_BASE}/render.pdf`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-
-      if (!res.ok) {
-        const err = await res.text();
-        console.error("PDF API error:", err);
-        toast.error("Failed to generate fee bill PDF");
-        return;
-      }
-
-      const blob = await res.blob();
+      const { blob } = await renderPdf(payload);
       const url = URL.createObjectURL(blob);
       window.open(url, "_blank");
       toast.success("Fee bill PDF opened in new tab");
@@ -559,257 +993,530 @@ export const FeeBillForm = ({ claim }: FeeBillFormProps) => {
       <div className="flex justify-between items-center bg-white p-6 rounded-lg shadow-sm border">
         <h2 className="text-3xl font-bold text-gray-800">{FIXED_TEXT.pageTitle}</h2>
         <div className="flex items-center gap-3">
-          {autoSaving && (
+          {isFinalized && (
+            <Badge className="bg-green-700 text-white">
+              <Lock className="w-3 h-3 mr-1" />
+              Finalized {format(new Date(finalizedAt!), "MMM dd, yyyy")}
+            </Badge>
+          )}
+          {autoSaving && !isFinalized && (
             <span className="text-sm text-gray-500 flex items-center gap-2">
               <Loader2 className="w-4 h-4 animate-spin" />
               Auto-saving...
             </span>
           )}
-          <Button onClick={handleManualSave} size="sm" className="bg-slate-700 hover:bg-slate-800">
-            <Save className="w-4 h-4 mr-2" />
-            Save Manually
-          </Button>
+          {isFinalized ? (
+            <Button
+              onClick={() => setFinalized(false)}
+              size="sm"
+              variant="outline"
+              disabled={claim.status === "paid" || updateClaimMutation.isPending}
+            >
+              <LockOpen className="w-4 h-4 mr-2" />
+              Reopen
+            </Button>
+          ) : (
+            <>
+              <Button onClick={handleManualSave} size="sm" className="bg-slate-700 hover:bg-slate-800">
+                <Save className="w-4 h-4 mr-2" />
+                Save Manually
+              </Button>
+              <Button
+                onClick={() => setFinalized(true)}
+                size="sm"
+                variant="outline"
+                disabled={updateClaimMutation.isPending || issueInvoiceMutation.isPending}
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                Finalize Invoice
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
-      {/* Main Invoice Table - Everything Combined */}
-      <Card className="bg-white overflow-hidden border-2 border-gray-300">
-        <div className="merged-header">{FIXED_TEXT.invoiceHeader}</div>
-        <table className="excel-table">
-          <tbody>
-            {/* Invoice Number and Date Row */}
-            <tr>
-              <td className="label-cell" style={{ width: '25%' }}>INVOICE NO.</td>
-              <td className="colon-separator">:</td>
-              <td className="value-cell" style={{ width: '25%' }}>
-                <input {...register("invoice_number")} readOnly className="read-only-cell" />
-              </td>
-              <td className="label-cell" style={{ width: '25%' }}>DATE</td>
-              <td className="colon-separator">:</td>
-              <td className="value-cell" style={{ width: '25%' }}>
-                <input {...register("invoice_date")} type="date" />
-              </td>
-            </tr>
-
-            {/* Company Address Row */}
-            <tr>
-              <td colSpan={3} className="value-cell" style={{ padding: '12px', fontWeight: '500', whiteSpace: 'pre-line' }}>
-                {FIXED_TEXT.companyAddress}
-              </td>
-              <td colSpan={3} className="value-cell" style={{ textAlign: 'center', backgroundColor: '#f5f5f5', fontWeight: 'bold' }}>
-                {FIXED_TEXT.nonGstBadge}
-              </td>
-            </tr>
-
-            {/* Bank Details Header Row */}
-            <tr>
-              <td className="label-cell" style={{ fontWeight: 'bold' }}>{FIXED_TEXT.bankDetailsLabel}</td>
-              <td colSpan={5} className="value-cell" style={{ padding: '8px' }}>
-                <div className="flex justify-between items-center">
-                  <span className="font-medium">{FIXED_TEXT.bankName}</span>
-                  <span className="font-medium">A/C No.- {FIXED_TEXT.accountNumber}</span>
-                  <span className="font-medium">IFSC Code: {FIXED_TEXT.ifscCode}</span>
-                </div>
-              </td>
-            </tr>
-
-            {/* Policy Information Fields - Generated from Config (READ-ONLY) */}
-            {POLICY_INFO_FIELDS.map((field) => (
-              <tr key={field.key}>
-                <td className="label-cell">{field.label}</td>
+      <fieldset disabled={isFinalized} className="space-y-6">
+        {/* Main Invoice Table - Everything Combined */}
+        <Card className="bg-white overflow-hidden border-2 border-gray-300">
+          <div className="merged-header">{FIXED_TEXT.invoiceHeader}</div>
+          <table className="excel-table">
+            <tbody>
+              {/* Issuing Profile Row */}
+              <tr>
+                <td className="label-cell">ISSUED BY</td>
                 <td className="colon-separator">:</td>
                 <td className="value-cell" colSpan={4}>
-                  {watch(field.key) || ''}
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-medium">
+                      {watch('firm_name') || issuer?.firm_name || 'Add an organisation profile in Settings > Organisation'}
+                      {watch('licence_number') && ` | Licence No. ${watch('licence_number')}`}
+                    </span>
+                    {activeProfiles.length > 1 && (
+                      <select
+                        value={watch('organisation_profile_id')}
+                        onChange={(e) => applyIssuer(e.target.value)}
+                        className="bg-transparent p-1 text-sm"
+                        style={{ width: 'auto' }}
+                      >
+                        {activeProfiles.map(profile => (
+                          <option key={profile.id} value={profile.id}>{profile.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
                 </td>
               </tr>
-            ))}
 
-            {/* Editable Policy Fields (EDITABLE) */}
-            {EDITABLE_POLICY_FIELDS.map((field) => (
-              <tr key={field.key}>
-                <td className="label-cell">{field.label}</td>
+              {/* Invoice Number and Date Row */}
+              <tr>
+                <td className="label-cell" style={{ width: '25%' }}>INVOICE NO.</td>
                 <td className="colon-separator">:</td>
-                <td className="value-cell" colSpan={4}>
-                  <div className="flex items-center gap-2">
-                    {field.prefix && <span>{field.prefix}</span>}
-                    <input 
-                      {...register(field.key, { valueAsNumber: true })} 
-                      type="number" 
-                      step="0.01"
-                      className="flex-1"
-                      onBlur={(e) => {
-                        const value = parseFloat(e.target.value);
-                        if (!isNaN(value)) {
-                          setValue(field.key, Number(value.toFixed(2)));
-                        }
-                      }}
+                <td className="value-cell" style={{ width: '25%' }}>
+                  <input
+                    {...register("invoice_number")}
+                    readOnly
+                    placeholder="Allocated on finalize"
+                    className="read-only-cell"
+                  />
+                  {!watch('invoice_number') && activeSeries.length > 1 && (
+                    <select
+                      value={watch('invoice_series_id')}
+                      onChange={(e) => setValue('invoice_series_id', e.target.value)}
+                      className="w-full bg-transparent p-1 text-sm"
+                    >
+                      {activeSeries.map(series => (
+                        <option key={series.id} value={series.id}>{series.name} ({series.prefix})</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td className="label-cell" style={{ width: '25%' }}>DATE</td>
+                <td className="colon-separator">:</td>
+                <td className="value-cell" style={{ width: '25%' }}>
+                  <input {...register("invoice_date")} type="date" />
+                </td>
+              </tr>
+
+              {/* Company Address Row */}
+              <tr>
+                <td colSpan={3} className="value-cell" style={{ padding: '12px', fontWeight: '500', whiteSpace: 'pre-line' }}>
+                  {recipientBlock}
+                  {ownOffices.length > 1 && (
+                    <select
+                      value={watch('insurer_office_id')}
+                      onChange={(e) => applyIssuer(getValues('organisation_profile_id'), getValues('bank_account_id'), e.target.value)}
+                      className="w-full bg-transparent p-1 text-sm font-normal"
+                    >
+                      {ownOffices.map(office => (
+                        <option key={office.id} value={office.id}>{office.office_name}</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td colSpan={3} className="value-cell" style={{ textAlign: 'center', backgroundColor: '#f5f5f5', fontWeight: 'bold' }}>
+                  <div>{gstMode ? FIXED_TEXT.gstBadge : FIXED_TEXT.nonGstBadge}</div>
+                  <label className="inline-flex items-center gap-2 mt-2 text-xs font-normal">
+                    <Switch
+                      checked={gstMode}
+                      onCheckedChange={(checked) => setValue('gst_mode', checked)}
+                      disabled={!gstSupplier.gstin}
                     />
-                    {field.conditionalText && (
-                      <span className="text-sm text-gray-600">
-                        {field.conditionalText(
-                          Number(watch(field.key)),
-                          field.key === 'insured_declared_value' ? Number(watch('estimated_loss_amount')) : undefined
-                        )}
-                      </span>
-                    )}
-                  </div>
+                    {gstSupplier.gstin ? 'Issue as tax invoice' : 'Add the firm GSTIN in Settings > GST to issue tax invoices'}
+                  </label>
                 </td>
               </tr>
-            ))}
-          </tbody>
-        </table>
-      </Card>
-
-      {/* Professional Fee Breakdown */}
-      <Card className="bg-white overflow-hidden border-2 border-gray-300">
-        <div className="p-4 text-center text-sm italic">
-          {FIXED_TEXT.feeTableNote}
-        </div>
-        <table className="excel-table">
-          <thead>
-            <tr>
-              <th style={{ width: '30%' }}>PROFESSIONAL FEE</th>
-              <th style={{ width: '40%' }}></th>
-              <th style={{ width: '30%', textAlign: 'right' }}></th>
-            </tr>
-          </thead>
-          <tbody>
-            {/* Fee Breakdown - Generated from Config */}
-            {FEE_BREAKDOWN_FIELDS.map((section, sectionIdx) => (
-              section.rows.map((row, rowIdx) => (
-                <tr key={`${sectionIdx}-${rowIdx}`}>
-                  {rowIdx === 0 && (
-                    <td 
-                      className="label-cell" 
-                      rowSpan={section.rows.length} 
-                      style={{ verticalAlign: 'middle' }}
+
+              {/* Bank Details Header Row */}
+              <tr>
+                <td className="label-cell" style={{ fontWeight: 'bold' }}>{FIXED_TEXT.bankDetailsLabel}</td>
+                <td colSpan={5} className="value-cell" style={{ padding: '8px' }}>
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">{watch('bank_name')}</span>
+                    <span className="font-medium">A/C No.- {watch('account_number')}</span>
+                    <span className="font-medium">IFSC Code: {watch('ifsc_code')}</span>
+                  </div>
+                  {(issuer?.bank_accounts.length ?? 0) > 1 && (
+                    <select
+                      value={watch('bank_account_id')}
+                      onChange={(e) => applyIssuer(getValues('organisation_profile_id'), e.target.value, getValues('insurer_office_id'))}
+                      className="w-full bg-transparent p-1 text-sm"
                     >
-                      {section.section}
-                    </td>
+                      {issuer?.bank_accounts.map(account => (
+                        <option key={account.id} value={account.id}>
+                          {bankDisplayName(account)} - {account.account_number}
+                        </option>
+                      ))}
+                    </select>
                   )}
-                  <td className="value-cell">
-                    {row.label}
-                    {row.additionalInput && (
-                      <>
-                        {' '}
-                        <input 
-                          {...register(row.additionalInput.key, { valueAsNumber: true })} 
-                          type="number" 
-                          style={{ width: '50px', display: 'inline-block', textAlign: 'center' }} 
-                          onBlur={(e) => {
-                            const value = parseFloat(e.target.value);
-                            if (!isNaN(value)) {
-                              setValue(row.additionalInput!.key, Number(value.toFixed(2)));
-                            }
-                          }}
-                        />
-                        {' '}{row.label}
-                      </>
-                    )}
-                    {row.additionalInputs && (
-                      <div className="inline-flex items-center gap-2">
-                        {row.additionalInputs.map((input, idx) => (
-                          <span key={idx}>
-                            {input.label}{' '}
-                            <input 
-                              {...register(input.key, { valueAsNumber: true })} 
-                              type="number" 
-                              step={input.key.includes('rate') ? '0.001' : '0.01'}
-                              style={{ width: input.key.includes('rate') ? '80px' : '60px', display: 'inline-block', textAlign: 'center' }} 
-                              onBlur={(e) => {
-                                const value = parseFloat(e.target.value);
-                                if (!isNaN(value)) {
-                                  const decimals = input.key.includes('rate') ? 3 : 2;
-                                  setValue(input.key, Number(value.toFixed(decimals)));
-                                }
-                              }}
-                            />
-                            {input.suffix && ` ${input.suffix}`}
-                          </span>
-                        ))}
-                      </div>
-                    )}
+                </td>
+              </tr>
+
+              {/* Policy Information Fields - Generated from Config (READ-ONLY) */}
+              {POLICY_INFO_FIELDS.map((field) => (
+                <tr key={field.key}>
+                  <td className="label-cell">{field.label}</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell" colSpan={4}>
+                    {watch(field.key) || ''}
                   </td>
-                  <td className={`value-cell number-cell ${row.type === 'calculated' ? 'read-only-cell' : ''}`}>
-                    {row.type === 'calculated' ? (
-                      <input 
-                        value={watch(row.key)?.toFixed(2) || '0.00'} 
-                        readOnly 
-                        className="number-cell read-only-cell" 
-                      />
-                    ) : (
+                </tr>
+              ))}
+
+              {/* Editable Policy Fields (EDITABLE) */}
+              {EDITABLE_POLICY_FIELDS.map((field) => (
+                <tr key={field.key}>
+                  <td className="label-cell">{field.label}</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell" colSpan={4}>
+                    <div className="flex items-center gap-2">
+                      {field.prefix && <span>{field.prefix}</span>}
                       <input 
-                        {...register(row.key, { valueAsNumber: true })} 
+                        {...register(field.key, { valueAsNumber: true })} 
                         type="number" 
-                        step="0.01" 
-                        className="number-cell"
+                        step="0.01"
+                        className="flex-1"
                         onBlur={(e) => {
                           const value = parseFloat(e.target.value);
                           if (!isNaN(value)) {
-                            setValue(row.key, Number(value.toFixed(2)));
+                            setValue(field.key, Number(value.toFixed(2)));
                           }
                         }}
                       />
+                      {field.conditionalText && (
+                        <span className="text-sm text-gray-600">
+                          {field.conditionalText(
+                            Number(watch(field.key)),
+                            field.key === 'insured_declared_value' ? Number(watch('estimated_loss_amount')) : undefined
+                          )}
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+
+        {/* GST Details - only for tax invoices */}
+        {gstMode && (
+          <Card className="bg-white overflow-hidden border-2 border-gray-300">
+            <div className="merged-header">GST DETAILS</div>
+            <table className="excel-table">
+              <tbody>
+                <tr>
+                  <td className="label-cell" style={{ width: '25%' }}>SUPPLIER GSTIN</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell read-only-cell" style={{ width: '25%' }}>
+                    {gstSupplier.gstin} ({gstStateName(gstSupplier.stateCode)})
+                  </td>
+                  <td className="label-cell" style={{ width: '25%' }}>RECIPIENT GSTIN</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell" style={{ width: '25%' }}>
+                    <input
+                      {...register('gst_recipient_gstin')}
+                      maxLength={15}
+                      onChange={(e) => setValue('gst_recipient_gstin', e.target.value.toUpperCase().trim())}
+                      className={recipientGstinProblem ? 'text-red-600' : ''}
+                    />
+                    {recipientGstinProblem && <div className="text-xs text-red-600">{recipientGstinProblem}</div>}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="label-cell">RECIPIENT ADDRESS</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell" colSpan={4}>
+                    <input {...register('gst_recipient_address')} placeholder="Office address as registered for GST" />
+                  </td>
+                </tr>
+                <tr>
+                  <td className="label-cell">CITY / LOCATION</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell">
+                    <input {...register('gst_recipient_location')} />
+                  </td>
+                  <td className="label-cell">PIN CODE</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell">
+                    <input {...register('gst_recipient_pincode')} maxLength={6} inputMode="numeric" />
+                  </td>
+                </tr>
+                <tr>
+                  <td className="label-cell">PLACE OF SUPPLY</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell">
+                    <select
+                      value={placeOfSupply || ''}
+                      onChange={(e) => setValue('gst_place_of_supply', e.target.value)}
+                      className="w-full bg-transparent p-1"
+                    >
+                      <option value="">Select state</option>
+                      {GST_STATES.map(state => (
+                        <option key={state.code} value={state.code}>{state.code} - {state.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="label-cell">SAC</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell">
+                    <input {...register('gst_sac_code')} maxLength={6} />
+                  </td>
+                </tr>
+                <tr>
+                  <td className="label-cell">REVERSE CHARGE</td>
+                  <td className="colon-separator">:</td>
+                  <td className="value-cell" colSpan={4}>
+                    <label className="inline-flex items-center gap-2">
+                      <Switch
+                        checked={!!watch('gst_reverse_charge')}
+                        onCheckedChange={(checked) => setValue('gst_reverse_charge', checked)}
+                      />
+                      Tax payable by the recipient on reverse charge
+                    </label>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </Card>
+        )}
+
+        {/* Professional Fee Breakdown */}
+        <Card className="bg-white overflow-hidden border-2 border-gray-300">
+          <div className="p-4 text-center text-sm italic">
+            {FIXED_TEXT.feeTableNote}
+          </div>
+          <div className="px-4 pb-4 flex flex-col md:flex-row md:items-start md:justify-between gap-3 text-sm">
+            <div>
+              {feeSchedulesLoading ? (
+                <span className="text-muted-foreground">Loading fee schedule...</span>
+              ) : feeSchedule ? (
+                <>
+                  <span className="font-medium">Fee schedule: {feeSchedule.name}</span>
+                  {currentFee?.slab && (
+                    <span className="text-muted-foreground"> · Loss slab {formatSlabRange(currentFee.slab)}</span>
+                  )}
+                  {currentFee?.adjustedBy === 'minimum' && <span className="text-muted-foreground"> · minimum fee applied</span>}
+                  {currentFee?.adjustedBy === 'maximum' && <span className="text-muted-foreground"> · fee cap applied</span>}
+                </>
+              ) : (
+                <span className="text-amber-700">No fee schedule matches this claim; enter the survey fee manually.</span>
+              )}
+            </div>
+            {feeSchedule && (
+              <div className="flex flex-col gap-2 md:items-end">
+                <label className="flex items-center gap-2">
+                  <Switch
+                    checked={feeOverride}
+                    onCheckedChange={(checked) => setValue('fee_override', checked)}
+                  />
+                  Override scheduled fee
+                </label>
+                {feeOverride && (
+                  <input
+                    {...register('fee_override_reason')}
+                    placeholder="Reason for override (required)"
+                    className={`border rounded px-2 py-1 w-72 ${overrideReasonMissing ? 'border-destructive' : ''}`}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+          <table className="excel-table">
+            <thead>
+              <tr>
+                <th style={{ width: '30%' }}>PROFESSIONAL FEE</th>
+                <th style={{ width: '40%' }}></th>
+                <th style={{ width: '30%', textAlign: 'right' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {/* Fee Breakdown - Generated from Config */}
+              {FEE_BREAKDOWN_FIELDS.map((section, sectionIdx) => (
+                section.rows.map((row, rowIdx) => (
+                  <tr key={`${sectionIdx}-${rowIdx}`}>
+                    {rowIdx === 0 && (
+                      <td 
+                        className="label-cell" 
+                        rowSpan={section.rows.length} 
+                        style={{ verticalAlign: 'middle' }}
+                      >
+                        {section.section}
+                      </td>
                     )}
+                    <td className="value-cell">
+                      {rowLabel(row)}
+                      {row.additionalInput && (
+                        <>
+                          {' '}
+                          <input 
+                            {...register(row.additionalInput.key, { valueAsNumber: true })} 
+                            type="number" 
+                            style={{ width: '50px', display: 'inline-block', textAlign: 'center' }} 
+                            onBlur={(e) => {
+                              const value = parseFloat(e.target.value);
+                              if (!isNaN(value)) {
+                                setValue(row.additionalInput!.key, Number(value.toFixed(2)));
+                              }
+                            }}
+                          />
+                          {' '}{row.label}
+                        </>
+                      )}
+                      {row.additionalInputs && (
+                        <div className="inline-flex items-center gap-2">
+                          {row.additionalInputs.map((input, idx) => (
+                            <span key={idx}>
+                              {input.label}{' '}
+                              <input 
+                                {...register(input.key, { valueAsNumber: true })} 
+                                type="number" 
+                                step={input.key.includes('rate') ? '0.001' : '0.01'}
+                                style={{ width: input.key.includes('rate') ? '80px' : '60px', display: 'inline-block', textAlign: 'center' }} 
+                                onBlur={(e) => {
+                                  const value = parseFloat(e.target.value);
+                                  if (!isNaN(value)) {
+                                    const decimals = input.key.includes('rate') ? 3 : 2;
+                                    setValue(input.key, Number(value.toFixed(decimals)));
+                                  }
+                                }}
+                              />
+                              {input.suffix && ` ${input.suffix}`}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className={`value-cell number-cell ${row.type === 'calculated' || (row.type === 'scheduled' && currentFee) ? 'read-only-cell' : ''}`}>
+                      {row.type === 'calculated' || (row.type === 'scheduled' && currentFee) ? (
+                        <input 
+                          value={watch(row.key)?.toFixed(2) || '0.00'} 
+                          readOnly 
+                          className="number-cell read-only-cell" 
+                        />
+                      ) : (
+                        <input 
+                          {...register(row.key, { valueAsNumber: true })} 
+                          type="number" 
+                          step="0.01" 
+                          className="number-cell"
+                          onBlur={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (!isNaN(value)) {
+                              setValue(row.key, Number(value.toFixed(2)));
+                            }
+                          }}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                ))
+              ))}
+
+              {/* Totals */}
+              <tr className="total-row">
+                <td colSpan={2} style={{ textAlign: 'right', paddingRight: '20px', fontWeight: 'bold' }}>TOTAL OF ABOVE</td>
+                <td className="number-cell" style={{ fontWeight: 'bold', fontSize: '16px' }}>
+                  ₹ {watch('total_above')?.toLocaleString('en-IN', { minimumFractionDigits: 2 }) || '0.00'}
+                </td>
+              </tr>
+
+              {/* GST */}
+              {taxRows(currentTax, !!watch('gst_reverse_charge')).map(([label, amount]) => (
+                <tr key={label}>
+                  <td colSpan={2} style={{ textAlign: 'right', paddingRight: '20px' }}>
+                    <strong>{label}</strong>
                   </td>
+                  <td className="number-cell">{amount.toFixed(2)}</td>
                 </tr>
-              ))
-            ))}
-
-            {/* Totals */}
-            <tr className="total-row">
-              <td colSpan={2} style={{ textAlign: 'right', paddingRight: '20px', fontWeight: 'bold' }}>TOTAL OF ABOVE</td>
-              <td className="number-cell" style={{ fontWeight: 'bold', fontSize: '16px' }}>
-                ₹ {watch('total_above')?.toLocaleString('en-IN', { minimumFractionDigits: 2 }) || '0.00'}
-              </td>
-            </tr>
-
-            {/* GST */}
-            <tr>
-              <td colSpan={2} style={{ textAlign: 'right', paddingRight: '20px' }}>
-                <strong>ADD: GST (NOT LIABLE TO PAY)</strong> &lt; 0% &gt;
-              </td>
-              <td className="number-cell">0.00</td>
-            </tr>
-
-            {/* Final Total */}
-            <tr className="final-total-row">
-              <td colSpan={2} style={{ textAlign: 'right', paddingRight: '20px', fontWeight: 'bold', fontSize: '18px' }}>TOTAL AMOUNT</td>
-              <td className="number-cell" style={{ fontWeight: 'bold', fontSize: '18px' }}>
-                ₹ {watch('total_amount')?.toLocaleString('en-IN', { minimumFractionDigits: 2 }) || '0.00'}
-              </td>
-            </tr>
-          </tbody>
-        </table>
-      </Card>
-
-      {/* Advance Receipt */}
-      <Card className="bg-white overflow-hidden border-2 border-gray-300">
-        <div className="merged-header">{FIXED_TEXT.advanceReceiptHeader}</div>
-        <table className="excel-table">
-          <tbody>
-            <tr>
-              <td style={{ padding: '20px' }}>
-                Received with thanks from <b>'United India Insurance Co. Ltd.'</b> a sum of{' '}
-                <strong>{numberToWords(Number(watch('total_amount')) || 0)} Only</strong>
-                {' '}towards above survey-bill.
-              </td>
-            </tr>
-            <tr>
-              <td style={{ padding: '40px 20px 20px 20px' }}>
-                <div style={{ textAlign: 'right', marginRight: '40px' }}>
-                  <div style={{ borderTop: '2px solid #000', width: '200px', display: 'inline-block', textAlign: 'center', paddingTop: '10px' }}>
-                    <strong>{FIXED_TEXT.signatureName}</strong>
+              ))}
+
+              {/* Final Total */}
+              <tr className="final-total-row">
+                <td colSpan={2} style={{ textAlign: 'right', paddingRight: '20px', fontWeight: 'bold', fontSize: '18px' }}>TOTAL AMOUNT</td>
+                <td className="number-cell" style={{ fontWeight: 'bold', fontSize: '18px' }}>
+                  ₹ {watch('total_amount')?.toLocaleString('en-IN', { minimumFractionDigits: 2 }) || '0.00'}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          {/* Tax Summary */}
+          {currentTax && (
+            <div className="p-4">
+              <div className="font-semibold mb-2">TAX SUMMARY</div>
+              <table className="excel-table">
+                <thead>
+                  <tr>
+                    <th>SAC</th>
+                    <th style={{ textAlign: 'right' }}>TAXABLE VALUE</th>
+                    <th style={{ textAlign: 'right' }}>CGST</th>
+                    <th style={{ textAlign: 'right' }}>SGST</th>
+                    <th style={{ textAlign: 'right' }}>IGST</th>
+                    <th style={{ textAlign: 'right' }}>TOTAL TAX</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td>{watch('gst_sac_code')}</td>
+                    <td className="number-cell">{currentTax.taxableValue.toFixed(2)}</td>
+                    <td className="number-cell">{currentTax.cgst.toFixed(2)}</td>
+                    <td className="number-cell">{currentTax.sgst.toFixed(2)}</td>
+                    <td className="number-cell">{currentTax.igst.toFixed(2)}</td>
+                    <td className="number-cell">{currentTax.totalTax.toFixed(2)}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-600 mt-2">
+                {currentTax.supplyType === 'intra' ? 'Intra-state supply' : 'Inter-state supply'}
+                {placeOfSupply && ` · Place of supply: ${placeOfSupply} - ${gstStateName(placeOfSupply)}`}
+                {watch('gst_reverse_charge') && ' · Tax payable on reverse charge: Yes'}
+              </p>
+            </div>
+          )}
+        </Card>
+
+        {/* Advance Receipt */}
+        <Card className="bg-white overflow-hidden border-2 border-gray-300">
+          <div className="merged-header">{receiptHeader}</div>
+          <table className="excel-table">
+            <tbody>
+              <tr>
+                <td style={{ padding: '20px' }}>
+                  Received with thanks from <b>'{receivedFrom}'</b> a sum of{' '}
+                  <strong>{numberToWords(Number(received ? received.amount_received : watch('total_amount')) || 0)} Only</strong>
+                  {' '}towards above survey-bill{receiptTds}.
+                </td>
+              </tr>
+              <tr>
+                <td style={{ padding: '40px 20px 20px 20px' }}>
+                  <div style={{ textAlign: 'right', marginRight: '40px' }}>
+                    {signatureUrl && (
+                      <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '4px' }}>
+                        <img src={signatureUrl} alt="Signature" style={{ height: '48px', width: '200px', objectFit: 'contain' }} />
+                      </div>
+                    )}
+                    <div style={{ borderTop: '2px solid #000', width: '200px', display: 'inline-block', textAlign: 'center', paddingTop: '10px' }}>
+                      <strong>{signatoryName}</strong>
+                      {watch('signatory_designation') && <div className="text-xs">{watch('signatory_designation')}</div>}
+                    </div>
                   </div>
-                </div>
-              </td>
-            </tr>
-          </tbody>
-        </table>
-      </Card>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </Card>
+      </fieldset>
+
+      {feeInvoice && <FeePaymentsCard invoice={feeInvoice} />}
 
       {/* Print Fee Bill Button */}
-      <div className="flex justify-end">
+      <div className="flex justify-end gap-3">
+        {gstMode && (
+          <Button onClick={handleExportEInvoice} variant="outline" size="lg">
+            <FileJson className="w-4 h-4 mr-2" />
+            Export E-Invoice JSON
+          </Button>
+        )}
         <Button 
           onClick={handlePrintFeeBill}
           className="bg-blue-600 hover:bg-blue-700"
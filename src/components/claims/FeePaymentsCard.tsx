@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Plus, Trash2, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { useDeleteFeePayment, useFeePayments } from "@/hooks/useFeePayments";
+import { FeeInvoice, FeeInvoicePaymentStatus, PAYMENT_STATUS_CLASSNAMES, PAYMENT_STATUS_LABELS } from "@/lib/feeInvoices";
+import { feePaymentKindLabel, outstandingOf } from "@/lib/feePayments";
+import { RecordFeePaymentDialog } from "./RecordFeePaymentDialog";
+
+const formatAmount = (amount: number) =>
+  `₹ ${Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface FeePaymentsCardProps {
+  invoice: FeeInvoice;
+}
+
+/**
+ * Payments received against a fee bill's invoice
+ */
+export const FeePaymentsCard = ({ invoice }: FeePaymentsCardProps) => {
+  const { isAdmin } = useAuth();
+  const { data: payments = [], isLoading } = useFeePayments(invoice.id);
+  const deleteMutation = useDeleteFeePayment();
+  const [recording, setRecording] = useState(false);
+
+  const status = invoice.payment_status as FeeInvoicePaymentStatus;
+  const outstanding = outstandingOf(invoice);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Wallet className="w-5 h-5" />
+          Fee Payments
+          <Badge className={PAYMENT_STATUS_CLASSNAMES[status]}>{PAYMENT_STATUS_LABELS[status] ?? status}</Badge>
+        </CardTitle>
+        <Button size="sm" onClick={() => setRecording(true)} disabled={status === "paid"}>
+          <Plus className="w-4 h-4 mr-2" />
+          Record payment
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Invoice total</p>
+            <p className="font-semibold">{formatAmount(invoice.total_amount)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Received</p>
+            <p className="font-semibold">{formatAmount(invoice.amount_received)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">TDS deducted</p>
+            <p className="font-semibold">{formatAmount(invoice.tds_deducted)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Outstanding</p>
+            <p className={`font-semibold ${outstanding > 0 ? "text-red-700" : ""}`}>{formatAmount(outstanding)}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading payments...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">Date</th>
+                <th>Type</th>
+                <th className="text-right">Received</th>
+                <th className="text-right">TDS</th>
+                <th className="pl-4">UTR</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map((payment) => (
+                <tr key={payment.id} className="border-b last:border-0">
+                  <td className="py-2">{format(new Date(payment.payment_date), "dd MMM yyyy")}</td>
+                  <td>
+                    {feePaymentKindLabel(payment.kind)}
+                    {payment.notes && <div className="text-xs text-muted-foreground">{payment.notes}</div>}
+                  </td>
+                  <td className="text-right">{formatAmount(payment.amount)}</td>
+                  <td className="text-right">{formatAmount(payment.tds_amount)}</td>
+                  <td className="pl-4 font-mono text-xs">{payment.utr || "-"}</td>
+                  <td className="text-right">
+                    {isAdmin && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => confirm("Remove this payment?") && deleteMutation.mutate(payment)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+
+      <RecordFeePaymentDialog invoice={invoice} open={recording} onOpenChange={setRecording} />
+    </Card>
+  );
+};
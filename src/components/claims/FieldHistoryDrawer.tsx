@@ -0,0 +1,130 @@
+import { ReactNode, useState } from "react";
+import { format } from "date-fns";
+import { History, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useClaimFieldAudit, useRevertFieldChange } from "@/hooks/useFieldAudit";
+import { FieldAuditEntry, fieldEditSourceLabel, fieldPathLabel, formatAuditValue } from "@/lib/fieldAudit";
+
+const sourceColors: Record<string, string> = {
+  manual: "bg-slate-600",
+  ai_extraction: "bg-purple-600",
+  public_upload: "bg-blue-600",
+  revert: "bg-amber-600",
+};
+
+interface FieldHistoryDrawerProps {
+  claimId: string;
+  /** Limit the history to one form_data key and the values nested under it; omit for the whole claim */
+  fieldKey?: string;
+  fieldLabel?: string;
+  /** Labels for form_data keys, used when showing the whole claim */
+  fieldLabels?: Record<string, string>;
+  /** Custom trigger; defaults to a small history icon button */
+  children?: ReactNode;
+}
+
+export const FieldHistoryDrawer = ({ claimId, fieldKey, fieldLabel, fieldLabels, children }: FieldHistoryDrawerProps) => {
+  const [open, setOpen] = useState(false);
+  const { data: entries = [], isLoading } = useClaimFieldAudit(claimId, fieldKey, open);
+  const revertMutation = useRevertFieldChange();
+
+  const labelFor = (key: string) =>
+    (key === fieldKey && fieldLabel) ||
+    fieldPathLabel(key, fieldKey && fieldLabel ? { ...fieldLabels, [fieldKey]: fieldLabel } : fieldLabels);
+
+  const handleRevert = (entry: FieldAuditEntry) => {
+    if (!confirm(`Revert "${labelFor(entry.field_key)}" to ${formatAuditValue(entry.old_value)}?`)) return;
+    revertMutation.mutate(entry);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        {children ?? (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground hover:text-foreground"
+            title="Field history"
+          >
+            <History className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            {fieldKey ? `History: ${labelFor(fieldKey)}` : "Claim field history"}
+          </SheetTitle>
+          <SheetDescription>
+            Every change to {fieldKey ? "this field" : "the claim's fields"}, newest first. Reverting puts back the
+            value from before a change.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-10rem)] mt-4 pr-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {entries.map((entry) => (
+                <li key={entry.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      {entry.field_key !== fieldKey && (
+                        <p className="text-sm font-medium truncate">{labelFor(entry.field_key)}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(entry.changed_at), "MMM dd, yyyy HH:mm")}
+                        {entry.changed_by_name && ` · ${entry.changed_by_name}`}
+                      </p>
+                    </div>
+                    <Badge className={`${sourceColors[entry.source] ?? "bg-slate-600"} text-white shrink-0`}>
+                      {fieldEditSourceLabel(entry.source)}
+                    </Badge>
+                  </div>
+
+                  <div className="grid grid-cols-[auto_1fr] gap-x-2 text-sm">
+                    <span className="text-muted-foreground">From</span>
+                    <span className="break-words line-through text-muted-foreground">
+                      {formatAuditValue(entry.old_value)}
+                    </span>
+                    <span className="text-muted-foreground">To</span>
+                    <span className="break-words">{formatAuditValue(entry.new_value)}</span>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevert(entry)}
+                      disabled={revertMutation.isPending}
+                    >
+                      <Undo2 className="w-3 h-3 mr-1" />
+                      Revert
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
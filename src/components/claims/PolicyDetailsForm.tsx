@@ -22,6 +22,10 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
+import { saveFormData } from "@/lib/offlineQueue";
+import { FieldHistoryDrawer } from "@/components/claims/FieldHistoryDrawer";
+import { ExtractionSourceBadge } from "@/components/claims/ExtractionSourceBadge";
+import { FIELD_SOURCES_KEY, fieldSourcesOf, withoutFieldSource } from "@/lib/extractionReview";
 
 
 interface PolicyDetailsFormProps {
@@ -124,10 +128,7 @@ export const PolicyDetailsForm = ({ claim }: PolicyDetailsFormProps) => {
     }
   });
   
-  const { error } = await supabase
-    .from(tableName)
-    .update({ form_data: cleanedData })
-    .eq("id", claim.id);
+  const { error } = await saveFormData(tableName, claim.id, cleanedData);
     
   if (error) {
     console.error("❌ Autosave error:", error);
@@ -222,6 +223,8 @@ useEffect(() => {
       ...existingData,
       [fieldName]: fieldValue === undefined || fieldValue === '' ? null : fieldValue,
       field_labels: fieldLabels,
+      // Typed by hand, so no longer from the extracted document
+      [FIELD_SOURCES_KEY]: withoutFieldSource(existingData, fieldName),
     };
     
     // Remove undefined values
@@ -231,11 +234,8 @@ useEffect(() => {
       }
     });
 
-    // Use direct Supabase update with correct table
-    const { error } = await supabase
-      .from(tableName)
-      .update({ form_data: dataToSave })
-      .eq("id", claim.id);
+    // Claims are saved with a version check; reports are updated directly
+    const { error } = await saveFormData(tableName, claim.id, dataToSave);
       
     if (error) {
       console.error('❌ Save field error:', error);
@@ -260,6 +260,19 @@ useEffect(() => {
   }
 };
 
+  // Field history only applies to claims; VAS and client reports are not audited
+  const isClaimRecord = !("service_id" in claim) && !("company_id" in claim);
+
+  const fieldSources = fieldSourcesOf(claim.form_data);
+
+  const renderLabel = (field: FormField, htmlFor?: string) => (
+    <div className="flex items-center gap-1">
+      <Label htmlFor={htmlFor}>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+      {isClaimRecord && <FieldHistoryDrawer claimId={claim.id} fieldKey={field.name} fieldLabel={field.label} />}
+      <ExtractionSourceBadge source={fieldSources[field.name]} />
+    </div>
+  );
+
   const renderField = (field: FormField) => {
     const fieldValue = watch(field.name);
 
@@ -269,7 +282,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 <Input
@@ -296,7 +309,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 <Input
@@ -325,7 +338,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 <Input
@@ -352,7 +365,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 <Textarea
@@ -382,7 +395,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 {surveyorsError && (
@@ -419,7 +432,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 {insurersError && (
@@ -459,7 +472,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-start gap-4">
               <div className="w-[250px] flex-shrink-0 pt-2">
-                <Label>{field.label}{field.required && <span className="text-destructive">*</span>}</Label>
+                {renderLabel(field)}
               </div>
               <div className="flex-1 max-w-full">
                 <Select
@@ -498,7 +511,7 @@ useEffect(() => {
           <div key={field.name} className="relative transition-all duration-200 rounded-lg py-1">
             <div className="flex items-center gap-4">
               <div className="w-[250px] flex-shrink-0">
-                <Label htmlFor={field.name}>{field.label}</Label>
+                {renderLabel(field, field.name)}
               </div>
               <div className="flex-1 max-w-full">
                 <Checkbox
@@ -586,13 +599,9 @@ useEffect(() => {
     
     console.log('✅ Final data to save:', cleanedFormData);
     
-    const { error, data: result } = await supabase
-      .from(tableName)
-      .update({ form_data: cleanedFormData })
-      .eq("id", claim.id)
-      .select();
+    const { error } = await saveFormData(tableName, claim.id, cleanedFormData);
 
-    console.log('📤 Supabase response:', { error, result });
+    console.log('📤 Supabase response:', { error });
 
     if (error) throw error;
     
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useRecordFeePayment } from "@/hooks/useFeePayments";
+import { FeeInvoice } from "@/lib/feeInvoices";
+import { FEE_PAYMENT_KINDS, FeePaymentKind, outstandingOf } from "@/lib/feePayments";
+
+// TDS on professional fees (section 194J), deducted on the fee before GST
+const TDS_RATE = 10;
+
+interface RecordFeePaymentDialogProps {
+  invoice: FeeInvoice;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const RecordFeePaymentDialog = ({ invoice, open, onOpenChange }: RecordFeePaymentDialogProps) => {
+  const recordMutation = useRecordFeePayment();
+  const outstanding = outstandingOf(invoice);
+
+  const [kind, setKind] = useState<FeePaymentKind>("full");
+  const [amount, setAmount] = useState("");
+  const [tdsAmount, setTdsAmount] = useState("0");
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [utr, setUtr] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setKind(outstanding < Number(invoice.total_amount) ? "partial" : "full");
+    setAmount(outstanding.toFixed(2));
+    setTdsAmount("0");
+    setPaymentDate(format(new Date(), "yyyy-MM-dd"));
+    setUtr("");
+    setNotes("");
+  }, [open, outstanding, invoice.total_amount]);
+
+  const applyTds = () => {
+    const tds = Math.round(Number(invoice.taxable_value) * TDS_RATE) / 100;
+    setTdsAmount(tds.toFixed(2));
+    setAmount(Math.max(outstanding - tds, 0).toFixed(2));
+  };
+
+  const settles = (Number(amount) || 0) + (Number(tdsAmount) || 0);
+
+  const handleSave = () => {
+    recordMutation.mutate(
+      {
+        invoiceId: invoice.id,
+        kind,
+        amount: Number(amount) || 0,
+        tdsAmount: Number(tdsAmount) || 0,
+        paymentDate,
+        utr,
+        notes,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record payment · {invoice.invoice_number}</DialogTitle>
+          <DialogDescription>
+            Outstanding ₹{outstanding.toLocaleString("en-IN", { minimumFractionDigits: 2 })} of ₹
+            {Number(invoice.total_amount).toLocaleString("en-IN", { minimumFractionDigits: 2 })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Payment type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as FeePaymentKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEE_PAYMENT_KINDS.map((k) => (
+                    <SelectItem key={k.value} value={k.value}>
+                      {k.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Payment date</Label>
+              <Input id="payment-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount received (₹)</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                min={0}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="payment-tds">TDS deducted (₹)</Label>
+                <button type="button" className="text-xs text-primary hover:underline" onClick={applyTds}>
+                  Apply {TDS_RATE}% TDS
+                </button>
+              </div>
+              <Input
+                id="payment-tds"
+                type="number"
+                step="0.01"
+                min={0}
+                value={tdsAmount}
+                onChange={(e) => setTdsAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payment-utr">UTR / reference</Label>
+            <Input id="payment-utr" value={utr} onChange={(e) => setUtr(e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Textarea id="payment-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <p className={`text-sm ${settles > outstanding + 1 ? "text-amber-700" : "text-muted-foreground"}`}>
+            Settles ₹{settles.toLocaleString("en-IN", { minimumFractionDigits: 2 })}
+            {settles > outstanding + 1 && " — more than the outstanding amount"}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={settles <= 0 || !paymentDate || recordMutation.isPending}>
+            Record payment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
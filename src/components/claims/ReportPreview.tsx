@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import {
   DndContext,
   closestCenter,
@@ -21,11 +21,51 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { GripVertical, Eye, EyeOff } from "lucide-react";
-import { type Claim } from "@/hooks/useClaims";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GripVertical, Eye, EyeOff, Pencil, RotateCcw, Save, Send, Star, Trash2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Claim, usePolicyTypes } from "@/hooks/useClaims";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  useClaimReportLayout,
+  useDeleteReportLayoutTemplate,
+  useReportLayoutTemplates,
+  useResetClaimReportLayout,
+  useSaveClaimReportLayout,
+  useSaveReportLayoutTemplate,
+  useSetDefaultReportLayoutTemplate,
+} from "@/hooks/useReportLayouts";
+import { applyReportLayout, buildReportLayout } from "@/lib/reportLayout";
+import { useIssueReport, useReportVersions } from "@/hooks/useReportVersions";
+import { REPORT_STAGES, ReportStage } from "@/lib/reportVersions";
+import { useDocumentChecklist } from "@/hooks/useDocumentChecklist";
+import { outstandingMandatory } from "@/lib/documentChecklist";
 import { format } from "date-fns";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { type RenderPdfPayload } from "@/lib/backendClient";
+import { useRenderReportPdf } from "@/hooks/usePdfRenderer";
+import { useOrganisationProfiles } from "@/hooks/useOrganisationProfiles";
+import { letterheadAssets, resolveOrganisationProfile } from "@/lib/organisationProfiles";
+import {
+  VarianceSource,
+  buildVarianceLines,
+  buildVarianceReportComponents,
+  disallowedLines,
+  groupVarianceByReason,
+} from "@/lib/assessmentVariance";
+import { SalvageRecord, acceptedSalvageBid, buildSalvageReportComponents, rankSalvageBids } from "@/lib/salvage";
+import { toast } from "sonner";
 
 /* =========================
    Types
@@ -37,11 +77,13 @@ interface ReportSection {
   content: any;
   isVisible: boolean;
   order: number;
+  titleOverride?: string | null;
 }
 
 interface SortableSectionProps {
   section: ReportSection;
   onVisibilityChange: (id: string, visible: boolean) => void;
+  onTitleChange: (id: string, title: string) => void;
   claim: Claim;
 }
 
@@ -69,7 +111,11 @@ interface ClaimDocument {
    Config
 ========================= */
 
-const API_BASE = "https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws";
+// Annexure built from the Assessment tab's estimate vs assessed variance
+const VARIANCE_SECTION_ID = "assessment-variance";
+// Bid comparison from the Assessment tab's salvage disposal
+const SALVAGE_SECTION_ID = "salvage-bids";
+
 
 /* =========================
    Utilities
@@ -81,6 +127,9 @@ const labelize = (k: string) =>
     .replace(/^./, (s) => s.toUpperCase())
     .replace(/_/g, " ");
 
+const salvageOf = (formData: Record<string, unknown>) =>
+  (formData.assessment as { salvage?: SalvageRecord } | undefined)?.salvage;
+
 const formatFileSize = (bytes: number) => {
   if (bytes === 0) return "0 Bytes";
   const k = 1024;
@@ -112,6 +161,14 @@ const sectionHasContent = (section: ReportSection, claim: Claim): boolean => {
     return true;
   }
 
+  if (section.id === VARIANCE_SECTION_ID) {
+    return disallowedLines(buildVarianceLines(formData.assessment as VarianceSource | undefined)).length > 0;
+  }
+
+  if (section.id === SALVAGE_SECTION_ID) {
+    return (salvageOf(formData)?.bids?.length ?? 0) > 0;
+  }
+
   // Check policy details
   if (section.id === "policy-details") {
     const policyFields = [
@@ -150,9 +207,23 @@ const sectionHasContent = (section: ReportSection, claim: Claim): boolean => {
    SortableSection
 ========================= */
 
-const SortableSection = ({ section, onVisibilityChange, claim }: SortableSectionProps) => {
+const SortableSection = ({ section, onVisibilityChange, onTitleChange, claim }: SortableSectionProps) => {
   const { attributes, listeners, setNodeRef, transform, transition } = useSortable({ id: section.id });
   const style = { transform: CSS.Transform.toString(transform), transition };
+  const [editingTitle, setEditingTitle] = useState(false);
+  const [titleDraft, setTitleDraft] = useState("");
+
+  const startTitleEdit = () => {
+    setTitleDraft(section.titleOverride || section.name);
+    setEditingTitle(true);
+  };
+
+  const commitTitleEdit = () => {
+    const title = titleDraft.trim();
+    // Typing the original name back clears the override
+    onTitleChange(section.id, title === section.name ? "" : title);
+    setEditingTitle(false);
+  };
 
   const renderSectionContent = (section: ReportSection) => {
     const formData = claim.form_data || {};
@@ -214,6 +285,43 @@ const SortableSection = ({ section, onVisibilityChange, claim }: SortableSection
       );
     }
 
+    // --- Static: Variance annexure ---
+    if (section.id === VARIANCE_SECTION_ID) {
+      const groups = groupVarianceByReason(buildVarianceLines(formData.assessment as VarianceSource | undefined));
+      return (
+        <div className="space-y-2">
+          {groups.map((group) => (
+            <div key={group.reason} className="flex justify-between">
+              <span className="text-muted-foreground">
+                {group.reason} ({group.lines.length})
+              </span>
+              <span className="font-medium">{money(group.disallowed)}</span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    // --- Static: Salvage bid comparison ---
+    if (section.id === SALVAGE_SECTION_ID) {
+      const salvage = salvageOf(formData);
+      if (!salvage) return null;
+      const accepted = acceptedSalvageBid(salvage);
+      return (
+        <div className="space-y-2">
+          {rankSalvageBids(salvage.bids).map((bid) => (
+            <div key={bid.id} className="flex justify-between">
+              <span className="text-muted-foreground">
+                {bid.bidder_name || "-"}
+                {bid.id === accepted?.id && " (accepted)"}
+              </span>
+              <span className="font-medium">{money(bid.amount)}</span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
     // --- Dynamic Sections ---
     const meta = metas.find((m) => m.id === section.id);
     if (!meta) return null;
@@ -303,7 +411,29 @@ const SortableSection = ({ section, onVisibilityChange, claim }: SortableSection
           <button {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing">
             <GripVertical className="w-5 h-5 text-muted-foreground" />
           </button>
-          <h3 className="font-semibold">{section.name}</h3>
+          {editingTitle ? (
+            <Input
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onBlur={commitTitleEdit}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitTitleEdit();
+                if (e.key === "Escape") setEditingTitle(false);
+              }}
+              className="h-8 w-64"
+              autoFocus
+            />
+          ) : (
+            <div className="flex items-center gap-1">
+              <h3 className="font-semibold">{section.titleOverride || section.name}</h3>
+              {section.titleOverride && (
+                <span className="text-xs text-muted-foreground">({section.name})</span>
+              )}
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={startTitleEdit} title="Rename in report">
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )}
           <Badge variant={section.isVisible ? "default" : "secondary"}>
             {section.isVisible ? "Visible" : "Hidden"}
           </Badge>
@@ -368,6 +498,26 @@ function getDynamicSectionsFromClaim(claim: Claim): ReportSection[] {
     sections.push(section);
   });
 
+  const variance: ReportSection = {
+    id: VARIANCE_SECTION_ID,
+    name: "Assessment Variance Annexure",
+    content: null,
+    isVisible: true,
+    order: 3 + metas.length,
+  };
+  variance.isVisible = sectionHasContent(variance, claim);
+  sections.push(variance);
+
+  const salvage: ReportSection = {
+    id: SALVAGE_SECTION_ID,
+    name: "Salvage Bid Comparison",
+    content: null,
+    isVisible: true,
+    order: 4 + metas.length,
+  };
+  salvage.isVisible = sectionHasContent(salvage, claim);
+  sections.push(salvage);
+
   return sections;
 }
 
@@ -379,8 +529,9 @@ function getDynamicSectionsFromClaim(claim: Claim): ReportSection[] {
 function buildReportJson(
   claim: Claim,
   sections: ReportSection[],
-  groupedDocuments: Record<string, ClaimDocument[]>
-) {
+  groupedDocuments: Record<string, ClaimDocument[]>,
+  assets: RenderPdfPayload["assets"]
+): RenderPdfPayload {
   const visibleSections = sections
     .filter((s) => s.isVisible && sectionHasContent(s, claim))
     .sort((a, b) => a.order - b.order);
@@ -395,7 +546,7 @@ function buildReportJson(
   });
 
   for (const s of visibleSections) {
-    components.push({ type: "subheader", props: { text: s.name } });
+    components.push({ type: "subheader", props: { text: s.titleOverride || s.name } });
 
     const metas = (claim.form_data?.dynamic_sections_metadata as any[]) || [];
     const formData = claim.form_data || {};
@@ -418,6 +569,16 @@ function buildReportJson(
       continue;
     }
 
+    if (s.id === VARIANCE_SECTION_ID) {
+      components.push(...buildVarianceReportComponents(formData.assessment as VarianceSource | undefined));
+      continue;
+    }
+
+    if (s.id === SALVAGE_SECTION_ID) {
+      components.push(...buildSalvageReportComponents(salvageOf(formData)));
+      continue;
+    }
+
     const meta = metas.find((m) => m.id === s.id);
     const pairs: [string, any][] = [];
 
@@ -484,10 +645,7 @@ function buildReportJson(
   return {
     company: claim.policy_types?.name || "Insurance Company",
     reportName: `Claim Report - ${claim.claim_number}`,
-    assets: {
-      firstPageBackground: "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20bg.png?updatedAt=1763381793043",
-      otherPagesBackground: "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20footer%20only%20bg",
-    },
+    assets,
     components,
   };
 }
@@ -509,7 +667,7 @@ export const ReportPreview = ({ claim }: ReportPreviewProps) => {
       if (error) throw error;
       
       const filteredDocs = (data as ClaimDocument[]).filter(
-        doc => !doc.file_name.startsWith("__TOKEN_PLACEHOLDER_") && doc.is_selected === true
+        doc => doc.is_selected === true
       );
       
       return filteredDocs;
@@ -526,6 +684,68 @@ export const ReportPreview = ({ claim }: ReportPreviewProps) => {
 
   const [sections, setSections] = useState<ReportSection[]>(() => getDynamicSectionsFromClaim(claim));
   const [includeHeader, setIncludeHeader] = useState(true); // ADD THIS STATE
+  const { data: organisationProfiles = [] } = useOrganisationProfiles();
+  const issuer = resolveOrganisationProfile(
+    organisationProfiles,
+    claim.form_data?.organisation_profile_id as string | undefined,
+    claim.user_id
+  );
+
+  // Layouts and issued versions are stored against claims only; VAS and client reports keep the in-memory builder
+  const isClaimReport = !("service_id" in claim) && !("company_id" in claim);
+  const { isAdmin } = useAuth();
+  const { data: policyTypes } = usePolicyTypes();
+  const parentPolicyTypeId = policyTypes?.find((p) => p.id === claim.policy_type_id)?.parent_id ?? null;
+  const { data: savedLayout, isFetched: savedLayoutFetched } = useClaimReportLayout(claim.id, isClaimReport);
+  const { data: templateData, isFetched: templatesFetched } = useReportLayoutTemplates(
+    isClaimReport && policyTypes ? claim.policy_type_id : undefined,
+    parentPolicyTypeId
+  );
+  const renderPdf = useRenderReportPdf();
+  const saveLayout = useSaveClaimReportLayout(claim.id);
+  // mutate keeps its identity across renders, unlike the mutation result
+  const { mutate: saveLayoutMutate } = saveLayout;
+  const { data: versions } = useReportVersions(claim.id, isClaimReport);
+  const issueReport = useIssueReport(claim.id);
+  const resetLayout = useResetClaimReportLayout(claim.id);
+  const saveTemplate = useSaveReportLayoutTemplate(claim.policy_type_id);
+  const setDefaultTemplate = useSetDefaultReportLayoutTemplate(claim.policy_type_id);
+  const deleteTemplate = useDeleteReportLayoutTemplate(claim.policy_type_id);
+
+  const [layoutApplied, setLayoutApplied] = useState(!isClaimReport);
+  const [layoutDirty, setLayoutDirty] = useState(false);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [templateIsDefault, setTemplateIsDefault] = useState(true);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const [issueDialogOpen, setIssueDialogOpen] = useState(false);
+  const [issueStage, setIssueStage] = useState<ReportStage>("preliminary");
+  const [issueNotes, setIssueNotes] = useState("");
+  const { data: checklist = [] } = useDocumentChecklist(claim.id, isClaimReport && issueStage === "final");
+  const missingDocuments = issueStage === "final" ? outstandingMandatory(checklist) : [];
+
+  // Start from the claim's own layout, falling back to the policy type's default
+  useEffect(() => {
+    if (layoutApplied || !savedLayoutFetched || !templatesFetched) return;
+    const layout = savedLayout ?? templateData?.defaultTemplate?.layout;
+    if (layout) {
+      console.log("[ReportPreview] Applying", savedLayout ? "saved claim layout" : "policy type default layout");
+      setSections((prev) => applyReportLayout(prev, layout));
+      setIncludeHeader(layout.include_header);
+    }
+    setLayoutApplied(true);
+  }, [layoutApplied, savedLayoutFetched, templatesFetched, savedLayout, templateData]);
+
+  // Autosave user changes, debounced so a drag or a burst of toggles is one write
+  useEffect(() => {
+    if (!isClaimReport || !layoutApplied || !layoutDirty) return;
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => {
+      saveLayoutMutate(buildReportLayout(sections, includeHeader));
+      setLayoutDirty(false);
+    }, 1000);
+    return () => clearTimeout(saveTimer.current);
+  }, [sections, includeHeader, layoutDirty, layoutApplied, isClaimReport, saveLayoutMutate]);
 
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -541,80 +761,147 @@ export const ReportPreview = ({ claim }: ReportPreviewProps) => {
         const newItems = arrayMove(items, oldIndex, newIndex);
         return newItems.map((item, index) => ({ ...item, order: index + 1 }));
       });
+      setLayoutDirty(true);
     }
   };
 
   const handleVisibilityChange = (id: string, visible: boolean) => {
     setSections((prev) => prev.map((s) => (s.id === id ? { ...s, isVisible: visible } : s)));
+    setLayoutDirty(true);
   };
 
+  const handleTitleChange = (id: string, title: string) => {
+    setSections((prev) => prev.map((s) => (s.id === id ? { ...s, titleOverride: title || null } : s)));
+    setLayoutDirty(true);
+  };
+
+  const handleIncludeHeaderChange = (checked: boolean) => {
+    setIncludeHeader(checked);
+    setLayoutDirty(true);
+  };
+
+  const handleResetLayout = async () => {
+    clearTimeout(saveTimer.current);
+    setLayoutDirty(false);
+    await resetLayout.mutateAsync();
+
+    const fresh = getDynamicSectionsFromClaim(claim);
+    const defaultLayout = templateData?.defaultTemplate?.layout;
+    setSections(defaultLayout ? applyReportLayout(fresh, defaultLayout) : fresh);
+    setIncludeHeader(defaultLayout?.include_header ?? true);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) {
+      toast.error("Please enter a layout name");
+      return;
+    }
+    await saveTemplate.mutateAsync({
+      name: templateName.trim(),
+      layout: buildReportLayout(sections, includeHeader),
+      isDefault: templateIsDefault,
+    });
+    setTemplateName("");
+  };
+
+  // Letterhead of the profile the claim is issued under; without the header the first
+  // page gets the footer-only background
+  const buildPayload = () =>
+    buildReportJson(claim, sections, groupedDocuments, letterheadAssets(issuer, includeHeader));
+
   const handlePreview = async () => {
-    const payload = buildReportJson(claim, sections, groupedDocuments);
+    const payload = buildPayload();
     
-    // UPDATE ASSETS BASED ON TOGGLE
-    payload.assets = {
-      firstPageBackground: includeHeader 
-        ? "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20bg.png?updatedAt=1763381793043" 
-        : "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20footer%20only%20bg",
-      otherPagesBackground: "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20footer%20only%20bg",
-    };
-    
-    const res = await fetch(`${API_BASE}/render.pdf`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
+    try {
+      const { blob } = await renderPdf(payload);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank");
+    } catch (error) {
+      console.error("PDF API error:", error);
+      toast.error("Failed to generate PDF: " + (error as Error).message);
+    }
+  };
+
+  const openIssueDialog = () => {
+    // Suggest the next stage: the first issue is preliminary, later ones interim
+    setIssueStage(versions?.length ? "interim" : "preliminary");
+    setIssueNotes("");
+    setIssueDialogOpen(true);
+  };
 
-    if (!res.ok) {
-      const err = await res.text();
-      console.error("PDF API error:", err);
-      throw new Error(err || "PDF failed");
+  const handleIssueReport = async () => {
+    let rendered: Awaited<ReturnType<typeof renderPdf>>;
+    try {
+      rendered = await renderPdf(buildPayload());
+    } catch (error) {
+      console.error("PDF API error:", error);
+      toast.error("Failed to generate PDF: " + (error as Error).message);
+      return;
     }
 
-    const blob = await res.blob();
-    const url = URL.createObjectURL(blob);
-    window.open(url, "_blank");
+    issueReport.mutate(
+      {
+        stage: issueStage,
+        formData: claim.form_data || {},
+        layout: buildReportLayout(sections, includeHeader),
+        pdf: rendered.blob,
+        renderer: rendered.renderer,
+        notes: issueNotes.trim() || undefined,
+      },
+      { onSuccess: () => setIssueDialogOpen(false) }
+    );
   };
 
   const handleDownload = async () => {
-    const payload = buildReportJson(claim, sections, groupedDocuments);
-    
-    // UPDATE ASSETS BASED ON TOGGLE
-    payload.assets = {
-      firstPageBackground: includeHeader 
-        ? "https://placeholder.com/first-page-with-header.png" 
-        : "https://placeholder.com/first-page-without-header.png",
-      otherPagesBackground: "https://ik.imagekit.io/pritvik/Reports%20-%20generic%20footer%20only%20bg",
-    };
+    const payload = buildPayload();
     
-    const res = await fetch(`${API_BASE}/render.pdf`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-
-    if (!res.ok) {
-      const err = await res.text();
-      console.error("PDF API error:", err);
-      throw new Error(err || "PDF failed");
+    try {
+      const { blob } = await renderPdf(payload);
+      const url = URL.createObjectURL(blob);
+
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "report.pdf";
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("PDF API error:", error);
+      toast.error("Failed to generate PDF: " + (error as Error).message);
     }
-
-    const blob = await res.blob();
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "report.pdf";
-    a.click();
-    URL.revokeObjectURL(url);
   };
 
   return (
     <div>
       <Card>
         <CardHeader>
-          <CardTitle>Report Layout Builder</CardTitle>
-          <p className="text-sm text-muted-foreground">Drag sections to reorder and toggle visibility</p>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Report Layout Builder</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Drag sections to reorder, toggle visibility and rename sections for the report
+                {isClaimReport && (saveLayout.isPending ? " · Saving..." : savedLayout ? " · Layout saved" : "")}
+              </p>
+            </div>
+            {isClaimReport && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleResetLayout}
+                  disabled={resetLayout.isPending || !savedLayout}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Reset to default
+                </Button>
+                {isAdmin && (
+                  <Button variant="outline" size="sm" onClick={() => setTemplateDialogOpen(true)}>
+                    <Save className="w-4 h-4 mr-2" />
+                    Policy layouts
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
@@ -625,6 +912,7 @@ export const ReportPreview = ({ claim }: ReportPreviewProps) => {
                     key={section.id}
                     section={section}
                     onVisibilityChange={handleVisibilityChange}
+                    onTitleChange={handleTitleChange}
                     claim={claim}
                   />
                 ))}
@@ -646,7 +934,7 @@ export const ReportPreview = ({ claim }: ReportPreviewProps) => {
               <Switch
                 id="header-toggle"
                 checked={includeHeader}
-                onCheckedChange={setIncludeHeader}
+                onCheckedChange={handleIncludeHeaderChange}
               />
             </div>
           </div>
@@ -656,9 +944,148 @@ export const ReportPreview = ({ claim }: ReportPreviewProps) => {
               Preview
             </Button>
             <Button onClick={handleDownload}>Download PDF</Button>
+            {isClaimReport && (
+              <Button variant="outline" onClick={openIssueDialog}>
+                <Send className="w-4 h-4 mr-2" />
+                Issue report
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
+
+      <Dialog open={issueDialogOpen} onOpenChange={setIssueDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Issue report</DialogTitle>
+            <DialogDescription>
+              The current form data, layout and rendered PDF are archived as version {(versions?.[0]?.version_number ?? 0) + 1}.
+              Issued versions cannot be edited.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="issue-stage">Stage</Label>
+              <Select value={issueStage} onValueChange={(value) => setIssueStage(value as ReportStage)}>
+                <SelectTrigger id="issue-stage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_STAGES.map((stage) => (
+                    <SelectItem key={stage.value} value={stage.value}>
+                      {stage.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {missingDocuments.length > 0 && (
+                <p className="text-sm text-amber-700">
+                  A final report needs these documents verified or waived: {missingDocuments.join(", ")}.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issue-notes">Notes (optional)</Label>
+              <Textarea
+                id="issue-notes"
+                value={issueNotes}
+                onChange={(e) => setIssueNotes(e.target.value)}
+                placeholder="e.g. Sent to insurer by email"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIssueDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleIssueReport} disabled={issueReport.isPending || missingDocuments.length > 0}>
+              {issueReport.isPending ? "Issuing..." : "Issue report"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={templateDialogOpen} onOpenChange={setTemplateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Layouts for {claim.policy_types?.name || "this policy type"}</DialogTitle>
+            <DialogDescription>
+              Save the current section order, visibility, titles and header setting as a named layout.
+              New reports for this policy type start from the default layout.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="layout-template-name">Layout name</Label>
+              <Input
+                id="layout-template-name"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="e.g. House layout"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="layout-template-default"
+                checked={templateIsDefault}
+                onCheckedChange={(checked) => setTemplateIsDefault(checked === true)}
+              />
+              <Label htmlFor="layout-template-default" className="text-sm font-normal">
+                Use as default for this policy type
+              </Label>
+            </div>
+
+            {templateData && templateData.templates.length > 0 && (
+              <div className="space-y-2 pt-2 border-t">
+                <p className="text-sm font-medium">Saved layouts</p>
+                {templateData.templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm">{template.name}</span>
+                      {template.is_default && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    <div className="flex gap-1">
+                      {!template.is_default && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Make default"
+                          onClick={() => setDefaultTemplate.mutate(template.id)}
+                          disabled={setDefaultTemplate.isPending}
+                        >
+                          <Star className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete layout"
+                        onClick={() => deleteTemplate.mutate(template.id)}
+                        disabled={deleteTemplate.isPending}
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateDialogOpen(false)}>
+              Close
+            </Button>
+            <Button onClick={handleSaveTemplate} disabled={saveTemplate.isPending}>
+              {saveTemplate.isPending ? "Saving..." : "Save current layout"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, GitCompare, History } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useReportVersions } from "@/hooks/useReportVersions";
+import {
+  ReportVersion,
+  diffReportVersions,
+  getReportVersionUrl,
+  reportStageLabel,
+} from "@/lib/reportVersions";
+
+interface ReportVersionHistoryProps {
+  claimId: string;
+}
+
+const stageColors: Record<string, string> = {
+  preliminary: "bg-amber-100 text-amber-800",
+  interim: "bg-blue-100 text-blue-800",
+  final: "bg-green-100 text-green-800",
+};
+
+const labelize = (k: string) =>
+  k
+    .replace(/_/g, " ")
+    .replace(/^./, (s) => s.toUpperCase());
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return `${value.filter(Boolean).length} item(s)`;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Field labels come from the section metadata frozen with the version
+const fieldLabels = (version: ReportVersion) => {
+  const labels: Record<string, string> = {};
+  const metas =
+    (version.form_data.dynamic_sections_metadata as
+      | { id: string; name?: string; fields?: { name?: string; label?: string }[] }[]
+      | undefined) || [];
+  metas.forEach((meta) => {
+    (meta.fields || []).forEach((f) => {
+      if (f.name) labels[f.name] = f.label || labelize(f.name);
+    });
+    labels[`${meta.id}_images`] = `${meta.name || "Section"} images`;
+  });
+  return labels;
+};
+
+export const ReportVersionHistory = ({ claimId }: ReportVersionHistoryProps) => {
+  const { data: versions = [], isLoading } = useReportVersions(claimId);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected((prev) => {
+      if (!checked) return prev.filter((v) => v !== id);
+      // Keep the two most recent picks
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleDownload = async (version: ReportVersion) => {
+    try {
+      const url = await getReportVersionUrl(version);
+      window.open(url, "_blank");
+    } catch (error) {
+      console.error("[ReportVersionHistory] Download error:", error);
+      toast.error("Failed to download report: " + (error as Error).message);
+    }
+  };
+
+  const compared = versions
+    .filter((v) => selected.includes(v.id))
+    .sort((a, b) => a.version_number - b.version_number);
+  const diff = compared.length === 2 ? diffReportVersions(compared[0], compared[1]) : null;
+  const labels = compared.length === 2 ? fieldLabels(compared[1]) : {};
+
+  return (
+    <Card className="bg-white/95 backdrop-blur-sm border border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Issued Reports
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No reports issued yet. Use "Issue report" on the View Report tab.
+          </p>
+        ) : (
+          <>
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-start gap-2 rounded-md border p-2">
+                {versions.length > 1 && (
+                  <Checkbox
+                    className="mt-1"
+                    checked={selected.includes(version.id)}
+                    onCheckedChange={(checked) => toggleSelected(version.id, checked === true)}
+                    aria-label={`Select version ${version.version_number} to compare`}
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">v{version.version_number}</span>
+                    <Badge className={`${stageColors[version.stage] ?? ""} hover:bg-inherit`}>
+                      {reportStageLabel(version.stage)}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(version.issued_at), "MMM dd, yyyy HH:mm")}
+                  </p>
+                  {version.notes && <p className="text-xs mt-1 break-words">{version.notes}</p>}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDownload(version)} title="Download PDF">
+                  <Download className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            {versions.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={compared.length !== 2}
+                onClick={() => setCompareOpen(true)}
+              >
+                <GitCompare className="w-4 h-4 mr-2" />
+                {compared.length === 2 ? "Compare selected" : "Select two versions to compare"}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={compareOpen && !!diff} onOpenChange={setCompareOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              v{compared[0]?.version_number} → v{compared[1]?.version_number}
+            </DialogTitle>
+            <DialogDescription>
+              {compared[0] && reportStageLabel(compared[0].stage)} issued{" "}
+              {compared[0] && format(new Date(compared[0].issued_at), "MMM dd, yyyy")} compared with{" "}
+              {compared[1] && reportStageLabel(compared[1].stage)} issued{" "}
+              {compared[1] && format(new Date(compared[1].issued_at), "MMM dd, yyyy")}
+            </DialogDescription>
+          </DialogHeader>
+
+          {diff && diff.fields.length === 0 && diff.layout.length === 0 && (
+            <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+          )}
+
+          {diff && diff.fields.length > 0 && (
+            <div className="border rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="text-left p-2">Field</th>
+                    <th className="text-left p-2">v{compared[0].version_number}</th>
+                    <th className="text-left p-2">v{compared[1].version_number}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.fields.map((change) => (
+                    <tr key={change.key} className="border-t align-top">
+                      <td className="p-2 font-medium">{labels[change.key] ?? labelize(change.key)}</td>
+                      <td className="p-2 text-red-700 break-all">{formatValue(change.before)}</td>
+                      <td className="p-2 text-green-700 break-all">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {diff && diff.layout.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Layout changes</p>
+              <ul className="list-disc pl-5 text-sm text-muted-foreground">
+                {diff.layout.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
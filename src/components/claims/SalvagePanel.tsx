@@ -0,0 +1,346 @@
+import { SetStateAction, useRef, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { uploadDocument } from "@/lib/uploadDocument";
+import {
+  EMPTY_SALVAGE_ITEM,
+  SALVAGE_LOSS_TYPE_LABELS,
+  SalvageBid,
+  SalvageItem,
+  SalvageLossType,
+  SalvageRecord,
+  SalvageSale,
+  acceptedSalvageBid,
+  newSalvageBid,
+  rankSalvageBids,
+  salvageEstimateTotal,
+} from "@/lib/salvage";
+
+interface SalvagePanelProps {
+  claimId: string;
+  salvage: SalvageRecord;
+  /** Takes the new record, or an updater applied to the latest one for changes made after an await */
+  onChange: (salvage: SetStateAction<SalvageRecord>) => void;
+}
+
+const numberValue = (raw: string) => (raw === "" ? 0 : Number(raw) || 0);
+
+/**
+ * Salvage items, bids and sale for the Assessment tab. Renders inside Assessment and uses
+ * its table styles; the accepted bid becomes the summary's salvage value there.
+ */
+export const SalvagePanel = ({ claimId, salvage, onChange }: SalvagePanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const accepted = acceptedSalvageBid(salvage);
+  const highest = rankSalvageBids(salvage.bids)[0];
+
+  const updateItem = (index: number, changes: Partial<SalvageItem>) =>
+    onChange({ ...salvage, items: salvage.items.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+
+  const updateBid = (id: string, changes: Partial<SalvageBid>) =>
+    onChange({ ...salvage, bids: salvage.bids.map((bid) => (bid.id === id ? { ...bid, ...changes } : bid)) });
+
+  const removeBid = (id: string) =>
+    onChange({
+      ...salvage,
+      bids: salvage.bids.filter((bid) => bid.id !== id),
+      accepted_bid_id: salvage.accepted_bid_id === id ? null : salvage.accepted_bid_id,
+    });
+
+  const updateSale = (changes: Partial<SalvageSale>) => onChange({ ...salvage, sale: { ...salvage.sale, ...changes } });
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    try {
+      const uploaded = await Promise.all([...files].map((file) => uploadDocument(file, claimId)));
+      // Bids and items may have been edited while the files uploaded
+      onChange((current) => ({
+        ...current,
+        sale: {
+          ...current.sale,
+          documents: [...current.sale.documents, ...uploaded.map((u) => ({ name: u.fileName, url: u.url }))],
+        },
+      }));
+      toast.success(`${uploaded.length} document${uploaded.length === 1 ? "" : "s"} uploaded`);
+    } catch (error) {
+      toast.error("Failed to upload document: " + (error as Error).message);
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      {/* Items */}
+      <Card className="bg-white border-2 border-gray-300">
+        <div className="section-title flex items-center justify-between">
+          <span>SALVAGE ITEMS</span>
+          <select
+            className="assess-input"
+            style={{ width: 240, background: "#fff" }}
+            value={salvage.loss_type}
+            onChange={(e) => onChange({ ...salvage, loss_type: e.target.value as SalvageLossType })}
+          >
+            {(Object.keys(SALVAGE_LOSS_TYPE_LABELS) as SalvageLossType[]).map((type) => (
+              <option key={type} value={type}>
+                {SALVAGE_LOSS_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <table className="assess-table">
+          <thead>
+            <tr>
+              <th style={{ width: 45 }}>Sl.</th>
+              <th className="desc-col">Item</th>
+              <th style={{ width: 80 }}>Qty</th>
+              <th style={{ width: 140 }}>Estimated Value</th>
+              <th style={{ width: 32 }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {salvage.items.map((item, i) => (
+              <tr key={i}>
+                <td className="center read-only-cell">{i + 1}</td>
+                <td className="desc-col">
+                  <input
+                    className="assess-input"
+                    value={item.description}
+                    onChange={(e) => updateItem(i, { description: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    className="assess-input num"
+                    value={item.quantity || ""}
+                    onChange={(e) => updateItem(i, { quantity: numberValue(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    className="assess-input num"
+                    value={item.estimated_value || ""}
+                    onChange={(e) => updateItem(i, { estimated_value: numberValue(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange({ ...salvage, items: salvage.items.filter((_, j) => j !== i) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            <tr className="totals-row">
+              <td colSpan={3} className="center">TOTAL ESTIMATED SALVAGE</td>
+              <td className="num">{salvageEstimateTotal(salvage).toFixed(2)}</td>
+              <td></td>
+            </tr>
+          </tbody>
+        </table>
+        <div className="p-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onChange({ ...salvage, items: [...salvage.items, { ...EMPTY_SALVAGE_ITEM }] })}
+          >
+            <Plus className="w-4 h-4 mr-2" /> Add Item
+          </Button>
+        </div>
+      </Card>
+
+      {/* Bids */}
+      <Card className="bg-white border-2 border-gray-300">
+        <div className="section-title">BIDS RECEIVED</div>
+        <table className="assess-table">
+          <thead>
+            <tr>
+              <th style={{ width: 70 }}>Accept</th>
+              <th>Bidder</th>
+              <th style={{ width: 180 }}>Contact</th>
+              <th style={{ width: 140 }}>Bid Date</th>
+              <th style={{ width: 140 }}>Amount</th>
+              <th style={{ width: 220 }}>Remarks</th>
+              <th style={{ width: 32 }}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {salvage.bids.length === 0 && (
+              <tr>
+                <td colSpan={7} className="center">No bids yet</td>
+              </tr>
+            )}
+            {salvage.bids.map((bid) => (
+              <tr key={bid.id} className={bid.id === accepted?.id ? "totals-row" : undefined}>
+                <td className="center">
+                  <input
+                    type="radio"
+                    name="salvage-accepted-bid"
+                    checked={bid.id === accepted?.id}
+                    onChange={() => onChange({ ...salvage, accepted_bid_id: bid.id })}
+                  />
+                </td>
+                <td>
+                  <div className="flex items-center gap-1">
+                    <input
+                      className="assess-input"
+                      value={bid.bidder_name}
+                      onChange={(e) => updateBid(bid.id, { bidder_name: e.target.value })}
+                    />
+                    {salvage.bids.length > 1 && bid.id === highest?.id && (
+                      <Badge variant="outline" className="shrink-0">Highest</Badge>
+                    )}
+                  </div>
+                </td>
+                <td>
+                  <input
+                    className="assess-input"
+                    value={bid.bidder_contact}
+                    onChange={(e) => updateBid(bid.id, { bidder_contact: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="date"
+                    className="assess-input"
+                    value={bid.bid_date}
+                    onChange={(e) => updateBid(bid.id, { bid_date: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    type="number"
+                    className="assess-input num"
+                    value={bid.amount || ""}
+                    onChange={(e) => updateBid(bid.id, { amount: numberValue(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="assess-input"
+                    value={bid.remarks}
+                    onChange={(e) => updateBid(bid.id, { remarks: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <Button variant="ghost" size="icon" onClick={() => removeBid(bid.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="p-2 flex items-center justify-between">
+          <Button size="sm" variant="outline" onClick={() => onChange({ ...salvage, bids: [...salvage.bids, newSalvageBid()] })}>
+            <Plus className="w-4 h-4 mr-2" /> Add Bid
+          </Button>
+          {accepted && highest && accepted.id !== highest.id && (
+            <span className="text-xs text-amber-700">
+              The accepted bid is not the highest; note the reason in its remarks.
+            </span>
+          )}
+          {accepted && (
+            <Button size="sm" variant="ghost" onClick={() => onChange({ ...salvage, accepted_bid_id: null })}>
+              Clear accepted bid
+            </Button>
+          )}
+        </div>
+      </Card>
+
+      {/* Sale */}
+      <Card className="bg-white border-2 border-gray-300">
+        <div className="section-title">SALE OF SALVAGE</div>
+        <table className="assess-table">
+          <tbody>
+            <tr>
+              <td className="center" style={{ width: 200 }}>Buyer</td>
+              <td className="read-only-cell">{accepted ? accepted.bidder_name : "Accept a bid above"}</td>
+              <td className="center" style={{ width: 200 }}>Accepted Bid</td>
+              <td className="num read-only-cell" style={{ width: 160 }}>
+                {accepted ? (Number(accepted.amount) || 0).toFixed(2) : ""}
+              </td>
+            </tr>
+            <tr>
+              <td className="center">Sale Date</td>
+              <td>
+                <input
+                  type="date"
+                  className="assess-input"
+                  value={salvage.sale.sale_date}
+                  onChange={(e) => updateSale({ sale_date: e.target.value })}
+                />
+              </td>
+              <td className="center">Amount Received</td>
+              <td>
+                <input
+                  type="number"
+                  className="assess-input num"
+                  value={salvage.sale.amount_received || ""}
+                  onChange={(e) => updateSale({ amount_received: numberValue(e.target.value) })}
+                />
+              </td>
+            </tr>
+            <tr>
+              <td className="center">Receipt No. / UTR</td>
+              <td colSpan={3}>
+                <input
+                  className="assess-input"
+                  value={salvage.sale.receipt_no}
+                  onChange={(e) => updateSale({ receipt_no: e.target.value })}
+                />
+              </td>
+            </tr>
+            <tr>
+              <td className="center">Documents</td>
+              <td colSpan={3}>
+                <div className="flex flex-wrap items-center gap-2 py-1">
+                  {salvage.sale.documents.map((doc, i) => (
+                    <span key={`${doc.url}-${i}`} className="flex items-center gap-1 border rounded px-2 py-0.5">
+                      <FileText className="w-3 h-3" />
+                      <a href={doc.url} target="_blank" rel="noreferrer" className="underline">
+                        {doc.name}
+                      </a>
+                      <button
+                        type="button"
+                        className="text-destructive ml-1"
+                        onClick={() =>
+                          updateSale({ documents: salvage.sale.documents.filter((_, j) => j !== i) })
+                        }
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => handleUpload(e.target.files)}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+                    {uploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                    Sale letter / receipt
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </Card>
+    </>
+  );
+};
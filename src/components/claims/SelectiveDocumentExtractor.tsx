@@ -5,9 +5,23 @@ import { Input } from "@/components/ui/input";
 import { Upload, CheckCircle2, FileText } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { BackendServiceError, blobToBase64, getBackendClient } from "@/lib/backendClient";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Tables } from "@/integrations/supabase/types";
 import { useQuery } from "@tanstack/react-query";
+import { useExtractionProfiles } from "@/hooks/useExtractionProfiles";
+import { applyExtractionProfile, keyedByFormField } from "@/lib/extractionProfiles";
+import { DocumentRules } from "@/lib/documentRules";
+import {
+  ExtractionProposal,
+  FieldSources,
+  buildExtractionProposals,
+  tagFieldSources,
+} from "@/lib/extractionReview";
+import { ExtractionReviewDialog } from "./ExtractionReviewDialog";
+import { useExtractionJobs, useRetryExtractionJob } from "@/hooks/useExtractionJobs";
+import { latestJobByDocument } from "@/lib/extractionJobs";
+import { ExtractionJobBadge } from "../documents/ExtractionJobBadge";
 
 type ClaimDocumentRow = Tables<'claim_documents'>;
 type VASDocumentRow = Tables<'vas_documents'>;
@@ -25,7 +39,8 @@ interface SelectiveDocumentExtractorProps {
   documentTitle: string; // Display title
   policyTypeId: string; // ADD THIS - to fetch parsing config
   documentDescription: string; // Description text
-  onDataExtracted: (data: Record<string, any>) => void; // Callback when data is extracted
+  onDataExtracted: (data: Record<string, any>, fieldSources: FieldSources) => void; // Callback with the fields accepted in review
+  currentData?: Record<string, unknown> | null; // form_data the extracted values are reviewed against
   entityType?: 'claim' | 'vas' | 'client';
 }
 
@@ -36,6 +51,7 @@ export const SelectiveDocumentExtractor = ({
   documentDescription,
   policyTypeId,
   onDataExtracted,
+  currentData,
   entityType = 'claim',  
 }: SelectiveDocumentExtractorProps) => {
   
@@ -57,6 +73,8 @@ export const SelectiveDocumentExtractor = ({
   const [isUploading, setIsUploading] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
   const [uploadedDocument, setUploadedDocument] = useState<ClaimDocumentRow | VASDocumentRow | ClientDocumentRow | null>(null);
+  const [reviewProposals, setReviewProposals] = useState<ExtractionProposal[] | null>(null);
+  const [reviewDocumentUrl, setReviewDocumentUrl] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const queryClient = useQueryClient(); 
 
@@ -104,7 +122,43 @@ export const SelectiveDocumentExtractor = ({
   });
   
 
+  // Extraction profile picked for this requirement (claims only; document rules live on policy_types)
+  const { data: documentRules } = useQuery<DocumentRules | null>({
+    queryKey: ["document-rules", policyTypeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("policy_types")
+        .select("document_rules")
+        .eq("id", policyTypeId)
+        .maybeSingle();
+      if (error) {
+        console.error('Error fetching document rules:', error);
+        return null;
+      }
+      return (data?.document_rules as DocumentRules) || null;
+    },
+    enabled: !!policyTypeId && entityType === 'claim',
+  });
+
+  const { data: extractionProfiles = [] } = useExtractionProfiles();
+
+  const extractionProfile = React.useMemo(() => {
+    const profileId = documentRules?.[documentLabel]?.extraction_profile_id;
+    return profileId ? extractionProfiles.find((p) => p.id === profileId) ?? null : null;
+  }, [documentRules, documentLabel, extractionProfiles]);
+
+  // Claim documents under a profiled requirement are extracted by a server-side job on upload
+  const serverExtraction = entityType === 'claim' && !!extractionProfile;
+  const { data: extractionJobs = [] } = useExtractionJobs(serverExtraction ? claimId : "");
+  const retryExtractionMutation = useRetryExtractionJob(claimId);
+  const extractionJob = uploadedDocument ? latestJobByDocument(extractionJobs)[uploadedDocument.id] : undefined;
+
   const fieldsToExtract: string[] = React.useMemo(() => {
+    if (extractionProfile) {
+      return extractionProfile.fields.map((f) => f.key);
+    }
+
+    // Without a profile, fall back to the policy type's two parsing lists
     if (!parsingConfig) {
       console.log(`📋 [${documentLabel}] No parsing config loaded yet`);
       return [];
@@ -118,7 +172,7 @@ export const SelectiveDocumentExtractor = ({
     console.log(`📋 [${documentLabel}] Fields to extract (${fields.length}):`, fields);
     
     return fields;
-  }, [parsingConfig, documentLabel]);
+  }, [extractionProfile, parsingConfig, documentLabel]);
 
 
   // Load existing document on mount
@@ -187,6 +241,7 @@ export const SelectiveDocumentExtractor = ({
     },
     onSuccess: (data: ClaimDocumentRow | VASDocumentRow | ClientDocumentRow) => {
       queryClient.invalidateQueries({ queryKey: ["claim-documents", claimId] });
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", claimId] });
       setUploadedDocument(data);
       toast.success(`${documentTitle} uploaded successfully!`);
     },
@@ -198,56 +253,50 @@ export const SelectiveDocumentExtractor = ({
 // Extract data mutation with timeout
   const extractDataMutation = useMutation({
     mutationFn: async (documentData: ClaimDocumentRow | VASDocumentRow | ClientDocumentRow) => {
-      const extractionPromise = (async () => {
-        const { data: fileData, error } = await supabase.storage
-          .from(bucketName)
-          .download(documentData.file_path);
-        if (error) throw new Error(`Failed to download file: ${error.message}`);
-
-        const arrayBuffer = await fileData.arrayBuffer();
-        const uint8Array = new Uint8Array(arrayBuffer);
-
-        let binary = '';
-        for (let i = 0; i < uint8Array.length; i++) {
-          binary += String.fromCharCode(uint8Array[i]);
-        }
-        const base64Data = btoa(binary);
+      const { data: fileData, error } = await supabase.storage
+        .from(bucketName)
+        .download(documentData.file_path);
+      if (error) throw new Error(`Failed to download file: ${error.message}`);
 
-         // ADD THESE LOGS
-        console.log(`🚀 [${documentLabel}] Sending to backend:`, {
-          fieldsCount: fieldsToExtract.length,
-          fields: fieldsToExtract,
-          documentType: documentLabel
-        });
+      const base64Data = await blobToBase64(fileData);
+
+      console.log(`🚀 [${documentLabel}] Sending to backend:`, {
+        fieldsCount: fieldsToExtract.length,
+        fields: fieldsToExtract,
+        documentType: documentLabel
+      });
 
-        // Call your backend API with the fields to extract
-        const response = await fetch('https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws/extract-selective-fields', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      try {
+        return await getBackendClient().extractSelectiveFields({
           pdfData: base64Data,
           claimId: claimId,
           fieldsToExtract: fieldsToExtract, // Send the specific fields
-          documentType: documentLabel // Optional: helps backend identify document type
-        })
-      });
-
-      if (!response.ok) throw new Error('Extraction failed');
-        return response.json();
-      })(); // Close extractionPromise
-
-      // Create timeout promise (180 seconds)
-      const timeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error(`Extraction timeout after 180 seconds. Try with fewer fields (currently ${fieldsToExtract.length} fields).`)), 180000)
-      );
-
-      // Race between extraction and timeout
-      return await Promise.race([extractionPromise, timeoutPromise]);
+          documentType: extractionProfile?.document_type || documentLabel // Optional: helps backend identify document type
+        });
+      } catch (err) {
+        if (err instanceof BackendServiceError && err.code === "timeout") {
+          throw new Error(`Extraction timeout after 180 seconds. Try with fewer fields (currently ${fieldsToExtract.length} fields).`);
+        }
+        throw err;
+      }
     },
-    onSuccess: (result) => {
+    onSuccess: async (result, documentData) => {
       if (result.success && result.extractedData) {
-        onDataExtracted(result.extractedData);
-        toast.success(`Successfully extracted ${Object.keys(result.extractedData).length} fields!`);
+        let values: Record<string, unknown> = result.extractedData;
+        let details = result.fieldDetails || {};
+        if (extractionProfile) {
+          const applied = applyExtractionProfile(extractionProfile, result.extractedData);
+          values = applied.values;
+          if (applied.uncoerced.length > 0) {
+            toast.warning(`Kept as text, please check: ${applied.uncoerced.join(", ")}`);
+          }
+          // Details come back keyed by extraction key; the review works on form fields
+          details = keyedByFormField(extractionProfile, details);
+        }
+
+        setReviewProposals(buildExtractionProposals(values, details, currentData || {}));
+        const { data: signed } = await supabase.storage.from(bucketName).createSignedUrl(documentData.file_path, 3600);
+        setReviewDocumentUrl(signed?.signedUrl ?? null);
       } else {
         toast.error("Extraction failed: " + (result.message || "Unknown error"));
       }
@@ -276,7 +325,7 @@ export const SelectiveDocumentExtractor = ({
 
     // Validate that fields are configured
     if (!fieldsToExtract || fieldsToExtract.length === 0) {
-      toast.error(`No fields configured for ${documentLabel}. Please configure fields in Admin Settings → Parsing Config.`);
+      toast.error(`No fields configured for ${documentLabel}. Pick an extraction profile or configure fields in Admin Settings → Parsing Config.`);
       return;
     }
 
@@ -291,6 +340,18 @@ export const SelectiveDocumentExtractor = ({
   };
 
 
+  const handleReviewConfirm = (accepted: ExtractionProposal[]) => {
+    if (!uploadedDocument) return;
+    const values = Object.fromEntries(accepted.map((p) => [p.field, p.proposed]));
+    const fieldSources = tagFieldSources(currentData, accepted, {
+      id: uploadedDocument.id,
+      label: documentLabel,
+      file_name: uploadedDocument.file_name,
+    });
+    onDataExtracted(values, fieldSources);
+    setReviewProposals(null);
+  };
+
   const handleReUpload = () => {
     setUploadedDocument(null);
     if (fileInputRef.current) {
@@ -308,6 +369,9 @@ export const SelectiveDocumentExtractor = ({
         <p className="text-sm text-muted-foreground">
           {documentDescription}
         </p>
+        {extractionProfile && (
+          <p className="text-xs text-muted-foreground">Extraction profile: {extractionProfile.name}</p>
+        )}
       </CardHeader>
       <CardContent>
         {!uploadedDocument ? (
@@ -341,6 +405,12 @@ export const SelectiveDocumentExtractor = ({
                 <span className="text-sm font-medium">{uploadedDocument.file_name}</span>
               </div>
               <p className="text-xs text-green-600 mt-1">Uploaded successfully</p>
+              {extractionJob && (
+                <div className="mt-2 space-y-1">
+                  <ExtractionJobBadge job={extractionJob} onRetry={(jobId) => retryExtractionMutation.mutate(jobId)} />
+                  <p className="text-xs text-muted-foreground">Results are reviewed under Extracted Data.</p>
+                </div>
+              )}
             </div>
 
             <div className="flex space-x-2">
@@ -352,18 +422,20 @@ export const SelectiveDocumentExtractor = ({
               >
                 Re-upload
               </Button>
-              <Button
-                onClick={handleExtractData}
-                disabled={isExtracting || !fieldsToExtract || fieldsToExtract.length === 0}
-                size="sm"
-                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
-                title={(!fieldsToExtract || fieldsToExtract.length === 0) ? "No fields configured. Go to Settings → Parsing Config" : ""}
-              >
-                {isExtracting 
-                  ? `Extracting fields...` 
-                  : `Extract Data fields`
-                }
-              </Button>
+              {!extractionJob && (
+                <Button
+                  onClick={handleExtractData}
+                  disabled={isExtracting || !fieldsToExtract || fieldsToExtract.length === 0}
+                  size="sm"
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white"
+                  title={(!fieldsToExtract || fieldsToExtract.length === 0) ? "No fields configured. Go to Settings → Parsing Config" : ""}
+                >
+                  {isExtracting 
+                    ? `Extracting fields...` 
+                    : `Extract Data fields`
+                  }
+                </Button>
+              )}
 
             </div>
 
@@ -394,7 +466,7 @@ export const SelectiveDocumentExtractor = ({
                       No fields configured for {documentLabel}
                     </p>
                     <p className="text-xs text-yellow-700 mt-1">
-                      Go to <strong>Settings → Parsing Config</strong> to configure which fields should be extracted.
+                      Pick an extraction profile for this document under <strong>Settings → Document Requirements</strong>, or configure fields in <strong>Settings → Parsing Config</strong>.
                     </p>
                   </div>
                 </div>
@@ -403,6 +475,17 @@ export const SelectiveDocumentExtractor = ({
           </div>
         )}
       </CardContent>
+
+      <ExtractionReviewDialog
+        open={!!reviewProposals}
+        onOpenChange={(open) => !open && setReviewProposals(null)}
+        documentLabel={documentTitle}
+        fileName={uploadedDocument?.file_name ?? ""}
+        documentUrl={reviewDocumentUrl}
+        proposals={reviewProposals ?? []}
+        fieldLabels={(currentData?.field_labels as Record<string, string> | undefined) ?? {}}
+        onConfirm={handleReviewConfirm}
+      />
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { format } from "date-fns";
+import { AlertTriangle, CheckCircle2, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { processQueue } from "@/lib/offlineQueue";
+
+const statusConfig = {
+  synced: { icon: CheckCircle2, label: "All changes saved", className: "text-green-700" },
+  offline: { icon: CloudOff, label: "Offline", className: "text-amber-600" },
+  syncing: { icon: RefreshCw, label: "Syncing", className: "text-blue-600" },
+  error: { icon: AlertTriangle, label: "Sync problem", className: "text-red-600" },
+};
+
+interface SyncStatusIndicatorProps {
+  recordId: string;
+}
+
+export const SyncStatusIndicator = ({ recordId }: SyncStatusIndicatorProps) => {
+  const { status, pending, lastError } = useOfflineSync(recordId);
+
+  // The global status can be "syncing" or "error" because of another record's changes
+  const effective = pending.length === 0 && status !== "offline" ? "synced" : status;
+  const config = statusConfig[effective];
+  const Icon = config.icon;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={`gap-2 ${config.className}`}>
+          <Icon className={`w-4 h-4 ${effective === "syncing" ? "animate-spin" : ""}`} />
+          <span className="text-xs font-medium">
+            {config.label}
+            {pending.length > 0 && ` · ${pending.length} pending`}
+          </span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-semibold">{config.label}</p>
+          <p className="text-xs text-muted-foreground">
+            {pending.length === 0
+              ? "Every edit to this claim has reached the server."
+              : "Edits are stored on this device and will be sent in order when the connection returns."}
+          </p>
+        </div>
+
+        {pending.length > 0 && (
+          <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+            {pending.map((change) => (
+              <li key={change.id} className="flex justify-between gap-2">
+                <span>{change.kind === "image" ? `Image upload (${change.sectionKey})` : "Form changes"}</span>
+                <span className="text-muted-foreground">{format(new Date(change.queuedAt), "HH:mm:ss")}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {lastError && effective !== "synced" && <p className="text-xs text-destructive break-words">{lastError}</p>}
+
+        {pending.length > 0 && (
+          <Button size="sm" variant="outline" className="w-full" onClick={() => processQueue()} disabled={status === "syncing"}>
+            <RefreshCw className="w-3 h-3 mr-2" />
+            Retry now
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ClipboardCheck } from "lucide-react";
+import {
+  useDocumentChecklist,
+  useResetRequirement,
+  useVerifyRequirement,
+  useWaiveRequirement,
+} from "@/hooks/useDocumentChecklist";
+import {
+  CHECKLIST_STATUS_LABELS,
+  ChecklistStatus,
+  isChecklistItemDone,
+  outstandingMandatory,
+} from "@/lib/documentChecklist";
+
+interface DocumentChecklistProps {
+  claimId: string;
+}
+
+const STATUS_TONES: Record<ChecklistStatus, string> = {
+  missing: "bg-red-100 text-red-700 border-red-200",
+  received: "bg-amber-100 text-amber-800 border-amber-200",
+  verified: "bg-green-100 text-green-700 border-green-200",
+  waived: "bg-slate-100 text-slate-700 border-slate-200",
+};
+
+/**
+ * Each required document of the claim with its review state. Mandatory requirements must be
+ * verified or waived before the claim is approved or a final report is issued.
+ */
+export const DocumentChecklist = ({ claimId }: DocumentChecklistProps) => {
+  const { data: items = [], isLoading } = useDocumentChecklist(claimId);
+  const verifyMutation = useVerifyRequirement(claimId);
+  const waiveMutation = useWaiveRequirement(claimId);
+  const resetMutation = useResetRequirement(claimId);
+  const [waiving, setWaiving] = useState<string | null>(null);
+  const [waiverReason, setWaiverReason] = useState("");
+
+  if (isLoading || items.length === 0) return null;
+
+  const done = items.filter(isChecklistItemDone).length;
+  const percent = Math.round((done / items.length) * 100);
+  const outstanding = outstandingMandatory(items);
+
+  const handleWaive = () => {
+    if (!waiving) return;
+    waiveMutation.mutate({ label: waiving, reason: waiverReason }, { onSuccess: () => setWaiving(null) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Document Checklist
+          </CardTitle>
+          <span className="text-sm text-muted-foreground">
+            {done} of {items.length} verified or waived
+          </span>
+        </div>
+        <Progress value={percent} className="h-2" />
+        {outstanding.length > 0 && (
+          <p className="text-sm text-amber-700">
+            Before approval or a final report: verify or waive {outstanding.join(", ")}.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requirement</TableHead>
+              <TableHead className="w-28">Status</TableHead>
+              <TableHead>Document</TableHead>
+              <TableHead>Reviewed</TableHead>
+              <TableHead className="w-40 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.requirement_label}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{item.requirement_label}</span>
+                    {item.mandatory && (
+                      <Badge variant="outline" className="text-xs">
+                        Mandatory
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={STATUS_TONES[item.status]}>
+                    {CHECKLIST_STATUS_LABELS[item.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {item.status === "waived" ? (
+                    <span className="text-muted-foreground">{item.waiver_reason}</span>
+                  ) : (
+                    item.document_name || <span className="text-muted-foreground">-</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {item.reviewed_at ? (
+                    <>
+                      <div>{item.reviewed_by_name || "Unknown"}</div>
+                      <div>{format(new Date(item.reviewed_at), "MMM dd, yyyy")}</div>
+                    </>
+                  ) : (
+                    "-"
+                  )}
+                </TableCell>
+                <TableCell className="text-right space-x-1">
+                  {item.status === "received" && item.document_id && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={verifyMutation.isPending}
+                      onClick={() =>
+                        verifyMutation.mutate({ label: item.requirement_label, documentId: item.document_id! })
+                      }
+                    >
+                      Verify
+                    </Button>
+                  )}
+                  {!isChecklistItemDone(item) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setWaiverReason("");
+                        setWaiving(item.requirement_label);
+                      }}
+                    >
+                      Waive
+                    </Button>
+                  )}
+                  {isChecklistItemDone(item) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={resetMutation.isPending}
+                      onClick={() => resetMutation.mutate(item.requirement_label)}
+                    >
+                      Undo
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!waiving} onOpenChange={(open) => !open && setWaiving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Waive {waiving}</DialogTitle>
+            <DialogDescription>
+              The claim can proceed without this document. The reason is kept on the checklist.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="waiver-reason">Reason *</Label>
+            <Textarea
+              id="waiver-reason"
+              rows={3}
+              value={waiverReason}
+              onChange={(e) => setWaiverReason(e.target.value)}
+              placeholder="e.g. Not applicable for a domestic transit"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaiving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleWaive} disabled={!waiverReason.trim() || waiveMutation.isPending}>
+              Waive
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BellRing, Pause, Pencil, Play, Plus, RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useDeleteReminderSchedule,
+  useDocumentReminders,
+  useReminderSchedule,
+  useReminderSettings,
+  useRestartReminderSchedule,
+  useSaveReminderSchedule,
+  useSetReminderScheduleStatus,
+} from "@/hooks/useDocumentReminders";
+import {
+  RECIPIENT_ROLE_LABELS,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_STATUS_LABELS,
+  ReminderChannel,
+  ReminderRecipient,
+  ReminderRecipientRole,
+  ReminderScheduleStatus,
+  formatCadence,
+  parseCadence,
+  suggestRecipients,
+} from "@/lib/documentReminders";
+
+interface DocumentRemindersPanelProps {
+  claimId: string;
+}
+
+interface ScheduleForm {
+  cadence: string;
+  channels: ReminderChannel[];
+  recipients: ReminderRecipient[];
+}
+
+const STATUS_TONES: Record<ReminderScheduleStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  paused: "bg-amber-100 text-amber-800",
+  complete: "bg-blue-100 text-blue-800",
+  ended: "bg-gray-100 text-gray-700",
+};
+
+const CHANNELS: ReminderChannel[] = ["email", "sms"];
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "MMM dd, yyyy") : "—");
+
+/**
+ * Automatic reminders to the insured and broker while required documents are missing.
+ * The document-reminders edge function sends them; this panel sets up the schedule and shows what went out.
+ */
+export const DocumentRemindersPanel = ({ claimId }: DocumentRemindersPanelProps) => {
+  const { data: schedule, isLoading } = useReminderSchedule(claimId);
+  const { data: reminders = [] } = useDocumentReminders(claimId);
+  const { data: settings } = useReminderSettings();
+  const saveMutation = useSaveReminderSchedule(claimId);
+  const statusMutation = useSetReminderScheduleStatus(claimId);
+  const restartMutation = useRestartReminderSchedule(claimId);
+  const deleteMutation = useDeleteReminderSchedule(claimId);
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  const [loadingRecipients, setLoadingRecipients] = useState(false);
+
+  if (isLoading) return null;
+
+  const openEditor = async () => {
+    if (schedule) {
+      setForm({
+        cadence: formatCadence(schedule.cadence_days),
+        channels: schedule.channels,
+        recipients: schedule.recipients,
+      });
+      return;
+    }
+    setLoadingRecipients(true);
+    try {
+      setForm({
+        cadence: formatCadence(settings?.default_cadence_days ?? [3, 7, 14]),
+        channels: ["email"],
+        recipients: await suggestRecipients(claimId),
+      });
+    } catch (error) {
+      console.error("[DocumentRemindersPanel] Failed to load recipients:", error);
+      toast.error("Failed to load claim contacts");
+    } finally {
+      setLoadingRecipients(false);
+    }
+  };
+
+  const update = (changes: Partial<ScheduleForm>) => setForm((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const updateRecipient = (index: number, changes: Partial<ReminderRecipient>) =>
+    setForm((prev) =>
+      prev ? { ...prev, recipients: prev.recipients.map((r, i) => (i === index ? { ...r, ...changes } : r)) } : prev
+    );
+
+  const toggleChannel = (channel: ReminderChannel, checked: boolean) => {
+    if (!form) return;
+    update({
+      channels: checked ? CHANNELS.filter((c) => c === channel || form.channels.includes(c)) : form.channels.filter((c) => c !== channel),
+    });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    let cadence: number[];
+    try {
+      cadence = parseCadence(form.cadence);
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+    saveMutation.mutate(
+      { cadence_days: cadence, channels: form.channels, recipients: form.recipients },
+      { onSuccess: () => setForm(null) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <BellRing className="w-5 h-5" />
+            Document Reminders
+            {schedule && (
+              <Badge variant="secondary" className={STATUS_TONES[schedule.status]}>
+                {REMINDER_STATUS_LABELS[schedule.status]}
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex gap-2">
+            {schedule?.status === "active" && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate({ scheduleId: schedule.id, status: "paused" })}
+              >
+                <Pause className="w-4 h-4 mr-1" />
+                Pause
+              </Button>
+            )}
+            {schedule?.status === "paused" && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate({ scheduleId: schedule.id, status: "active" })}
+              >
+                <Play className="w-4 h-4 mr-1" />
+                Resume
+              </Button>
+            )}
+            {(schedule?.status === "complete" || schedule?.status === "ended") && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={restartMutation.isPending}
+                onClick={() => restartMutation.mutate(schedule.id)}
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Restart
+              </Button>
+            )}
+            <Button size="sm" variant={schedule ? "outline" : "default"} onClick={openEditor} disabled={loadingRecipients}>
+              {schedule ? <Pencil className="w-4 h-4 mr-1" /> : <Plus className="w-4 h-4 mr-1" />}
+              {schedule ? "Edit" : "Set up reminders"}
+            </Button>
+            {schedule && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={deleteMutation.isPending}
+                onClick={() => confirm("Stop sending reminders for this claim?") && deleteMutation.mutate(schedule.id)}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          {schedule
+            ? `Days ${formatCadence(schedule.cadence_days)} by ${schedule.channels
+                .map((c) => REMINDER_CHANNEL_LABELS[c])
+                .join(" and ")}, started ${formatDate(schedule.started_at)}.` +
+              (schedule.status === "active" && schedule.next_send_at
+                ? ` Next reminder on ${formatDate(schedule.next_send_at)}.`
+                : "")
+            : "Email or text the insured and broker a fresh upload link listing the missing documents. Reminders stop once nothing is missing."}
+        </p>
+      </CardHeader>
+      {(schedule || reminders.length > 0) && (
+        <CardContent className="space-y-4">
+          {schedule && (
+            <div className="flex flex-wrap gap-2 text-sm">
+              {schedule.recipients.map((r, i) => (
+                <Badge key={i} variant="outline" className="font-normal">
+                  {RECIPIENT_ROLE_LABELS[r.role]}: {r.name}
+                  {[r.email, r.phone].filter(Boolean).length > 0 && ` (${[r.email, r.phone].filter(Boolean).join(", ")})`}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {reminders.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>#</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Documents</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reminders.map((reminder) => (
+                  <TableRow key={reminder.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(reminder.created_at), "MMM dd, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-sm">{reminder.reminder_number}</TableCell>
+                    <TableCell className="text-sm">
+                      <div>{reminder.recipient_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {REMINDER_CHANNEL_LABELS[reminder.channel as ReminderChannel] ?? reminder.channel}:{" "}
+                        {reminder.recipient}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{reminder.outstanding.join(", ")}</TableCell>
+                    <TableCell className="text-sm">
+                      {reminder.status === "failed" ? (
+                        <span className="text-destructive" title={reminder.error ?? undefined}>
+                          Failed
+                        </span>
+                      ) : reminder.transport === "log" ? (
+                        <span className="text-amber-700" title="No email or SMS transport is configured">
+                          Logged only
+                        </span>
+                      ) : (
+                        "Sent"
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{schedule ? "Edit reminders" : "Set up reminders"}</DialogTitle>
+            <DialogDescription>
+              Each reminder carries a new upload link and the documents still missing at the time it is sent.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reminder-cadence">Send on days</Label>
+                  <Input
+                    id="reminder-cadence"
+                    value={form.cadence}
+                    onChange={(e) => update({ cadence: e.target.value })}
+                    placeholder="3, 7, 14"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Days after {schedule ? formatDate(schedule.started_at) : "today"}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Channels</Label>
+                  <div className="flex gap-4 pt-2">
+                    {CHANNELS.map((channel) => (
+                      <label key={channel} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={form.channels.includes(channel)}
+                          onCheckedChange={(checked) => toggleChannel(channel, checked === true)}
+                        />
+                        {REMINDER_CHANNEL_LABELS[channel]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Recipients</Label>
+                {form.recipients.map((recipient, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={recipient.role}
+                      onValueChange={(value) => updateRecipient(index, { role: value as ReminderRecipientRole })}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(RECIPIENT_ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Name"
+                      value={recipient.name}
+                      onChange={(e) => updateRecipient(index, { name: e.target.value })}
+                    />
+                    <Input
+                      type="email"
+                      placeholder="Email"
+                      value={recipient.email ?? ""}
+                      onChange={(e) => updateRecipient(index, { email: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Mobile"
+                      value={recipient.phone ?? ""}
+                      onChange={(e) => updateRecipient(index, { phone: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => update({ recipients: form.recipients.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    update({ recipients: [...form.recipients, { role: "other", name: "", email: null, phone: null }] })
+                  }
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add recipient
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending || !form?.channels.length}>
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
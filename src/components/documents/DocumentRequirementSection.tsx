@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Upload, Eye, X, FileText, Trash2, Edit2} from "lucide-react";
 import { DocumentSelectorDialog } from "./DocumentSelectorDialog";
 import { Input } from "@/components/ui/input"
+import { ExtractionJob } from "@/lib/extractionJobs";
+import { ExtractionJobBadge } from "./ExtractionJobBadge";
 
 interface AssignedDocument {
   id: string;
@@ -25,6 +27,8 @@ interface DocumentRequirementSectionProps {
    isCustom?: boolean;
   onRemoveSection?: () => void; 
   onEditLabel?: (newLabel: string) => void; 
+  extractionJob?: ExtractionJob;
+  onRetryExtraction?: (jobId: string) => void;
 }
 
 export const DocumentRequirementSection = ({
@@ -39,6 +43,8 @@ export const DocumentRequirementSection = ({
   isCustom = false,
   onRemoveSection, 
   onEditLabel,
+  extractionJob,
+  onRetryExtraction,
 }: DocumentRequirementSectionProps) => {
   const [selectorOpen, setSelectorOpen] = useState(false);
   const [isEditingLabel, setIsEditingLabel] = useState(false); 
@@ -161,6 +167,7 @@ export const DocumentRequirementSection = ({
                   <p className="text-xs text-gray-500">
                     {(assignedDocument.file_size / 1024 / 1024).toFixed(2)} MB
                   </p>
+                  {extractionJob && <ExtractionJobBadge job={extractionJob} onRetry={onRetryExtraction} />}
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -44,8 +44,7 @@ export const DocumentSelectorDialog = ({
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      // Filter out placeholders from the selection dialog
-      return data?.filter(doc => doc.file_type !== 'placeholder') || [];
+      return data || [];
     },
     enabled: open,
   });
@@ -9,10 +9,16 @@ import { DocumentRequirementSection } from "./DocumentRequirementSection";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { generateBatchUploadToken } from "@/lib/uploadTokens";
+import { useCreateBatchUploadToken } from "@/hooks/useUploadTokens";
+import { ShareLinksPanel } from "./ShareLinksPanel";
+import { DocumentChecklist } from "./DocumentChecklist";
+import { DocumentRemindersPanel } from "./DocumentRemindersPanel";
 import { Upload as UploadIcon } from "lucide-react";
 import { uploadDocument } from "@/lib/uploadDocument";
+import { useExtractionJobs, useRetryExtractionJob } from "@/hooks/useExtractionJobs";
+import { latestJobByDocument } from "@/lib/extractionJobs";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Dialog,
   DialogContent,
@@ -29,6 +35,9 @@ export const DocumentsTab = ({ claimId }: DocumentsTabProps) => {
   const location = useLocation();
   const [uploadLinkDialogOpen, setUploadLinkDialogOpen] = useState(false);
   const [uploadLink, setUploadLink] = useState("");
+  const [linkLabel, setLinkLabel] = useState("");
+  const [linkExpiryDays, setLinkExpiryDays] = useState("7");
+  const [linkMaxUploads, setLinkMaxUploads] = useState("");
   const [copied, setCopied] = useState(false);
   const [assignedDocuments, setAssignedDocuments] = useState<Record<string, any>>({});
   const queryClient = useQueryClient();
@@ -55,6 +64,13 @@ export const DocumentsTab = ({ claimId }: DocumentsTabProps) => {
     : "claims";
     
   const reportIdField = documentTable === "claim_documents" ? "claim_id" : "report_id";
+  // Share links are backed by upload_tokens, which only references claims
+  const supportsShareLinks = documentTable === "claim_documents";
+  const createLinkMutation = useCreateBatchUploadToken(claimId);
+  // Extraction jobs are queued for claim documents filed under a profiled requirement
+  const { data: extractionJobs = [] } = useExtractionJobs(supportsShareLinks ? claimId : "");
+  const retryExtractionMutation = useRetryExtractionJob(claimId);
+  const jobsByDocument = latestJobByDocument(extractionJobs);
 
   // Fetch claim/report to get policy_type_id or service/company info
   const { data: claim } = useQuery({
@@ -128,17 +144,39 @@ useEffect(() => {
 }, [documents, claim]);
 
 
+  // Open the link options dialog
+  const handleOpenLinkDialog = () => {
+    setUploadLink("");
+    setLinkLabel("");
+    setLinkExpiryDays("7");
+    setLinkMaxUploads("");
+    setCopied(false);
+    setUploadLinkDialogOpen(true);
+  };
+
   // Generate upload link
   const handleGenerateLink = async () => {
-    try {
-      const tokenData = await generateBatchUploadToken(claimId, 168); // 7 days
+    const expiryDays = Number(linkExpiryDays);
+    const maxUploads = linkMaxUploads.trim() ? Number(linkMaxUploads) : null;
+
+    if (!expiryDays || expiryDays <= 0) {
+      toast.error("Expiry must be at least one day");
+      return;
+    }
+    if (maxUploads !== null && (!Number.isInteger(maxUploads) || maxUploads <= 0)) {
+      toast.error("Max uploads must be a positive whole number");
+      return;
+    }
+
+    const tokenData = await createLinkMutation.mutateAsync({
+      expiryHours: expiryDays * 24,
+      label: linkLabel.trim() || undefined,
+      maxUploads,
+    }).catch(() => null);
+
+    if (tokenData) {
       setUploadLink(tokenData.uploadUrl);
-      setUploadLinkDialogOpen(true);
-      setCopied(false);
       toast.success("Upload link generated!");
-    } catch (error) {
-      console.error("Error generating link:", error);
-      toast.error("Failed to generate upload link");
     }
   };
 
@@ -166,6 +204,8 @@ useEffect(() => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['uploaded-documents', claimId, documentTable] });
+      queryClient.invalidateQueries({ queryKey: ['document-checklist', claimId] });
+      queryClient.invalidateQueries({ queryKey: ['document-completeness'] });
       toast.success("Document deleted successfully");
     },
     onError: (error) => {
@@ -206,6 +246,9 @@ useEffect(() => {
   },
   onSuccess: () => {
     queryClient.invalidateQueries({ queryKey: ['uploaded-documents', claimId, documentTable] });
+    queryClient.invalidateQueries({ queryKey: ['extraction-jobs', claimId] });
+    queryClient.invalidateQueries({ queryKey: ['document-checklist', claimId] });
+    queryClient.invalidateQueries({ queryKey: ['document-completeness'] });
   },
   onError: (error) => {
     console.error("Assign error:", error);
@@ -268,6 +311,8 @@ useEffect(() => {
           return newAssigned;
         });
         queryClient.invalidateQueries({ queryKey: ['uploaded-documents', claimId, documentTable] });
+        queryClient.invalidateQueries({ queryKey: ['document-checklist', claimId] });
+        queryClient.invalidateQueries({ queryKey: ['document-completeness'] });
         toast.success("Document removed from section");
       } else {
         toast.error("Failed to remove document");
@@ -416,10 +461,12 @@ const handleRemoveCustomSection = async (sectionName: string) => {
               </div>
 
               {/* Generate Link Button */}
-              <Button onClick={handleGenerateLink} className="gap-2">
-                <Link2 className="w-4 h-4" />
-                Generate Upload Link
-              </Button>
+              {supportsShareLinks && (
+                <Button onClick={handleOpenLinkDialog} className="gap-2">
+                  <Link2 className="w-4 h-4" />
+                  Generate Upload Link
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -441,12 +488,6 @@ const handleRemoveCustomSection = async (sectionName: string) => {
           ) : (
             <UploadedDocumentsGrid
               documents={documents
-                .filter(doc => 
-                  doc.file_type !== 'placeholder' && 
-                  !doc.file_name.startsWith('BATCH_TOKEN_') &&
-                  !doc.file_name.startsWith('__BATCH_TOKEN_') &&
-                  !doc.file_name.startsWith('__TOKEN_')
-                )
                 .map(doc => ({
                   id: doc.id,
                   field_label: doc.field_label || undefined,
@@ -463,11 +504,22 @@ const handleRemoveCustomSection = async (sectionName: string) => {
                 }))} 
               onDelete={(id) => deleteMutation.mutate(id)}
               onView={handleViewDocument}
+              extractionJobs={jobsByDocument}
+              onRetryExtraction={(jobId) => retryExtractionMutation.mutate(jobId)}
             />
           )}
         </CardContent>
       </Card>
 
+      {/* Share Links */}
+      {supportsShareLinks && <ShareLinksPanel claimId={claimId} />}
+
+      {/* Document Checklist */}
+      {supportsShareLinks && <DocumentChecklist claimId={claimId} />}
+
+      {/* Document Reminders */}
+      {supportsShareLinks && <DocumentRemindersPanel claimId={claimId} />}
+
       {/* Document Requirements Section */}
       <Card>
         <CardHeader>
@@ -501,6 +553,8 @@ const handleRemoveCustomSection = async (sectionName: string) => {
                   onAssign={(doc) => handleAssignDocument(docLabel, doc)}
                   onRemove={() => handleRemoveDocument(docLabel)}
                   onView={handleViewDocument}
+                  extractionJob={assignedDocuments[docLabel] && jobsByDocument[assignedDocuments[docLabel].id]}
+                  onRetryExtraction={(jobId) => retryExtractionMutation.mutate(jobId)}
                   isCustom={false}
                 />
               ))}
@@ -517,6 +571,8 @@ const handleRemoveCustomSection = async (sectionName: string) => {
                   onAssign={(doc) => handleAssignDocument(sectionName, doc)}
                   onRemove={() => handleRemoveDocument(sectionName)}
                   onView={handleViewDocument}
+                  extractionJob={assignedDocuments[sectionName] && jobsByDocument[assignedDocuments[sectionName].id]}
+                  onRetryExtraction={(jobId) => retryExtractionMutation.mutate(jobId)}
                   isCustom={true}
                   onRemoveSection={() => handleRemoveCustomSection(sectionName)}
                 />
@@ -561,37 +617,92 @@ const handleRemoveCustomSection = async (sectionName: string) => {
       <Dialog open={uploadLinkDialogOpen} onOpenChange={setUploadLinkDialogOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Upload Link Generated</DialogTitle>
+            <DialogTitle>{uploadLink ? "Upload Link Generated" : "Generate Upload Link"}</DialogTitle>
             <DialogDescription>
-              Share this link with external users to upload documents. Link expires in 7 days.
+              {uploadLink
+                ? `Share this link with external users to upload documents. Link expires in ${linkExpiryDays} day(s). Copy it now - it cannot be shown again.`
+                : "Choose how long the link stays valid and how many files it may accept."}
             </DialogDescription>
           </DialogHeader>
-          <div className="space-y-4">
-            <div className="p-3 bg-gray-50 rounded-lg border">
-              <p className="text-sm font-mono break-all">{uploadLink}</p>
+          {!uploadLink ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="link-label">Label (optional)</Label>
+                <Input
+                  id="link-label"
+                  placeholder="e.g. Insured - repair invoices"
+                  value={linkLabel}
+                  onChange={(e) => setLinkLabel(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="link-expiry">Expires in (days)</Label>
+                  <Input
+                    id="link-expiry"
+                    type="number"
+                    min={1}
+                    value={linkExpiryDays}
+                    onChange={(e) => setLinkExpiryDays(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="link-max-uploads">Max uploads</Label>
+                  <Input
+                    id="link-max-uploads"
+                    type="number"
+                    min={1}
+                    placeholder="Unlimited"
+                    value={linkMaxUploads}
+                    onChange={(e) => setLinkMaxUploads(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleGenerateLink}
+                  className="flex-1 gap-2"
+                  disabled={createLinkMutation.isPending}
+                >
+                  <Link2 className="w-4 h-4" />
+                  {createLinkMutation.isPending ? "Generating..." : "Generate Link"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setUploadLinkDialogOpen(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
             </div>
-            <div className="flex gap-2">
-              <Button onClick={handleCopyLink} className="flex-1 gap-2">
-                {copied ? (
-                  <>
-                    <Check className="w-4 h-4" />
-                    Copied!
-                  </>
-                ) : (
-                  <>
-                    <Copy className="w-4 h-4" />
-                    Copy Link
-                  </>
-                )}
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => setUploadLinkDialogOpen(false)}
-              >
-                Close
-              </Button>
+          ) : (
+            <div className="space-y-4">
+              <div className="p-3 bg-gray-50 rounded-lg border">
+                <p className="text-sm font-mono break-all">{uploadLink}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleCopyLink} className="flex-1 gap-2">
+                  {copied ? (
+                    <>
+                      <Check className="w-4 h-4" />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="w-4 h-4" />
+                      Copy Link
+                    </>
+                  )}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setUploadLinkDialogOpen(false)}
+                >
+                  Close
+                </Button>
+              </div>
             </div>
-          </div>
+          )}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,57 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle2, Clock, Loader2, RotateCw } from "lucide-react";
+import { EXTRACTION_JOB_STATUS_LABELS, ExtractionJob, isExtractionJobStale } from "@/lib/extractionJobs";
+
+interface ExtractionJobBadgeProps {
+  job: ExtractionJob;
+  onRetry?: (jobId: string) => void;
+}
+
+const TONES = {
+  queued: "bg-gray-100 text-gray-700 border-gray-200",
+  running: "bg-blue-100 text-blue-700 border-blue-200",
+  succeeded: "bg-green-100 text-green-700 border-green-200",
+  failed: "bg-red-100 text-red-700 border-red-200",
+};
+
+/**
+ * Server-side extraction status for a document card
+ */
+export const ExtractionJobBadge = ({ job, onRetry }: ExtractionJobBadgeProps) => {
+  const stale = isExtractionJobStale(job);
+  const spinning = job.status === "running" && !stale;
+  const Icon = spinning
+    ? Loader2
+    : job.status === "succeeded"
+      ? CheckCircle2
+      : job.status === "failed" || stale
+        ? AlertCircle
+        : Clock;
+  const label = stale
+    ? "Extraction stalled"
+    : job.status === "succeeded" && !job.reviewed_at
+      ? "Ready to review"
+      : EXTRACTION_JOB_STATUS_LABELS[job.status];
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Badge variant="outline" className={`text-xs gap-1 ${TONES[job.status]}`} title={job.error || undefined}>
+        <Icon className={`w-3 h-3 ${spinning ? "animate-spin" : ""}`} />
+        {label}
+      </Badge>
+      {(job.status === "failed" || stale) && onRetry && (
+        <button
+          type="button"
+          className="text-xs text-blue-600 hover:underline inline-flex items-center gap-0.5"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRetry(job.id);
+          }}
+        >
+          <RotateCw className="w-3 h-3" />
+          Retry
+        </button>
+      )}
+    </span>
+  );
+};
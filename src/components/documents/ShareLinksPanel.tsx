@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Ban, CalendarPlus, Link2 } from "lucide-react";
+import {
+  UploadToken,
+  UploadTokenStatus,
+  getUploadTokenStatus,
+} from "@/lib/uploadTokens";
+import {
+  useExtendUploadToken,
+  useRevokeUploadToken,
+  useUploadTokens,
+} from "@/hooks/useUploadTokens";
+
+interface ShareLinksPanelProps {
+  claimId: string;
+}
+
+const statusStyles: Record<UploadTokenStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  exhausted: "bg-amber-100 text-amber-800",
+  expired: "bg-gray-100 text-gray-700",
+  revoked: "bg-red-100 text-red-800",
+};
+
+const statusLabels: Record<UploadTokenStatus, string> = {
+  active: "Active",
+  exhausted: "Limit reached",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+export const ShareLinksPanel = ({ claimId }: ShareLinksPanelProps) => {
+  const { data: tokens = [], isLoading } = useUploadTokens(claimId);
+  const revokeMutation = useRevokeUploadToken(claimId);
+  const extendMutation = useExtendUploadToken(claimId);
+  const [tokenToRevoke, setTokenToRevoke] = useState<UploadToken | null>(null);
+
+  const withStatus = tokens.map((token) => ({ token, status: getUploadTokenStatus(token) }));
+  const active = withStatus.filter((t) => t.status === "active");
+  // Links that ran out of uploads are as dead as expired ones from the sender's point of view
+  const expired = withStatus.filter((t) => t.status === "expired" || t.status === "exhausted");
+  const revoked = withStatus.filter((t) => t.status === "revoked");
+
+  const formatDate = (value: string | null) => {
+    if (!value) return "—";
+    try {
+      return format(new Date(value), "MMM dd, yyyy HH:mm");
+    } catch {
+      return "—";
+    }
+  };
+
+  const renderRows = (rows: typeof withStatus) => {
+    if (rows.length === 0) {
+      return <p className="text-center py-6 text-sm text-gray-500">No links here.</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Link</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Uploads</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead>Expires</TableHead>
+            <TableHead>Last used</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ token, status }) => (
+            <TableRow key={token.id}>
+              <TableCell>
+                <div className="font-medium">
+                  {token.label || (token.kind === "batch" ? "Batch Upload" : token.field_label)}
+                </div>
+                <div className="text-xs text-gray-500 font-mono">{token.token_prefix}…</div>
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline" className={statusStyles[status]}>
+                  {statusLabels[status]}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                {token.upload_count} / {token.max_uploads ?? "∞"}
+              </TableCell>
+              <TableCell className="text-sm">{formatDate(token.created_at)}</TableCell>
+              <TableCell className="text-sm">
+                {status === "revoked" ? formatDate(token.revoked_at) : formatDate(token.expires_at)}
+              </TableCell>
+              <TableCell className="text-sm">{formatDate(token.last_used_at)}</TableCell>
+              <TableCell className="text-right">
+                {status !== "revoked" && (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1"
+                      disabled={extendMutation.isPending}
+                      onClick={() => extendMutation.mutate({ tokenId: token.id, extraHours: 168 })}
+                    >
+                      <CalendarPlus className="w-4 h-4" />
+                      +7 days
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1 text-red-600"
+                      onClick={() => setTokenToRevoke(token)}
+                    >
+                      <Ban className="w-4 h-4" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Share links
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Upload links created for this claim. Links are shown by prefix only and cannot be copied again after creation.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center py-6 text-gray-500">Loading links...</p>
+        ) : (
+          <Tabs defaultValue="active">
+            <TabsList>
+              <TabsTrigger value="active">Active ({active.length})</TabsTrigger>
+              <TabsTrigger value="expired">Expired ({expired.length})</TabsTrigger>
+              <TabsTrigger value="revoked">Revoked ({revoked.length})</TabsTrigger>
+            </TabsList>
+            <TabsContent value="active">{renderRows(active)}</TabsContent>
+            <TabsContent value="expired">{renderRows(expired)}</TabsContent>
+            <TabsContent value="revoked">{renderRows(revoked)}</TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!tokenToRevoke} onOpenChange={(open) => !open && setTokenToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke upload link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone holding this link will no longer be able to upload documents. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (tokenToRevoke) revokeMutation.mutate(tokenToRevoke.id);
+                setTokenToRevoke(null);
+              }}
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
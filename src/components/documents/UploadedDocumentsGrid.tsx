@@ -13,6 +13,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { ExtractionJob } from "@/lib/extractionJobs";
+import { ExtractionJobBadge } from "./ExtractionJobBadge";
 
 interface UploadedDocument {
   id: string;
@@ -31,12 +33,17 @@ interface UploadedDocumentsGridProps {
   documents: UploadedDocument[];
   onDelete: (documentId: string) => void;
   onView: (documentUrl: string) => void;
+  /** Latest extraction job per document id (claims only) */
+  extractionJobs?: Record<string, ExtractionJob>;
+  onRetryExtraction?: (jobId: string) => void;
 }
 
 export const UploadedDocumentsGrid = ({
   documents,
   onDelete,
   onView,
+  extractionJobs = {},
+  onRetryExtraction,
 }: UploadedDocumentsGridProps) => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [selectedDoc, setSelectedDoc] = useState<UploadedDocument | null>(null);
@@ -148,6 +155,11 @@ export const UploadedDocumentsGrid = ({
                   <Calendar className="w-3 h-3 flex-shrink-0" />
                   <span>{getUploadDate(doc)}</span>
                 </div>
+
+                {/* Extraction */}
+                {extractionJobs[doc.id] && (
+                  <ExtractionJobBadge job={extractionJobs[doc.id]} onRetry={onRetryExtraction} />
+                )}
               </div>
             </CardContent>
           </Card>
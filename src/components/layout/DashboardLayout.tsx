@@ -12,7 +12,9 @@ import {
   Building2,
   Bell,
   LogOut,Star,
-  ChevronLeft,Image
+  ChevronLeft,Image,
+  Receipt,
+  Wallet
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -23,6 +25,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { Navbar } from "./Navbar";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 
 
 /**
@@ -60,6 +63,16 @@ const getMainNavItems = (isAdmin: boolean): NavItem[] => {
         href: "/clients/reports",
         icon: Building2,
       },
+      {
+        title: "Fee Register",
+        href: "/fee-register",
+        icon: Receipt,
+      },
+      {
+        title: "Receivables",
+        href: "/receivables",
+        icon: Wallet,
+      },
   ];
 
   if (isAdmin) {
@@ -153,6 +166,14 @@ const getPageTitle = (pathname: string): { title: string; subtitle: string } =>
       title: 'Claims Management',
       subtitle: 'Manage and track your insurance claims'
     },
+    '/fee-register': {
+      title: 'Fee-Bill Register',
+      subtitle: 'Invoices issued from finalized fee bills'
+    },
+    '/receivables': {
+      title: 'Receivables',
+      subtitle: 'Outstanding fees by insurer and age'
+    },
     '/analytics': {
       title: 'Analytics',
       subtitle: 'View insights and performance metrics'
@@ -228,6 +249,9 @@ export const DashboardLayout = () => {
   const { isAdmin, user } = useAuth();
   const [displayName, setDisplayName] = useState<string | null>(null);
 
+  // Keep replaying offline-queued claim edits on every page
+  useOfflineSync();
+
 useEffect(() => {
   if (user?.id) {
     supabase
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+
+export interface ClaimViewer {
+  user_id: string;
+  name: string;
+  opened_at: string;
+}
+
+/**
+ * Other users who currently have the claim open, via a Supabase Realtime presence channel
+ * @param claimId - Claim ID
+ */
+export const useClaimPresence = (claimId: string | undefined) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const userEmail = user?.email;
+  const [viewers, setViewers] = useState<ClaimViewer[]>([]);
+
+  useEffect(() => {
+    if (!claimId || !userId) return;
+
+    let cancelled = false;
+    const channel = supabase.channel(`claim-presence:${claimId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    channel.on("presence", { event: "sync" }, () => {
+      const state = channel.presenceState<ClaimViewer>();
+      // A user with several tabs open has several presences; show them once
+      const others = new Map<string, ClaimViewer>();
+      Object.entries(state).forEach(([key, presences]) => {
+        if (key === userId || !presences.length) return;
+        others.set(key, presences[0]);
+      });
+      setViewers([...others.values()]);
+    });
+
+    const join = async () => {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("display_name, first_name, last_name")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      const name =
+        profile?.display_name ||
+        [profile?.first_name, profile?.last_name].filter(Boolean).join(" ") ||
+        userEmail ||
+        "Unknown user";
+
+      if (cancelled) return;
+      channel.subscribe(async (status) => {
+        if (status === "SUBSCRIBED") {
+          console.log("[useClaimPresence] Joined presence for claim:", claimId);
+          await channel.track({ user_id: userId, name, opened_at: new Date().toISOString() });
+        }
+      });
+    };
+
+    join();
+
+    return () => {
+      cancelled = true;
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [claimId, userId, userEmail]);
+
+  return viewers;
+};
@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  StatusHistoryEntry,
+  StatusTransition,
+  claimStatusLabel,
+  listStatusHistory,
+  listStatusTransitions,
+  transitionClaimStatus,
+} from "@/lib/claimWorkflow";
+
+export const useStatusTransitions = () => {
+  return useQuery<StatusTransition[]>({
+    queryKey: ["claim-status-transitions"],
+    queryFn: listStatusTransitions,
+  });
+};
+
+export const useClaimStatusHistory = (claimId: string) => {
+  return useQuery<StatusHistoryEntry[]>({
+    queryKey: ["claim-status-history", claimId],
+    queryFn: async () => {
+      console.log("[useClaimStatusHistory] Fetching history for claim:", claimId);
+      return listStatusHistory(claimId);
+    },
+    enabled: !!claimId,
+  });
+};
+
+export const useTransitionClaimStatus = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ toStatus, reason }: { toStatus: string; reason?: string }) => {
+      console.log("[useTransitionClaimStatus] Moving claim", claimId, "to", toStatus);
+      return transitionClaimStatus(claimId, toStatus, reason);
+    },
+    onSuccess: (status) => {
+      queryClient.invalidateQueries({ queryKey: ["claims"] });
+      queryClient.invalidateQueries({ queryKey: ["claim"] });
+      queryClient.invalidateQueries({ queryKey: ["claim-status-history", claimId] });
+      toast.success(`Claim status updated to ${claimStatusLabel(status)}`);
+    },
+    onError: (error) => {
+      console.error("[useTransitionClaimStatus] Error:", error);
+      toast.error((error as Error).message);
+    },
+  });
+};
+
+export const useSaveStatusTransition = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (transition: Omit<StatusTransition, "id"> & { id?: string }) => {
+      const { id, ...values } = transition;
+      const { error } = id
+        ? await supabase.from("claim_status_transitions").update(values).eq("id", id)
+        : await supabase.from("claim_status_transitions").insert(values);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["claim-status-transitions"] });
+      toast.success("Workflow updated");
+    },
+    onError: (error) => {
+      console.error("[useSaveStatusTransition] Error:", error);
+      toast.error("Failed to save transition: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteStatusTransition = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("claim_status_transitions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["claim-status-transitions"] });
+      toast.success("Transition removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteStatusTransition] Error:", error);
+      toast.error("Failed to remove transition: " + (error as Error).message);
+    },
+  });
+};
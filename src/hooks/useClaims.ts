@@ -3,6 +3,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { Tables, TablesUpdate, TablesInsert } from "@/integrations/supabase/types";
+import { DocumentRules } from "@/lib/documentRules";
+import { FieldEditSource } from "@/lib/fieldAudit";
+import { rememberClaimSnapshot, updateClaimVersioned } from "@/lib/claimConcurrency";
+import { saveFormData } from "@/lib/offlineQueue";
 
 // Use Supabase generated types
 type ClaimUpdate = TablesUpdate<'claims'>;
@@ -39,6 +43,7 @@ export interface PolicyType {
   created_at: string;
   updated_at: string;
   required_documents?: string[]; 
+  document_rules?: DocumentRules;
   parsing_config?: {
     bill_of_entry?: string[];
     policy_document?: string[];
@@ -181,19 +186,13 @@ export const useUpdateClaim = () => {
     mutationFn: async ({
       id,
       updates,
+      source,
     }: {
       id: string;
       updates: ClaimUpdate;
+      source?: FieldEditSource;
     }) => {
-      const { data, error } = await supabase
-        .from("claims")
-        .update(updates)
-        .eq("id", id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
+      return updateClaimVersioned(id, updates, source);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["claims"] });
@@ -213,19 +212,20 @@ export const useUpdateClaimSilent = () => {
     mutationFn: async ({
       id,
       updates,
+      source,
     }: {
       id: string;
       updates: ClaimUpdate;
+      source?: FieldEditSource;
     }) => {
-      const { data, error } = await supabase
-        .from("claims")
-        .update(updates)
-        .eq("id", id)
-        .select()
-        .single();
-
-      if (error) throw error;
-      return data;
+      // Form-only edits (autosaves) go through the offline queue so they survive a dropped connection
+      const { form_data, ...rest } = updates;
+      if (form_data !== undefined && Object.keys(rest).length === 0) {
+        const { error } = await saveFormData("claims", id, form_data, source);
+        if (error) throw error;
+        return null;
+      }
+      return updateClaimVersioned(id, updates, source);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["claims"] });
@@ -257,6 +257,7 @@ export const useClaimById = (id: string) => {
           .single();
 
         if (error) throw error;
+        rememberClaimSnapshot(data.id, data.version, data.form_data);
         
         // Transform to match expected format
         const transformedData = {
@@ -285,6 +286,7 @@ export const useClaimById = (id: string) => {
           .single();
 
         if (error) throw error;
+        rememberClaimSnapshot(data.id, data.version, data.form_data);
         return data as Claim;
       }
     },
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  DepreciationRuleSet,
+  DepreciationRuleSetInput,
+  deleteDepreciationRuleSet,
+  listDepreciationRuleSets,
+  saveDepreciationRuleSet,
+} from "@/lib/depreciation";
+
+export const useDepreciationRuleSets = () => {
+  return useQuery<DepreciationRuleSet[]>({
+    queryKey: ["depreciation-rule-sets"],
+    queryFn: async () => {
+      console.log("[useDepreciationRuleSets] Fetching depreciation rule sets");
+      return listDepreciationRuleSets();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveDepreciationRuleSet = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ruleSet: DepreciationRuleSetInput) => saveDepreciationRuleSet(ruleSet),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["depreciation-rule-sets"] });
+      toast.success("Depreciation rules saved as a new version");
+    },
+    onError: (error) => {
+      console.error("[useSaveDepreciationRuleSet] Error:", error);
+      toast.error("Failed to save depreciation rules: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteDepreciationRuleSet = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDepreciationRuleSet(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["depreciation-rule-sets"] });
+      toast.success("Depreciation rule version removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteDepreciationRuleSet] Error:", error);
+      toast.error("Failed to remove depreciation rules: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  DisallowanceReason,
+  DisallowanceReasonInput,
+  deleteDisallowanceReason,
+  listDisallowanceReasons,
+  saveDisallowanceReason,
+} from "@/lib/assessmentVariance";
+
+export const useDisallowanceReasons = () => {
+  return useQuery<DisallowanceReason[]>({
+    queryKey: ["disallowance-reasons"],
+    queryFn: async () => {
+      console.log("[useDisallowanceReasons] Fetching disallowance reasons");
+      return listDisallowanceReasons();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveDisallowanceReason = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reason: DisallowanceReasonInput) => saveDisallowanceReason(reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["disallowance-reasons"] });
+      toast.success("Disallowance reason saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveDisallowanceReason] Error:", error);
+      toast.error("Failed to save disallowance reason: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteDisallowanceReason = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDisallowanceReason(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["disallowance-reasons"] });
+      toast.success("Disallowance reason removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteDisallowanceReason] Error:", error);
+      toast.error("Failed to remove disallowance reason: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  ChecklistItem,
+  DocumentCompleteness,
+  getDocumentChecklist,
+  getDocumentCompleteness,
+  resetRequirement,
+  verifyRequirement,
+  waiveRequirement,
+} from "@/lib/documentChecklist";
+
+export const useDocumentChecklist = (claimId: string, enabled = true) => {
+  return useQuery<ChecklistItem[]>({
+    queryKey: ["document-checklist", claimId],
+    queryFn: async () => {
+      console.log("[useDocumentChecklist] Fetching checklist for claim:", claimId);
+      return getDocumentChecklist(claimId);
+    },
+    enabled: enabled && !!claimId,
+  });
+};
+
+export const useDocumentCompleteness = (claimIds: string[]) => {
+  return useQuery<Record<string, DocumentCompleteness>>({
+    queryKey: ["document-completeness", claimIds],
+    queryFn: async () => {
+      console.log("[useDocumentCompleteness] Fetching completeness for", claimIds.length, "claims");
+      return getDocumentCompleteness(claimIds);
+    },
+    enabled: claimIds.length > 0,
+    staleTime: 60 * 1000,
+  });
+};
+
+export const useVerifyRequirement = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ label, documentId }: { label: string; documentId: string }) => verifyRequirement(claimId, label, documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["document-checklist", claimId] });
+      queryClient.invalidateQueries({ queryKey: ["document-completeness"] });
+      toast.success("Document verified");
+    },
+    onError: (error) => {
+      console.error("[useVerifyRequirement] Error:", error);
+      toast.error("Failed to verify document: " + (error as Error).message);
+    },
+  });
+};
+
+export const useWaiveRequirement = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ label, reason }: { label: string; reason: string }) => waiveRequirement(claimId, label, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["document-checklist", claimId] });
+      queryClient.invalidateQueries({ queryKey: ["document-completeness"] });
+      toast.success("Document waived");
+    },
+    onError: (error) => {
+      console.error("[useWaiveRequirement] Error:", error);
+      toast.error("Failed to waive document: " + (error as Error).message);
+    },
+  });
+};
+
+export const useResetRequirement = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (label: string) => resetRequirement(claimId, label),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["document-checklist", claimId] });
+      queryClient.invalidateQueries({ queryKey: ["document-completeness"] });
+      toast.success("Checklist item reset");
+    },
+    onError: (error) => {
+      console.error("[useResetRequirement] Error:", error);
+      toast.error("Failed to reset checklist item: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,131 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  DocumentReminder,
+  ReminderSchedule,
+  ReminderScheduleInput,
+  ReminderSettings,
+  ReminderSettingsInput,
+  deleteReminderSchedule,
+  getReminderSchedule,
+  getReminderSettings,
+  listDocumentReminders,
+  restartReminderSchedule,
+  saveReminderSchedule,
+  saveReminderSettings,
+  setReminderScheduleStatus,
+} from "@/lib/documentReminders";
+
+export const useReminderSettings = () => {
+  return useQuery<ReminderSettings | null>({
+    queryKey: ["reminder-settings"],
+    queryFn: async () => {
+      console.log("[useReminderSettings] Fetching reminder settings");
+      return getReminderSettings();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveReminderSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: ReminderSettingsInput) => saveReminderSettings(settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reminder-settings"] });
+      toast.success("Reminder settings saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveReminderSettings] Error:", error);
+      toast.error("Failed to save reminder settings: " + (error as Error).message);
+    },
+  });
+};
+
+export const useReminderSchedule = (claimId: string) => {
+  return useQuery<ReminderSchedule | null>({
+    queryKey: ["reminder-schedule", claimId],
+    queryFn: async () => {
+      console.log("[useReminderSchedule] Fetching reminder schedule for claim:", claimId);
+      return getReminderSchedule(claimId);
+    },
+    enabled: !!claimId,
+  });
+};
+
+export const useDocumentReminders = (claimId: string) => {
+  return useQuery<DocumentReminder[]>({
+    queryKey: ["document-reminders", claimId],
+    queryFn: async () => {
+      console.log("[useDocumentReminders] Fetching reminders for claim:", claimId);
+      return listDocumentReminders(claimId);
+    },
+    enabled: !!claimId,
+  });
+};
+
+export const useSaveReminderSchedule = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ReminderScheduleInput) => saveReminderSchedule(claimId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reminder-schedule", claimId] });
+      toast.success("Reminder schedule saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveReminderSchedule] Error:", error);
+      toast.error("Failed to save reminder schedule: " + (error as Error).message);
+    },
+  });
+};
+
+export const useSetReminderScheduleStatus = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ scheduleId, status }: { scheduleId: string; status: "active" | "paused" }) =>
+      setReminderScheduleStatus(scheduleId, status),
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["reminder-schedule", claimId] });
+      toast.success(status === "paused" ? "Reminders paused" : "Reminders resumed");
+    },
+    onError: (error) => {
+      console.error("[useSetReminderScheduleStatus] Error:", error);
+      toast.error("Failed to update reminders: " + (error as Error).message);
+    },
+  });
+};
+
+export const useRestartReminderSchedule = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scheduleId: string) => restartReminderSchedule(scheduleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reminder-schedule", claimId] });
+      toast.success("Reminders restarted from today");
+    },
+    onError: (error) => {
+      console.error("[useRestartReminderSchedule] Error:", error);
+      toast.error("Failed to restart reminders: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteReminderSchedule = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (scheduleId: string) => deleteReminderSchedule(scheduleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reminder-schedule", claimId] });
+      toast.success("Reminders stopped");
+    },
+    onError: (error) => {
+      console.error("[useDeleteReminderSchedule] Error:", error);
+      toast.error("Failed to stop reminders: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,83 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  ExtractionJob,
+  isExtractionJobActive,
+  isExtractionJobStale,
+  listExtractionJobs,
+  markExtractionJobReviewed,
+  retryExtractionJob,
+  runExtractionWorker,
+} from "@/lib/extractionJobs";
+
+// How often to check on jobs while any are queued or running
+const POLL_INTERVAL_MS = 5000;
+
+// Shared by every component watching jobs so one worker call runs at a time
+let workerStarting = false;
+
+/**
+ * A claim's extraction jobs, polled while any are in progress. Every fetch that still finds
+ * queued or stalled jobs wakes the worker again, which covers uploads made in the app and jobs
+ * put back on the queue after a failure.
+ */
+export const useExtractionJobs = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery<ExtractionJob[]>({
+    queryKey: ["extraction-jobs", claimId],
+    queryFn: async () => {
+      console.log("[useExtractionJobs] Fetching extraction jobs for claim:", claimId);
+      return listExtractionJobs(claimId);
+    },
+    enabled: !!claimId,
+    refetchInterval: (q) => (q.state.data?.some(isExtractionJobActive) ? POLL_INTERVAL_MS : false),
+  });
+
+  const needsWorker = !!query.data?.some((job) => job.status === "queued" || isExtractionJobStale(job));
+
+  useEffect(() => {
+    if (!needsWorker || workerStarting) return;
+    workerStarting = true;
+    runExtractionWorker()
+      .catch((error) => console.error("[useExtractionJobs] Failed to start worker:", error))
+      .finally(() => {
+        workerStarting = false;
+        queryClient.invalidateQueries({ queryKey: ["extraction-jobs", claimId] });
+      });
+  }, [needsWorker, query.dataUpdatedAt, claimId, queryClient]);
+
+  return query;
+};
+
+export const useRetryExtractionJob = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (jobId: string) => retryExtractionJob(jobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", claimId] });
+      toast.success("Extraction queued again");
+    },
+    onError: (error) => {
+      console.error("[useRetryExtractionJob] Error:", error);
+      toast.error("Failed to retry extraction: " + (error as Error).message);
+    },
+  });
+};
+
+export const useMarkExtractionJobReviewed = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (jobId: string) => markExtractionJobReviewed(jobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-jobs", claimId] });
+    },
+    onError: (error) => {
+      console.error("[useMarkExtractionJobReviewed] Error:", error);
+      toast.error("Failed to update review queue: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  ExtractionProfile,
+  ExtractionProfileInput,
+  deleteExtractionProfile,
+  listExtractionProfiles,
+  saveExtractionProfile,
+} from "@/lib/extractionProfiles";
+
+export const useExtractionProfiles = () => {
+  return useQuery<ExtractionProfile[]>({
+    queryKey: ["extraction-profiles"],
+    queryFn: async () => {
+      console.log("[useExtractionProfiles] Fetching extraction profiles");
+      return listExtractionProfiles();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveExtractionProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (profile: ExtractionProfileInput) => saveExtractionProfile(profile),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-profiles"] });
+      toast.success("Extraction profile saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveExtractionProfile] Error:", error);
+      toast.error("Failed to save extraction profile: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteExtractionProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteExtractionProfile(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["extraction-profiles"] });
+      toast.success("Extraction profile removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteExtractionProfile] Error:", error);
+      toast.error("Failed to remove extraction profile: " + (error as Error).message);
+    },
+  });
+};
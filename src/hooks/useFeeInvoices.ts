@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  FeeInvoice,
+  FeeInvoiceWithClaim,
+  InvoiceSeries,
+  InvoiceSeriesInput,
+  IssueFeeInvoiceParams,
+  getFeeInvoiceForClaim,
+  issueFeeInvoice,
+  listFeeInvoices,
+  listInvoiceSeries,
+  saveInvoiceSeries,
+} from "@/lib/feeInvoices";
+
+export const useInvoiceSeries = () => {
+  return useQuery<InvoiceSeries[]>({
+    queryKey: ["invoice-series"],
+    queryFn: async () => {
+      console.log("[useInvoiceSeries] Fetching invoice series");
+      return listInvoiceSeries();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveInvoiceSeries = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (series: InvoiceSeriesInput) => saveInvoiceSeries(series),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["invoice-series"] });
+      toast.success("Invoice series saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveInvoiceSeries] Error:", error);
+      toast.error("Failed to save invoice series: " + (error as Error).message);
+    },
+  });
+};
+
+export const useFeeInvoices = (financialYear?: string) => {
+  return useQuery<FeeInvoiceWithClaim[]>({
+    queryKey: ["fee-invoices", financialYear ?? "all"],
+    queryFn: async () => {
+      console.log("[useFeeInvoices] Fetching fee invoices for", financialYear ?? "all years");
+      return listFeeInvoices(financialYear);
+    },
+  });
+};
+
+export const useClaimFeeInvoice = (claimId: string) => {
+  return useQuery<FeeInvoice | null>({
+    queryKey: ["fee-invoices", "claim", claimId],
+    queryFn: () => getFeeInvoiceForClaim(claimId),
+    enabled: !!claimId,
+  });
+};
+
+export const useIssueFeeInvoice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: IssueFeeInvoiceParams) => issueFeeInvoice(params),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["fee-invoices"] });
+    },
+    // The fee bill reports the failure along with the rest of the finalize
+    onError: (error) => {
+      console.error("[useIssueFeeInvoice] Error:", error);
+    },
+  });
+};
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { FeePayment, FeePaymentInput, listFeePayments, recordFeePayment } from "@/lib/feePayments";
+
+export const useFeePayments = (invoiceId: string | null | undefined) => {
+  return useQuery<FeePayment[]>({
+    queryKey: ["fee-payments", invoiceId],
+    queryFn: async () => {
+      console.log("[useFeePayments] Fetching payments for invoice:", invoiceId);
+      return listFeePayments(invoiceId!);
+    },
+    enabled: !!invoiceId,
+  });
+};
+
+export const useRecordFeePayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (payment: FeePaymentInput) => recordFeePayment(payment),
+    onSuccess: (_, payment) => {
+      queryClient.invalidateQueries({ queryKey: ["fee-payments", payment.invoiceId] });
+      queryClient.invalidateQueries({ queryKey: ["fee-invoices"] });
+      toast.success("Payment recorded");
+    },
+    onError: (error) => {
+      console.error("[useRecordFeePayment] Error:", error);
+      toast.error("Failed to record payment: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteFeePayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payment: FeePayment) => {
+      const { error } = await supabase.from("fee_payments").delete().eq("id", payment.id);
+      if (error) throw error;
+    },
+    onSuccess: (_, payment) => {
+      queryClient.invalidateQueries({ queryKey: ["fee-payments", payment.invoice_id] });
+      queryClient.invalidateQueries({ queryKey: ["fee-invoices"] });
+      toast.success("Payment removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteFeePayment] Error:", error);
+      toast.error("Failed to remove payment: " + (error as Error).message);
+    },
+  });
+};
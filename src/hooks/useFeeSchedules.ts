@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { FeeSchedule, FeeScheduleInput, listFeeSchedules, saveFeeSchedule } from "@/lib/feeSchedule";
+
+export const useFeeSchedules = () => {
+  return useQuery<FeeSchedule[]>({
+    queryKey: ["fee-schedules"],
+    queryFn: async () => {
+      console.log("[useFeeSchedules] Fetching fee schedules");
+      return listFeeSchedules();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveFeeSchedule = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (schedule: FeeScheduleInput) => saveFeeSchedule(schedule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["fee-schedules"] });
+      toast.success("Fee schedule saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveFeeSchedule] Error:", error);
+      toast.error("Failed to save fee schedule: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteFeeSchedule = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("fee_schedules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["fee-schedules"] });
+      toast.success("Fee schedule removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteFeeSchedule] Error:", error);
+      toast.error("Failed to remove fee schedule: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,35 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { FieldAuditEntry, listFieldAudit, revertFieldChange } from "@/lib/fieldAudit";
+
+export const useClaimFieldAudit = (claimId: string, fieldKey?: string, enabled = true) => {
+  return useQuery<FieldAuditEntry[]>({
+    queryKey: ["claim-field-audit", claimId, fieldKey ?? null],
+    queryFn: async () => {
+      console.log("[useClaimFieldAudit] Fetching audit for claim:", claimId, fieldKey ?? "(all fields)");
+      return listFieldAudit(claimId, fieldKey);
+    },
+    enabled: !!claimId && enabled,
+  });
+};
+
+export const useRevertFieldChange = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entry: FieldAuditEntry) => {
+      console.log("[useRevertFieldChange] Reverting", entry.field_key, "on claim", entry.claim_id);
+      return revertFieldChange(entry);
+    },
+    onSuccess: (_data, entry) => {
+      queryClient.invalidateQueries({ queryKey: ["claims"] });
+      queryClient.invalidateQueries({ queryKey: ["claim"] });
+      queryClient.invalidateQueries({ queryKey: ["claim-field-audit", entry.claim_id] });
+      toast.success("Field reverted");
+    },
+    onError: (error) => {
+      console.error("[useRevertFieldChange] Error:", error);
+      toast.error("Failed to revert field: " + (error as Error).message);
+    },
+  });
+};
@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { GstSettings, GstSettingsInput, getGstSettings, saveGstSettings, validateGstin } from "@/lib/gst";
+
+export const useGstSettings = () => {
+  return useQuery<GstSettings | null>({
+    queryKey: ["gst-settings"],
+    queryFn: async () => {
+      console.log("[useGstSettings] Fetching GST settings");
+      return getGstSettings();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveGstSettings = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (settings: GstSettingsInput) => saveGstSettings(settings),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["gst-settings"] });
+      toast.success("GST settings saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveGstSettings] Error:", error);
+      toast.error("Failed to save GST settings: " + (error as Error).message);
+    },
+  });
+};
+
+export const useUpdateInsurerGstin = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, gstin }: { id: string; gstin: string }) => {
+      const value = gstin.trim().toUpperCase() || null;
+      if (value) {
+        const problem = validateGstin(value);
+        if (problem) throw new Error(problem);
+      }
+      const { error } = await supabase.from("insurers").update({ gstin: value }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["insurers"] });
+      toast.success("Insurer GSTIN saved");
+    },
+    onError: (error) => {
+      console.error("[useUpdateInsurerGstin] Error:", error);
+      toast.error("Failed to save insurer GSTIN: " + (error as Error).message);
+    },
+  });
+};
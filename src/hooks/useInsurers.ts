@@ -14,7 +14,7 @@ export const useInsurers = () => {
       try {
         const { data, error } = await supabase
           .from("insurers")
-          .select("id, name, is_active, created_at")
+          .select("id, name, is_active, created_at, gstin")
           .eq("is_active", true)
           .order("name");
 
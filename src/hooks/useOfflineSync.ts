@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import { SyncState, getSyncState, startOfflineSync, subscribeToSyncState } from "@/lib/offlineQueue";
+
+/**
+ * Offline queue status, optionally narrowed to one record. Mounting this also starts
+ * replaying queued changes.
+ * @param recordId - Only count queued changes for this claim or report
+ */
+export const useOfflineSync = (recordId?: string) => {
+  const [state, setState] = useState<SyncState>(getSyncState);
+
+  useEffect(() => {
+    startOfflineSync();
+    setState(getSyncState());
+    return subscribeToSyncState(setState);
+  }, []);
+
+  const pending = recordId ? state.pending.filter((c) => c.recordId === recordId) : state.pending;
+  return { ...state, pending };
+};
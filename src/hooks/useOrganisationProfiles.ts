@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  InsurerOffice,
+  InsurerOfficeInput,
+  OrganisationBankAccountInput,
+  OrganisationProfileInput,
+  OrganisationProfileWithAccounts,
+  deleteInsurerOffice,
+  deleteOrganisationBankAccount,
+  listInsurerOffices,
+  listOrganisationProfiles,
+  saveInsurerOffice,
+  saveOrganisationBankAccount,
+  saveOrganisationProfile,
+} from "@/lib/organisationProfiles";
+
+export const useOrganisationProfiles = () => {
+  return useQuery<OrganisationProfileWithAccounts[]>({
+    queryKey: ["organisation-profiles"],
+    queryFn: async () => {
+      console.log("[useOrganisationProfiles] Fetching organisation profiles");
+      return listOrganisationProfiles();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveOrganisationProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (profile: OrganisationProfileInput) => saveOrganisationProfile(profile),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organisation-profiles"] });
+      toast.success("Organisation profile saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveOrganisationProfile] Error:", error);
+      toast.error("Failed to save organisation profile: " + (error as Error).message);
+    },
+  });
+};
+
+export const useSaveOrganisationBankAccount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (account: OrganisationBankAccountInput) => saveOrganisationBankAccount(account),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organisation-profiles"] });
+      toast.success("Bank account saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveOrganisationBankAccount] Error:", error);
+      toast.error("Failed to save bank account: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteOrganisationBankAccount = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteOrganisationBankAccount(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organisation-profiles"] });
+      toast.success("Bank account removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteOrganisationBankAccount] Error:", error);
+      toast.error("Failed to remove bank account: " + (error as Error).message);
+    },
+  });
+};
+
+export const useInsurerOffices = () => {
+  return useQuery<InsurerOffice[]>({
+    queryKey: ["insurer-offices"],
+    queryFn: async () => {
+      console.log("[useInsurerOffices] Fetching insurer offices");
+      return listInsurerOffices();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useSaveInsurerOffice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (office: InsurerOfficeInput) => saveInsurerOffice(office),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["insurer-offices"] });
+      toast.success("Insurer office saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveInsurerOffice] Error:", error);
+      toast.error("Failed to save insurer office: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteInsurerOffice = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteInsurerOffice(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["insurer-offices"] });
+      toast.success("Insurer office removed");
+    },
+    onError: (error) => {
+      console.error("[useDeleteInsurerOffice] Error:", error);
+      toast.error("Failed to remove insurer office: " + (error as Error).message);
+    },
+  });
+};
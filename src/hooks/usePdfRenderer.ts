@@ -0,0 +1,65 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+import type { RenderPdfPayload } from "@/lib/backendClient";
+import { PdfRendererPreference, renderReportPdf } from "@/lib/reportPdf";
+
+export const usePdfRendererPreference = () => {
+  const { user } = useAuth();
+
+  return useQuery<PdfRendererPreference>({
+    queryKey: ["pdf-renderer", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("pdf_renderer")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data?.pdf_renderer as PdfRendererPreference) || "auto";
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useUpdatePdfRendererPreference = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (preference: PdfRendererPreference) => {
+      console.log("[useUpdatePdfRendererPreference] Setting renderer:", preference);
+      const { error } = await supabase
+        .from("profiles")
+        .update({ pdf_renderer: preference })
+        .eq("user_id", user!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["pdf-renderer", user?.id] });
+      toast.success("PDF preference saved");
+    },
+    onError: (error) => {
+      console.error("[useUpdatePdfRendererPreference] Error:", error);
+      toast.error("Failed to save PDF preference: " + (error as Error).message);
+    },
+  });
+};
+
+/**
+ * Render report payloads with the current user's renderer preference, telling the user
+ * when the browser fallback kicked in. Resolves to the PDF and the renderer that produced it.
+ */
+export const useRenderReportPdf = () => {
+  const { data: preference = "auto" } = usePdfRendererPreference();
+
+  return async (payload: RenderPdfPayload) => {
+    const result = await renderReportPdf(payload, preference);
+    if (result.renderer === "browser" && preference === "auto") {
+      toast.info("Report service unavailable, PDF was generated in the browser");
+    }
+    return result;
+  };
+};
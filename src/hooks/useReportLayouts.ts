@@ -0,0 +1,247 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { ReportLayout, parseReportLayout } from "@/lib/reportLayout";
+
+export interface ReportLayoutTemplate {
+  id: string;
+  policy_type_id: string;
+  name: string;
+  layout: ReportLayout;
+  is_default: boolean;
+  created_at: string;
+}
+
+/**
+ * Saved layout for a claim, or null when the claim has never been customised.
+ * Sections live in report_sections; the header toggle lives in claims.metadata.
+ */
+export const useClaimReportLayout = (claimId: string, enabled = true) => {
+  return useQuery<ReportLayout | null>({
+    queryKey: ["report-layout", claimId],
+    queryFn: async () => {
+      console.log("[useClaimReportLayout] Fetching layout for claim:", claimId);
+      const [{ data: rows, error }, { data: claim, error: claimError }] = await Promise.all([
+        supabase
+          .from("report_sections")
+          .select("section_key, section_name, section_order, is_visible, title_override")
+          .eq("claim_id", claimId)
+          .order("section_order", { ascending: true }),
+        supabase.from("claims").select("metadata").eq("id", claimId).maybeSingle(),
+      ]);
+
+      if (error) throw error;
+      if (claimError) throw claimError;
+      if (!rows?.length) return null;
+
+      const metadata = (claim?.metadata ?? {}) as Record<string, unknown>;
+      return {
+        include_header: metadata.report_include_header !== false,
+        sections: rows.map((row) => ({
+          key: row.section_key,
+          name: row.section_name,
+          order: row.section_order,
+          visible: row.is_visible !== false,
+          title: row.title_override,
+        })),
+      };
+    },
+    enabled: enabled && !!claimId,
+  });
+};
+
+const updateClaimMetadata = async (claimId: string, patch: Record<string, unknown>) => {
+  // Read-modify-write so other metadata keys (custom_document_sections, ...) survive
+  const { data, error } = await supabase.from("claims").select("metadata").eq("id", claimId).single();
+  if (error) throw error;
+
+  const metadata = { ...((data?.metadata ?? {}) as Record<string, unknown>), ...patch };
+  const { error: updateError } = await supabase
+    .from("claims")
+    .update({ metadata: metadata as Json })
+    .eq("id", claimId);
+  if (updateError) throw updateError;
+};
+
+export const useSaveClaimReportLayout = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (layout: ReportLayout) => {
+      console.log("[useSaveClaimReportLayout] Saving layout for claim:", claimId);
+      const { error } = await supabase.from("report_sections").upsert(
+        layout.sections.map((s) => ({
+          claim_id: claimId,
+          section_key: s.key,
+          section_name: s.name,
+          section_order: s.order,
+          is_visible: s.visible,
+          title_override: s.title || null,
+        })),
+        { onConflict: "claim_id,section_key" }
+      );
+      if (error) throw error;
+
+      await updateClaimMetadata(claimId, { report_include_header: layout.include_header });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-layout", claimId] });
+    },
+    onError: (error) => {
+      console.error("[useSaveClaimReportLayout] Error:", error);
+      toast.error("Failed to save report layout: " + (error as Error).message);
+    },
+  });
+};
+
+export const useResetClaimReportLayout = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      console.log("[useResetClaimReportLayout] Clearing layout for claim:", claimId);
+      const { error } = await supabase.from("report_sections").delete().eq("claim_id", claimId);
+      if (error) throw error;
+
+      await updateClaimMetadata(claimId, { report_include_header: null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-layout", claimId] });
+      toast.success("Report layout reset");
+    },
+    onError: (error) => {
+      console.error("[useResetClaimReportLayout] Error:", error);
+      toast.error("Failed to reset report layout: " + (error as Error).message);
+    },
+  });
+};
+
+const toTemplate = (row: {
+  id: string;
+  policy_type_id: string;
+  name: string;
+  layout: Json;
+  is_default: boolean;
+  created_at: string;
+}): ReportLayoutTemplate | null => {
+  const layout = parseReportLayout(row.layout);
+  return layout ? { ...row, layout } : null;
+};
+
+/**
+ * Layout templates for a policy type. When the policy type has no default of its own,
+ * the parent policy type's default is used, so sub-types inherit the house layout.
+ */
+export const useReportLayoutTemplates = (policyTypeId?: string, parentPolicyTypeId?: string | null) => {
+  return useQuery({
+    queryKey: ["report-layout-templates", policyTypeId, parentPolicyTypeId],
+    queryFn: async () => {
+      console.log("[useReportLayoutTemplates] Fetching templates for policy type:", policyTypeId);
+      const ids = [policyTypeId!, ...(parentPolicyTypeId ? [parentPolicyTypeId] : [])];
+      const { data, error } = await supabase
+        .from("report_layout_templates")
+        .select("id, policy_type_id, name, layout, is_default, created_at")
+        .in("policy_type_id", ids)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const all = (data || []).map(toTemplate).filter((t): t is ReportLayoutTemplate => !!t);
+      const templates = all.filter((t) => t.policy_type_id === policyTypeId);
+      const defaultTemplate =
+        templates.find((t) => t.is_default) ??
+        all.find((t) => t.policy_type_id === parentPolicyTypeId && t.is_default) ??
+        null;
+
+      return { templates, defaultTemplate };
+    },
+    enabled: !!policyTypeId,
+  });
+};
+
+export const useSaveReportLayoutTemplate = (policyTypeId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, layout, isDefault }: { name: string; layout: ReportLayout; isDefault: boolean }) => {
+      console.log("[useSaveReportLayoutTemplate] Saving template:", name);
+      const { data: userData } = await supabase.auth.getUser();
+
+      // Only one default per policy type (enforced by a partial unique index)
+      if (isDefault) {
+        const { error: unsetError } = await supabase
+          .from("report_layout_templates")
+          .update({ is_default: false })
+          .eq("policy_type_id", policyTypeId)
+          .eq("is_default", true);
+        if (unsetError) throw unsetError;
+      }
+
+      const { error } = await supabase.from("report_layout_templates").insert({
+        policy_type_id: policyTypeId,
+        name,
+        layout: layout as unknown as Json,
+        is_default: isDefault,
+        created_by: userData.user?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-layout-templates", policyTypeId] });
+      toast.success("Layout template saved");
+    },
+    onError: (error) => {
+      console.error("[useSaveReportLayoutTemplate] Error:", error);
+      toast.error("Failed to save layout template: " + (error as Error).message);
+    },
+  });
+};
+
+export const useSetDefaultReportLayoutTemplate = (policyTypeId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error: unsetError } = await supabase
+        .from("report_layout_templates")
+        .update({ is_default: false })
+        .eq("policy_type_id", policyTypeId)
+        .eq("is_default", true);
+      if (unsetError) throw unsetError;
+
+      const { error } = await supabase
+        .from("report_layout_templates")
+        .update({ is_default: true })
+        .eq("id", templateId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-layout-templates", policyTypeId] });
+      toast.success("Default layout updated");
+    },
+    onError: (error) => {
+      console.error("[useSetDefaultReportLayoutTemplate] Error:", error);
+      toast.error("Failed to set default layout: " + (error as Error).message);
+    },
+  });
+};
+
+export const useDeleteReportLayoutTemplate = (policyTypeId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error } = await supabase.from("report_layout_templates").delete().eq("id", templateId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-layout-templates", policyTypeId] });
+      toast.success("Layout template deleted");
+    },
+    onError: (error) => {
+      console.error("[useDeleteReportLayoutTemplate] Error:", error);
+      toast.error("Failed to delete layout template: " + (error as Error).message);
+    },
+  });
+};
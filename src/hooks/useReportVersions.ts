@@ -0,0 +1,47 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ReportLayout } from "@/lib/reportLayout";
+import {
+  ReportStage,
+  ReportVersion,
+  issueReportVersion,
+  listReportVersions,
+  reportStageLabel,
+} from "@/lib/reportVersions";
+
+export const useReportVersions = (claimId: string, enabled = true) => {
+  return useQuery<ReportVersion[]>({
+    queryKey: ["report-versions", claimId],
+    queryFn: async () => {
+      console.log("[useReportVersions] Fetching versions for claim:", claimId);
+      return listReportVersions(claimId);
+    },
+    enabled: enabled && !!claimId,
+  });
+};
+
+export const useIssueReport = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: {
+      stage: ReportStage;
+      formData: Record<string, unknown>;
+      layout: ReportLayout;
+      pdf: Blob;
+      renderer: string;
+      notes?: string;
+    }) => {
+      console.log("[useIssueReport] Issuing", options.stage, "report for claim:", claimId);
+      return issueReportVersion(claimId, options);
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["report-versions", claimId] });
+      toast.success(`${reportStageLabel(version.stage)} report issued as version ${version.version_number}`);
+    },
+    onError: (error) => {
+      console.error("[useIssueReport] Error:", error);
+      toast.error("Failed to issue report: " + (error as Error).message);
+    },
+  });
+};
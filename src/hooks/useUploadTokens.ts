@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  UploadToken,
+  extendUploadToken,
+  generateBatchUploadToken,
+  listUploadTokens,
+  revokeUploadToken,
+} from "@/lib/uploadTokens";
+
+export const useUploadTokens = (claimId: string) => {
+  return useQuery<UploadToken[]>({
+    queryKey: ["upload-tokens", claimId],
+    queryFn: async () => {
+      console.log("[useUploadTokens] Fetching tokens for claim:", claimId);
+      return listUploadTokens(claimId);
+    },
+    enabled: !!claimId,
+  });
+};
+
+export const useCreateBatchUploadToken = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (options: { expiryHours: number; label?: string; maxUploads?: number | null }) => {
+      console.log("[useCreateBatchUploadToken] Creating link:", options);
+      return generateBatchUploadToken(claimId, options.expiryHours, {
+        label: options.label,
+        maxUploads: options.maxUploads,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["upload-tokens", claimId] });
+    },
+    onError: (error) => {
+      console.error("[useCreateBatchUploadToken] Error:", error);
+      toast.error("Failed to generate upload link");
+    },
+  });
+};
+
+export const useRevokeUploadToken = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tokenId: string) => revokeUploadToken(tokenId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["upload-tokens", claimId] });
+      toast.success("Upload link revoked");
+    },
+    onError: (error) => {
+      console.error("[useRevokeUploadToken] Error:", error);
+      toast.error("Failed to revoke link: " + (error as Error).message);
+    },
+  });
+};
+
+export const useExtendUploadToken = (claimId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ tokenId, extraHours }: { tokenId: string; extraHours: number }) =>
+      extendUploadToken(tokenId, extraHours),
+    onSuccess: (expiresAt) => {
+      queryClient.invalidateQueries({ queryKey: ["upload-tokens", claimId] });
+      toast.success(`Link extended until ${expiresAt.toLocaleDateString()}`);
+    },
+    onError: (error) => {
+      console.error("[useExtendUploadToken] Error:", error);
+      toast.error("Failed to extend link: " + (error as Error).message);
+    },
+  });
+};
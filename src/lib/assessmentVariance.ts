@@ -0,0 +1,243 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import type { ReportComponent } from "@/lib/backendClient";
+
+/* =========================
+   Types
+========================= */
+
+export type DisallowanceReasonScope = "spare" | "labour" | "both";
+
+export type DisallowanceReason = Omit<Tables<"disallowance_reasons">, "applies_to"> & {
+  applies_to: DisallowanceReasonScope;
+};
+
+export type DisallowanceReasonInput = Pick<
+  DisallowanceReason,
+  "label" | "description" | "applies_to" | "sort_order" | "is_active"
+> & { id?: string };
+
+// The parts of form_data.assessment the variance report reads
+interface VarianceSpareRow {
+  description?: string;
+  estimated_amount?: number;
+  assessed_glass?: number;
+  assessed_plastic_rubber?: number;
+  assessed_fibreglass?: number;
+  assessed_others_metal?: number;
+  disallowance_reason?: string;
+}
+
+interface VarianceLabourRow {
+  description?: string;
+  estimated_amount?: number;
+  assessed_amount?: number;
+  disallowance_reason?: string;
+}
+
+export interface VarianceSource {
+  spare?: { new_spares?: VarianceSpareRow[]; supplementary?: VarianceSpareRow[] };
+  labour?: { main?: VarianceLabourRow[]; supplementary?: VarianceLabourRow[] };
+}
+
+export type VarianceTable = "new_spares" | "supplementary" | "labour" | "labour_supplementary";
+
+export const VARIANCE_TABLE_LABELS: Record<VarianceTable, string> = {
+  new_spares: "Spares",
+  supplementary: "Supplementary spares",
+  labour: "Labour",
+  labour_supplementary: "Supplementary labour",
+};
+
+export interface VarianceLine {
+  table: VarianceTable;
+  /** Position of the row in its table */
+  index: number;
+  description: string;
+  estimated: number;
+  assessed: number;
+  /** Estimated less assessed; negative when more was assessed than estimated */
+  disallowed: number;
+  /** Share of the estimate disallowed */
+  percent: number;
+  reason: string;
+}
+
+export interface VarianceReasonGroup {
+  reason: string;
+  lines: VarianceLine[];
+  estimated: number;
+  disallowed: number;
+}
+
+export const UNEXPLAINED_REASON = "Reason not given";
+
+/* =========================
+   Variance
+========================= */
+
+const r2 = (n: number) => Math.round((Number(n) || 0) * 100) / 100;
+
+const spareAssessed = (row: VarianceSpareRow) =>
+  (Number(row.assessed_glass) || 0) +
+  (Number(row.assessed_plastic_rubber) || 0) +
+  (Number(row.assessed_fibreglass) || 0) +
+  (Number(row.assessed_others_metal) || 0);
+
+const toLine = (table: VarianceTable, index: number, description: string, estimated: number, assessed: number, reason?: string): VarianceLine => {
+  const disallowed = r2(estimated - assessed);
+  return {
+    table,
+    index,
+    description,
+    estimated: r2(estimated),
+    assessed: r2(assessed),
+    disallowed,
+    percent: estimated > 0 ? r2((disallowed / estimated) * 100) : 0,
+    reason: reason?.trim() || "",
+  };
+};
+
+/**
+ * Every estimated line of the assessment with what was disallowed on it
+ * @param assessment - form_data.assessment
+ */
+export const buildVarianceLines = (assessment: VarianceSource | null | undefined): VarianceLine[] => {
+  if (!assessment) return [];
+  const spares = (table: VarianceTable, rows: VarianceSpareRow[] = []) =>
+    rows.map((row, i) =>
+      toLine(table, i, row.description || "", Number(row.estimated_amount) || 0, spareAssessed(row), row.disallowance_reason)
+    );
+  const labour = (table: VarianceTable, rows: VarianceLabourRow[] = []) =>
+    rows.map((row, i) =>
+      toLine(
+        table,
+        i,
+        row.description || "",
+        Number(row.estimated_amount) || 0,
+        Number(row.assessed_amount) || 0,
+        row.disallowance_reason
+      )
+    );
+
+  return [
+    ...spares("new_spares", assessment.spare?.new_spares),
+    ...spares("supplementary", assessment.spare?.supplementary),
+    ...labour("labour", assessment.labour?.main),
+    ...labour("labour_supplementary", assessment.labour?.supplementary),
+  ].filter((line) => line.estimated !== 0 || line.assessed !== 0);
+};
+
+/** Lines assessed below the estimate */
+export const disallowedLines = (lines: VarianceLine[]) => lines.filter((line) => line.disallowed > 0);
+
+/**
+ * Disallowed lines grouped by reason, largest cut first; lines without a reason are grouped last
+ * @param lines - Variance lines
+ */
+export const groupVarianceByReason = (lines: VarianceLine[]): VarianceReasonGroup[] => {
+  const groups = new Map<string, VarianceLine[]>();
+  disallowedLines(lines).forEach((line) => {
+    const reason = line.reason || UNEXPLAINED_REASON;
+    groups.set(reason, [...(groups.get(reason) || []), line]);
+  });
+  return [...groups.entries()]
+    .map(([reason, grouped]) => ({
+      reason,
+      lines: grouped,
+      estimated: r2(grouped.reduce((a, l) => a + l.estimated, 0)),
+      disallowed: r2(grouped.reduce((a, l) => a + l.disallowed, 0)),
+    }))
+    .sort((a, b) =>
+      a.reason === UNEXPLAINED_REASON ? 1 : b.reason === UNEXPLAINED_REASON ? -1 : b.disallowed - a.disallowed
+    );
+};
+
+const amount = (n: number) => n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Annexure blocks for the render.pdf payload: every disallowed line with its reason, then
+ * totals by reason. Empty when nothing was disallowed.
+ * @param assessment - form_data.assessment
+ */
+export const buildVarianceReportComponents = (assessment: VarianceSource | null | undefined): ReportComponent[] => {
+  const lines = buildVarianceLines(assessment);
+  const cuts = disallowedLines(lines);
+  if (cuts.length === 0) return [];
+
+  const estimated = r2(lines.reduce((a, l) => a + l.estimated, 0));
+  const assessed = r2(lines.reduce((a, l) => a + l.assessed, 0));
+  const disallowed = r2(cuts.reduce((a, l) => a + l.disallowed, 0));
+
+  return [
+    {
+      type: "para",
+      props: {
+        text:
+          `Against a total estimate of Rs. ${amount(estimated)}, Rs. ${amount(assessed)} has been assessed. ` +
+          `Rs. ${amount(disallowed)} has been disallowed on ${cuts.length} item${cuts.length === 1 ? "" : "s"} for the reasons below.`,
+      },
+    },
+    {
+      type: "table",
+      props: {
+        title: "Item-wise disallowance",
+        headers: ["Sl.", "Item", "Estimated", "Assessed", "Disallowed", "%", "Reason"],
+        rows: cuts.map((line, i) => [
+          String(i + 1),
+          `${line.description || "-"} (${VARIANCE_TABLE_LABELS[line.table]})`,
+          amount(line.estimated),
+          amount(line.assessed),
+          amount(line.disallowed),
+          `${line.percent}%`,
+          line.reason || UNEXPLAINED_REASON,
+        ]),
+      },
+    },
+    {
+      type: "table",
+      props: {
+        title: "Disallowance by reason",
+        headers: ["Reason", "Items", "Estimated", "Disallowed", "% of estimate"],
+        rows: groupVarianceByReason(lines).map((group) => [
+          group.reason,
+          String(group.lines.length),
+          amount(group.estimated),
+          amount(group.disallowed),
+          `${group.estimated > 0 ? r2((group.disallowed / group.estimated) * 100) : 0}%`,
+        ]),
+      },
+    },
+  ];
+};
+
+/* =========================
+   Reasons
+========================= */
+
+export const listDisallowanceReasons = async (): Promise<DisallowanceReason[]> => {
+  const { data, error } = await supabase
+    .from("disallowance_reasons")
+    .select("*")
+    .order("sort_order")
+    .order("label");
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, applies_to: row.applies_to as DisallowanceReasonScope }));
+};
+
+/**
+ * Create or update a disallowance reason
+ * @param reason - Reason values; include id to update
+ */
+export const saveDisallowanceReason = async (reason: DisallowanceReasonInput) => {
+  const { id, ...values } = reason;
+  const { error } = id
+    ? await supabase.from("disallowance_reasons").update(values).eq("id", id)
+    : await supabase.from("disallowance_reasons").insert(values);
+  if (error) throw error;
+};
+
+export const deleteDisallowanceReason = async (id: string) => {
+  const { error } = await supabase.from("disallowance_reasons").delete().eq("id", id);
+  if (error) throw error;
+};
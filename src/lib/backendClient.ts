@@ -0,0 +1,332 @@
+import { createMockBackendClient } from "./backendMock";
+
+/* =========================
+   Config
+========================= */
+
+export type BackendMode = "remote" | "mock";
+
+export interface BackendConfig {
+  baseUrl: string;
+  mode: BackendMode;
+  timeoutMs: number;
+  retries: number;
+}
+
+declare global {
+  interface Window {
+    // Optional runtime override, set by public/runtime-config.js before the app boots
+    __APP_CONFIG__?: {
+      backend?: Partial<BackendConfig>;
+    };
+  }
+}
+
+const DEFAULT_BASE_URL = "https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws";
+
+// Extraction runs an LLM over the whole document, so it gets far more time than the rest
+const EXTRACTION_TIMEOUT_MS = 180_000;
+
+/**
+ * Resolve backend settings. Runtime config wins over build-time env, which wins over defaults.
+ */
+export const getBackendConfig = (): BackendConfig => {
+  const runtime = (typeof window !== "undefined" && window.__APP_CONFIG__?.backend) || {};
+  const env = import.meta.env;
+
+  return {
+    baseUrl: (runtime.baseUrl || env.VITE_BACKEND_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    mode: runtime.mode || (env.VITE_BACKEND_MODE === "mock" ? "mock" : "remote"),
+    timeoutMs: runtime.timeoutMs ?? (Number(env.VITE_BACKEND_TIMEOUT_MS) || 60_000),
+    retries: runtime.retries ?? (env.VITE_BACKEND_RETRIES !== undefined ? Number(env.VITE_BACKEND_RETRIES) : 2),
+  };
+};
+
+/* =========================
+   Types
+========================= */
+
+export type ReportComponentType = "header" | "subheader" | "para" | "table" | "image-grid";
+
+/** One block of the render.pdf document: header/subheader/para take props.text, table takes headers/rows, image-grid takes rows of URLs */
+export interface ReportComponent {
+  type: ReportComponentType;
+  props: Record<string, unknown>;
+  style?: Record<string, string>;
+}
+
+export interface RenderPdfPayload {
+  company: string;
+  reportName: string;
+  assets: {
+    firstPageBackground: string;
+    otherPagesBackground: string;
+  };
+  components: ReportComponent[];
+}
+
+/** Where and how sure the extraction service is about one value */
+export interface ExtractedFieldDetail {
+  /** 0 to 1 */
+  confidence?: number;
+  /** 1-based page number */
+  page?: number;
+  /** Region on the page in PDF points from the top left: [x, y, width, height] */
+  bbox?: [number, number, number, number];
+  /** Text the value was read from */
+  sourceText?: string;
+}
+
+export interface ExtractionResponse {
+  success: boolean;
+  extractedData?: Record<string, unknown>;
+  /** Keyed like extractedData; older service versions leave it out */
+  fieldDetails?: Record<string, ExtractedFieldDetail>;
+  message?: string;
+}
+
+export interface ExtractBillDataRequest {
+  pdfData: string;
+  claimId: string;
+}
+
+export interface ExtractSelectiveFieldsRequest {
+  pdfData: string;
+  claimId: string;
+  fieldsToExtract: string[];
+  documentType?: string;
+}
+
+export interface ExtractLineItemsRequest {
+  pdfData: string;
+  claimId: string;
+  documentType?: string;
+}
+
+/** One priced line of a garage estimate or invoice */
+export interface ExtractedLineItem {
+  description: string;
+  /** "labour" for labour/repair charges; spares otherwise */
+  kind?: "spare" | "labour";
+  invoice_no?: string;
+  hsn_code?: string;
+  quantity?: number;
+  amount: number;
+  gst_percent?: number;
+}
+
+export interface LineItemExtractionResponse {
+  success: boolean;
+  lineItems?: ExtractedLineItem[];
+  message?: string;
+}
+
+export interface UploadImageResponse {
+  url: string;
+}
+
+export interface UploadDocResponse {
+  success: boolean;
+  url: string;
+  fileName: string;
+}
+
+export interface BackendClient {
+  renderPdf: (payload: RenderPdfPayload) => Promise<Blob>;
+  extractBillData: (request: ExtractBillDataRequest) => Promise<ExtractionResponse>;
+  extractSelectiveFields: (request: ExtractSelectiveFieldsRequest) => Promise<ExtractionResponse>;
+  extractLineItems: (request: ExtractLineItemsRequest) => Promise<LineItemExtractionResponse>;
+  uploadImage: (file: File) => Promise<UploadImageResponse>;
+  uploadDoc: (file: File, meta: { claimId: string; uploaderName?: string }) => Promise<UploadDocResponse>;
+}
+
+/* =========================
+   Errors
+========================= */
+
+export type BackendErrorCode = "timeout" | "network" | "http" | "invalid_response";
+
+export class BackendServiceError extends Error {
+  code: BackendErrorCode;
+  endpoint: string;
+  status?: number;
+  body?: string;
+
+  constructor(code: BackendErrorCode, endpoint: string, message: string, status?: number, body?: string) {
+    super(message);
+    this.name = "BackendServiceError";
+    this.code = code;
+    this.endpoint = endpoint;
+    this.status = status;
+    this.body = body;
+  }
+
+  /** Timeouts, network drops, 429 and 5xx are worth another attempt; other 4xx are not */
+  get retryable() {
+    if (this.code === "timeout" || this.code === "network") return true;
+    return this.code === "http" && !!this.status && (this.status === 429 || this.status >= 500);
+  }
+}
+
+/* =========================
+   HTTP client
+========================= */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface RequestOptions {
+  body: BodyInit;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  /** Overrides config.retries */
+  retries?: number;
+}
+
+export const createHttpBackendClient = (config: BackendConfig): BackendClient => {
+  const request = async (endpoint: string, options: RequestOptions): Promise<Response> => {
+    const url = `${config.baseUrl}/${endpoint}`;
+    const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+    const retries = options.retries ?? config.retries;
+    let lastError: BackendServiceError | null = null;
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        const delay = 500 * 2 ** (attempt - 1);
+        console.warn(`[backendClient] Retrying ${endpoint} in ${delay}ms (attempt ${attempt + 1})`);
+        await sleep(delay);
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: options.headers,
+          body: options.body,
+          signal: controller.signal,
+        });
+
+        if (res.ok) return res;
+
+        const text = await res.text().catch(() => "");
+        lastError = new BackendServiceError(
+          "http",
+          endpoint,
+          text || `${endpoint} failed with status ${res.status}`,
+          res.status,
+          text
+        );
+      } catch (err) {
+        lastError = controller.signal.aborted
+          ? new BackendServiceError("timeout", endpoint, `${endpoint} timed out after ${Math.round(timeoutMs / 1000)} seconds`)
+          : new BackendServiceError("network", endpoint, `Could not reach ${endpoint}: ${(err as Error).message}`);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      console.error(`[backendClient] ${endpoint} failed:`, lastError);
+      if (!lastError.retryable) break;
+    }
+
+    throw lastError!;
+  };
+
+  const postJson = async <T>(endpoint: string, payload: unknown, timeoutMs?: number): Promise<T> => {
+    const res = await request(endpoint, {
+      body: JSON.stringify(payload),
+      headers: { "Content-Type": "application/json" },
+      timeoutMs,
+    });
+    try {
+      return (await res.json()) as T;
+    } catch {
+      throw new BackendServiceError("invalid_response", endpoint, `${endpoint} returned invalid JSON`, res.status);
+    }
+  };
+
+  // Uploads are not idempotent: a timeout or 5xx may come after the file was stored, so they are never retried
+  const postForm = async <T>(endpoint: string, formData: FormData): Promise<T> => {
+    const res = await request(endpoint, { body: formData, retries: 0 });
+    try {
+      return (await res.json()) as T;
+    } catch {
+      throw new BackendServiceError("invalid_response", endpoint, `${endpoint} returned invalid JSON`, res.status);
+    }
+  };
+
+  return {
+    renderPdf: async (payload) => {
+      const res = await request("render.pdf", {
+        body: JSON.stringify(payload),
+        headers: { "Content-Type": "application/json" },
+      });
+      return res.blob();
+    },
+
+    extractBillData: (req) => postJson<ExtractionResponse>("extract-bill-data", req, EXTRACTION_TIMEOUT_MS),
+
+    extractSelectiveFields: (req) =>
+      postJson<ExtractionResponse>("extract-selective-fields", req, EXTRACTION_TIMEOUT_MS),
+
+    extractLineItems: (req) =>
+      postJson<LineItemExtractionResponse>("extract-line-items", req, EXTRACTION_TIMEOUT_MS),
+
+    uploadImage: async (file) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const result = await postForm<{ url?: string }>("upload-image", formData);
+      if (!result.url) {
+        throw new BackendServiceError("invalid_response", "upload-image", "upload-image did not return a URL");
+      }
+      return { url: result.url };
+    },
+
+    uploadDoc: async (file, meta) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("claimId", meta.claimId);
+      if (meta.uploaderName) formData.append("uploaderName", meta.uploaderName);
+
+      const result = await postForm<{ url?: string; fileUrl?: string; fileName?: string }>("upload-doc", formData);
+      const url = result.url || result.fileUrl;
+      if (!url) {
+        throw new BackendServiceError("invalid_response", "upload-doc", "upload-doc did not return a URL");
+      }
+      return { success: true, url, fileName: result.fileName || file.name };
+    },
+  };
+};
+
+/* =========================
+   Shared instance
+========================= */
+
+let client: BackendClient | null = null;
+
+/**
+ * The backend client for the current environment (mock or remote), created on first use
+ */
+export const getBackendClient = (): BackendClient => {
+  if (!client) {
+    const config = getBackendConfig();
+    console.log(`[backendClient] Using ${config.mode} backend`, config.mode === "remote" ? config.baseUrl : "");
+    client = config.mode === "mock" ? createMockBackendClient() : createHttpBackendClient(config);
+  }
+  return client;
+};
+
+/**
+ * Base64-encode a file or blob for the extraction endpoints
+ * @param blob - File contents
+ */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  // Convert in slices: one character at a time is slow on large PDFs, and the whole array at once overflows the call stack
+  const CHUNK = 0x8000;
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
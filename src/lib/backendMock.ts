@@ -0,0 +1,131 @@
+import type {
+  BackendClient,
+  ExtractedLineItem,
+  ExtractionResponse,
+  RenderPdfPayload,
+} from "./backendClient";
+
+/*
+ * In-browser stand-in for the document backend, enabled with VITE_BACKEND_MODE=mock
+ * (or window.__APP_CONFIG__.backend.mode = "mock"). Nothing leaves the browser:
+ * PDFs are a plain text rendering of the payload and uploads become data URLs.
+ * For a stub that behaves like the real HTTP service, run `npm run mock:backend`
+ * and point VITE_BACKEND_URL at it instead.
+ */
+
+const MOCK_LATENCY_MS = 300;
+
+const delay = () => new Promise((resolve) => setTimeout(resolve, MOCK_LATENCY_MS));
+
+const escapePdfText = (text: string) =>
+  text.replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+
+/**
+ * Build a minimal single-page PDF with one line of text per entry
+ * @param lines - Text lines, clipped to what fits on an A4 page
+ */
+export const buildPlainTextPdf = (lines: string[]): Blob => {
+  const visible = lines.slice(0, 60);
+  const stream = [
+    "BT",
+    "/F1 10 Tf",
+    "12 TL",
+    "40 800 Td",
+    ...visible.map((line) => `(${escapePdfText(line.slice(0, 110))}) '`),
+    "ET",
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  return new Blob([pdf], { type: "application/pdf" });
+};
+
+const describePayload = (payload: RenderPdfPayload): string[] => {
+  const lines = [`[MOCK] ${payload.reportName}`, payload.company, ""];
+  payload.components.forEach((c) => {
+    const props = c.props as { text?: string; headers?: string[]; rows?: unknown[][] };
+    if (props.text) lines.push(c.type === "para" ? props.text : props.text.toUpperCase());
+    if (c.type === "table" && Array.isArray(props.rows)) {
+      if (props.headers?.length) lines.push(props.headers.join(" | "));
+      props.rows.forEach((row) => lines.push(row.map((cell) => String(cell ?? "")).join(" | ")));
+    }
+    if (c.type === "image-grid") lines.push("[images]");
+  });
+  return lines;
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const mockExtraction = (fields: string[]): ExtractionResponse => ({
+  success: true,
+  extractedData: Object.fromEntries(fields.map((f) => [f, `MOCK ${f}`])),
+  fieldDetails: Object.fromEntries(
+    fields.map((f, i) => [
+      f,
+      { confidence: [0.95, 0.8, 0.55][i % 3], page: 1, bbox: [40, 80 + i * 24, 300, 18], sourceText: `MOCK ${f}` },
+    ])
+  ),
+  message: "Extracted by mock backend",
+});
+
+const MOCK_LINE_ITEMS: ExtractedLineItem[] = [
+  { description: "MOCK Front Bumper", hsn_code: "87081090", quantity: 1, amount: 4500, gst_percent: 28 },
+  { description: "MOCK Windshield Glass", hsn_code: "70071100", quantity: 1, amount: 6200, gst_percent: 28 },
+  { description: "MOCK Bonnet", hsn_code: "87082900", quantity: 1, amount: 8100, gst_percent: 28 },
+  { description: "MOCK Denting and painting", kind: "labour", amount: 3500, gst_percent: 18 },
+];
+
+export const createMockBackendClient = (): BackendClient => ({
+  renderPdf: async (payload) => {
+    await delay();
+    return buildPlainTextPdf(describePayload(payload));
+  },
+
+  extractBillData: async () => {
+    await delay();
+    return mockExtraction(["bill_of_entry_no", "bill_of_entry_date", "assessable_value", "importer_name"]);
+  },
+
+  extractSelectiveFields: async ({ fieldsToExtract }) => {
+    await delay();
+    return mockExtraction(fieldsToExtract);
+  },
+
+  extractLineItems: async () => {
+    await delay();
+    return { success: true, lineItems: MOCK_LINE_ITEMS, message: "Extracted by mock backend" };
+  },
+
+  uploadImage: async (file) => {
+    await delay();
+    return { url: await readAsDataUrl(file) };
+  },
+
+  uploadDoc: async (file) => {
+    await delay();
+    return { success: true, url: await readAsDataUrl(file), fileName: file.name };
+  },
+});
@@ -0,0 +1,258 @@
+import { jsPDF } from "jspdf";
+import type { RenderPdfPayload } from "./backendClient";
+
+/*
+ * In-browser renderer for the render.pdf payload. It draws the same components as the
+ * report service (header, subheader, para, table, image-grid) on A4 pages over the
+ * first-page and other-page backgrounds, so reports can still be produced when the
+ * service is down or the user is offline. Images that cannot be fetched are skipped.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 45;
+// The backgrounds carry a letterhead on the first page and a footer on every page
+const FIRST_PAGE_TOP = 120;
+const OTHER_PAGES_TOP = 60;
+const BOTTOM_MARGIN = 80;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+
+const CELL_PADDING = 4;
+const LINE_HEIGHT_FACTOR = 1.25;
+const IMAGE_GRID_MAX_HEIGHT = 200;
+
+interface LoadedImage {
+  dataUrl: string;
+  format: "PNG" | "JPEG";
+  width: number;
+  height: number;
+}
+
+// The standard PDF fonts only cover Latin-1
+const toPdfText = (value: unknown) =>
+  String(value ?? "")
+    .replace(/₹/g, "Rs.")
+    .replace(/[–—]/g, "-")
+    .replace(/[•]/g, "-")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\n\x20-\xff]/g, "?");
+
+const loadImage = async (url: string): Promise<LoadedImage | null> => {
+  if (!url) return null;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const blob = await res.blob();
+    const objectUrl = URL.createObjectURL(blob);
+
+    try {
+      const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const el = new Image();
+        el.onload = () => resolve(el);
+        el.onerror = () => reject(new Error("Could not decode image"));
+        el.src = objectUrl;
+      });
+
+      // Re-encode through a canvas so any browser-readable format (webp, gif, ...) ends up as PNG/JPEG
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext("2d")!.drawImage(img, 0, 0);
+      const format = blob.type === "image/png" ? "PNG" : "JPEG";
+      return {
+        dataUrl: canvas.toDataURL(format === "PNG" ? "image/png" : "image/jpeg", 0.85),
+        format,
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+      };
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  } catch (error) {
+    console.warn("[browserPdfRenderer] Skipping image", url, error);
+    return null;
+  }
+};
+
+const columnWidths = (count: number) => {
+  // Two-column tables are label/value pairs, so the label gets the narrower column
+  if (count === 2) return [CONTENT_WIDTH * 0.35, CONTENT_WIDTH * 0.65];
+  return Array.from({ length: count }, () => CONTENT_WIDTH / count);
+};
+
+/**
+ * Render a report payload to a PDF without calling the report service
+ * @param payload - The same payload sent to render.pdf
+ */
+export const renderPdfInBrowser = async (payload: RenderPdfPayload): Promise<Blob> => {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.setLineHeightFactor(LINE_HEIGHT_FACTOR);
+  doc.setProperties({ title: payload.reportName, author: payload.company });
+
+  // Fetch every image up front so layout below stays synchronous
+  const imageUrls = new Set<string>([payload.assets.firstPageBackground, payload.assets.otherPagesBackground]);
+  payload.components.forEach((c) => {
+    if (c.type !== "image-grid") return;
+    const rows = (c.props.rows as unknown[][] | undefined) ?? [];
+    rows.flat().forEach((url) => typeof url === "string" && imageUrls.add(url));
+  });
+  const images = new Map<string, LoadedImage | null>();
+  await Promise.all(
+    [...imageUrls].map(async (url) => {
+      images.set(url, await loadImage(url));
+    })
+  );
+
+  const drawBackground = (url: string) => {
+    const bg = images.get(url);
+    if (bg) doc.addImage(bg.dataUrl, bg.format, 0, 0, PAGE_WIDTH, PAGE_HEIGHT, undefined, "FAST");
+  };
+
+  drawBackground(payload.assets.firstPageBackground);
+  let y = FIRST_PAGE_TOP;
+
+  const newPage = () => {
+    doc.addPage();
+    drawBackground(payload.assets.otherPagesBackground);
+    y = OTHER_PAGES_TOP;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - BOTTOM_MARGIN) newPage();
+  };
+
+  const lineHeight = (fontSize: number) => fontSize * LINE_HEIGHT_FACTOR;
+
+  const writeLines = (text: string, fontSize: number, align: "left" | "center" = "left") => {
+    const lines: string[] = doc.splitTextToSize(toPdfText(text), CONTENT_WIDTH);
+    lines.forEach((line) => {
+      ensureSpace(lineHeight(fontSize));
+      const x = align === "center" ? PAGE_WIDTH / 2 : MARGIN_X;
+      doc.text(line, x, y + fontSize, { align });
+      y += lineHeight(fontSize);
+    });
+  };
+
+  const drawTable = (headers: unknown[], rows: unknown[][], title?: string) => {
+    const colCount = Math.max(headers.length, ...rows.map((r) => r.length), 1);
+    const widths = columnWidths(colCount);
+    const fontSize = 9;
+
+    if (title) {
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(10);
+      ensureSpace(lineHeight(10) + 20);
+      doc.text(toPdfText(title), MARGIN_X, y + 10);
+      y += lineHeight(10) + 2;
+    }
+
+    const drawRow = (cells: unknown[], isHeader: boolean) => {
+      doc.setFont("helvetica", isHeader ? "bold" : "normal");
+      doc.setFontSize(fontSize);
+      const wrapped = widths.map((w, i) => doc.splitTextToSize(toPdfText(cells[i]), w - CELL_PADDING * 2) as string[]);
+      const height = Math.max(...wrapped.map((l) => l.length), 1) * lineHeight(fontSize) + CELL_PADDING * 2;
+
+      ensureSpace(height);
+      let x = MARGIN_X;
+      widths.forEach((w, i) => {
+        if (isHeader) {
+          doc.setFillColor(232, 232, 232);
+          doc.rect(x, y, w, height, "FD");
+        } else {
+          doc.rect(x, y, w, height);
+        }
+        wrapped[i].forEach((line, li) => {
+          doc.text(line, x + CELL_PADDING, y + CELL_PADDING + fontSize + li * lineHeight(fontSize));
+        });
+        x += w;
+      });
+      y += height;
+    };
+
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.5);
+    if (headers.length > 0) drawRow(headers, true);
+    rows.forEach((row) => drawRow(row, false));
+    y += 10;
+  };
+
+  const drawImageGrid = (rows: unknown[][], title?: string) => {
+    if (title) {
+      doc.setFont("helvetica", "bold");
+      doc.setFontSize(10);
+      ensureSpace(lineHeight(10));
+      doc.text(toPdfText(title), MARGIN_X, y + 10);
+      y += lineHeight(10) + 2;
+    }
+
+    rows.forEach((row) => {
+      const loaded = row
+        .map((url) => (typeof url === "string" ? images.get(url) : null))
+        .filter((img): img is LoadedImage => !!img);
+      if (loaded.length === 0) return;
+
+      const gap = 10;
+      const cellWidth = (CONTENT_WIDTH - gap * (row.length - 1)) / row.length;
+      const sizes = loaded.map((img) => {
+        const scale = Math.min(cellWidth / img.width, IMAGE_GRID_MAX_HEIGHT / img.height);
+        return { width: img.width * scale, height: img.height * scale };
+      });
+      const rowHeight = Math.max(...sizes.map((s) => s.height));
+
+      ensureSpace(rowHeight);
+      loaded.forEach((img, i) => {
+        const x = MARGIN_X + i * (cellWidth + gap) + (cellWidth - sizes[i].width) / 2;
+        doc.addImage(img.dataUrl, img.format, x, y, sizes[i].width, sizes[i].height, undefined, "FAST");
+      });
+      y += rowHeight + gap;
+    });
+  };
+
+  for (const component of payload.components) {
+    const props = component.props as {
+      text?: string;
+      title?: string;
+      headers?: unknown[];
+      rows?: unknown[][];
+    };
+
+    switch (component.type) {
+      case "header":
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(20);
+        writeLines(props.text ?? "", 20, "center");
+        y += 12;
+        break;
+
+      case "subheader":
+        doc.setFont("helvetica", "bold");
+        doc.setFontSize(13);
+        // Keep a subheader together with at least a line of what follows
+        ensureSpace(lineHeight(13) + 40);
+        y += 6;
+        writeLines(props.text ?? "", 13);
+        doc.setLineWidth(0.75);
+        doc.line(MARGIN_X, y + 1, MARGIN_X + CONTENT_WIDTH, y + 1);
+        y += 8;
+        break;
+
+      case "para":
+        doc.setFont("helvetica", "normal");
+        doc.setFontSize(10);
+        writeLines(props.text ?? "", 10);
+        y += 8;
+        break;
+
+      case "table":
+        drawTable(props.headers ?? [], props.rows ?? [], props.title);
+        break;
+
+      case "image-grid":
+        drawImageGrid(props.rows ?? [], props.title);
+        break;
+    }
+  }
+
+  return doc.output("blob");
+};
@@ -0,0 +1,209 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, TablesUpdate } from "@/integrations/supabase/types";
+import { FieldEditSource } from "@/lib/fieldAudit";
+
+type ClaimUpdate = TablesUpdate<"claims">;
+type FormData = Record<string, Json | undefined>;
+
+/** Bookkeeping keys that are rewritten on every save; the local copy always wins */
+const METADATA_KEYS = new Set(["field_labels", "dynamic_sections_metadata", "custom_fields_metadata", "hidden_fields"]);
+
+const MAX_MERGE_ATTEMPTS = 3;
+
+export interface FieldConflict {
+  key: string;
+  base: Json | null;
+  mine: Json | null;
+  theirs: Json | null;
+}
+
+export type ConflictChoice = "mine" | "theirs";
+
+export class ClaimConflictError extends Error {
+  code = "conflict" as const;
+
+  constructor(
+    public claimId: string,
+    public conflicts: FieldConflict[],
+    /** Local changes merged onto the server copy, with the server value in conflicting fields */
+    public merged: FormData,
+    /** Server form_data and version the merge was made against */
+    public server: FormData,
+    public version: number,
+    public source: FieldEditSource
+  ) {
+    super(
+      `Someone else changed ${conflicts.length} field${conflicts.length === 1 ? "" : "s"} you edited. Choose which values to keep.`
+    );
+    this.name = "ClaimConflictError";
+  }
+}
+
+// Version and form_data of each claim as last loaded or saved by this tab
+const snapshots = new Map<string, { version: number; formData: FormData }>();
+
+/**
+ * Record the copy of a claim the user is editing. Saves are checked against this version.
+ * @param claimId - Claim ID
+ * @param version - claims.version that was loaded
+ * @param formData - claims.form_data that was loaded
+ */
+export const rememberClaimSnapshot = (claimId: string, version: number, formData: Json | null) => {
+  snapshots.set(claimId, { version, formData: (formData as FormData) || {} });
+};
+
+/**
+ * The copy of a claim this tab is editing, if it has loaded one
+ * @param claimId - Claim ID
+ */
+export const getClaimSnapshot = (claimId: string) => snapshots.get(claimId);
+
+// Empty strings and nulls both mean "no value", and jsonb does not keep key order
+const normalize = (value: Json | undefined): string => {
+  if (value === undefined || value === null || value === "") return "null";
+  if (Array.isArray(value)) return `[${value.map(normalize).join(",")}]`;
+  if (typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${normalize(value[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sameValue = (a: Json | undefined, b: Json | undefined) => normalize(a) === normalize(b);
+
+/**
+ * Three-way merge of form_data. Fields only one side changed are taken from that side;
+ * fields both sides changed to different values are returned as conflicts.
+ * @param base - form_data both sides started from
+ * @param mine - Local form_data
+ * @param theirs - Current server form_data
+ */
+export const mergeFormData = (base: FormData, mine: FormData, theirs: FormData) => {
+  const merged: FormData = { ...theirs };
+  const conflicts: FieldConflict[] = [];
+  const keys = new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]);
+
+  keys.forEach((key) => {
+    const iChanged = !sameValue(base[key], mine[key]);
+    if (!iChanged) return;
+
+    const theyChanged = !sameValue(base[key], theirs[key]);
+    if (!theyChanged || METADATA_KEYS.has(key) || sameValue(mine[key], theirs[key])) {
+      merged[key] = mine[key];
+      return;
+    }
+
+    conflicts.push({ key, base: base[key] ?? null, mine: mine[key] ?? null, theirs: theirs[key] ?? null });
+  });
+
+  return { merged, conflicts };
+};
+
+type ConflictListener = (conflict: ClaimConflictError) => void;
+const conflictListeners = new Set<ConflictListener>();
+
+/**
+ * Listen for save conflicts so they can be resolved in the UI
+ * @returns Unsubscribe function
+ */
+export const onClaimConflict = (listener: ConflictListener) => {
+  conflictListeners.add(listener);
+  return () => {
+    conflictListeners.delete(listener);
+  };
+};
+
+/**
+ * Update a claim, failing if it changed since this tab loaded it. Other users' changes
+ * to fields we did not touch are merged in and the save is retried; when both sides
+ * changed the same field a ClaimConflictError is thrown and announced to listeners.
+ * Claims this tab has not loaded (no snapshot) are updated directly.
+ * @param claimId - Claim ID
+ * @param updates - Columns to update
+ * @param source - Where form_data edits came from, for the field audit trail
+ * @param loaded - Version and form_data the update was made from, when that is not the copy
+ *   this tab is editing; the tab's snapshot is then left alone
+ */
+export const updateClaimVersioned = async (
+  claimId: string,
+  updates: ClaimUpdate,
+  source: FieldEditSource = "manual",
+  loaded?: { version: number; formData: Json | null }
+) => {
+  const snapshot = loaded
+    ? { version: loaded.version, formData: (loaded.formData as FormData) || {} }
+    : snapshots.get(claimId);
+  const tagged = updates.form_data !== undefined ? { ...updates, last_edit_source: source } : updates;
+  const remember = (version: number, formData: Json | null) => {
+    if (!loaded) rememberClaimSnapshot(claimId, version, formData);
+  };
+
+  if (!snapshot || updates.form_data === undefined) {
+    const { data, error } = await supabase.from("claims").update(tagged).eq("id", claimId).select().single();
+    if (error) throw error;
+    remember(data.version, data.form_data);
+    return data;
+  }
+
+  let base = snapshot.formData;
+  let version = snapshot.version;
+  let mine = (updates.form_data as FormData) || {};
+
+  for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+    const { data, error } = await supabase
+      .from("claims")
+      .update({ ...tagged, form_data: mine as Json })
+      .eq("id", claimId)
+      .eq("version", version)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) {
+      remember(data.version, data.form_data);
+      return data;
+    }
+
+    // Someone saved first; merge their copy with ours
+    const { data: current, error: fetchError } = await supabase
+      .from("claims")
+      .select("form_data, version")
+      .eq("id", claimId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const theirs = (current.form_data as FormData) || {};
+    const { merged, conflicts } = mergeFormData(base, mine, theirs);
+    console.log("[updateClaimVersioned] Version conflict on claim", claimId, "-", conflicts.length, "field conflict(s)");
+
+    if (conflicts.length > 0) {
+      const conflict = new ClaimConflictError(claimId, conflicts, merged, theirs, current.version, source);
+      conflictListeners.forEach((listener) => listener(conflict));
+      throw conflict;
+    }
+
+    base = theirs;
+    version = current.version;
+    mine = merged;
+  }
+
+  throw new Error("This claim is being changed by someone else right now. Please try again.");
+};
+
+/**
+ * Save the user's choices for each conflicting field
+ * @param conflict - The conflict being resolved
+ * @param choices - Which side to keep per field key; unlisted fields keep the server value
+ */
+export const resolveClaimConflict = (conflict: ClaimConflictError, choices: Record<string, ConflictChoice>) => {
+  const formData: FormData = { ...conflict.merged };
+  conflict.conflicts.forEach((c) => {
+    formData[c.key] = choices[c.key] === "mine" ? c.mine : c.theirs;
+  });
+
+  rememberClaimSnapshot(conflict.claimId, conflict.version, conflict.server as Json);
+  return updateClaimVersioned(conflict.claimId, { form_data: formData as Json }, conflict.source);
+};
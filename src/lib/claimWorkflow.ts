@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ClaimStatus = "pending" | "submitted" | "under_review" | "approved" | "rejected" | "paid";
+
+export const CLAIM_STATUSES: { value: ClaimStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "submitted", label: "Submitted" },
+  { value: "under_review", label: "Under Review" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+  { value: "paid", label: "Paid" },
+];
+
+export const claimStatusLabel = (status: string | null) =>
+  CLAIM_STATUSES.find((s) => s.value === status)?.label ?? status ?? "—";
+
+export type StatusGuard = "fee_bill_finalized" | "report_issued" | "final_report_issued" | "documents_complete";
+
+/** Guards are evaluated server-side by check_claim_status_guard() */
+export const STATUS_GUARDS: { value: StatusGuard; label: string }[] = [
+  { value: "fee_bill_finalized", label: "Fee bill finalized" },
+  { value: "report_issued", label: "Any report issued" },
+  { value: "final_report_issued", label: "Final report issued" },
+  { value: "documents_complete", label: "Mandatory documents verified or waived" },
+];
+
+export const WORKFLOW_ROLES = ["admin", "user"] as const;
+
+export interface StatusTransition {
+  id: string;
+  from_status: string;
+  to_status: string;
+  allowed_roles: string[];
+  requires_reason: boolean;
+  guard: StatusGuard | null;
+}
+
+export interface StatusHistoryEntry {
+  id: string;
+  claim_id: string;
+  from_status: string | null;
+  to_status: string;
+  reason: string | null;
+  changed_by: string | null;
+  changed_at: string;
+  changed_by_name?: string | null;
+}
+
+/**
+ * Transitions out of a status that the given role may take
+ * @param transitions - Configured transitions
+ * @param from - Current claim status
+ * @param role - Current user's role
+ */
+export const getAvailableTransitions = (
+  transitions: StatusTransition[],
+  from: string,
+  role: string | null
+): StatusTransition[] =>
+  transitions.filter((t) => t.from_status === from && t.allowed_roles.includes(role || "user"));
+
+export const listStatusTransitions = async (): Promise<StatusTransition[]> => {
+  const { data, error } = await supabase
+    .from("claim_status_transitions")
+    .select("id, from_status, to_status, allowed_roles, requires_reason, guard")
+    .order("from_status")
+    .order("to_status");
+
+  if (error) throw error;
+  return (data || []).map((row) => ({ ...row, guard: row.guard as StatusGuard | null }));
+};
+
+/**
+ * Status history for a claim, newest first, with the name of whoever made each change
+ * @param claimId - Claim ID
+ */
+export const listStatusHistory = async (claimId: string): Promise<StatusHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from("claim_status_history")
+    .select("*")
+    .eq("claim_id", claimId)
+    .order("changed_at", { ascending: false });
+
+  if (error) throw error;
+  if (!data?.length) return [];
+
+  const userIds = [...new Set(data.map((h) => h.changed_by).filter((id): id is string => !!id))];
+  const { data: profiles } = userIds.length
+    ? await supabase.from("profiles").select("user_id, display_name, first_name, last_name").in("user_id", userIds)
+    : { data: [] };
+
+  const names = new Map(
+    (profiles || []).map((p) => [
+      p.user_id,
+      p.display_name || [p.first_name, p.last_name].filter(Boolean).join(" ") || null,
+    ])
+  );
+
+  return data.map((h) => ({ ...h, changed_by_name: h.changed_by ? names.get(h.changed_by) ?? null : null }));
+};
+
+/**
+ * Move a claim to a new status. The server checks the transition, role, reason and guard
+ * and raises a readable error when any of them fail.
+ * @param claimId - Claim ID
+ * @param toStatus - Target status
+ * @param reason - Why the status changed (required by some transitions)
+ */
+export const transitionClaimStatus = async (claimId: string, toStatus: string, reason?: string) => {
+  const { data, error } = await supabase.rpc("transition_claim_status", {
+    _claim_id: claimId,
+    _to_status: toStatus,
+    _reason: reason || undefined,
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+};
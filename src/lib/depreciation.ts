@@ -0,0 +1,196 @@
+import { addMonths, differenceInMonths, isValid, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export interface DepreciationSlab {
+  /** Vehicle age in months the slab runs up to, inclusive; null for the last slab */
+  up_to_months: number | null;
+  /** Depreciation on metal parts */
+  percent: number;
+}
+
+export interface DepreciationRuleSet {
+  id: string;
+  name: string;
+  insurer_id: string | null;
+  insurer_name: string | null;
+  version: number;
+  effective_from: string;
+  metal_slabs: DepreciationSlab[];
+  rubber_plastic_percent: number;
+  fibreglass_percent: number;
+  glass_percent: number;
+  notes: string | null;
+  created_at: string;
+}
+
+export type DepreciationRuleSetInput = Pick<
+  DepreciationRuleSet,
+  | "name"
+  | "insurer_id"
+  | "effective_from"
+  | "metal_slabs"
+  | "rubber_plastic_percent"
+  | "fibreglass_percent"
+  | "glass_percent"
+  | "notes"
+>;
+
+/** Part materials the assessment depreciates separately */
+export type DepreciationMaterial = "glass" | "plastic" | "fibre" | "metal";
+
+export interface ComputedDepreciation {
+  ruleSet: DepreciationRuleSet;
+  ageMonths: number;
+  /** e.g. "3 years 4 months" */
+  ageLabel: string;
+  metalSlab: DepreciationSlab;
+  rates: Record<DepreciationMaterial, number>;
+}
+
+const parseDate = (value: string | null | undefined) => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+/**
+ * Check slabs are ordered by age and end with an open slab
+ * @param slabs - Slabs to check
+ * @returns A readable problem, or null when the slabs are valid
+ */
+export const validateDepreciationSlabs = (slabs: DepreciationSlab[]): string | null => {
+  if (slabs.length === 0) return "Add at least one age slab";
+  for (let i = 0; i < slabs.length; i++) {
+    const slab = slabs[i];
+    if (slab.percent < 0 || slab.percent > 100) return `Slab ${i + 1} must be between 0% and 100%`;
+    const next = slabs[i + 1];
+    if (next && slab.up_to_months === null) return "Only the last slab can be open-ended";
+    if (!next && slab.up_to_months !== null) return "The last slab must be open-ended";
+    const previous = slabs[i - 1];
+    if (slab.up_to_months !== null && slab.up_to_months <= (previous?.up_to_months ?? 0)) {
+      return `Slab ${i + 1} must end after slab ${i} ends`;
+    }
+  }
+  return null;
+};
+
+/** Age range of a slab, e.g. "6 - 12 months" */
+export const formatDepreciationSlab = (slabs: DepreciationSlab[], index: number) => {
+  const from = slabs[index - 1]?.up_to_months ?? 0;
+  const to = slabs[index].up_to_months;
+  if (to === null) return `over ${from} months`;
+  return from === 0 ? `up to ${to} months` : `${from} - ${to} months`;
+};
+
+export const formatVehicleAge = (months: number) => {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years > 0 && `${years} year${years === 1 ? "" : "s"}`, `${rest} month${rest === 1 ? "" : "s"}`]
+    .filter(Boolean)
+    .join(" ");
+};
+
+/**
+ * The rule set in effect for a claim: the latest version effective on the date of
+ * accident for the claim's insurer, else for everyone
+ * @param ruleSets - All rule set versions
+ * @param insurerName - Claim insurer (form_data.insurer)
+ * @param accidentDate - Date of accident (yyyy-MM-dd); today when not known
+ */
+export const findDepreciationRuleSet = (
+  ruleSets: DepreciationRuleSet[],
+  insurerName: string | null | undefined,
+  accidentDate: string | null | undefined
+): DepreciationRuleSet | null => {
+  const insurer = insurerName?.trim().toLowerCase() || null;
+  const onDate = accidentDate || new Date().toISOString().slice(0, 10);
+  const latest = (sets: DepreciationRuleSet[]) =>
+    sets
+      .filter((s) => s.effective_from <= onDate)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from) || b.version - a.version)[0] ?? null;
+
+  return (
+    (insurer ? latest(ruleSets.filter((s) => s.insurer_name?.toLowerCase() === insurer)) : null) ??
+    latest(ruleSets.filter((s) => s.insurer_id === null))
+  );
+};
+
+/**
+ * Depreciation rates for a vehicle. Metal parts take the rate of the first slab the
+ * vehicle's age falls within; a vehicle is within "up to 6 months" until the day six
+ * months after registration.
+ * @param ruleSet - Rule set in effect
+ * @param registrationDate - Date of registration (yyyy-MM-dd)
+ * @param accidentDate - Date of accident (yyyy-MM-dd)
+ * @returns null when either date is missing or the accident is before registration
+ */
+export const computeDepreciation = (
+  ruleSet: DepreciationRuleSet,
+  registrationDate: string | null | undefined,
+  accidentDate: string | null | undefined
+): ComputedDepreciation | null => {
+  const registered = parseDate(registrationDate);
+  const accident = parseDate(accidentDate);
+  if (!registered || !accident || accident < registered || ruleSet.metal_slabs.length === 0) return null;
+
+  const metalSlab =
+    ruleSet.metal_slabs.find((s) => s.up_to_months === null || accident <= addMonths(registered, s.up_to_months)) ??
+    ruleSet.metal_slabs[ruleSet.metal_slabs.length - 1];
+  const ageMonths = differenceInMonths(accident, registered);
+
+  return {
+    ruleSet,
+    ageMonths,
+    ageLabel: formatVehicleAge(ageMonths),
+    metalSlab,
+    rates: {
+      glass: ruleSet.glass_percent,
+      plastic: ruleSet.rubber_plastic_percent,
+      fibre: ruleSet.fibreglass_percent,
+      metal: metalSlab.percent,
+    },
+  };
+};
+
+export const listDepreciationRuleSets = async (): Promise<DepreciationRuleSet[]> => {
+  const { data, error } = await supabase
+    .from("depreciation_rule_sets")
+    .select("*, insurers(name)")
+    .order("effective_from", { ascending: false })
+    .order("version", { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ insurers, created_by: _createdBy, ...row }) => ({
+    ...row,
+    insurer_name: insurers?.name ?? null,
+    metal_slabs: ((row.metal_slabs as unknown as DepreciationSlab[]) || []).map((s) => ({
+      up_to_months: s.up_to_months === null || s.up_to_months === undefined ? null : Number(s.up_to_months),
+      percent: Number(s.percent) || 0,
+    })),
+    rubber_plastic_percent: Number(row.rubber_plastic_percent),
+    fibreglass_percent: Number(row.fibreglass_percent),
+    glass_percent: Number(row.glass_percent),
+  }));
+};
+
+/**
+ * Save a rule set as a new version. Earlier versions stay as they were, so assessments
+ * computed with them can still be traced.
+ * @param ruleSet - Rule set values
+ */
+export const saveDepreciationRuleSet = async (ruleSet: DepreciationRuleSetInput) => {
+  const problem = validateDepreciationSlabs(ruleSet.metal_slabs);
+  if (problem) throw new Error(problem);
+
+  const { error } = await supabase
+    .from("depreciation_rule_sets")
+    .insert({ ...ruleSet, metal_slabs: ruleSet.metal_slabs as unknown as Json });
+  if (error) throw error;
+};
+
+export const deleteDepreciationRuleSet = async (id: string) => {
+  const { error } = await supabase.from("depreciation_rule_sets").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,170 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/* =========================
+   Types
+========================= */
+
+export type ChecklistStatus = "missing" | "received" | "verified" | "waived";
+
+export const CHECKLIST_STATUS_LABELS: Record<ChecklistStatus, string> = {
+  missing: "Missing",
+  received: "Received",
+  verified: "Verified",
+  waived: "Waived",
+};
+
+/** One required document of a claim, as computed by get_document_checklist() */
+export interface ChecklistItem {
+  requirement_label: string;
+  mandatory: boolean;
+  status: ChecklistStatus;
+  /** The verified document, or the latest one filed under the requirement */
+  document_id: string | null;
+  document_name: string | null;
+  waiver_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+}
+
+export interface DocumentCompleteness {
+  total: number;
+  received: number;
+  /** Verified or waived */
+  complete: number;
+  mandatory_outstanding: number;
+}
+
+/* =========================
+   Helpers
+========================= */
+
+export const isChecklistItemDone = (item: Pick<ChecklistItem, "status">) =>
+  item.status === "verified" || item.status === "waived";
+
+/**
+ * Mandatory requirements still blocking approval and final report issuance
+ * @param items - Checklist items
+ */
+export const outstandingMandatory = (items: ChecklistItem[]) =>
+  items.filter((item) => item.mandatory && !isChecklistItemDone(item)).map((item) => item.requirement_label);
+
+/**
+ * Share of required documents that are verified or waived, 0 to 100; null when nothing is required
+ * @param completeness - Checklist counts
+ */
+export const completenessPercent = (completeness: DocumentCompleteness | undefined) =>
+  completeness && completeness.total > 0 ? Math.round((completeness.complete / completeness.total) * 100) : null;
+
+/* =========================
+   Queries
+========================= */
+
+/**
+ * The claim's checklist in the policy type's order, with the reviewer's name
+ * @param claimId - Claim ID
+ */
+export const getDocumentChecklist = async (claimId: string): Promise<ChecklistItem[]> => {
+  const { data, error } = await supabase.rpc("get_document_checklist", { _claim_id: claimId });
+  if (error) throw error;
+  if (!data?.length) return [];
+
+  const userIds = [...new Set(data.map((item) => item.reviewed_by).filter((id): id is string => !!id))];
+  const { data: profiles } = userIds.length
+    ? await supabase.from("profiles").select("user_id, display_name, first_name, last_name").in("user_id", userIds)
+    : { data: [] };
+
+  const names = new Map(
+    (profiles || []).map((p) => [
+      p.user_id,
+      p.display_name || [p.first_name, p.last_name].filter(Boolean).join(" ") || null,
+    ])
+  );
+
+  return data.map((item) => ({
+    ...item,
+    status: item.status as ChecklistStatus,
+    reviewed_by_name: item.reviewed_by ? names.get(item.reviewed_by) ?? null : null,
+  }));
+};
+
+/**
+ * Checklist counts for several claims, keyed by claim ID
+ * @param claimIds - Claim IDs
+ */
+export const getDocumentCompleteness = async (claimIds: string[]): Promise<Record<string, DocumentCompleteness>> => {
+  if (claimIds.length === 0) return {};
+  const { data, error } = await supabase.rpc("get_document_completeness", { _claim_ids: claimIds });
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(({ claim_id, ...counts }) => [claim_id, counts]));
+};
+
+/**
+ * Why the claim cannot be approved or get a final report yet, or null when every mandatory
+ * document is verified or waived. The same check guards those steps in the database.
+ * @param claimId - Claim ID
+ */
+export const checkClaimDocumentsComplete = async (claimId: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc("check_claim_documents_complete", { _claim_id: claimId });
+  if (error) throw error;
+  return data;
+};
+
+/* =========================
+   Review
+========================= */
+
+const saveCheck = async (
+  claimId: string,
+  label: string,
+  values: { status: "verified" | "waived"; document_id: string | null; waiver_reason: string | null }
+) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const { error } = await supabase.from("claim_document_checks").upsert(
+    {
+      claim_id: claimId,
+      requirement_label: label,
+      ...values,
+      reviewed_by: user?.id ?? null,
+      reviewed_at: new Date().toISOString(),
+    },
+    { onConflict: "claim_id,requirement_label" }
+  );
+  if (error) throw error;
+};
+
+/**
+ * Mark a received document as checked
+ * @param claimId - Claim ID
+ * @param label - Requirement label
+ * @param documentId - The document that was checked
+ */
+export const verifyRequirement = (claimId: string, label: string, documentId: string) =>
+  saveCheck(claimId, label, { status: "verified", document_id: documentId, waiver_reason: null });
+
+/**
+ * Accept a requirement without the document
+ * @param claimId - Claim ID
+ * @param label - Requirement label
+ * @param reason - Why the document is not needed
+ */
+export const waiveRequirement = async (claimId: string, label: string, reason: string) => {
+  if (!reason.trim()) throw new Error("A reason is required to waive a document");
+  await saveCheck(claimId, label, { status: "waived", document_id: null, waiver_reason: reason.trim() });
+};
+
+/**
+ * Undo a verification or waiver; the requirement goes back to received or missing
+ * @param claimId - Claim ID
+ * @param label - Requirement label
+ */
+export const resetRequirement = async (claimId: string, label: string) => {
+  const { error } = await supabase
+    .from("claim_document_checks")
+    .delete()
+    .eq("claim_id", claimId)
+    .eq("requirement_label", label);
+  if (error) throw error;
+};
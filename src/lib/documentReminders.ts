@@ -0,0 +1,257 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+/* =========================
+   Types
+========================= */
+
+export type ReminderChannel = "email" | "sms";
+export type ReminderScheduleStatus = "active" | "paused" | "complete" | "ended";
+export type ReminderRecipientRole = "insured" | "broker" | "other";
+
+// Stored in document_reminder_schedules.recipients
+export type ReminderRecipient = {
+  role: ReminderRecipientRole;
+  name: string;
+  email: string | null;
+  phone: string | null;
+};
+
+export type ReminderSettings = Tables<"reminder_settings">;
+export type ReminderSettingsInput = Omit<ReminderSettings, "id" | "created_at" | "updated_at" | "updated_by">;
+
+export type ReminderSchedule = Omit<Tables<"document_reminder_schedules">, "channels" | "recipients" | "status"> & {
+  channels: ReminderChannel[];
+  recipients: ReminderRecipient[];
+  status: ReminderScheduleStatus;
+};
+
+export interface ReminderScheduleInput {
+  cadence_days: number[];
+  channels: ReminderChannel[];
+  recipients: ReminderRecipient[];
+}
+
+export type DocumentReminder = Tables<"document_reminders">;
+
+export const REMINDER_STATUS_LABELS: Record<ReminderScheduleStatus, string> = {
+  active: "Active",
+  paused: "Paused",
+  complete: "Checklist complete",
+  ended: "All reminders sent",
+};
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+};
+
+export const RECIPIENT_ROLE_LABELS: Record<ReminderRecipientRole, string> = {
+  insured: "Insured",
+  broker: "Broker",
+  other: "Other",
+};
+
+// Filled in by the document-reminders edge function; keep in sync with its renderTemplate values
+export const REMINDER_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: "recipient_name", description: "Recipient's name" },
+  { key: "insured_name", description: "Insured name, or the claim title" },
+  { key: "claim_number", description: "Claim number" },
+  { key: "claim_title", description: "Claim title" },
+  { key: "documents", description: "Missing documents" },
+  { key: "upload_link", description: "New upload link" },
+  { key: "link_expires", description: "Date the link closes" },
+  { key: "reminder_number", description: "Which reminder this is" },
+  { key: "reminder_total", description: "Number of reminders in the cadence" },
+];
+
+/* =========================
+   Cadence
+========================= */
+
+/**
+ * Read a cadence typed as "3, 7, 14" into sorted, distinct days
+ * @param text - Comma or space separated days after the schedule starts
+ * @throws Error when a value is not a positive whole number or nothing was entered
+ */
+export const parseCadence = (text: string): number[] => {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0) throw new Error("Enter at least one day");
+  const days = parts.map(Number);
+  const bad = parts.find((_, i) => !Number.isInteger(days[i]) || days[i] <= 0);
+  if (bad !== undefined) throw new Error(`"${bad}" is not a whole number of days`);
+  return [...new Set(days)].sort((a, b) => a - b);
+};
+
+export const formatCadence = (days: number[]) => days.join(", ");
+
+/**
+ * Recipients that have an address for at least one of the channels
+ * @param recipients - Schedule recipients
+ * @param channels - Channels the schedule sends on
+ */
+export const reachableRecipients = (recipients: ReminderRecipient[], channels: ReminderChannel[]) =>
+  recipients.filter((r) =>
+    channels.some((channel) => (channel === "email" ? r.email?.trim() : r.phone?.trim()))
+  );
+
+/* =========================
+   Settings
+========================= */
+
+export const getReminderSettings = async (): Promise<ReminderSettings | null> => {
+  const { data, error } = await supabase.from("reminder_settings").select("*").maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Save the default cadence, link expiry and message templates
+ * @param settings - Settings to store
+ */
+export const saveReminderSettings = async (settings: ReminderSettingsInput) => {
+  if (settings.default_cadence_days.length === 0) throw new Error("Enter at least one reminder day");
+  if (!settings.email_subject.trim() || !settings.email_body.trim() || !settings.sms_body.trim()) {
+    throw new Error("Templates cannot be empty");
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from("reminder_settings").upsert({
+    ...settings,
+    id: true,
+    updated_by: user?.id ?? null,
+  });
+  if (error) throw error;
+};
+
+/* =========================
+   Schedules
+========================= */
+
+/**
+ * The claim's reminder schedule, if one was set up
+ * @param claimId - Claim ID
+ */
+export const getReminderSchedule = async (claimId: string): Promise<ReminderSchedule | null> => {
+  const { data, error } = await supabase
+    .from("document_reminder_schedules")
+    .select("*")
+    .eq("claim_id", claimId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ReminderSchedule | null;
+};
+
+/**
+ * Insured from the claim form and the claim's broker, as a starting point for new schedules
+ * @param claimId - Claim ID
+ */
+export const suggestRecipients = async (claimId: string): Promise<ReminderRecipient[]> => {
+  const { data: claim, error } = await supabase
+    .from("claims")
+    .select("title, form_data, broker_id")
+    .eq("id", claimId)
+    .single();
+  if (error) throw error;
+
+  const formData = (claim.form_data || {}) as Record<string, unknown>;
+  const recipients: ReminderRecipient[] = [
+    { role: "insured", name: String(formData.insured_name || claim.title), email: null, phone: null },
+  ];
+
+  if (claim.broker_id) {
+    const { data: broker } = await supabase
+      .from("brokers")
+      .select("name, email, contact")
+      .eq("id", claim.broker_id)
+      .maybeSingle();
+    if (broker) {
+      recipients.push({ role: "broker", name: broker.name, email: broker.email, phone: broker.contact });
+    }
+  }
+
+  return recipients;
+};
+
+/**
+ * Create or update the claim's schedule. A new schedule starts counting its days from now;
+ * editing one keeps its start date and the reminders already sent.
+ * @param claimId - Claim ID
+ * @param input - Cadence, channels and recipients
+ */
+export const saveReminderSchedule = async (claimId: string, input: ReminderScheduleInput) => {
+  if (input.cadence_days.length === 0) throw new Error("Enter at least one reminder day");
+  if (input.channels.length === 0) throw new Error("Choose email, SMS or both");
+
+  const recipients = input.recipients
+    .map((r) => ({ ...r, name: r.name.trim(), email: r.email?.trim() || null, phone: r.phone?.trim() || null }))
+    .filter((r) => r.name || r.email || r.phone);
+  if (reachableRecipients(recipients, input.channels).length === 0) {
+    throw new Error("Add an email address or phone number for at least one recipient");
+  }
+
+  const existing = await getReminderSchedule(claimId);
+  if (existing) {
+    const { error } = await supabase
+      .from("document_reminder_schedules")
+      .update({ cadence_days: input.cadence_days, channels: input.channels, recipients })
+      .eq("id", existing.id);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from("document_reminder_schedules").insert({
+    claim_id: claimId,
+    cadence_days: input.cadence_days,
+    channels: input.channels,
+    recipients,
+    created_by: user?.id ?? null,
+  });
+  if (error) throw error;
+};
+
+/**
+ * Pause or resume a schedule
+ * @param scheduleId - Schedule ID
+ * @param status - 'paused' or 'active'
+ */
+export const setReminderScheduleStatus = async (scheduleId: string, status: "active" | "paused") => {
+  const { error } = await supabase.from("document_reminder_schedules").update({ status }).eq("id", scheduleId);
+  if (error) throw error;
+};
+
+/**
+ * Run the whole cadence again from today, e.g. after new requirements were added to a finished schedule
+ * @param scheduleId - Schedule ID
+ */
+export const restartReminderSchedule = async (scheduleId: string) => {
+  const { error } = await supabase
+    .from("document_reminder_schedules")
+    .update({ status: "active", started_at: new Date().toISOString(), next_step: 0 })
+    .eq("id", scheduleId);
+  if (error) throw error;
+};
+
+/**
+ * Stop reminding and remove the schedule; its sent reminders stay in the claim's history
+ * @param scheduleId - Schedule ID
+ */
+export const deleteReminderSchedule = async (scheduleId: string) => {
+  const { error } = await supabase.from("document_reminder_schedules").delete().eq("id", scheduleId);
+  if (error) throw error;
+};
+
+/**
+ * Reminders sent for a claim, newest first
+ * @param claimId - Claim ID
+ */
+export const listDocumentReminders = async (claimId: string): Promise<DocumentReminder[]> => {
+  const { data, error } = await supabase
+    .from("document_reminders")
+    .select("*")
+    .eq("claim_id", claimId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return data || [];
+};
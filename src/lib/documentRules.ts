@@ -0,0 +1,71 @@
+/**
+ * Upload and extraction rules attached to a document requirement (policy_types.document_rules[label]).
+ * The public-upload edge function enforces the same defaults server-side.
+ */
+export interface DocumentRule {
+  allowed_types?: string[];
+  max_size_mb?: number;
+  /** extraction_profiles.id used to read this document into form_data */
+  extraction_profile_id?: string;
+  /** Must be verified or waived before the claim is approved or a final report is issued */
+  mandatory?: boolean;
+}
+
+export type DocumentRules = Record<string, DocumentRule>;
+
+export const FILE_TYPE_GROUPS: Record<string, { label: string; mimeTypes: string[]; extensions: string[] }> = {
+  pdf: {
+    label: "PDF",
+    mimeTypes: ["application/pdf"],
+    extensions: [".pdf"],
+  },
+  image: {
+    label: "Images",
+    mimeTypes: ["image/jpeg", "image/png", "image/webp"],
+    extensions: [".jpg", ".jpeg", ".png", ".webp"],
+  },
+  word: {
+    label: "Word",
+    mimeTypes: [
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+    extensions: [".doc", ".docx"],
+  },
+  excel: {
+    label: "Excel",
+    mimeTypes: [
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ],
+    extensions: [".xls", ".xlsx"],
+  },
+};
+
+export const DEFAULT_MAX_SIZE_MB = 10;
+
+export const DEFAULT_ALLOWED_TYPES = Object.values(FILE_TYPE_GROUPS).flatMap((g) => g.mimeTypes);
+
+/**
+ * Effective rule for a requirement, falling back to the defaults for anything not configured
+ * @param rules - policy_types.document_rules
+ * @param label - Document requirement label
+ */
+export const resolveDocumentRule = (rules: DocumentRules | null | undefined, label?: string | null) => {
+  const rule = (label && rules?.[label]) || {};
+  return {
+    allowed_types: rule.allowed_types?.length ? rule.allowed_types : DEFAULT_ALLOWED_TYPES,
+    max_size_mb: rule.max_size_mb || DEFAULT_MAX_SIZE_MB,
+  };
+};
+
+/**
+ * Build an <input accept> string for a set of MIME types
+ * @param mimeTypes - Allowed MIME types
+ */
+export const acceptForMimeTypes = (mimeTypes: string[]) => {
+  const extensions = Object.values(FILE_TYPE_GROUPS)
+    .filter((g) => g.mimeTypes.some((m) => mimeTypes.includes(m)))
+    .flatMap((g) => g.extensions);
+  return [...extensions, ...mimeTypes].join(",");
+};
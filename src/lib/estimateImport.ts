@@ -0,0 +1,383 @@
+import type { ExtractedLineItem } from "@/lib/backendClient";
+import type { DepreciationMaterial } from "@/lib/depreciation";
+
+/* =========================
+   Types
+========================= */
+
+/** Assessment table the imported lines are added to */
+export type ImportTarget = "new_spares" | "supplementary" | "labour";
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+  new_spares: "New spare parts",
+  supplementary: "Supplementary estimate",
+  labour: "Labour / repair charges",
+};
+
+export type ImportField =
+  | "invoice_no"
+  | "description"
+  | "hsn_code"
+  | "quantity"
+  | "gst_percent"
+  | "estimated_amount"
+  | "assessed_amount"
+  | "remarks";
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean }[] = [
+  { key: "description", label: "Description", required: true },
+  { key: "estimated_amount", label: "Estimated amount", required: true },
+  { key: "assessed_amount", label: "Assessed amount" },
+  { key: "quantity", label: "Quantity" },
+  { key: "hsn_code", label: "HSN / SAC" },
+  { key: "gst_percent", label: "GST %" },
+  { key: "invoice_no", label: "Invoice no." },
+  { key: "remarks", label: "Remarks" },
+];
+
+/** Spreadsheet column index for each field; null when not in the file */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportedLine {
+  invoice_no: string;
+  description: string;
+  hsn_code: string;
+  quantity: number;
+  gst_percent: number | null;
+  estimated_amount: number;
+  assessed_amount: number;
+  remarks: string;
+  /** Assessment column for spares; ignored for labour */
+  material: DepreciationMaterial;
+}
+
+/** What duplicate detection needs from a row already in the table */
+export interface ExistingLine {
+  description: string;
+  estimated_amount: number;
+}
+
+/* =========================
+   Reading files
+========================= */
+
+/**
+ * Split CSV text into rows. Handles quoted fields, doubled quotes and CRLF line ends.
+ * @param text - CSV file contents
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Read the files of a zip archive (stored or deflated entries only) */
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid XLSX file");
+
+  const files = new Map<string, Uint8Array>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, await inflateRaw(data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/[^A-Z]/gi, "").toUpperCase();
+  return [...letters].reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Rows of the first worksheet of an XLSX workbook, as text
+ * @param buffer - XLSX file contents
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const files = await readZip(buffer);
+  const xml = (name: string) => {
+    const data = files.get(name);
+    return data ? new DOMParser().parseFromString(new TextDecoder().decode(data), "application/xml") : null;
+  };
+  const textOf = (el: Element) =>
+    [...el.getElementsByTagName("t")].map((t) => t.textContent ?? "").join("");
+
+  const sharedStrings = [...(xml("xl/sharedStrings.xml")?.getElementsByTagName("si") ?? [])].map(textOf);
+
+  // The first sheet in workbook order, found through the workbook relationships
+  const firstSheetRel = xml("xl/workbook.xml")?.getElementsByTagName("sheet")[0]?.getAttribute("r:id");
+  const target = [...(xml("xl/_rels/workbook.xml.rels")?.getElementsByTagName("Relationship") ?? [])]
+    .find((rel) => rel.getAttribute("Id") === firstSheetRel)
+    ?.getAttribute("Target");
+  const sheetPath = target ? `xl/${target.replace(/^\/?xl\//, "")}` : "xl/worksheets/sheet1.xml";
+  const sheet = xml(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  return [...sheet.getElementsByTagName("row")]
+    .map((rowEl) => {
+      const row: string[] = [];
+      [...rowEl.getElementsByTagName("c")].forEach((cell, i) => {
+        const ref = cell.getAttribute("r");
+        const col = ref ? columnIndex(ref) : i;
+        const type = cell.getAttribute("t");
+        const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+        row[col] =
+          type === "s" ? sharedStrings[Number(value)] ?? "" : type === "inlineStr" ? textOf(cell) : value;
+      });
+      return Array.from(row, (cell) => cell ?? "");
+    })
+    .filter((r) => r.some((cell) => cell.trim() !== ""));
+};
+
+/**
+ * Rows of a CSV or XLSX file
+ * @param file - File picked by the user
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error("Old .xls workbooks are not supported; save the file as .xlsx or CSV");
+  return parseCsv(await file.text());
+};
+
+/* =========================
+   Mapping and classification
+========================= */
+
+// Checked in this order, so "mirror glass" is glass and "fibre bumper" is fibreglass
+export const PART_MATERIAL_KEYWORDS: { material: Exclude<DepreciationMaterial, "metal">; keywords: string[] }[] = [
+  {
+    material: "glass",
+    keywords: ["glass", "windshield", "windscreen", "mirror glass", "quarter glass"],
+  },
+  {
+    material: "fibre",
+    keywords: ["fibre", "fiber", "fibreglass", "fiberglass", "frp"],
+  },
+  {
+    material: "plastic",
+    keywords: [
+      "bumper", "plastic", "rubber", "nylon", "grill", "grille", "moulding", "molding", "beading",
+      "seal", "weatherstrip", "bush", "bushing", "hose", "tyre", "tire", "tube", "clip", "liner",
+      "mud flap", "garnish", "cladding", "trim", "lining", "gasket", "gaiter", "cv boot", "wiper blade",
+    ],
+  },
+];
+
+const keywordPattern = (keyword: string) => new RegExp(`\\b${keyword.replace(/\s+/g, "\\s+")}s?\\b`, "i");
+
+/**
+ * Assessment column for a part, from keywords in its description; metal when none match
+ * @param description - Part description from the estimate
+ */
+export const classifyPartMaterial = (description: string): DepreciationMaterial =>
+  PART_MATERIAL_KEYWORDS.find(({ keywords }) => keywords.some((k) => keywordPattern(k).test(description)))
+    ?.material ?? "metal";
+
+// Header keywords per field, most specific first. A field keeps the first column it
+// matches, so "Assessed Amount" is not taken as the estimate and "Amount" wins over "Rate".
+const HEADER_PATTERNS: [ImportField, RegExp][] = [
+  ["assessed_amount", /assess|approved|allowed/i],
+  ["hsn_code", /hsn|sac/i],
+  // A combined rate only: "GST %", "GST Rate", "Tax %" or a bare "GST"
+  ["gst_percent", /\b(gst|tax)\s*(rate|%)|^\s*gst\s*$/i],
+  ["quantity", /qty|quantity/i],
+  ["invoice_no", /invoice|inv\.?\s*no|bill\s*no/i],
+  ["description", /desc|particular|item|detail|part\s*name/i],
+  ["estimated_amount", /estimat/i],
+  ["estimated_amount", /amount|total|value/i],
+  ["estimated_amount", /price|rate/i],
+  ["remarks", /remark|note|comment/i],
+];
+
+// Split tax columns on garage invoices ("CGST %", "SGST Amt", "IGST"): half rates or tax
+// amounts, never the line's GST rate or amount
+const SPLIT_TAX_HEADER = /\b(c|s|i|ut)gst\b/i;
+
+/**
+ * Guess which column holds each field from the header row
+ * @param headers - First row of the file
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = Object.fromEntries(IMPORT_FIELDS.map((f) => [f.key, null])) as ColumnMapping;
+  const taken = new Set(headers.flatMap((h, i) => (SPLIT_TAX_HEADER.test(h) ? [i] : [])));
+  HEADER_PATTERNS.forEach(([field, pattern]) => {
+    if (mapping[field] !== null) return;
+    const index = headers.findIndex((h, i) => !taken.has(i) && pattern.test(h));
+    if (index >= 0) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  });
+  return mapping;
+};
+
+/** Parse an amount such as "₹ 1,250.00" or "Rs. 980/-" */
+export const parseAmount = (value: string | number | null | undefined) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  const cleaned = String(value ?? "").replace(/rs\.?|inr|₹|,|\/-|%/gi, "").trim();
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const optionalPercent = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined || String(value).trim() === "") return null;
+  return parseAmount(value);
+};
+
+/**
+ * Turn spreadsheet rows into assessment lines. Rows without a description or amount
+ * (totals, blank lines, section headings) are skipped.
+ * @param rows - Data rows, without the header
+ * @param mapping - Column for each field
+ * @param prefillAssessed - Use the estimated amount as the assessed amount when the file has none
+ */
+export const mapSpreadsheetRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  prefillAssessed: boolean
+): ImportedLine[] => {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : (row[index] ?? "").trim();
+  };
+
+  return rows
+    .map((row) => {
+      const description = cell(row, "description");
+      const estimated = parseAmount(cell(row, "estimated_amount"));
+      const assessedCell = cell(row, "assessed_amount");
+      const quantity = parseAmount(cell(row, "quantity"));
+      return {
+        invoice_no: cell(row, "invoice_no").replace(/\D/g, ""),
+        description,
+        hsn_code: cell(row, "hsn_code"),
+        quantity: quantity || 1,
+        gst_percent: optionalPercent(cell(row, "gst_percent")),
+        estimated_amount: estimated,
+        assessed_amount: assessedCell !== "" ? parseAmount(assessedCell) : prefillAssessed ? estimated : 0,
+        remarks: cell(row, "remarks"),
+        material: classifyPartMaterial(description),
+      };
+    })
+    .filter((line) => line.description !== "" && /[a-z]/i.test(line.description) && line.estimated_amount !== 0)
+    .filter((line) => !/^(sub\s*)?total\b|^grand\s+total/i.test(line.description));
+};
+
+/**
+ * Lines returned by the extraction service for one assessment table
+ * @param items - Extracted line items
+ * @param target - Table the lines are for; labour lines go to labour, the rest to spares
+ * @param prefillAssessed - Use the extracted amount as the assessed amount
+ */
+export const mapExtractedItems = (
+  items: ExtractedLineItem[],
+  target: ImportTarget,
+  prefillAssessed: boolean
+): ImportedLine[] =>
+  items
+    .filter((item) => (target === "labour") === (item.kind === "labour"))
+    .map((item) => {
+      const amount = parseAmount(item.amount);
+      return {
+        invoice_no: String(item.invoice_no ?? "").replace(/\D/g, ""),
+        description: String(item.description ?? "").trim(),
+        hsn_code: String(item.hsn_code ?? "").trim(),
+        quantity: parseAmount(item.quantity) || 1,
+        gst_percent: optionalPercent(item.gst_percent),
+        estimated_amount: amount,
+        assessed_amount: prefillAssessed ? amount : 0,
+        remarks: "",
+        material: classifyPartMaterial(String(item.description ?? "")),
+      };
+    })
+    .filter((line) => line.description !== "");
+
+/* =========================
+   Duplicates
+========================= */
+
+const lineKey = (description: string, amount: number) =>
+  `${description.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()}|${Math.round((Number(amount) || 0) * 100)}`;
+
+/**
+ * Indexes of lines that repeat a row already in the table, or an earlier line of the
+ * same import. Lines match on description (ignoring case and punctuation) and estimated amount.
+ * @param lines - Lines being imported
+ * @param existing - Rows already in the target table
+ */
+export const findDuplicateLines = (lines: ImportedLine[], existing: ExistingLine[]): Set<number> => {
+  const seen = new Set(existing.map((row) => lineKey(row.description ?? "", row.estimated_amount)));
+  const duplicates = new Set<number>();
+  lines.forEach((line, i) => {
+    const key = lineKey(line.description, line.estimated_amount);
+    if (seen.has(key)) duplicates.add(i);
+    seen.add(key);
+  });
+  return duplicates;
+};
@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import type { ExtractedFieldDetail } from "@/lib/backendClient";
+
+/* =========================
+   Types
+========================= */
+
+export type ExtractionJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export const EXTRACTION_JOB_STATUS_LABELS: Record<ExtractionJobStatus, string> = {
+  queued: "Queued for extraction",
+  running: "Extracting",
+  succeeded: "Extracted",
+  failed: "Extraction failed",
+};
+
+/** What the extraction service returned, keyed by extraction key */
+export interface ExtractionJobResult {
+  extractedData: Record<string, unknown>;
+  fieldDetails: Record<string, ExtractedFieldDetail>;
+}
+
+export type ExtractionJob = Omit<Tables<"extraction_jobs">, "status" | "result"> & {
+  status: ExtractionJobStatus;
+  result: ExtractionJobResult | null;
+  claim_documents: Pick<Tables<"claim_documents">, "file_name" | "file_path"> | null;
+};
+
+/* =========================
+   Queries
+========================= */
+
+/**
+ * A claim's extraction jobs, newest first
+ * @param claimId - Claim id
+ */
+export const listExtractionJobs = async (claimId: string): Promise<ExtractionJob[]> => {
+  const { data, error } = await supabase
+    .from("extraction_jobs")
+    .select("*, claim_documents(file_name, file_path)")
+    .eq("claim_id", claimId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as unknown as ExtractionJob[];
+};
+
+/**
+ * The most recent job for each document
+ * @param jobs - Jobs, newest first
+ */
+export const latestJobByDocument = (jobs: ExtractionJob[]): Record<string, ExtractionJob> =>
+  jobs.reduce<Record<string, ExtractionJob>>((acc, job) => {
+    if (!acc[job.document_id]) acc[job.document_id] = job;
+    return acc;
+  }, {});
+
+/**
+ * Finished jobs whose result has not been merged or dismissed yet
+ * @param jobs - Jobs
+ */
+export const jobsAwaitingReview = (jobs: ExtractionJob[]) =>
+  jobs.filter((job) => job.status === "succeeded" && !job.reviewed_at && job.result);
+
+export const isExtractionJobActive = (job: ExtractionJob) => job.status === "queued" || job.status === "running";
+
+// A running job older than this was left behind by a worker that stopped; claim_extraction_jobs()
+// hands it out again. Keep in sync with the interval there.
+export const EXTRACTION_JOB_STALE_MS = 10 * 60 * 1000;
+
+export const isExtractionJobStale = (job: ExtractionJob) =>
+  job.status === "running" && !!job.started_at && Date.now() - new Date(job.started_at).getTime() > EXTRACTION_JOB_STALE_MS;
+
+/* =========================
+   Actions
+========================= */
+
+/**
+ * Ask the extraction worker to pick up queued jobs. Jobs are queued by the database, so this
+ * only affects how soon they run.
+ */
+export const runExtractionWorker = async () => {
+  const { error } = await supabase.functions.invoke("extraction-worker");
+  if (error) throw error;
+};
+
+/**
+ * Put a failed or stalled job back on the queue
+ * @param id - Job id
+ */
+export const retryExtractionJob = async (id: string) => {
+  const { error } = await supabase
+    .from("extraction_jobs")
+    .update({ status: "queued", error: null, finished_at: null })
+    .eq("id", id);
+  if (error) throw error;
+};
+
+/**
+ * Take a job out of the review queue, whether its result was merged or dismissed
+ * @param id - Job id
+ */
+export const markExtractionJobReviewed = async (id: string) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const { error } = await supabase
+    .from("extraction_jobs")
+    .update({ reviewed_at: new Date().toISOString(), reviewed_by: user?.id ?? null })
+    .eq("id", id);
+  if (error) throw error;
+};
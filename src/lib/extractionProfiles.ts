@@ -0,0 +1,227 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+/* =========================
+   Types
+========================= */
+
+export type ExtractionValueType = "text" | "number" | "amount" | "date" | "weight";
+
+export const EXTRACTION_VALUE_TYPE_LABELS: Record<ExtractionValueType, string> = {
+  text: "Text",
+  number: "Number",
+  amount: "Amount",
+  date: "Date",
+  weight: "Weight (kg)",
+};
+
+export interface ExtractionFieldMapping {
+  /** Key asked of the extraction service */
+  key: string;
+  /** form_data field the value is written to */
+  field: string;
+  type: ExtractionValueType;
+}
+
+export type ExtractionProfile = Omit<Tables<"extraction_profiles">, "fields"> & {
+  fields: ExtractionFieldMapping[];
+};
+
+export type ExtractionProfileInput = Pick<
+  ExtractionProfile,
+  "name" | "document_type" | "description" | "fields" | "is_active"
+> & { id?: string };
+
+export interface AppliedExtraction {
+  /** form_data values keyed by field name */
+  values: Record<string, string | number>;
+  /** Keys whose value could not be read as their type; kept as text */
+  uncoerced: string[];
+}
+
+/* =========================
+   Coercion
+========================= */
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// Kilograms per unit; anything without a unit is taken as kg
+const WEIGHT_UNITS: [RegExp, number][] = [
+  [/^(mt|t|tons?|tonnes?|metric\s*tons?)$/, 1000],
+  [/^(kg|kgs|kilo(gram)?s?)$/, 1],
+  [/^(g|gm|gms|grams?)$/, 0.001],
+  [/^(lb|lbs|pounds?)$/, 0.45359237],
+];
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const y = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(y, month - 1, day));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${y}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Read a document date as yyyy-MM-dd. Numeric dates are taken day first, as printed on
+ * Indian documents; month names and ISO dates are also accepted.
+ * @param raw - Extracted text
+ */
+export const parseDocumentDate = (raw: string): string | null => {
+  const text = raw.trim().toLowerCase().replace(/(\d)(st|nd|rd|th)\b/g, "$1");
+
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (numeric) return toIsoDate(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]));
+
+  const named = text.match(/^(\d{1,2})[\s\-/.,]*([a-z]{3})[a-z]*[\s\-/.,]*(\d{2}|\d{4})$/);
+  if (named && MONTHS.includes(named[2])) {
+    return toIsoDate(Number(named[3]), MONTHS.indexOf(named[2]) + 1, Number(named[1]));
+  }
+
+  const monthFirst = text.match(/^([a-z]{3})[a-z]*[\s\-/.]*(\d{1,2}),?\s*(\d{4})$/);
+  if (monthFirst && MONTHS.includes(monthFirst[1])) {
+    return toIsoDate(Number(monthFirst[3]), MONTHS.indexOf(monthFirst[1]) + 1, Number(monthFirst[2]));
+  }
+  return null;
+};
+
+/**
+ * Read the first number in the text, ignoring currency marks and thousands separators
+ * @param raw - Extracted text
+ */
+export const parseDocumentNumber = (raw: string): number | null => {
+  const match = raw.replace(/,/g, "").match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+/**
+ * Read a weight and convert it to kilograms
+ * @param raw - Extracted text, e.g. "1,250 KGS" or "2.5 MT"
+ */
+export const parseDocumentWeight = (raw: string): number | null => {
+  const match = raw.replace(/,/g, "").trim().toLowerCase().match(/(-?\d+(?:\.\d+)?)\s*([a-z.\s]*)/);
+  if (!match) return null;
+  const unit = match[2].replace(/\./g, "").trim();
+  const factor = unit ? WEIGHT_UNITS.find(([pattern]) => pattern.test(unit))?.[1] : 1;
+  if (factor === undefined) return null;
+  return Math.round(Number(match[1]) * factor * 1000) / 1000;
+};
+
+/**
+ * Coerce an extracted value to its mapped type; null when it cannot be read as that type
+ * @param value - Value returned by the extraction service
+ * @param type - Type from the field mapping
+ */
+export const coerceExtractedValue = (value: unknown, type: ExtractionValueType): string | number | null => {
+  if (typeof value === "number" && type !== "date" && type !== "text") return value;
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+
+  switch (type) {
+    case "date":
+      return parseDocumentDate(text);
+    case "amount": {
+      const n = parseDocumentNumber(text);
+      return n === null ? null : Math.round(n * 100) / 100;
+    }
+    case "number":
+      return parseDocumentNumber(text);
+    case "weight":
+      return parseDocumentWeight(text);
+    default:
+      return text;
+  }
+};
+
+/**
+ * Map an extraction result onto form_data fields through a profile. Empty values are
+ * dropped; values that cannot be coerced are kept as text and reported.
+ * @param profile - Extraction profile
+ * @param extracted - Values keyed by extraction key
+ */
+export const applyExtractionProfile = (
+  profile: Pick<ExtractionProfile, "fields">,
+  extracted: Record<string, unknown>
+): AppliedExtraction => {
+  const values: Record<string, string | number> = {};
+  const uncoerced: string[] = [];
+
+  profile.fields.forEach(({ key, field, type }) => {
+    const raw = extracted[key];
+    if (raw === null || raw === undefined || String(raw).trim() === "") return;
+    const coerced = coerceExtractedValue(raw, type);
+    if (coerced === null) {
+      uncoerced.push(key);
+      values[field] = String(raw).trim();
+    } else {
+      values[field] = coerced;
+    }
+  });
+  return { values, uncoerced };
+};
+
+/**
+ * Re-key per-field results from extraction keys to the form fields they map to
+ * @param profile - Extraction profile
+ * @param byKey - Values keyed by extraction key, e.g. field details
+ */
+export const keyedByFormField = <T>(
+  profile: Pick<ExtractionProfile, "fields">,
+  byKey: Record<string, T>
+): Record<string, T> => {
+  const fieldFor = Object.fromEntries(profile.fields.map((f) => [f.key, f.field]));
+  return Object.fromEntries(Object.entries(byKey).map(([key, value]) => [fieldFor[key] || key, value]));
+};
+
+/**
+ * Problems that would stop a profile from being saved
+ * @param fields - Field mappings
+ */
+export const validateExtractionFields = (fields: ExtractionFieldMapping[]): string[] => {
+  const errors: string[] = [];
+  if (fields.length === 0) errors.push("Add at least one field");
+  if (fields.some((f) => !f.key.trim() || !f.field.trim())) errors.push("Every row needs a key and a form field");
+  const duplicate = (values: string[]) => values.find((v, i) => v && values.indexOf(v) !== i);
+  const key = duplicate(fields.map((f) => f.key.trim()));
+  if (key) errors.push(`Key "${key}" is used twice`);
+  const field = duplicate(fields.map((f) => f.field.trim()));
+  if (field) errors.push(`Form field "${field}" is mapped twice`);
+  return errors;
+};
+
+/* =========================
+   Profiles
+========================= */
+
+export const listExtractionProfiles = async (): Promise<ExtractionProfile[]> => {
+  const { data, error } = await supabase.from("extraction_profiles").select("*").order("name");
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    ...row,
+    fields: Array.isArray(row.fields) ? (row.fields as unknown as ExtractionFieldMapping[]) : [],
+  }));
+};
+
+/**
+ * Create or update an extraction profile
+ * @param profile - Profile values; include id to update
+ */
+export const saveExtractionProfile = async (profile: ExtractionProfileInput) => {
+  const { id, fields, ...rest } = profile;
+  const values = {
+    ...rest,
+    fields: fields.map((f) => ({ key: f.key.trim(), field: f.field.trim(), type: f.type })) as unknown as Json,
+  };
+  const { error } = id
+    ? await supabase.from("extraction_profiles").update(values).eq("id", id)
+    : await supabase.from("extraction_profiles").insert(values);
+  if (error) throw error;
+};
+
+export const deleteExtractionProfile = async (id: string) => {
+  const { error } = await supabase.from("extraction_profiles").delete().eq("id", id);
+  if (error) throw error;
+};
@@ -0,0 +1,143 @@
+import type { ExtractedFieldDetail } from "@/lib/backendClient";
+
+/* =========================
+   Types
+========================= */
+
+/** form_data key holding where each extracted field came from */
+export const FIELD_SOURCES_KEY = "field_sources";
+
+export type FieldSource = {
+  /** claim_documents / vas_documents / client_documents id */
+  document_id: string;
+  document_label: string;
+  file_name: string;
+  page?: number;
+  confidence?: number;
+  extracted_at: string;
+};
+
+export type FieldSources = Record<string, FieldSource>;
+
+export interface ExtractionProposal {
+  /** form_data field name */
+  field: string;
+  proposed: unknown;
+  current: unknown;
+  /** 0 to 1, when the extraction service gave one */
+  confidence: number | null;
+  detail?: ExtractedFieldDetail;
+  /** The form already holds the proposed value */
+  unchanged: boolean;
+}
+
+/** Below this a proposal is not accepted by default */
+export const LOW_CONFIDENCE = 0.6;
+
+/* =========================
+   Review
+========================= */
+
+const isBlank = (value: unknown) => value === null || value === undefined || String(value).trim() === "";
+
+const sameValue = (a: unknown, b: unknown) => !isBlank(a) && String(a).trim() === String(b ?? "").trim();
+
+/**
+ * One proposal per extracted field, set against what the form holds now
+ * @param values - Extracted values keyed by form field
+ * @param details - Extraction details keyed by form field
+ * @param current - Current form_data
+ */
+export const buildExtractionProposals = (
+  values: Record<string, unknown>,
+  details: Record<string, ExtractedFieldDetail>,
+  current: Record<string, unknown>
+): ExtractionProposal[] =>
+  Object.entries(values)
+    .filter(([, proposed]) => !isBlank(proposed))
+    .map(([field, proposed]) => {
+      const detail = details[field];
+      const confidence = typeof detail?.confidence === "number" ? detail.confidence : null;
+      return {
+        field,
+        proposed,
+        current: current[field],
+        confidence,
+        detail,
+        unchanged: sameValue(proposed, current[field]),
+      };
+    });
+
+/**
+ * Whether a proposal starts out accepted: only fills empty fields, and only when the
+ * service is reasonably sure. Values the surveyor already typed are never replaced by default.
+ * @param proposal - Extraction proposal
+ */
+export const acceptedByDefault = (proposal: ExtractionProposal) =>
+  !proposal.unchanged &&
+  isBlank(proposal.current) &&
+  (proposal.confidence === null || proposal.confidence >= LOW_CONFIDENCE);
+
+/**
+ * Link to the page, and where the viewer supports it the region, a value was read from
+ * @param url - Signed URL of the source document
+ * @param detail - Extraction detail for the field
+ */
+export const sourceDocumentLink = (url: string, detail?: ExtractedFieldDetail) => {
+  if (!detail?.page) return url;
+  const viewrect = detail.bbox ? `&viewrect=${detail.bbox.map((n) => Math.round(n)).join(",")}` : "";
+  return `${url}#page=${detail.page}${viewrect}`;
+};
+
+/* =========================
+   Provenance
+========================= */
+
+/**
+ * Field sources stored on a record's form_data
+ * @param formData - form_data
+ */
+export const fieldSourcesOf = (formData: Record<string, unknown> | null | undefined): FieldSources => {
+  const sources = formData?.[FIELD_SOURCES_KEY];
+  return sources && typeof sources === "object" && !Array.isArray(sources) ? (sources as FieldSources) : {};
+};
+
+/**
+ * Field sources with the accepted proposals tagged with their document
+ * @param formData - Current form_data
+ * @param accepted - Accepted proposals
+ * @param document - Source document
+ */
+export const tagFieldSources = (
+  formData: Record<string, unknown> | null | undefined,
+  accepted: ExtractionProposal[],
+  document: { id: string; label: string; file_name: string }
+): FieldSources => {
+  const extracted_at = new Date().toISOString();
+  return {
+    ...fieldSourcesOf(formData),
+    ...Object.fromEntries(
+      accepted.map((p) => [
+        p.field,
+        {
+          document_id: document.id,
+          document_label: document.label,
+          file_name: document.file_name,
+          ...(p.detail?.page ? { page: p.detail.page } : {}),
+          ...(p.confidence !== null ? { confidence: p.confidence } : {}),
+          extracted_at,
+        },
+      ])
+    ),
+  };
+};
+
+/**
+ * Field sources without a field, once the surveyor has changed its value by hand
+ * @param formData - Current form_data
+ * @param field - Field name
+ */
+export const withoutFieldSource = (formData: Record<string, unknown> | null | undefined, field: string): FieldSources => {
+  const { [field]: _removed, ...rest } = fieldSourcesOf(formData);
+  return rest;
+};
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type InvoiceSeries = Tables<"invoice_series">;
+export type InvoiceSeriesInput = Pick<
+  InvoiceSeries,
+  "name" | "prefix" | "number_format" | "sequence_padding" | "is_default" | "is_active"
+> & { id?: string };
+
+export type FeeInvoice = Tables<"fee_invoices">;
+export type FeeInvoicePaymentStatus = "unpaid" | "partially_paid" | "paid";
+
+export const PAYMENT_STATUS_LABELS: Record<FeeInvoicePaymentStatus, string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially paid",
+  paid: "Paid",
+};
+
+export const PAYMENT_STATUS_CLASSNAMES: Record<FeeInvoicePaymentStatus, string> = {
+  unpaid: "bg-red-100 text-red-800 hover:bg-red-100",
+  partially_paid: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  paid: "bg-green-100 text-green-800 hover:bg-green-100",
+};
+
+/** Register row with the claim it bills */
+export interface FeeInvoiceWithClaim extends FeeInvoice {
+  claim_number: string | null;
+  insured_name: string | null;
+}
+
+/**
+ * Financial year label for a date; 2026-27 runs from 1 April 2026 to 31 March 2027.
+ * Mirrors public.financial_year_of.
+ * @param date - ISO date or Date
+ */
+export const financialYearOf = (date: string | Date) => {
+  const d = new Date(date);
+  const start = d.getMonth() >= 3 ? d.getFullYear() : d.getFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+};
+
+/**
+ * Invoice number a series would give a sequence, for previews. The server builds the
+ * real number in issue_fee_invoice the same way.
+ * @param series - Series settings
+ * @param financialYear - Financial year label
+ * @param sequence - Sequence within the year
+ */
+export const formatInvoiceNumber = (
+  series: Pick<InvoiceSeries, "prefix" | "number_format" | "sequence_padding">,
+  financialYear: string,
+  sequence: number
+) =>
+  series.number_format
+    .replace("{prefix}", series.prefix)
+    .replace("{fy}", financialYear)
+    .replace("{seq}", String(sequence).padStart(series.sequence_padding, "0"));
+
+export const listInvoiceSeries = async (): Promise<InvoiceSeries[]> => {
+  const { data, error } = await supabase.from("invoice_series").select("*").order("name");
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create or update an invoice series. Making a series the default clears the flag on
+ * the others first.
+ * @param series - Series values; include id to update
+ */
+export const saveInvoiceSeries = async (series: InvoiceSeriesInput) => {
+  if (!series.number_format.includes("{seq}")) throw new Error("The number format must contain {seq}");
+
+  if (series.is_default) {
+    let clear = supabase.from("invoice_series").update({ is_default: false }).eq("is_default", true);
+    if (series.id) clear = clear.neq("id", series.id);
+    const { error } = await clear;
+    if (error) throw error;
+  }
+
+  const { id, ...values } = series;
+  const { error } = id
+    ? await supabase.from("invoice_series").update(values).eq("id", id)
+    : await supabase.from("invoice_series").insert(values);
+  if (error) throw error;
+};
+
+export interface IssueFeeInvoiceParams {
+  claimId: string;
+  seriesId: string;
+  invoiceDate: string;
+  taxableValue: number;
+  taxAmount: number;
+  totalAmount: number;
+  gstInvoice: boolean;
+}
+
+/**
+ * Allocate the claim's invoice number, or refresh the amounts of an invoice issued
+ * before the bill was reopened. Numbers are never reused or skipped.
+ */
+export const issueFeeInvoice = async (params: IssueFeeInvoiceParams): Promise<FeeInvoice> => {
+  const { data, error } = await supabase.rpc("issue_fee_invoice", {
+    _claim_id: params.claimId,
+    _series_id: params.seriesId,
+    _invoice_date: params.invoiceDate,
+    _taxable_value: params.taxableValue,
+    _tax_amount: params.taxAmount,
+    _total_amount: params.totalAmount,
+    _gst_invoice: params.gstInvoice,
+  });
+  if (error) throw error;
+  return data;
+};
+
+export const getFeeInvoiceForClaim = async (claimId: string): Promise<FeeInvoice | null> => {
+  const { data, error } = await supabase.from("fee_invoices").select("*").eq("claim_id", claimId).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Issued invoices, newest first
+ * @param financialYear - Only this financial year, when given
+ */
+export const listFeeInvoices = async (financialYear?: string): Promise<FeeInvoiceWithClaim[]> => {
+  let query = supabase
+    .from("fee_invoices")
+    .select("*, claims(claim_number, form_data)")
+    .order("invoice_date", { ascending: false })
+    .order("sequence", { ascending: false });
+  if (financialYear) query = query.eq("financial_year", financialYear);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map(({ claims, ...invoice }) => ({
+    ...invoice,
+    claim_number: claims?.claim_number ?? null,
+    insured_name: ((claims?.form_data as Record<string, unknown> | null)?.insured_name as string) ?? null,
+  }));
+};
@@ -0,0 +1,153 @@
+import { differenceInCalendarDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { FeeInvoice } from "@/lib/feeInvoices";
+
+export type FeePayment = Tables<"fee_payments">;
+export type FeePaymentKind = "full" | "partial" | "advance";
+
+export const FEE_PAYMENT_KINDS: { value: FeePaymentKind; label: string }[] = [
+  { value: "full", label: "Full payment" },
+  { value: "partial", label: "Part payment" },
+  { value: "advance", label: "Advance" },
+];
+
+export const feePaymentKindLabel = (kind: string) =>
+  FEE_PAYMENT_KINDS.find((k) => k.value === kind)?.label ?? kind;
+
+export interface FeePaymentInput {
+  invoiceId: string;
+  kind: FeePaymentKind;
+  amount: number;
+  tdsAmount: number;
+  paymentDate: string;
+  utr?: string;
+  notes?: string;
+}
+
+/** Fee still owed on an invoice after payments and TDS */
+export const outstandingOf = (invoice: Pick<FeeInvoice, "total_amount" | "amount_received" | "tds_deducted">) =>
+  Math.max(
+    Math.round((Number(invoice.total_amount) - Number(invoice.amount_received) - Number(invoice.tds_deducted)) * 100) / 100,
+    0
+  );
+
+export const listFeePayments = async (invoiceId: string): Promise<FeePayment[]> => {
+  const { data, error } = await supabase
+    .from("fee_payments")
+    .select("*")
+    .eq("invoice_id", invoiceId)
+    .order("payment_date");
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Record a payment against an invoice. The invoice's received/TDS totals and payment
+ * status are updated by the database.
+ * @param payment - Payment details
+ */
+export const recordFeePayment = async (payment: FeePaymentInput) => {
+  if (payment.amount < 0 || payment.tdsAmount < 0) throw new Error("Amounts cannot be negative");
+  if (payment.amount + payment.tdsAmount <= 0) throw new Error("Enter the amount received or the TDS deducted");
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from("fee_payments").insert({
+    invoice_id: payment.invoiceId,
+    kind: payment.kind,
+    amount: payment.amount,
+    tds_amount: payment.tdsAmount,
+    payment_date: payment.paymentDate,
+    utr: payment.utr?.trim() || null,
+    notes: payment.notes?.trim() || null,
+    recorded_by: user?.id ?? null,
+  });
+  if (error) throw error;
+};
+
+/* =========================
+   Receivables ageing
+========================= */
+
+export const AGEING_BUCKETS = [
+  { key: "days_0_30", label: "0–30 days", max: 30 },
+  { key: "days_31_60", label: "31–60 days", max: 60 },
+  { key: "days_61_90", label: "61–90 days", max: 90 },
+  { key: "days_90_plus", label: "90+ days", max: Infinity },
+] as const;
+
+export type AgeingBucketKey = (typeof AGEING_BUCKETS)[number]["key"];
+
+export interface ReceivablesRow extends Record<AgeingBucketKey, number> {
+  insurer: string;
+  invoices: number;
+  outstanding: number;
+}
+
+/**
+ * Outstanding fees per insurer, split by invoice age
+ * @param invoices - Issued invoices
+ * @param asOf - Date to age invoices to
+ * @returns One row per insurer with anything outstanding, largest first
+ */
+export const buildReceivablesAgeing = (
+  invoices: Pick<FeeInvoice, "insurer_name" | "invoice_date" | "total_amount" | "amount_received" | "tds_deducted">[],
+  asOf: Date = new Date()
+): ReceivablesRow[] => {
+  const rows = new Map<string, ReceivablesRow>();
+
+  invoices.forEach((invoice) => {
+    const outstanding = outstandingOf(invoice);
+    if (outstanding <= 0) return;
+
+    const insurer = invoice.insurer_name?.trim() || "Unknown insurer";
+    const row = rows.get(insurer) ?? {
+      insurer,
+      invoices: 0,
+      outstanding: 0,
+      days_0_30: 0,
+      days_31_60: 0,
+      days_61_90: 0,
+      days_90_plus: 0,
+    };
+
+    const age = differenceInCalendarDays(asOf, new Date(invoice.invoice_date));
+    const bucket = AGEING_BUCKETS.find((b) => age <= b.max) ?? AGEING_BUCKETS[AGEING_BUCKETS.length - 1];
+    row.invoices += 1;
+    row.outstanding += outstanding;
+    row[bucket.key] += outstanding;
+    rows.set(insurer, row);
+  });
+
+  return [...rows.values()].sort((a, b) => b.outstanding - a.outstanding);
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV of the ageing table, with a totals line
+ * @param rows - Rows from buildReceivablesAgeing
+ */
+export const receivablesToCsv = (rows: ReceivablesRow[]) => {
+  const header = ["Insurer", "Invoices", ...AGEING_BUCKETS.map((b) => b.label), "Outstanding"];
+  const line = (row: ReceivablesRow) => [
+    row.insurer,
+    row.invoices,
+    ...AGEING_BUCKETS.map((b) => row[b.key].toFixed(2)),
+    row.outstanding.toFixed(2),
+  ];
+  const total = rows.reduce<ReceivablesRow>(
+    (acc, row) => {
+      acc.invoices += row.invoices;
+      acc.outstanding += row.outstanding;
+      AGEING_BUCKETS.forEach((b) => (acc[b.key] += row[b.key]));
+      return acc;
+    },
+    { insurer: "Total", invoices: 0, outstanding: 0, days_0_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0 }
+  );
+
+  return [header, ...rows.map(line), line(total)].map((cells) => cells.map(csvCell).join(",")).join("\n");
+};
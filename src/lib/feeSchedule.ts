@@ -0,0 +1,175 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+
+export interface FeeSlab {
+  /** Loss amount the slab starts at */
+  from: number;
+  /** Loss amount the slab ends at; null for the last slab */
+  to: number | null;
+  base_fee: number;
+  /** Percentage of the loss above `from` added to the base fee */
+  percent: number;
+}
+
+export interface FeeSchedule {
+  id: string;
+  name: string;
+  insurer_id: string | null;
+  insurer_name: string | null;
+  policy_type_id: string | null;
+  policy_type_name: string | null;
+  is_active: boolean;
+  slabs: FeeSlab[];
+  minimum_fee: number | null;
+  maximum_fee: number | null;
+  reinspection_fee: number;
+  conveyance_per_visit: number;
+  travel_rate_per_km: number;
+  photo_rate: number;
+}
+
+export type FeeScheduleInput = Omit<FeeSchedule, "id" | "insurer_name" | "policy_type_name"> & { id?: string };
+
+export interface SurveyFee {
+  slab: FeeSlab | null;
+  base: number;
+  additional: number;
+  total: number;
+  /** Set when the minimum or maximum fee changed the slab result */
+  adjustedBy: "minimum" | "maximum" | null;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Check slabs start at 0, are ordered, non-overlapping and end with an open slab
+ * @param slabs - Slabs to check
+ * @returns A readable problem, or null when the slabs are valid
+ */
+export const validateSlabs = (slabs: FeeSlab[]): string | null => {
+  if (slabs.length === 0) return "Add at least one slab";
+  if (slabs[0].from !== 0) return "The first slab must start at 0";
+  for (let i = 0; i < slabs.length; i++) {
+    const slab = slabs[i];
+    if (slab.base_fee < 0 || slab.percent < 0) return `Slab ${i + 1} has a negative fee`;
+    if (slab.to !== null && slab.to <= slab.from) return `Slab ${i + 1} must end after it starts`;
+    const next = slabs[i + 1];
+    if (next && slab.to === null) return `Only the last slab can be open-ended`;
+    if (next && next.from !== slab.to) return `Slab ${i + 2} must start where slab ${i + 1} ends`;
+  }
+  return null;
+};
+
+/**
+ * Survey fee for a loss amount: the containing slab's base fee plus its percentage of
+ * the loss above the slab start, then held between the schedule's minimum and maximum
+ * @param schedule - Fee schedule
+ * @param lossAmount - Estimated loss amount
+ */
+export const computeSurveyFee = (schedule: FeeSchedule, lossAmount: number): SurveyFee => {
+  const loss = Math.max(Number(lossAmount) || 0, 0);
+  const first = schedule.slabs[0] ?? null;
+  // Schedules saved before slabs had to start at 0 may leave small losses below every slab
+  const slab =
+    loss < (first?.from ?? 0)
+      ? first
+      : schedule.slabs.find((s) => loss >= s.from && (s.to === null || loss < s.to)) ??
+        schedule.slabs[schedule.slabs.length - 1] ??
+        null;
+
+  const base = slab ? slab.base_fee : 0;
+  let additional = slab ? round2((Math.max(loss - slab.from, 0) * slab.percent) / 100) : 0;
+  let adjustedBy: SurveyFee["adjustedBy"] = null;
+
+  if (schedule.minimum_fee !== null && base + additional < schedule.minimum_fee) {
+    additional = round2(schedule.minimum_fee - base);
+    adjustedBy = "minimum";
+  } else if (schedule.maximum_fee !== null && base + additional > schedule.maximum_fee) {
+    additional = round2(schedule.maximum_fee - base);
+    adjustedBy = "maximum";
+  }
+
+  return { slab, base, additional, total: round2(base + additional), adjustedBy };
+};
+
+/**
+ * The most specific active schedule for a claim: insurer and policy type, then insurer,
+ * then policy type, then the default for everyone
+ * @param schedules - All schedules
+ * @param insurerName - Claim insurer (form_data.insurer)
+ * @param policyTypeId - Claim policy type
+ */
+export const findFeeSchedule = (
+  schedules: FeeSchedule[],
+  insurerName: string | null | undefined,
+  policyTypeId: string | null | undefined
+): FeeSchedule | null => {
+  const insurer = insurerName?.trim().toLowerCase() || null;
+  const score = (s: FeeSchedule) => {
+    const insurerMatch = s.insurer_id === null ? 0 : insurer && s.insurer_name?.toLowerCase() === insurer ? 2 : -1;
+    const typeMatch = s.policy_type_id === null ? 0 : s.policy_type_id === policyTypeId ? 1 : -1;
+    return insurerMatch < 0 || typeMatch < 0 ? -1 : insurerMatch + typeMatch;
+  };
+
+  return (
+    schedules
+      .filter((s) => s.is_active && score(s) >= 0)
+      .sort((a, b) => score(b) - score(a))[0] ?? null
+  );
+};
+
+export const formatSlabRange = (slab: FeeSlab) =>
+  slab.to === null
+    ? `above ₹${slab.from.toLocaleString("en-IN")}`
+    : `₹${slab.from.toLocaleString("en-IN")} – ₹${slab.to.toLocaleString("en-IN")}`;
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+export const listFeeSchedules = async (): Promise<FeeSchedule[]> => {
+  const { data, error } = await supabase
+    .from("fee_schedules")
+    .select("*, insurers(name), policy_types(name)")
+    .order("name");
+
+  if (error) throw error;
+
+  return (data || []).map(({ insurers, policy_types, ...row }) => ({
+    ...row,
+    insurer_name: insurers?.name ?? null,
+    policy_type_name: policy_types?.name ?? null,
+    slabs: ((row.slabs as unknown as FeeSlab[]) || []).map((s) => ({
+      from: Number(s.from) || 0,
+      to: toNumber(s.to),
+      base_fee: Number(s.base_fee) || 0,
+      percent: Number(s.percent) || 0,
+    })),
+    minimum_fee: toNumber(row.minimum_fee),
+    maximum_fee: toNumber(row.maximum_fee),
+    reinspection_fee: Number(row.reinspection_fee),
+    conveyance_per_visit: Number(row.conveyance_per_visit),
+    travel_rate_per_km: Number(row.travel_rate_per_km),
+    photo_rate: Number(row.photo_rate),
+  }));
+};
+
+/**
+ * Create or update a fee schedule
+ * @param schedule - Schedule values; include id to update
+ */
+export const saveFeeSchedule = async (schedule: FeeScheduleInput) => {
+  const problem = validateSlabs(schedule.slabs);
+  if (problem) throw new Error(problem);
+
+  const { id, ...values } = schedule;
+  const row = { ...values, slabs: values.slabs as unknown as Json };
+  const { error } = id
+    ? await supabase.from("fee_schedules").update(row).eq("id", id)
+    : await supabase.from("fee_schedules").insert(row);
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error("An active schedule already exists for this insurer and policy type");
+    }
+    throw error;
+  }
+};
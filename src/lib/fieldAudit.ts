@@ -0,0 +1,143 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { updateClaimVersioned } from "@/lib/claimConcurrency";
+
+export type FieldEditSource = "manual" | "ai_extraction" | "public_upload" | "revert";
+
+export const FIELD_EDIT_SOURCES: Record<FieldEditSource, string> = {
+  manual: "Manual edit",
+  ai_extraction: "AI extraction",
+  public_upload: "Public upload",
+  revert: "Reverted",
+};
+
+export const fieldEditSourceLabel = (source: string) =>
+  FIELD_EDIT_SOURCES[source as FieldEditSource] ?? source;
+
+export interface FieldAuditEntry {
+  id: string;
+  claim_id: string;
+  field_key: string;
+  old_value: Json | null;
+  new_value: Json | null;
+  source: FieldEditSource;
+  changed_by: string | null;
+  changed_at: string;
+  changed_by_name?: string | null;
+}
+
+/**
+ * Readable form of an audited value
+ * @param value - Value as stored in form_data
+ */
+export const formatAuditValue = (value: Json | null): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+};
+
+/**
+ * Readable label for an audited path. Nested paths such as "assessment.spare.new_spares.3.rate"
+ * keep their top-level field's label, with row numbers counted from 1.
+ * @param path - Dotted form_data path
+ * @param fieldLabels - Labels for top-level form_data keys
+ */
+export const fieldPathLabel = (path: string, fieldLabels?: Record<string, string>) => {
+  const [key, ...rest] = path.split(".");
+  const parts = rest.map((part) => (/^\d+$/.test(part) ? `#${Number(part) + 1}` : part));
+  return [fieldLabels?.[key] || key, ...parts].join(" › ");
+};
+
+/**
+ * Field changes for a claim, newest first, with the name of whoever made each change
+ * @param claimId - Claim ID
+ * @param fieldKey - Only return changes to this form_data key and the values nested under it
+ */
+export const listFieldAudit = async (claimId: string, fieldKey?: string): Promise<FieldAuditEntry[]> => {
+  let query = supabase
+    .from("claim_field_audit")
+    .select("*")
+    .eq("claim_id", claimId)
+    .order("changed_at", { ascending: false })
+    .limit(500);
+
+  if (fieldKey) query = query.or(`field_key.eq.${fieldKey},field_key.like.${fieldKey}.*`);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  if (!data?.length) return [];
+
+  const userIds = [...new Set(data.map((a) => a.changed_by).filter((id): id is string => !!id))];
+  const { data: profiles } = userIds.length
+    ? await supabase.from("profiles").select("user_id, display_name, first_name, last_name").in("user_id", userIds)
+    : { data: [] };
+
+  const names = new Map(
+    (profiles || []).map((p) => [
+      p.user_id,
+      p.display_name || [p.first_name, p.last_name].filter(Boolean).join(" ") || null,
+    ])
+  );
+
+  return data.map((a) => ({
+    ...a,
+    source: a.source as FieldEditSource,
+    changed_by_name: a.changed_by ? names.get(a.changed_by) ?? null : null,
+  }));
+};
+
+/**
+ * Set or remove the value at a dotted path, creating missing parents on the way. Removing an
+ * array entry takes the row out rather than leaving a gap.
+ */
+const setFormValueAtPath = (formData: Record<string, Json>, path: string, value: Json | null) => {
+  const segments = path.split(".");
+  const last = segments.pop() as string;
+  let parent: { [key: string]: Json | undefined } | Json[] = formData;
+
+  for (const [i, segment] of segments.entries()) {
+    const container = parent as { [key: string]: Json | undefined };
+    let next = container[segment];
+    if (next === null || next === undefined || typeof next !== "object") {
+      if (value === null) return;
+      next = /^\d+$/.test(segments[i + 1] ?? last) ? [] : {};
+      container[segment] = next;
+    }
+    parent = next;
+  }
+
+  if (Array.isArray(parent)) {
+    const index = Number(last);
+    if (value !== null) parent[index] = value;
+    else if (index < parent.length) parent.splice(index, 1);
+  } else if (value === null) {
+    delete parent[last];
+  } else {
+    parent[last] = value;
+  }
+};
+
+/**
+ * Put a field back to the value it had before the given change. Only the audited path is
+ * touched, and the save is checked against the version read here, so edits saved meanwhile
+ * are merged or raised as a conflict instead of being overwritten.
+ * @param entry - The audit entry to undo
+ */
+export const revertFieldChange = async (entry: FieldAuditEntry) => {
+  const { data: claim, error: fetchError } = await supabase
+    .from("claims")
+    .select("form_data, version")
+    .eq("id", entry.claim_id)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const formData = structuredClone((claim.form_data as Record<string, Json>) || {});
+  setFormValueAtPath(formData, entry.field_key, entry.old_value);
+
+  await updateClaimVersioned(entry.claim_id, { form_data: formData }, "revert", {
+    version: claim.version,
+    formData: claim.form_data,
+  });
+};
@@ -0,0 +1,328 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { format } from "date-fns";
+
+export type GstSettings = Tables<"gst_settings">;
+export type GstSettingsInput = Omit<GstSettings, "id" | "created_at" | "updated_at" | "updated_by">;
+
+/** GST state codes, as used in GSTINs and the place of supply */
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+];
+
+export const gstStateName = (code: string | null | undefined) =>
+  GST_STATES.find((s) => s.code === code)?.name ?? "";
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/**
+ * Check a GSTIN's format, state code and check digit
+ * @param gstin - GSTIN to check
+ * @returns A readable problem, or null when the GSTIN is valid
+ */
+export const validateGstin = (gstin: string): string | null => {
+  const value = gstin.trim().toUpperCase();
+  if (!GSTIN_PATTERN.test(value)) return "GSTIN must be 15 characters like 22AAAAA0000A1Z5";
+  if (!GST_STATES.some((s) => s.code === value.slice(0, 2))) return `Unknown state code ${value.slice(0, 2)}`;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  const check = GSTIN_CHARS[(36 - (sum % 36)) % 36];
+  return check === value[14] ? null : "GSTIN check digit does not match";
+};
+
+/** State code of a GSTIN, or null when it is too short to have one */
+export const stateCodeFromGstin = (gstin: string | null | undefined) => {
+  const code = gstin?.trim().slice(0, 2);
+  return code && /^[0-9]{2}$/.test(code) ? code : null;
+};
+
+export interface GstBreakup {
+  /** Intra-state supplies pay CGST + SGST; inter-state supplies pay IGST */
+  supplyType: "intra" | "inter";
+  taxableValue: number;
+  rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  /** Taxable value plus tax */
+  invoiceValue: number;
+  /** What the recipient pays the surveyor: the taxable value alone under reverse charge */
+  amountPayable: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Tax on a fee bill. Supplies where the surveyor's state and the place of supply match
+ * are intra-state (half CGST, half SGST); everything else is inter-state (IGST).
+ * @param taxableValue - Fee before tax
+ * @param rate - GST rate in percent
+ * @param supplierStateCode - Surveyor's GST state code
+ * @param placeOfSupply - State code of the place of supply
+ * @param reverseCharge - Whether the recipient pays the tax directly
+ */
+export const computeGst = (
+  taxableValue: number,
+  rate: number,
+  supplierStateCode: string | null,
+  placeOfSupply: string | null,
+  reverseCharge = false
+): GstBreakup => {
+  const value = round2(Number(taxableValue) || 0);
+  const supplyType = supplierStateCode && placeOfSupply && supplierStateCode !== placeOfSupply ? "inter" : "intra";
+
+  let cgst = 0;
+  let sgst = 0;
+  let igst = 0;
+  if (supplyType === "inter") {
+    igst = round2((value * rate) / 100);
+  } else {
+    cgst = round2((value * rate) / 200);
+    sgst = cgst;
+  }
+
+  const totalTax = round2(cgst + sgst + igst);
+  const invoiceValue = round2(value + totalTax);
+  return {
+    supplyType,
+    taxableValue: value,
+    rate,
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    invoiceValue,
+    amountPayable: reverseCharge ? value : invoiceValue,
+  };
+};
+
+/* =========================
+   E-invoice (IRN) export
+========================= */
+
+export interface EInvoiceParty {
+  gstin: string;
+  legalName: string;
+  tradeName?: string | null;
+  address: string;
+  location: string;
+  pincode: string;
+  stateCode: string;
+}
+
+export interface EInvoiceLine {
+  description: string;
+  amount: number;
+}
+
+export interface EInvoiceInput {
+  invoiceNumber: string;
+  invoiceDate: string;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  placeOfSupply: string;
+  reverseCharge: boolean;
+  sacCode: string;
+  rate: number;
+  lines: EInvoiceLine[];
+}
+
+/**
+ * Supplier on a tax invoice: the issuing profile's own GST registration when it has a GSTIN,
+ * else the firm-wide one from GST settings
+ * @param profile - Organisation profile the bill is issued under
+ * @param settings - Firm-wide GST settings
+ */
+export const gstSupplierFor = (
+  profile: Tables<"organisation_profiles"> | null | undefined,
+  settings: GstSettings | null | undefined
+): EInvoiceParty =>
+  profile?.gstin
+    ? {
+        gstin: profile.gstin,
+        legalName: profile.gst_legal_name || profile.firm_name,
+        tradeName: profile.gst_trade_name,
+        address: profile.gst_address || profile.address || "",
+        location: profile.gst_location || "",
+        pincode: profile.gst_pincode || "",
+        stateCode: profile.gst_state_code || stateCodeFromGstin(profile.gstin) || "",
+      }
+    : {
+        gstin: settings?.gstin || "",
+        legalName: settings?.legal_name || "",
+        tradeName: settings?.trade_name,
+        address: settings?.address || "",
+        location: settings?.location || "",
+        pincode: settings?.pincode || "",
+        stateCode: settings?.state_code || "",
+      };
+
+const partyProblems = (party: EInvoiceParty, role: string) => {
+  const problems: string[] = [];
+  const gstinProblem = validateGstin(party.gstin || "");
+  if (gstinProblem) problems.push(`${role} GSTIN: ${gstinProblem}`);
+  if ((party.legalName || "").trim().length < 3) problems.push(`${role} legal name is required`);
+  if (!(party.address || "").trim()) problems.push(`${role} address is required`);
+  if ((party.location || "").trim().length < 3) problems.push(`${role} location must be at least 3 characters`);
+  if (!/^[1-9][0-9]{5}$/.test(party.pincode || "")) problems.push(`${role} PIN code must be 6 digits`);
+  return problems;
+};
+
+/**
+ * Check an invoice against the e-invoice schema rules the GST portal enforces
+ * @param input - Invoice to check
+ * @returns Readable problems; empty when the invoice can be exported
+ */
+export const validateEInvoice = (input: EInvoiceInput): string[] => {
+  const problems = [...partyProblems(input.seller, "Supplier"), ...partyProblems(input.buyer, "Recipient")];
+  if (!/^[A-Za-z1-9][A-Za-z0-9/-]{0,15}$/.test(input.invoiceNumber || "")) {
+    problems.push("Invoice number must be at most 16 letters, digits, / or - and not start with 0, / or -");
+  }
+  if (isNaN(new Date(input.invoiceDate).getTime())) problems.push("Invoice date is invalid");
+  if (!/^[0-9]{6}$/.test(input.sacCode || "")) problems.push("SAC code must be 6 digits");
+  if (!GST_STATES.some((s) => s.code === input.placeOfSupply)) problems.push("Place of supply is required");
+  if (!input.lines.some((line) => line.amount > 0)) problems.push("The invoice has no fee lines");
+  return problems;
+};
+
+const partyJson = (party: EInvoiceParty) => ({
+  Gstin: party.gstin.trim().toUpperCase(),
+  LglNm: party.legalName.trim(),
+  ...(party.tradeName?.trim() ? { TrdNm: party.tradeName.trim() } : {}),
+  Addr1: party.address.trim().slice(0, 100),
+  Loc: party.location.trim(),
+  Pin: Number(party.pincode),
+  Stcd: party.stateCode,
+});
+
+/**
+ * Build the e-invoice JSON (schema version 1.1) for upload to the GST portal. Each fee
+ * line becomes a service item; tax is worked out per item so the totals add up.
+ * @param input - Invoice details; check them with validateEInvoice first
+ */
+export const buildEInvoice = (input: EInvoiceInput) => {
+  const items = input.lines
+    .filter((line) => line.amount > 0)
+    .map((line, index) => {
+      const tax = computeGst(line.amount, input.rate, input.seller.stateCode, input.placeOfSupply);
+      return {
+        SlNo: String(index + 1),
+        PrdDesc: line.description.slice(0, 300),
+        IsServc: "Y",
+        HsnCd: input.sacCode,
+        Qty: 1,
+        Unit: "OTH",
+        UnitPrice: tax.taxableValue,
+        TotAmt: tax.taxableValue,
+        AssAmt: tax.taxableValue,
+        GstRt: input.rate,
+        IgstAmt: tax.igst,
+        CgstAmt: tax.cgst,
+        SgstAmt: tax.sgst,
+        TotItemVal: tax.invoiceValue,
+      };
+    });
+
+  const sum = (key: "AssAmt" | "CgstAmt" | "SgstAmt" | "IgstAmt" | "TotItemVal") =>
+    round2(items.reduce((total, item) => total + item[key], 0));
+
+  return {
+    Version: "1.1",
+    TranDtls: {
+      TaxSch: "GST",
+      SupTyp: "B2B",
+      RegRev: input.reverseCharge ? "Y" : "N",
+      IgstOnIntra: "N",
+    },
+    DocDtls: {
+      Typ: "INV",
+      No: input.invoiceNumber,
+      Dt: format(new Date(input.invoiceDate), "dd/MM/yyyy"),
+    },
+    SellerDtls: partyJson(input.seller),
+    BuyerDtls: { ...partyJson(input.buyer), Pos: input.placeOfSupply },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sum("AssAmt"),
+      CgstVal: sum("CgstAmt"),
+      SgstVal: sum("SgstAmt"),
+      IgstVal: sum("IgstAmt"),
+      TotInvVal: sum("TotItemVal"),
+    },
+  };
+};
+
+/* =========================
+   Settings
+========================= */
+
+export const getGstSettings = async (): Promise<GstSettings | null> => {
+  const { data, error } = await supabase.from("gst_settings").select("*").maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Save the firm's GST registration. The state code always follows the GSTIN.
+ * @param settings - Settings to store
+ */
+export const saveGstSettings = async (settings: GstSettingsInput) => {
+  const gstin = settings.gstin?.trim().toUpperCase() || null;
+  if (gstin) {
+    const problem = validateGstin(gstin);
+    if (problem) throw new Error(problem);
+  }
+  if (settings.gst_registered && !gstin) throw new Error("Enter the firm's GSTIN to issue tax invoices");
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { error } = await supabase.from("gst_settings").upsert({
+    ...settings,
+    id: true,
+    gstin,
+    state_code: stateCodeFromGstin(gstin),
+    updated_by: user?.id ?? null,
+  });
+  if (error) throw error;
+};
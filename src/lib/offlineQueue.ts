@@ -0,0 +1,389 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { BackendServiceError, getBackendClient } from "@/lib/backendClient";
+import {
+  ClaimConflictError,
+  getClaimSnapshot,
+  rememberClaimSnapshot,
+  updateClaimVersioned,
+} from "@/lib/claimConcurrency";
+import { FieldEditSource } from "@/lib/fieldAudit";
+
+/**
+ * Offline autosave queue. Saves that fail because the connection dropped are kept in
+ * IndexedDB and replayed in order once the browser is back online. While a record has
+ * queued changes, later saves for it are queued behind them so nothing is reordered.
+ */
+
+export type FormDataTable = "claims" | "vas_reports" | "client_reports";
+
+interface QueuedBase {
+  id?: number;
+  table: FormDataTable;
+  recordId: string;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface QueuedFormData extends QueuedBase {
+  kind: "form_data";
+  formData: Json;
+  source: FieldEditSource;
+  /** form_data the edit was made against, for the three-way merge on replay */
+  baseFormData: Json | null;
+  /** Claim version of baseFormData; unknown when chained behind another queued change */
+  baseVersion: number | null;
+}
+
+export interface QueuedImage extends QueuedBase {
+  kind: "image";
+  file: File;
+  sectionKey: string;
+  index: number;
+  /** Object URL shown in the grid until the upload lands; swapped for the real URL in later changes */
+  placeholder: string;
+}
+
+export type QueuedChange = QueuedFormData | QueuedImage;
+
+export type SyncStatus = "synced" | "offline" | "syncing" | "error";
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: QueuedChange[];
+  lastError: string | null;
+}
+
+const DB_NAME = "claim-portal-offline";
+const STORE = "changes";
+const MAX_ATTEMPTS = 5;
+const RETRY_INTERVAL_MS = 30000;
+
+/* =========================
+   IndexedDB
+========================= */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Keys are auto-incremented, so getAll() returns changes in the order they were queued
+const readAll = () => withStore<QueuedChange[]>("readonly", (store) => store.getAll());
+const put = (change: QueuedChange) => withStore("readwrite", (store) => store.put(change));
+const remove = (id: number) => withStore("readwrite", (store) => store.delete(id));
+
+/* =========================
+   State
+========================= */
+
+let state: SyncState = { status: navigator.onLine ? "synced" : "offline", pending: [], lastError: null };
+const listeners = new Set<(state: SyncState) => void>();
+
+const setState = (changes: Partial<SyncState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach((listener) => listener(state));
+};
+
+const refreshPending = async () => {
+  const pending = await readAll();
+  setState({
+    pending,
+    status: !navigator.onLine ? "offline" : pending.length === 0 ? "synced" : state.status,
+  });
+  return pending;
+};
+
+export const getSyncState = () => state;
+
+/**
+ * Listen for queue and connectivity changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToSyncState = (listener: (state: SyncState) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Dropped connections, as opposed to errors the server returned */
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  if (error instanceof BackendServiceError) return error.code === "network" || error.code === "timeout";
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+/* =========================
+   Replay
+========================= */
+
+// Swap an uploaded image's placeholder for its real URL anywhere in a form_data value
+const replacePlaceholder = (value: Json, placeholder: string, url: string): Json => {
+  if (value === placeholder) return url;
+  if (Array.isArray(value)) return value.map((v) => replacePlaceholder(v, placeholder, url));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, replacePlaceholder(v ?? null, placeholder, url)]));
+  }
+  return value;
+};
+
+const fetchFormData = async (table: FormDataTable, id: string) => {
+  const { data, error } = await supabase.from(table).select("form_data").eq("id", id).single();
+  if (error) throw error;
+  return (data.form_data as Record<string, Json>) || {};
+};
+
+const replayFormData = async (change: QueuedFormData) => {
+  if (change.table !== "claims") {
+    const { error } = await supabase.from(change.table).update({ form_data: change.formData }).eq("id", change.recordId);
+    if (error) throw error;
+    return;
+  }
+
+  // Merge against what the edit was based on, not whatever this tab loaded since
+  if (change.baseFormData !== null) {
+    const version = change.baseVersion ?? getClaimSnapshot(change.recordId)?.version;
+    if (version !== undefined) rememberClaimSnapshot(change.recordId, version, change.baseFormData);
+  }
+  await updateClaimVersioned(change.recordId, { form_data: change.formData }, change.source);
+};
+
+const replayImage = async (change: QueuedImage, later: QueuedChange[]) => {
+  const { url } = await getBackendClient().uploadImage(change.file);
+
+  const formData = await fetchFormData(change.table, change.recordId);
+  const key = `${change.sectionKey}_images`;
+  const images = Array.isArray(formData[key]) ? [...(formData[key] as string[])] : [];
+  images[change.index] = url;
+
+  const updated = { ...formData, [key]: images };
+  if (change.table === "claims") {
+    await updateClaimVersioned(change.recordId, { form_data: updated });
+  } else {
+    const { error } = await supabase.from(change.table).update({ form_data: updated }).eq("id", change.recordId);
+    if (error) throw error;
+  }
+
+  // Later queued saves still reference the placeholder
+  for (const next of later) {
+    if (next.kind === "form_data" && next.recordId === change.recordId) {
+      await put({
+        ...next,
+        formData: replacePlaceholder(next.formData, change.placeholder, url),
+        baseFormData: next.baseFormData && replacePlaceholder(next.baseFormData, change.placeholder, url),
+      });
+    }
+  }
+  URL.revokeObjectURL(change.placeholder);
+};
+
+let processing: Promise<void> | null = null;
+
+/**
+ * Replay queued changes in order. Stops at the first change that fails for lack of a
+ * connection so nothing is applied out of order.
+ */
+export const processQueue = () => {
+  if (processing) return processing;
+
+  processing = (async () => {
+    let pending = await refreshPending();
+    if (pending.length === 0) return;
+    if (!navigator.onLine) return;
+
+    setState({ status: "syncing", lastError: null });
+
+    while (pending.length > 0) {
+      const [change, ...later] = pending;
+      try {
+        console.log("[offlineQueue] Replaying", change.kind, "for", change.table, change.recordId);
+        if (change.kind === "image") {
+          await replayImage(change, later);
+        } else {
+          await replayFormData(change);
+        }
+        await remove(change.id!);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          setState({ status: "offline" });
+          break;
+        }
+        // Conflicts are handed to the merge dialog with the queued values, so the change is done here
+        if (error instanceof ClaimConflictError) {
+          await remove(change.id!);
+        } else {
+          const attempts = change.attempts + 1;
+          const message = (error as Error).message;
+          console.error("[offlineQueue] Replay failed:", error);
+          if (attempts >= MAX_ATTEMPTS) {
+            await remove(change.id!);
+            setState({ lastError: `A queued change could not be saved and was dropped: ${message}` });
+          } else {
+            await put({ ...change, attempts, lastError: message });
+            setState({ status: "error", lastError: message });
+            break;
+          }
+        }
+      }
+      pending = await readAll();
+    }
+
+    await refreshPending();
+  })().finally(() => {
+    processing = null;
+  });
+
+  return processing;
+};
+
+let started = false;
+
+/** Begin replaying the queue on reconnect and on a timer. Safe to call more than once. */
+export const startOfflineSync = () => {
+  if (started) return;
+  started = true;
+
+  window.addEventListener("online", () => processQueue());
+  window.addEventListener("offline", () => setState({ status: "offline" }));
+  setInterval(() => {
+    if (state.pending.length > 0) processQueue();
+  }, RETRY_INTERVAL_MS);
+
+  processQueue();
+};
+
+/* =========================
+   Enqueue
+========================= */
+
+const hasPending = (recordId: string) => state.pending.some((c) => c.recordId === recordId);
+
+const enqueue = async (change: QueuedChange) => {
+  await put(change);
+  await refreshPending();
+  console.log("[offlineQueue] Queued", change.kind, "for", change.table, change.recordId);
+};
+
+const enqueueFormData = async (table: FormDataTable, recordId: string, formData: Json, source: FieldEditSource) => {
+  // Chain onto the last queued save for this record, or the copy this tab loaded
+  const previous = [...state.pending]
+    .reverse()
+    .find((c): c is QueuedFormData => c.kind === "form_data" && c.recordId === recordId);
+  const snapshot = table === "claims" ? getClaimSnapshot(recordId) : undefined;
+
+  await enqueue({
+    kind: "form_data",
+    table,
+    recordId,
+    formData,
+    source,
+    baseFormData: previous ? previous.formData : (snapshot?.formData as Json) ?? null,
+    baseVersion: previous ? null : snapshot?.version ?? null,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  });
+};
+
+/**
+ * Save form_data for a claim, VAS report or client report. Claims go through the
+ * version check; the report tables are updated directly. When offline, or when the
+ * record already has queued changes, the save is queued instead.
+ * @param table - Table the record lives in
+ * @param id - Record ID
+ * @param formData - Complete form_data to store
+ * @param source - Where the edit came from, for the claim field audit trail
+ */
+export const saveFormData = async (
+  table: FormDataTable,
+  id: string,
+  formData: Json,
+  source: FieldEditSource = "manual"
+): Promise<{ error: Error | null; queued: boolean }> => {
+  try {
+    if (!navigator.onLine || hasPending(id)) {
+      await enqueueFormData(table, id, formData, source);
+      processQueue();
+      return { error: null, queued: true };
+    }
+
+    if (table === "claims") {
+      await updateClaimVersioned(id, { form_data: formData }, source);
+    } else {
+      const { error } = await supabase.from(table).update({ form_data: formData }).eq("id", id);
+      if (error) throw error;
+    }
+    return { error: null, queued: false };
+  } catch (error) {
+    if (isNetworkError(error)) {
+      await enqueueFormData(table, id, formData, source);
+      return { error: null, queued: true };
+    }
+    return { error: error as Error, queued: false };
+  }
+};
+
+/**
+ * Queue an image upload for a form's image grid, to be uploaded once back online
+ * @param table - Table the record lives in
+ * @param recordId - Record ID
+ * @param sectionKey - Section whose `<section>_images` list receives the image
+ * @param index - Slot in the list
+ * @param file - The image
+ * @returns Placeholder URL to show in the slot until the upload lands
+ */
+export const queueImageUpload = async (
+  table: FormDataTable,
+  recordId: string,
+  sectionKey: string,
+  index: number,
+  file: File
+) => {
+  const placeholder = URL.createObjectURL(file);
+  await enqueue({
+    kind: "image",
+    table,
+    recordId,
+    sectionKey,
+    index,
+    file,
+    placeholder,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  });
+  return placeholder;
+};
+
+/**
+ * Drop a queued image upload that has not been sent yet
+ * @param placeholder - Placeholder URL returned by queueImageUpload
+ */
+export const discardQueuedImage = async (placeholder: string) => {
+  const change = state.pending.find((c) => c.kind === "image" && c.placeholder === placeholder);
+  if (!change?.id) return;
+  await remove(change.id);
+  URL.revokeObjectURL(placeholder);
+  await refreshPending();
+};
@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { stateCodeFromGstin, validateGstin } from "@/lib/gst";
+
+export const ORGANISATION_ASSETS_BUCKET = "organisation-assets";
+
+export type OrganisationProfile = Tables<"organisation_profiles">;
+export type OrganisationBankAccount = Tables<"organisation_bank_accounts">;
+export type InsurerOffice = Tables<"insurer_offices">;
+
+export interface OrganisationProfileWithAccounts extends OrganisationProfile {
+  bank_accounts: OrganisationBankAccount[];
+}
+
+export type OrganisationProfileInput = Omit<OrganisationProfile, "id" | "created_at" | "updated_at"> & { id?: string };
+export type OrganisationBankAccountInput = Omit<OrganisationBankAccount, "id" | "created_at"> & { id?: string };
+export type InsurerOfficeInput = Pick<InsurerOffice, "insurer_id" | "office_name" | "address" | "is_default"> & {
+  id?: string;
+};
+
+/**
+ * Profile a claim's documents are issued under: the one picked on the claim, else the
+ * surveyor's own, else the practice default.
+ * @param profiles - All profiles
+ * @param profileId - Profile stored on the claim, if any
+ * @param userId - Surveyor working on the claim
+ */
+export const resolveOrganisationProfile = <T extends OrganisationProfile>(
+  profiles: T[],
+  profileId?: string | null,
+  userId?: string | null
+): T | null => {
+  const picked = profileId ? profiles.find((p) => p.id === profileId) : undefined;
+  if (picked) return picked;
+
+  const active = profiles.filter((p) => p.is_active);
+  return (
+    (userId ? active.find((p) => p.user_id === userId) : undefined) ??
+    active.find((p) => p.is_default) ??
+    active[0] ??
+    null
+  );
+};
+
+/**
+ * Account to print on a fee bill
+ * @param profile - Issuing profile
+ * @param accountId - Account picked on the bill, if any
+ */
+export const bankAccountFor = (profile: OrganisationProfileWithAccounts | null, accountId?: string | null) => {
+  const accounts = profile?.bank_accounts ?? [];
+  return accounts.find((a) => a.id === accountId) ?? accounts.find((a) => a.is_primary) ?? accounts[0] ?? null;
+};
+
+/** Bank name with its branch, as printed on the bill */
+export const bankDisplayName = (account: Pick<OrganisationBankAccount, "bank_name" | "branch">) =>
+  [account.bank_name, account.branch].filter(Boolean).join(", ");
+
+/**
+ * PDF backgrounds for a profile's letterhead. Without the header the first page uses the
+ * footer-only background as well.
+ * @param profile - Issuing profile
+ * @param includeHeader - Print the full letterhead on the first page
+ */
+export const letterheadAssets = (profile: OrganisationProfile | null, includeHeader = true) => {
+  const otherPages = profile?.letterhead_other_pages_url || "";
+  return {
+    firstPageBackground: includeHeader ? profile?.letterhead_first_page_url || otherPages : otherPages,
+    otherPagesBackground: otherPages,
+  };
+};
+
+/**
+ * Office of an insurer a bill is addressed to, matched on the claim's insurer name
+ * @param offices - All insurer offices
+ * @param insurerId - Insurer on the claim
+ * @param officeId - Office picked on the bill, if any
+ */
+export const insurerOfficeFor = (offices: InsurerOffice[], insurerId?: string | null, officeId?: string | null) => {
+  const own = offices.filter((o) => o.insurer_id === insurerId);
+  return own.find((o) => o.id === officeId) ?? own.find((o) => o.is_default) ?? own[0] ?? null;
+};
+
+/* =========================
+   Profiles
+========================= */
+
+export const listOrganisationProfiles = async (): Promise<OrganisationProfileWithAccounts[]> => {
+  const { data, error } = await supabase
+    .from("organisation_profiles")
+    .select("*, organisation_bank_accounts(*)")
+    .order("name");
+  if (error) throw error;
+
+  return (data || []).map(({ organisation_bank_accounts, ...profile }) => ({
+    ...profile,
+    bank_accounts: [...(organisation_bank_accounts || [])].sort(
+      (a, b) => Number(b.is_primary) - Number(a.is_primary) || a.created_at.localeCompare(b.created_at)
+    ),
+  }));
+};
+
+/**
+ * Create or update a profile. Making a profile the default clears the flag on the others
+ * first.
+ * @param profile - Profile values; include id to update
+ */
+export const saveOrganisationProfile = async (profile: OrganisationProfileInput) => {
+  const gstin = profile.gstin?.trim().toUpperCase() || null;
+  if (gstin) {
+    const problem = validateGstin(gstin);
+    if (problem) throw new Error(problem);
+  }
+
+  if (profile.is_default) {
+    let clear = supabase.from("organisation_profiles").update({ is_default: false }).eq("is_default", true);
+    if (profile.id) clear = clear.neq("id", profile.id);
+    const { error } = await clear;
+    if (error) throw error;
+  }
+
+  const { id, ...rest } = profile;
+  const values = { ...rest, gstin, gst_state_code: stateCodeFromGstin(gstin) };
+  const { error } = id
+    ? await supabase.from("organisation_profiles").update(values).eq("id", id)
+    : await supabase.from("organisation_profiles").insert(values);
+  if (error) throw error;
+};
+
+/**
+ * Upload a signature or letterhead image and return its public URL
+ * @param file - Image file
+ * @param folder - Folder in the bucket, usually the profile id
+ */
+export const uploadOrganisationAsset = async (file: File, folder: string) => {
+  const extension = file.name.split(".").pop() || "png";
+  const path = `${folder}/${Date.now()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(ORGANISATION_ASSETS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+  if (error) throw error;
+
+  return supabase.storage.from(ORGANISATION_ASSETS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+/* =========================
+   Bank accounts
+========================= */
+
+/**
+ * Create or update a bank account. Making an account primary clears the flag on the
+ * profile's other accounts first.
+ * @param account - Account values; include id to update
+ */
+export const saveOrganisationBankAccount = async (account: OrganisationBankAccountInput) => {
+  if (account.is_primary) {
+    let clear = supabase
+      .from("organisation_bank_accounts")
+      .update({ is_primary: false })
+      .eq("profile_id", account.profile_id)
+      .eq("is_primary", true);
+    if (account.id) clear = clear.neq("id", account.id);
+    const { error } = await clear;
+    if (error) throw error;
+  }
+
+  const { id, ...values } = account;
+  const { error } = id
+    ? await supabase.from("organisation_bank_accounts").update(values).eq("id", id)
+    : await supabase.from("organisation_bank_accounts").insert(values);
+  if (error) throw error;
+};
+
+export const deleteOrganisationBankAccount = async (id: string) => {
+  const { error } = await supabase.from("organisation_bank_accounts").delete().eq("id", id);
+  if (error) throw error;
+};
+
+/* =========================
+   Insurer offices
+========================= */
+
+export const listInsurerOffices = async (): Promise<InsurerOffice[]> => {
+  const { data, error } = await supabase.from("insurer_offices").select("*").order("office_name");
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create or update an insurer office. Making an office the default clears the flag on
+ * the insurer's other offices first.
+ * @param office - Office values; include id to update
+ */
+export const saveInsurerOffice = async (office: InsurerOfficeInput) => {
+  if (office.is_default) {
+    let clear = supabase
+      .from("insurer_offices")
+      .update({ is_default: false })
+      .eq("insurer_id", office.insurer_id)
+      .eq("is_default", true);
+    if (office.id) clear = clear.neq("id", office.id);
+    const { error } = await clear;
+    if (error) throw error;
+  }
+
+  const { id, ...values } = office;
+  const { error } = id
+    ? await supabase.from("insurer_offices").update(values).eq("id", id)
+    : await supabase.from("insurer_offices").insert(values);
+  if (error) throw error;
+};
+
+export const deleteInsurerOffice = async (id: string) => {
+  const { error } = await supabase.from("insurer_offices").delete().eq("id", id);
+  if (error) throw error;
+};
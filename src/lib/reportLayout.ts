@@ -0,0 +1,81 @@
+export interface ReportLayoutSection {
+  key: string;
+  name: string;
+  order: number;
+  visible: boolean;
+  title?: string | null;
+}
+
+/** Shape stored in report_layout_templates.layout and rebuilt from a claim's report_sections rows */
+export interface ReportLayout {
+  include_header: boolean;
+  sections: ReportLayoutSection[];
+}
+
+interface LayoutableSection {
+  id: string;
+  name: string;
+  isVisible: boolean;
+  order: number;
+  titleOverride?: string | null;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Apply a saved layout to freshly built sections.
+ * Sections are matched by key first, then by name, so a policy-type template still lines up
+ * with dynamic sections whose ids differ from claim to claim. Sections the layout does not
+ * know about keep their default visibility and go after the matched ones.
+ * @param sections - Sections built from the claim
+ * @param layout - Saved layout to apply
+ */
+export const applyReportLayout = <T extends LayoutableSection>(sections: T[], layout: ReportLayout): T[] => {
+  const byKey = new Map(layout.sections.map((s) => [s.key, s]));
+  const byName = new Map(layout.sections.map((s) => [normalizeName(s.name), s]));
+  const unmatchedOffset = layout.sections.length + 1;
+
+  return sections
+    .map((section, index) => {
+      const saved = byKey.get(section.id) ?? byName.get(normalizeName(section.name));
+      if (!saved) return { ...section, order: unmatchedOffset + index };
+      return {
+        ...section,
+        order: saved.order,
+        isVisible: saved.visible,
+        titleOverride: saved.title || null,
+      };
+    })
+    .sort((a, b) => a.order - b.order)
+    .map((section, index) => ({ ...section, order: index + 1 }));
+};
+
+/**
+ * Capture the current sections as a layout
+ * @param sections - Sections in display order
+ * @param includeHeader - First-page header toggle
+ */
+export const buildReportLayout = (sections: LayoutableSection[], includeHeader: boolean): ReportLayout => ({
+  include_header: includeHeader,
+  sections: sections.map((s, index) => ({
+    key: s.id,
+    name: s.name,
+    order: index + 1,
+    visible: s.isVisible,
+    title: s.titleOverride || null,
+  })),
+});
+
+/**
+ * Read a layout out of a Json column, tolerating missing or malformed values
+ * @param value - report_layout_templates.layout
+ */
+export const parseReportLayout = (value: unknown): ReportLayout | null => {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Partial<ReportLayout>;
+  if (!Array.isArray(raw.sections)) return null;
+  return {
+    include_header: raw.include_header !== false,
+    sections: raw.sections.filter((s) => s && typeof s.key === "string"),
+  };
+};
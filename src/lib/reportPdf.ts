@@ -0,0 +1,42 @@
+import { BackendServiceError, getBackendClient, type RenderPdfPayload } from "./backendClient";
+import { renderPdfInBrowser } from "./browserPdfRenderer";
+
+/** Per-user choice stored in profiles.pdf_renderer */
+export type PdfRendererPreference = "auto" | "remote" | "browser";
+
+export const PDF_RENDERER_OPTIONS: { value: PdfRendererPreference; label: string; description: string }[] = [
+  {
+    value: "auto",
+    label: "Automatic",
+    description: "Use the report service, and render in the browser if it is unavailable",
+  },
+  { value: "remote", label: "Report service only", description: "Always use the report service" },
+  { value: "browser", label: "In the browser", description: "Render PDFs on this device, works offline" },
+];
+
+export interface RenderedPdf {
+  blob: Blob;
+  renderer: "remote" | "browser";
+}
+
+/**
+ * Render a report payload with the user's preferred renderer
+ * @param payload - render.pdf payload
+ * @param preference - Which renderer to use; "auto" falls back to the browser when the service call fails
+ */
+export const renderReportPdf = async (
+  payload: RenderPdfPayload,
+  preference: PdfRendererPreference = "auto"
+): Promise<RenderedPdf> => {
+  if (preference === "browser") {
+    return { blob: await renderPdfInBrowser(payload), renderer: "browser" };
+  }
+
+  try {
+    return { blob: await getBackendClient().renderPdf(payload), renderer: "remote" };
+  } catch (error) {
+    if (preference === "remote" || !(error instanceof BackendServiceError)) throw error;
+    console.warn("[reportPdf] Report service failed, rendering in browser:", error.message);
+    return { blob: await renderPdfInBrowser(payload), renderer: "browser" };
+  }
+};
@@ -0,0 +1,209 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { checkClaimDocumentsComplete } from "./documentChecklist";
+import { ReportLayout, parseReportLayout } from "./reportLayout";
+
+export const ISSUED_REPORTS_BUCKET = "issued-reports";
+
+export type ReportStage = "preliminary" | "interim" | "final";
+
+export const REPORT_STAGES: { value: ReportStage; label: string }[] = [
+  { value: "preliminary", label: "Preliminary" },
+  { value: "interim", label: "Interim" },
+  { value: "final", label: "Final" },
+];
+
+export const reportStageLabel = (stage: string) =>
+  REPORT_STAGES.find((s) => s.value === stage)?.label ?? stage;
+
+export interface ReportVersion {
+  id: string;
+  claim_id: string;
+  version_number: number;
+  stage: ReportStage;
+  form_data: Record<string, unknown>;
+  layout: ReportLayout | null;
+  pdf_path: string;
+  pdf_size: number | null;
+  renderer: string | null;
+  notes: string | null;
+  issued_by: string | null;
+  issued_at: string;
+}
+
+export interface FieldChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+  kind: "added" | "removed" | "changed";
+}
+
+export interface ReportVersionDiff {
+  fields: FieldChange[];
+  layout: string[];
+}
+
+// Section structure is compared through the layout; images are compared by count
+const IGNORED_KEYS = new Set(["dynamic_sections_metadata"]);
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+
+const normalize = (value: unknown) => (isEmpty(value) ? null : JSON.stringify(value));
+
+/**
+ * List issued versions for a claim, newest first
+ * @param claimId - Claim ID
+ */
+export const listReportVersions = async (claimId: string): Promise<ReportVersion[]> => {
+  const { data, error } = await supabase
+    .from("report_versions")
+    .select("*")
+    .eq("claim_id", claimId)
+    .order("version_number", { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    ...row,
+    stage: row.stage as ReportStage,
+    form_data: (row.form_data ?? {}) as Record<string, unknown>,
+    layout: parseReportLayout(row.layout),
+  }));
+};
+
+/**
+ * Store the rendered PDF and record the version. The PDF is uploaded first and removed
+ * again if the row cannot be written, so there are no versions without a file. A final
+ * report is refused before anything is uploaded while mandatory documents are outstanding.
+ * @param claimId - Claim ID
+ * @param options - Stage, frozen form data and layout, rendered PDF and optional notes
+ */
+export const issueReportVersion = async (
+  claimId: string,
+  options: {
+    stage: ReportStage;
+    formData: Record<string, unknown>;
+    layout: ReportLayout;
+    pdf: Blob;
+    renderer: string;
+    notes?: string;
+  }
+): Promise<ReportVersion> => {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+
+  if (options.stage === "final") {
+    const blocked = await checkClaimDocumentsComplete(claimId);
+    if (blocked) throw new Error(blocked);
+  }
+
+  const pdfPath = `${claimId}/${Date.now()}-${options.stage}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(ISSUED_REPORTS_BUCKET)
+    .upload(pdfPath, options.pdf, { contentType: "application/pdf", upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("report_versions")
+    .insert({
+      claim_id: claimId,
+      stage: options.stage,
+      form_data: options.formData as Json,
+      layout: options.layout as unknown as Json,
+      pdf_path: pdfPath,
+      pdf_size: options.pdf.size,
+      renderer: options.renderer,
+      notes: options.notes || null,
+      issued_by: userData.user?.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Storage reports a refused delete as an empty result rather than an error
+    const { data: removed, error: removeError } = await supabase.storage
+      .from(ISSUED_REPORTS_BUCKET)
+      .remove([pdfPath]);
+    if (removeError || !removed?.length) {
+      console.error("[issueReportVersion] Failed to remove orphaned PDF:", pdfPath, removeError);
+    }
+    throw error;
+  }
+
+  return {
+    ...data,
+    stage: data.stage as ReportStage,
+    form_data: options.formData,
+    layout: options.layout,
+  };
+};
+
+/**
+ * Short-lived download link for an issued PDF
+ * @param version - Issued version
+ */
+export const getReportVersionUrl = async (version: ReportVersion): Promise<string> => {
+  const fileName = `report-v${version.version_number}-${version.stage}.pdf`;
+  const { data, error } = await supabase.storage
+    .from(ISSUED_REPORTS_BUCKET)
+    .createSignedUrl(version.pdf_path, 60, { download: fileName });
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/**
+ * Compare two issued versions: form fields that changed, and section order/visibility/title changes
+ * @param from - Older version
+ * @param to - Newer version
+ */
+export const diffReportVersions = (from: ReportVersion, to: ReportVersion): ReportVersionDiff => {
+  const keys = new Set([...Object.keys(from.form_data), ...Object.keys(to.form_data)]);
+  const fields: FieldChange[] = [];
+
+  [...keys]
+    .filter((key) => !IGNORED_KEYS.has(key))
+    .sort()
+    .forEach((key) => {
+      const before = from.form_data[key];
+      const after = to.form_data[key];
+      if (normalize(before) === normalize(after)) return;
+      fields.push({
+        key,
+        before,
+        after,
+        kind: isEmpty(before) ? "added" : isEmpty(after) ? "removed" : "changed",
+      });
+    });
+
+  const layout: string[] = [];
+  const fromSections = new Map((from.layout?.sections ?? []).map((s) => [s.key, s]));
+  const toSections = to.layout?.sections ?? [];
+
+  if (from.layout && to.layout && from.layout.include_header !== to.layout.include_header) {
+    layout.push(`First-page header ${to.layout.include_header ? "added" : "removed"}`);
+  }
+
+  toSections.forEach((section) => {
+    const title = section.title || section.name;
+    const previous = fromSections.get(section.key);
+    if (!previous) {
+      layout.push(`Section "${title}" added`);
+      return;
+    }
+    if (previous.visible !== section.visible) {
+      layout.push(`Section "${title}" ${section.visible ? "shown" : "hidden"}`);
+    }
+    if ((previous.title || previous.name) !== title) {
+      layout.push(`Section "${previous.title || previous.name}" renamed to "${title}"`);
+    }
+    if (previous.order !== section.order) {
+      layout.push(`Section "${title}" moved from position ${previous.order} to ${section.order}`);
+    }
+    fromSections.delete(section.key);
+  });
+
+  fromSections.forEach((section) => layout.push(`Section "${section.title || section.name}" removed`));
+
+  return { fields, layout };
+};
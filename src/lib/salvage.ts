@@ -0,0 +1,148 @@
+import type { ReportComponent } from "@/lib/backendClient";
+
+/* =========================
+   Types
+========================= */
+
+export type SalvageLossType = "partial" | "total";
+
+export const SALVAGE_LOSS_TYPE_LABELS: Record<SalvageLossType, string> = {
+  partial: "Partial loss (replaced parts)",
+  total: "Total loss (whole vehicle)",
+};
+
+export type SalvageItem = {
+  description: string;
+  quantity: number;
+  /** Surveyor's estimate of what the item will fetch */
+  estimated_value: number;
+};
+
+export type SalvageBid = {
+  id: string;
+  bidder_name: string;
+  bidder_contact: string;
+  bid_date: string;
+  amount: number;
+  remarks: string;
+};
+
+export type SalvageDocument = {
+  name: string;
+  url: string;
+};
+
+export type SalvageSale = {
+  sale_date: string;
+  amount_received: number;
+  /** Receipt number or UTR of the payment */
+  receipt_no: string;
+  documents: SalvageDocument[];
+};
+
+/** Stored at form_data.assessment.salvage */
+export type SalvageRecord = {
+  loss_type: SalvageLossType;
+  items: SalvageItem[];
+  bids: SalvageBid[];
+  accepted_bid_id: string | null;
+  sale: SalvageSale;
+};
+
+export const EMPTY_SALVAGE: SalvageRecord = {
+  loss_type: "partial",
+  items: [],
+  bids: [],
+  accepted_bid_id: null,
+  sale: { sale_date: "", amount_received: 0, receipt_no: "", documents: [] },
+};
+
+export const EMPTY_SALVAGE_ITEM: SalvageItem = { description: "", quantity: 1, estimated_value: 0 };
+
+export const newSalvageBid = (): SalvageBid => ({
+  id: crypto.randomUUID(),
+  bidder_name: "",
+  bidder_contact: "",
+  bid_date: new Date().toISOString().slice(0, 10),
+  amount: 0,
+  remarks: "",
+});
+
+/* =========================
+   Helpers
+========================= */
+
+/** The bid the salvage is sold on, if one has been accepted */
+export const acceptedSalvageBid = (salvage: SalvageRecord | null | undefined) =>
+  salvage?.bids?.find((b) => b.id === salvage.accepted_bid_id) ?? null;
+
+/** Bids from highest to lowest */
+export const rankSalvageBids = (bids: SalvageBid[]) =>
+  [...bids].sort((a, b) => (Number(b.amount) || 0) - (Number(a.amount) || 0));
+
+export const salvageEstimateTotal = (salvage: SalvageRecord | null | undefined) =>
+  (salvage?.items ?? []).reduce((a, item) => a + (Number(item.estimated_value) || 0), 0);
+
+const amount = (n: number) =>
+  (Number(n) || 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Bid comparison blocks for the render.pdf payload: the salvage items, every bid from
+ * highest to lowest with the accepted one marked, and the sale. Empty without bids.
+ * @param salvage - form_data.assessment.salvage
+ */
+export const buildSalvageReportComponents = (salvage: SalvageRecord | null | undefined): ReportComponent[] => {
+  if (!salvage?.bids?.length) return [];
+  const accepted = acceptedSalvageBid(salvage);
+  const components: ReportComponent[] = [
+    { type: "para", props: { text: `Loss type: ${SALVAGE_LOSS_TYPE_LABELS[salvage.loss_type]}` } },
+  ];
+
+  if (salvage.items.length > 0) {
+    components.push({
+      type: "table",
+      props: {
+        title: "Salvage items",
+        headers: ["Sl.", "Item", "Qty", "Estimated value"],
+        rows: salvage.items.map((item, i) => [
+          String(i + 1),
+          item.description,
+          String(item.quantity),
+          amount(item.estimated_value),
+        ]),
+      },
+    });
+  }
+
+  components.push({
+    type: "table",
+    props: {
+      title: "Bids received",
+      headers: ["Rank", "Bidder", "Date", "Amount", "Remarks"],
+      rows: rankSalvageBids(salvage.bids).map((bid, i) => [
+        String(i + 1),
+        bid.id === accepted?.id ? `${bid.bidder_name} (accepted)` : bid.bidder_name,
+        bid.bid_date,
+        amount(bid.amount),
+        bid.remarks,
+      ]),
+    },
+  });
+
+  if (accepted) {
+    const sale = salvage.sale;
+    components.push({
+      type: "para",
+      props: {
+        text:
+          `The salvage is disposed of to ${accepted.bidder_name} for Rs. ${amount(accepted.amount)}, ` +
+          `which is deducted from the assessed loss.` +
+          (sale.amount_received
+            ? ` Rs. ${amount(sale.amount_received)} received${sale.sale_date ? ` on ${sale.sale_date}` : ""}` +
+              `${sale.receipt_no ? ` (ref. ${sale.receipt_no})` : ""}.`
+            : ""),
+      },
+    });
+  }
+  return components;
+};
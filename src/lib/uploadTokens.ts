@@ -1,214 +1,291 @@
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type UploadToken = Tables<"upload_tokens">;
+export type UploadTokenKind = "single" | "batch";
+export type UploadTokenStatus = "active" | "expired" | "revoked" | "exhausted";
 
 export interface UploadTokenData {
   token: string;
+  tokenId: string;
   claimId: string;
   fieldLabel: string;
   expiresAt: Date;
   uploadUrl: string;
 }
 
+interface CreateUploadTokenOptions {
+  claimId: string;
+  kind: UploadTokenKind;
+  expiresAt: Date;
+  fieldLabel?: string;
+  label?: string;
+  maxUploads?: number | null;
+}
+
 /**
- * Generate a shareable upload token for external users
- * @param claimId - The claim ID
- * @param fieldLabel - Document type label (e.g., "Invoice", "Bill of Entry")
- * @param expiryDays - Number of days until token expires (default: 7)
+ * SHA-256 hex digest of a plain token. Matches encode(digest(token, 'sha256'), 'hex') in Postgres.
+ * @param token - The plain upload token
  */
-export const generateUploadToken = async (
-  claimId: string,
-  fieldLabel: string,
-  expiryDays: number = 7
-): Promise<UploadTokenData> => {
-  const token = crypto.randomUUID();
-  const expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000);
+export const hashUploadToken = async (token: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(token);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Build the public URL for a plain token
+ * @param token - The plain upload token
+ */
+export const buildUploadUrl = (token: string) =>
+  `${window.location.origin}/public-upload?token=${token}`;
 
-  // Get current user
+/**
+ * Derive the lifecycle state of a stored token
+ * @param token - upload_tokens row
+ */
+export const getUploadTokenStatus = (token: UploadToken): UploadTokenStatus => {
+  if (token.revoked_at) return "revoked";
+  if (new Date(token.expires_at) < new Date()) return "expired";
+  if (token.max_uploads !== null && token.upload_count >= token.max_uploads) return "exhausted";
+  return "active";
+};
+
+const createUploadToken = async ({
+  claimId,
+  kind,
+  expiresAt,
+  fieldLabel,
+  label,
+  maxUploads = null,
+}: CreateUploadTokenOptions): Promise<UploadTokenData> => {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error("User not authenticated");
 
-  // Create a placeholder record with the token
-  // This will be used to validate uploads later
-  const { error } = await supabase
-    .from("claim_documents")
+  const token = crypto.randomUUID();
+  const tokenHash = await hashUploadToken(token);
+
+  // Only the hash is persisted - the plain token is handed back once, inside the URL
+  const { data, error } = await supabase
+    .from("upload_tokens")
     .insert({
       claim_id: claimId,
-      file_name: `__TOKEN_PLACEHOLDER_${token}__`,
-      file_path: `__TOKEN_PLACEHOLDER_${token}__`,
-      file_type: "application/token-placeholder",
-      file_size: 0,
-      uploaded_by: user.id,
-      field_label: fieldLabel,
-      upload_token: token,
-      token_expires_at: expiresAt.toISOString(),
-      uploaded_via_link: false, // This is just the token record
-      is_selected: false,
-    });
+      token_hash: tokenHash,
+      token_prefix: token.slice(0, 8),
+      kind,
+      label: label || fieldLabel || null,
+      field_label: fieldLabel || null,
+      max_uploads: maxUploads,
+      expires_at: expiresAt.toISOString(),
+      created_by: user.id,
+    })
+    .select("id")
+    .single();
 
   if (error) throw error;
 
-  const uploadUrl = `${window.location.origin}/public-upload?token=${token}`;
-
   return {
     token,
+    tokenId: data.id,
     claimId,
-    fieldLabel,
+    fieldLabel: fieldLabel || "Batch Upload",
     expiresAt,
-    uploadUrl,
+    uploadUrl: buildUploadUrl(token),
   };
 };
 
 /**
- * Validate an upload token
- * @param token - The upload token to validate
- * @returns Token data if valid, null if invalid or expired
+ * Generate a shareable upload token for external users
+ * @param claimId - The claim ID
+ * @param fieldLabel - Document type label (e.g., "Invoice", "Bill of Entry")
+ * @param expiryDays - Number of days until token expires (default: 7)
+ * @param maxUploads - Optional cap on the number of files accepted through the link
  */
-export const validateUploadToken = async (token: string) => {
-  if (!token) return null;
-
-  const { data, error } = await supabase
-    .from("claim_documents")
-    .select("claim_id, field_label, token_expires_at")
-    .eq("upload_token", token)
-    .like("file_name", "__TOKEN_PLACEHOLDER_%")
-    .single();
-
-  if (error || !data) {
-    console.error("Token validation error:", error);
-    return null;
-  }
-
-  // Check if token is expired
-  const expiresAt = new Date(data.token_expires_at!);
-  if (expiresAt < new Date()) {
-    console.log("Token expired");
-    return null;
-  }
-
-  return {
-    claimId: data.claim_id,
-    fieldLabel: data.field_label,
-  };
+export const generateUploadToken = async (
+  claimId: string,
+  fieldLabel: string,
+  expiryDays: number = 7,
+  maxUploads: number | null = null
+): Promise<UploadTokenData> => {
+  return createUploadToken({
+    claimId,
+    kind: "single",
+    fieldLabel,
+    maxUploads,
+    expiresAt: new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000),
+  });
 };
+
 /**
  * Generate a batch upload token for multiple documents
+ * @param claimId - The claim ID
+ * @param expiryHours - Number of hours until token expires (default: 168)
+ * @param options - Optional display label and upload cap
  */
 export const generateBatchUploadToken = async (
   claimId: string,
-  expiryHours: number = 168
+  expiryHours: number = 168,
+  options: { label?: string; maxUploads?: number | null } = {}
 ): Promise<UploadTokenData> => {
-  const token = crypto.randomUUID();
-  const expiresAt = new Date(Date.now() + expiryHours * 60 * 60 * 1000);
+  return createUploadToken({
+    claimId,
+    kind: "batch",
+    label: options.label,
+    maxUploads: options.maxUploads ?? null,
+    expiresAt: new Date(Date.now() + expiryHours * 60 * 60 * 1000),
+  });
+};
 
+/**
+ * List every upload token created for a claim, newest first
+ * @param claimId - The claim ID
+ */
+export const listUploadTokens = async (claimId: string): Promise<UploadToken[]> => {
+  const { data, error } = await supabase
+    .from("upload_tokens")
+    .select("*")
+    .eq("claim_id", claimId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Revoke a token so the link stops accepting uploads immediately
+ * @param tokenId - upload_tokens row ID
+ */
+export const revokeUploadToken = async (tokenId: string) => {
   const { data: { user } } = await supabase.auth.getUser();
-  if (!user) throw new Error("User not authenticated");
 
   const { error } = await supabase
-    .from("claim_documents")
-    .insert({
-      claim_id: claimId,
-      file_name: `__BATCH_TOKEN_${token}__`,
-      file_path: `__BATCH_TOKEN_${token}__`,
-      file_type: "application/batch-token",
-      file_size: 0,
-      uploaded_by: user.id,
-      field_label: "Batch Upload",
-      upload_token: token,
-      token_expires_at: expiresAt.toISOString(),
-      uploaded_via_link: false,
-      is_selected: false,
-    });
+    .from("upload_tokens")
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_by: user?.id ?? null,
+    })
+    .eq("id", tokenId);
 
   if (error) throw error;
-
-  const uploadUrl = `${window.location.origin}/public-upload?token=${token}`;
-
-  return {
-    token,
-    claimId,
-    fieldLabel: "Batch Upload",
-    expiresAt,
-    uploadUrl,
-  };
 };
 
 /**
- * Validate batch upload token (also checks for batch tokens)
+ * Push a token's expiry out. Expired tokens are extended from now, live ones from their current expiry.
+ * @param tokenId - upload_tokens row ID
+ * @param extraHours - Hours to add (default: 168)
  */
-export const validateBatchUploadToken = async (token: string) => {
-  if (!token) return null;
-
-  const { data, error } = await supabase
-    .from("claim_documents")
-    .select("claim_id, field_label, token_expires_at")
-    .eq("upload_token", token)
-    .or(`file_name.like.__TOKEN_PLACEHOLDER_%,file_name.like.__BATCH_TOKEN_%`)
+export const extendUploadToken = async (tokenId: string, extraHours: number = 168) => {
+  const { data: current, error: fetchError } = await supabase
+    .from("upload_tokens")
+    .select("expires_at")
+    .eq("id", tokenId)
     .single();
 
-  if (error || !data) {
-    console.error("Token validation error:", error);
-    return null;
+  if (fetchError) throw fetchError;
+
+  const base = Math.max(Date.now(), new Date(current.expires_at).getTime());
+  const expiresAt = new Date(base + extraHours * 60 * 60 * 1000);
+
+  const { error } = await supabase
+    .from("upload_tokens")
+    .update({ expires_at: expiresAt.toISOString() })
+    .eq("id", tokenId);
+
+  if (error) throw error;
+  return expiresAt;
+};
+
+export type PublicUploadErrorCode =
+  | "bad_request"
+  | "invalid_token"
+  | "expired"
+  | "revoked"
+  | "quota_exceeded"
+  | "bad_type"
+  | "too_large"
+  | "server_error";
+
+export class PublicUploadError extends Error {
+  code: PublicUploadErrorCode;
+
+  constructor(code: PublicUploadErrorCode, message: string) {
+    super(message);
+    this.name = "PublicUploadError";
+    this.code = code;
   }
+}
 
-  const expiresAt = new Date(data.token_expires_at!);
-  if (expiresAt < new Date()) {
-    console.log("Token expired");
-    return null;
+export interface UploadRequirement {
+  label: string;
+  allowed_types: string[];
+  max_size_mb: number;
+}
+
+export interface UploadTokenInfo {
+  kind: UploadTokenKind;
+  field_label: string | null;
+  expires_at: string;
+  remaining_uploads: number | null;
+  requirements: UploadRequirement[];
+  default_rule: Omit<UploadRequirement, "label">;
+}
+
+// Turn a non-2xx edge function response into a PublicUploadError carrying the server's code
+const toPublicUploadError = async (error: unknown): Promise<PublicUploadError> => {
+  const response = (error as { context?: Response })?.context;
+  if (response && typeof response.json === "function") {
+    try {
+      const body = await response.json();
+      return new PublicUploadError(body.code || "server_error", body.error || "Upload failed");
+    } catch {
+      // fall through to the generic error below
+    }
   }
+  return new PublicUploadError("server_error", (error as Error)?.message || "Upload failed");
+};
 
-  return {
-    claimId: data.claim_id,
-    fieldLabel: data.field_label,
-  };
+/**
+ * Describe a public upload link: kind, remaining uploads and the document requirements it accepts
+ * @param token - The plain upload token from the URL
+ * @throws PublicUploadError with code invalid_token, expired, revoked or quota_exceeded
+ */
+export const inspectUploadToken = async (token: string): Promise<UploadTokenInfo> => {
+  const { data, error } = await supabase.functions.invoke("public-upload", {
+    body: { action: "inspect", token },
+  });
+
+  if (error) throw await toPublicUploadError(error);
+  return data as UploadTokenInfo;
 };
 
 /**
- * Save uploaded document metadata to database
+ * Upload one file through a public link via the public-upload edge function
+ * @param token - The plain upload token from the URL
+ * @param file - File to upload
+ * @param uploaderName - Name entered by the external uploader
+ * @param documentLabel - Requirement the file is meant for (batch links only)
+ * @throws PublicUploadError with a code describing why the upload was refused
  */
-export const saveUploadedDocument = async (
-  claimId: string,
-  fileName: string,
-  fileUrl: string,
-  fileSize: number,
+export const uploadWithToken = async (
+  token: string,
+  file: File,
   uploaderName: string,
-  token: string
+  documentLabel?: string | null
 ) => {
-  // Get the user who created the token (admin user)
-  const { data: tokenData, error: tokenError } = await supabase
-    .from("claim_documents")
-    .select("uploaded_by")
-    .eq("upload_token", token)
-    .or("file_name.like.__BATCH_TOKEN_%,file_name.like.__TOKEN_PLACEHOLDER_%") // Check both types
-    .maybeSingle(); // Use maybeSingle() instead of single()
-
-  if (tokenError) {
-    console.warn("Could not fetch token data:", tokenError);
-  }
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("token", token);
+  formData.append("uploader_name", uploaderName);
+  if (documentLabel) formData.append("document_label", documentLabel);
 
-  const { error } = await supabase
-    .from("claim_documents")
-    .insert({
-      claim_id: claimId,
-      file_name: fileName,
-      file_path: fileUrl,
-      file_type: fileName.split('.').pop() || 'unknown',
-      file_size: fileSize,
-      uploaded_by: tokenData?.uploaded_by || null,
-      upload_token: null,
-      uploaded_via_link: true,
-      is_selected: false,
-      field_label: `Uploaded by: ${uploaderName}`,
-      metadata: {
-        uploader_name: uploaderName,
-        upload_date: new Date().toISOString(),
-        upload_source: 'public_link',
-        upload_token_used: token
-      }
-    } as any);
-
-  if (error) {
-    console.error("Error saving document:", error);
-    throw error;
-  }
+  const { data, error } = await supabase.functions.invoke("public-upload", {
+    body: formData,
+  });
+
+  if (error) throw await toPublicUploadError(error);
+  return data as { success: boolean; document: Tables<"claim_documents"> };
 };
 
 /**
@@ -219,7 +296,7 @@ export const getDocumentPublicUrl = async (filePath: string): Promise<string> =>
   const { data, error } = await supabase.storage
     .from("claim-documents")
     .createSignedUrl(filePath, 3600); // URL valid for 1 hour
-  
+
   if (error) throw error;
   return data.signedUrl;
-};
\ No newline at end of file
+};
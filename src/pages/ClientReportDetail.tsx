@@ -166,6 +166,7 @@ export const ClientReportDetail = () => {
             {/* Bill of Entry Upload */}
             <SelectiveDocumentExtractor
               claimId={report.id}
+              currentData={report.form_data}
               policyTypeId={report.company_id}
               documentLabel="Bill of Entry"
               documentTitle="Bill of Entry"
@@ -177,6 +178,7 @@ export const ClientReportDetail = () => {
             {/* Policy Document Upload */}
             <SelectiveDocumentExtractor
               claimId={report.id}
+              currentData={report.form_data}
               policyTypeId={report.company_id}
               documentLabel="Policy Document"
               documentTitle="Policy Document"
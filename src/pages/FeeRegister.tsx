@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Loader2, Plus, Receipt, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useFeeInvoices } from "@/hooks/useFeeInvoices";
+import {
+  FeeInvoice,
+  FeeInvoicePaymentStatus,
+  PAYMENT_STATUS_CLASSNAMES,
+  PAYMENT_STATUS_LABELS,
+  financialYearOf,
+} from "@/lib/feeInvoices";
+import { outstandingOf } from "@/lib/feePayments";
+import { RecordFeePaymentDialog } from "@/components/claims/RecordFeePaymentDialog";
+
+const ALL_YEARS = "all";
+
+const formatAmount = (amount: number) =>
+  `₹ ${Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Fee-bill register: every invoice issued from a finalized fee bill, by financial year
+ */
+export const FeeRegister = () => {
+  const navigate = useNavigate();
+  const [financialYear, setFinancialYear] = useState(financialYearOf(new Date()));
+  const [search, setSearch] = useState("");
+  const { data: invoices = [], isLoading } = useFeeInvoices(financialYear === ALL_YEARS ? undefined : financialYear);
+  const [recordingFor, setRecordingFor] = useState<FeeInvoice | null>(null);
+
+  // Current year plus the four before it
+  const years = useMemo(() => {
+    const start = Number(financialYearOf(new Date()).slice(0, 4));
+    return Array.from({ length: 5 }, (_, i) => financialYearOf(new Date(start - i, 3, 1)));
+  }, []);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return invoices;
+    return invoices.filter((invoice) =>
+      [invoice.invoice_number, invoice.claim_number, invoice.insurer_name, invoice.insured_name]
+        .some((value) => value?.toLowerCase().includes(term))
+    );
+  }, [invoices, search]);
+
+  const totals = useMemo(
+    () =>
+      filtered.reduce(
+        (acc, invoice) => ({
+          taxable: acc.taxable + Number(invoice.taxable_value),
+          tax: acc.tax + Number(invoice.tax_amount),
+          total: acc.total + Number(invoice.total_amount),
+          unpaid: acc.unpaid + outstandingOf(invoice),
+        }),
+        { taxable: 0, tax: 0, total: 0, unpaid: 0 }
+      ),
+    [filtered]
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Invoices</p>
+            <p className="text-2xl font-bold">{filtered.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Fees billed</p>
+            <p className="text-2xl font-bold">{formatAmount(totals.taxable)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">GST</p>
+            <p className="text-2xl font-bold">{formatAmount(totals.tax)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Not yet paid</p>
+            <p className="text-2xl font-bold text-red-700">{formatAmount(totals.unpaid)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="w-5 h-5" />
+            Fee-Bill Register
+          </CardTitle>
+          <div className="flex items-center gap-3">
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Invoice, claim, insurer..."
+                className="pl-9 w-64"
+              />
+            </div>
+            <Select value={financialYear} onValueChange={setFinancialYear}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map((year) => (
+                  <SelectItem key={year} value={year}>
+                    FY {year}
+                  </SelectItem>
+                ))}
+                <SelectItem value={ALL_YEARS}>All years</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No invoices issued in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice No.</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Claim</TableHead>
+                  <TableHead>Insurer</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead className="text-right">GST</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead>Payment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map((invoice) => (
+                  <TableRow key={invoice.id}>
+                    <TableCell className="font-mono">
+                      {invoice.invoice_number}
+                      {invoice.gst_invoice && (
+                        <Badge variant="outline" className="ml-2">
+                          GST
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{format(new Date(invoice.invoice_date), "dd MMM yyyy")}</TableCell>
+                    <TableCell>
+                      <button
+                        className="text-primary hover:underline text-left"
+                        onClick={() => navigate(`/claims/${invoice.claim_id}`)}
+                      >
+                        {invoice.claim_number}
+                      </button>
+                      {invoice.insured_name && (
+                        <div className="text-xs text-muted-foreground">{invoice.insured_name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{invoice.insurer_name || "-"}</TableCell>
+                    <TableCell className="text-right">{formatAmount(invoice.taxable_value)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(invoice.tax_amount)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatAmount(invoice.total_amount)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(outstandingOf(invoice))}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge className={PAYMENT_STATUS_CLASSNAMES[invoice.payment_status as FeeInvoicePaymentStatus]}>
+                          {PAYMENT_STATUS_LABELS[invoice.payment_status as FeeInvoicePaymentStatus] ?? invoice.payment_status}
+                        </Badge>
+                        {invoice.payment_status !== "paid" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Record payment"
+                            onClick={() => setRecordingFor(invoice)}
+                          >
+                            <Plus className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {recordingFor && (
+        <RecordFeePaymentDialog
+          invoice={recordingFor}
+          open={!!recordingFor}
+          onOpenChange={(open) => !open && setRecordingFor(null)}
+        />
+      )}
+    </div>
+  );
+};
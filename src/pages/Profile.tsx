@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Mail, 
   Phone, 
@@ -16,12 +17,15 @@ import {
   Target,
   Award,
   Activity,
-  Loader2
+  Loader2,
+  FileText
 } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
+import { usePdfRendererPreference, useUpdatePdfRendererPreference } from "@/hooks/usePdfRenderer";
+import { PDF_RENDERER_OPTIONS, PdfRendererPreference } from "@/lib/reportPdf";
 
 interface ProfileData {
   first_name: string | null;
@@ -70,6 +74,9 @@ export const Profile = () => {
     enabled: !!user?.id,
   });
 
+  const { data: pdfRenderer = "auto" } = usePdfRendererPreference();
+  const updatePdfRenderer = useUpdatePdfRendererPreference();
+
   // Fetch claims count for stats
   const { data: claimsStats, isLoading: statsLoading } = useQuery({
     queryKey: ['claims-stats', user?.id],
@@ -391,6 +398,37 @@ export const Profile = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="w-5 h-5 text-blue-600" />
+                Report PDFs
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="pdfRenderer">Generate PDFs using</Label>
+              <Select
+                value={pdfRenderer}
+                onValueChange={(value) => updatePdfRenderer.mutate(value as PdfRendererPreference)}
+                disabled={updatePdfRenderer.isPending}
+              >
+                <SelectTrigger id="pdfRenderer" className="max-w-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PDF_RENDERER_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">
+                {PDF_RENDERER_OPTIONS.find((option) => option.value === pdfRenderer)?.description}
+              </p>
+            </CardContent>
+          </Card>
         </div>
       </div>
 
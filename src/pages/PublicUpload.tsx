@@ -4,24 +4,53 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Upload, FileText, CheckCircle, XCircle, Loader2, Trash2 } from "lucide-react";
-import { validateBatchUploadToken, saveUploadedDocument } from "@/lib/uploadTokens";
-import { uploadDocument } from "@/lib/uploadDocument";
+import {
+  PublicUploadError,
+  PublicUploadErrorCode,
+  UploadTokenInfo,
+  inspectUploadToken,
+  uploadWithToken,
+} from "@/lib/uploadTokens";
+import { acceptForMimeTypes } from "@/lib/documentRules";
 import { toast } from "sonner";
 
 interface UploadedFile {
   file: File;
   status: 'pending' | 'uploading' | 'success' | 'error';
-  url?: string;
+  documentLabel?: string;
   error?: string;
 }
 
+const MAX_FILES = 10;
+const OTHER_DOCUMENT = "__other__";
+
+const linkErrorMessages: Partial<Record<PublicUploadErrorCode, { title: string; description: string }>> = {
+  expired: {
+    title: "Link Expired",
+    description: "This upload link has expired. Please ask the sender for a new link.",
+  },
+  revoked: {
+    title: "Link Revoked",
+    description: "This upload link has been revoked by the sender and can no longer be used.",
+  },
+  quota_exceeded: {
+    title: "Upload Limit Reached",
+    description: "This link has already received the maximum number of uploads. Please contact the sender.",
+  },
+};
+
+// Codes that mean the link itself is no longer usable, as opposed to a problem with one file
+const LINK_ERROR_CODES: PublicUploadErrorCode[] = ["invalid_token", "expired", "revoked", "quota_exceeded"];
+
 export const PublicUpload = () => {
   const [searchParams] = useSearchParams();
   const token = searchParams.get("token");
 
   const [tokenValid, setTokenValid] = useState<boolean | null>(null);
-  const [claimId, setClaimId] = useState<string>("");
+  const [tokenInfo, setTokenInfo] = useState<UploadTokenInfo | null>(null);
+  const [linkError, setLinkError] = useState<PublicUploadErrorCode | null>(null);
   const [uploaderName, setUploaderName] = useState("");
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
@@ -33,11 +62,13 @@ export const PublicUpload = () => {
         return;
       }
 
-      const result = await validateBatchUploadToken(token);
-      if (result) {
+      try {
+        const info = await inspectUploadToken(token);
+        setTokenInfo(info);
         setTokenValid(true);
-        setClaimId(result.claimId);
-      } else {
+      } catch (error) {
+        console.error("Token check failed:", error);
+        setLinkError(error instanceof PublicUploadError ? error.code : "invalid_token");
         setTokenValid(false);
       }
     };
@@ -45,11 +76,20 @@ export const PublicUpload = () => {
     checkToken();
   }, [token]);
 
+  const isBatch = tokenInfo?.kind === "batch";
+  const maxFiles = Math.min(MAX_FILES, tokenInfo?.remaining_uploads ?? MAX_FILES);
+  const acceptedTypes = tokenInfo
+    ? acceptForMimeTypes([
+        ...tokenInfo.default_rule.allowed_types,
+        ...tokenInfo.requirements.flatMap((r) => r.allowed_types),
+      ])
+    : undefined;
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
     
-    if (files.length + selectedFiles.length > 10) {
-      toast.error("Maximum 10 files allowed");
+    if (files.length + selectedFiles.length > maxFiles) {
+      toast.error(`Maximum ${maxFiles} files allowed`);
       return;
     }
 
@@ -61,6 +101,12 @@ export const PublicUpload = () => {
     setFiles(prev => [...prev, ...newFiles]);
   };
 
+  const setFileDocumentLabel = (index: number, label: string) => {
+    setFiles(prev => prev.map((f, idx) =>
+      idx === index ? { ...f, documentLabel: label === OTHER_DOCUMENT ? undefined : label } : f
+    ));
+  };
+
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -77,6 +123,7 @@ export const PublicUpload = () => {
   }
 
   setIsUploading(true);
+  let successCount = 0;
 
   for (let i = 0; i < files.length; i++) {
     const fileData = files[i];
@@ -90,27 +137,11 @@ export const PublicUpload = () => {
     try {
       console.log(`Uploading file ${i + 1}/${files.length}:`, fileData.file.name);
 
-      // CHANGED: Removed token parameter
-      const result = await uploadDocument(
-        fileData.file,
-        claimId,
-        uploaderName
-      );
-
-      console.log("Upload result:", result);
-
-      // Save to database with the AWS S3 URL
-      await saveUploadedDocument(
-        claimId,
-        fileData.file.name,
-        result.url, // CHANGED: use result.url instead of result.fileUrl
-        fileData.file.size,
-        uploaderName,
-        token!
-      );
+      await uploadWithToken(token!, fileData.file, uploaderName.trim(), fileData.documentLabel);
+      successCount++;
 
       setFiles(prev => prev.map((f, idx) => 
-        idx === i ? { ...f, status: 'success' as const, url: result.url } : f
+        idx === i ? { ...f, status: 'success' as const, error: undefined } : f
       ));
 
       toast.success(`${fileData.file.name} uploaded successfully`);
@@ -125,15 +156,25 @@ export const PublicUpload = () => {
         } : f
       ));
 
+      // The link stopped working mid-batch - no point trying the remaining files
+      if (error instanceof PublicUploadError && LINK_ERROR_CODES.includes(error.code)) {
+        toast.error(error.message);
+        if (error.code !== "quota_exceeded") {
+          setLinkError(error.code);
+          setTokenValid(false);
+        }
+        break;
+      }
+
       toast.error(`Failed to upload ${fileData.file.name}`);
     }
   }
 
   setIsUploading(false);
   
-  const successCount = files.filter(f => f.status === 'success').length;
-  if (successCount === files.length) {
-    toast.success(`All ${successCount} files uploaded successfully!`);
+  const alreadyUploaded = files.filter(f => f.status === 'success').length;
+  if (successCount > 0 && successCount + alreadyUploaded === files.length) {
+    toast.success(`All ${files.length} files uploaded successfully!`);
   }
 };
 
@@ -152,9 +193,12 @@ export const PublicUpload = () => {
         <Card className="max-w-md w-full">
           <CardContent className="p-8 text-center">
             <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
-            <h1 className="text-2xl font-bold text-gray-800 mb-2">Invalid or Expired Link</h1>
+            <h1 className="text-2xl font-bold text-gray-800 mb-2">
+              {(linkError && linkErrorMessages[linkError]?.title) || "Invalid or Expired Link"}
+            </h1>
             <p className="text-gray-600">
-              This upload link is invalid or has expired. Please contact the administrator.
+              {(linkError && linkErrorMessages[linkError]?.description) ||
+                "This upload link is invalid or has expired. Please contact the administrator."}
             </p>
           </CardContent>
         </Card>
@@ -172,7 +216,11 @@ export const PublicUpload = () => {
               <Upload className="w-8 h-8 text-blue-600" />
               <div>
                 <CardTitle className="text-2xl">Document Upload</CardTitle>
-                <p className="text-sm text-gray-600">Upload up to 10 documents at once</p>
+                <p className="text-sm text-gray-600">
+                  {tokenInfo?.kind === "single" && tokenInfo.field_label
+                    ? `Upload your ${tokenInfo.field_label}`
+                    : `Upload up to ${maxFiles} documents at once`}
+                </p>
               </div>
             </div>
           </CardHeader>
@@ -200,9 +248,9 @@ export const PublicUpload = () => {
                 id="file-upload"
                 multiple
                 onChange={handleFileSelect}
-                disabled={isUploading || files.length >= 10}
+                disabled={isUploading || files.length >= maxFiles}
                 className="hidden"
-                accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,.xls,.xlsx"
+                accept={acceptedTypes}
               />
               <label htmlFor="file-upload" className="cursor-pointer flex flex-col items-center">
                 <Upload className="w-12 h-12 text-gray-400 mb-4" />
@@ -210,10 +258,10 @@ export const PublicUpload = () => {
                   Click to select files
                 </p>
                 <p className="text-sm text-gray-500">
-                  Maximum 10 files • PDF, DOC, XLS, Images
+                  Maximum {maxFiles} files • up to {tokenInfo?.default_rule.max_size_mb ?? 10}MB each unless noted
                 </p>
                 <p className="text-xs text-gray-400 mt-2">
-                  {files.length} / 10 files selected
+                  {files.length} / {maxFiles} files selected
                 </p>
               </label>
             </div>
@@ -240,9 +288,32 @@ export const PublicUpload = () => {
                         <p className="text-xs text-gray-500">
                           {(fileData.file.size / 1024 / 1024).toFixed(2)} MB
                         </p>
+                        {fileData.error && (
+                          <p className="text-xs text-red-600">{fileData.error}</p>
+                        )}
                       </div>
                     </div>
 
+                    {isBatch && tokenInfo && tokenInfo.requirements.length > 0 && (
+                      <Select
+                        value={fileData.documentLabel ?? OTHER_DOCUMENT}
+                        onValueChange={(value) => setFileDocumentLabel(index, value)}
+                        disabled={isUploading || fileData.status === 'success'}
+                      >
+                        <SelectTrigger className="w-48 mx-3">
+                          <SelectValue placeholder="Document type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {tokenInfo.requirements.map((req) => (
+                            <SelectItem key={req.label} value={req.label}>
+                              {req.label}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={OTHER_DOCUMENT}>Other</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+
                     <div className="flex items-center gap-2">
                       {fileData.status === 'pending' && (
                         <Button
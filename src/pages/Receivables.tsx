@@ -0,0 +1,135 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { Download, Loader2, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useFeeInvoices } from "@/hooks/useFeeInvoices";
+import { AGEING_BUCKETS, buildReceivablesAgeing, receivablesToCsv } from "@/lib/feePayments";
+
+const formatAmount = (amount: number) =>
+  `₹ ${Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Receivables ageing: fees still owed, per insurer, by how long the invoice has been out
+ */
+export const Receivables = () => {
+  const { data: invoices = [], isLoading } = useFeeInvoices();
+
+  const rows = useMemo(() => buildReceivablesAgeing(invoices), [invoices]);
+
+  const totals = useMemo(
+    () => ({
+      invoices: rows.reduce((sum, row) => sum + row.invoices, 0),
+      outstanding: rows.reduce((sum, row) => sum + row.outstanding, 0),
+      buckets: AGEING_BUCKETS.map((bucket) => rows.reduce((sum, row) => sum + row[bucket.key], 0)),
+    }),
+    [rows]
+  );
+
+  const handleExport = () => {
+    const blob = new Blob([receivablesToCsv(rows)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `receivables-${format(new Date(), "yyyy-MM-dd")}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {AGEING_BUCKETS.map((bucket, i) => (
+          <Card key={bucket.key}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{bucket.label}</p>
+              <p className={`text-2xl font-bold ${bucket.key === "days_90_plus" && totals.buckets[i] > 0 ? "text-red-700" : ""}`}>
+                {formatAmount(totals.buckets[i])}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Total outstanding</p>
+            <p className="text-2xl font-bold">{formatAmount(totals.outstanding)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Receivables Ageing
+          </CardTitle>
+          <Button variant="outline" onClick={handleExport} disabled={rows.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No outstanding fees.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Insurer</TableHead>
+                  <TableHead className="text-right">Invoices</TableHead>
+                  {AGEING_BUCKETS.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right">
+                      {bucket.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.insurer}>
+                    <TableCell className="font-medium">{row.insurer}</TableCell>
+                    <TableCell className="text-right">{row.invoices}</TableCell>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">
+                        {row[bucket.key] > 0 ? formatAmount(row[bucket.key]) : "-"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{formatAmount(row.outstanding)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{totals.invoices}</TableCell>
+                  {AGEING_BUCKETS.map((bucket, i) => (
+                    <TableCell key={bucket.key} className="text-right">
+                      {formatAmount(totals.buckets[i])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">{formatAmount(totals.outstanding)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
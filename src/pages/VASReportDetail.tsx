@@ -157,6 +157,7 @@ const handleBackClick = () => {
             {/* Bill of Entry Upload */}
             <SelectiveDocumentExtractor
               claimId={report.id}
+              currentData={report.form_data}
               policyTypeId={report.service_id}
               documentLabel="Bill of Entry"
               documentTitle="Bill of Entry"
@@ -168,6 +169,7 @@ const handleBackClick = () => {
             {/* Policy Document Upload */}
             <SelectiveDocumentExtractor
               claimId={report.id}
+              currentData={report.form_data}
               policyTypeId={report.service_id}
               documentLabel="Policy Document"
               documentTitle="Policy Document"
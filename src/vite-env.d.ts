@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_BACKEND_MODE?: "remote" | "mock";
+  readonly VITE_BACKEND_TIMEOUT_MS?: string;
+  readonly VITE_BACKEND_RETRIES?: string;
+}
@@ -0,0 +1,245 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { OutgoingMessage, ReminderChannel, ReminderTransport, transportsFromEnv } from "./transports.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, apikey, x-client-info",
+};
+
+const BATCH_SIZE = 20;
+
+interface ReminderSchedule {
+  id: string;
+  claim_id: string;
+  cadence_days: number[];
+  channels: ReminderChannel[];
+  recipients: Recipient[];
+  // Already moved past the reminder being sent, so it is also that reminder's 1-based number
+  next_step: number;
+  created_by: string | null;
+}
+
+interface Recipient {
+  role: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+interface ReminderSettings {
+  link_expiry_days: number;
+  email_subject: string;
+  email_body: string;
+  sms_body: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Keep in sync with hashUploadToken in src/lib/uploadTokens.ts
+const hashUploadToken = async (token: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Unknown placeholders are left as typed so a mistake in a template is visible in the message
+const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => values[key] ?? match);
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  // Origin of the web app, used to build public upload links
+  const appUrl = Deno.env.get("APP_URL")?.replace(/\/+$/, "");
+
+  if (!supabaseUrl || !supabaseKey || !appUrl) {
+    console.error("Missing environment variables");
+    return json({ error: "Server configuration error" }, 500);
+  }
+
+  let transports: Record<ReminderChannel, ReminderTransport>;
+  try {
+    transports = transportsFromEnv();
+  } catch (error) {
+    console.error("Transport configuration error:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+
+  const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  // Same shape as createUploadToken in src/lib/uploadTokens.ts
+  const createUploadLink = async (schedule: ReminderSchedule, expiresAt: Date) => {
+    const token = crypto.randomUUID();
+    const { data, error } = await supabaseAdmin
+      .from("upload_tokens")
+      .insert({
+        claim_id: schedule.claim_id,
+        token_hash: await hashUploadToken(token),
+        token_prefix: token.slice(0, 8),
+        kind: "batch",
+        label: `Reminder ${schedule.next_step}`,
+        expires_at: expiresAt.toISOString(),
+        created_by: schedule.created_by,
+      })
+      .select("id")
+      .single();
+    if (error) throw new Error("Failed to create upload link: " + error.message);
+    return { tokenId: data.id as string, url: `${appUrl}/public-upload?token=${token}` };
+  };
+
+  const runSchedule = async (schedule: ReminderSchedule, settings: ReminderSettings) => {
+    const { data: checklist, error: checklistError } = await supabaseAdmin.rpc("get_document_checklist", {
+      _claim_id: schedule.claim_id,
+    });
+    if (checklistError) throw new Error("Failed to load checklist: " + checklistError.message);
+
+    const outstanding = ((checklist || []) as { requirement_label: string; status: string }[])
+      .filter((item) => item.status === "missing")
+      .map((item) => item.requirement_label);
+
+    if (outstanding.length === 0) {
+      await supabaseAdmin.from("document_reminder_schedules").update({ status: "complete" }).eq("id", schedule.id);
+      return { schedule_id: schedule.id, status: "complete", sent: 0 };
+    }
+
+    const { data: claim, error: claimError } = await supabaseAdmin
+      .from("claims")
+      .select("claim_number, title, form_data")
+      .eq("id", schedule.claim_id)
+      .single();
+    if (claimError || !claim) throw new Error("Claim not found");
+
+    const expiresAt = new Date(Date.now() + settings.link_expiry_days * 24 * 60 * 60 * 1000);
+    const link = await createUploadLink(schedule, expiresAt);
+    const formData = (claim.form_data || {}) as Record<string, unknown>;
+
+    const baseValues = {
+      claim_number: claim.claim_number,
+      claim_title: claim.title,
+      insured_name: String(formData.insured_name || claim.title),
+      upload_link: link.url,
+      link_expires: expiresAt.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" }),
+      reminder_number: String(schedule.next_step),
+      reminder_total: String(schedule.cadence_days.length),
+    };
+
+    const logs = [];
+    for (const recipient of schedule.recipients) {
+      for (const channel of schedule.channels) {
+        const to = (channel === "email" ? recipient.email : recipient.phone)?.trim();
+        if (!to) continue;
+
+        const values = {
+          ...baseValues,
+          recipient_name: recipient.name,
+          documents: channel === "email" ? outstanding.map((label) => `- ${label}`).join("\n") : outstanding.join(", "),
+        };
+        const message: OutgoingMessage =
+          channel === "email"
+            ? {
+                channel,
+                to,
+                subject: renderTemplate(settings.email_subject, values),
+                body: renderTemplate(settings.email_body, values),
+              }
+            : { channel, to, body: renderTemplate(settings.sms_body, values) };
+
+        let error: string | null = null;
+        try {
+          await transports[channel].send(message);
+        } catch (err) {
+          error = (err as Error).message;
+          console.error(`Reminder ${channel} to ${to} failed:`, error);
+        }
+
+        logs.push({
+          claim_id: schedule.claim_id,
+          schedule_id: schedule.id,
+          reminder_number: schedule.next_step,
+          channel,
+          recipient_name: recipient.name,
+          recipient: to,
+          outstanding,
+          upload_token_id: link.tokenId,
+          transport: transports[channel].name,
+          status: error ? "failed" : "sent",
+          error,
+        });
+      }
+    }
+
+    if (logs.length > 0) {
+      const { error: logError } = await supabaseAdmin.from("document_reminders").insert(logs);
+      if (logError) console.error("Failed to record reminders:", logError);
+    }
+    const sent = logs.filter((log) => log.status === "sent").length;
+    if (sent > 0) {
+      await supabaseAdmin
+        .from("document_reminder_schedules")
+        .update({ last_sent_at: new Date().toISOString() })
+        .eq("id", schedule.id);
+    }
+
+    return { schedule_id: schedule.id, status: "sent", sent, failed: logs.length - sent };
+  };
+
+  try {
+    console.log("=== DOCUMENT REMINDERS START ===");
+
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from("reminder_settings")
+      .select("link_expiry_days, email_subject, email_body, sms_body")
+      .single();
+    if (settingsError || !settings) {
+      console.error("Failed to load reminder settings:", settingsError);
+      return json({ error: "Reminder settings not found" }, 500);
+    }
+
+    const { data: schedules, error: claimError } = await supabaseAdmin.rpc("claim_due_reminders", {
+      _limit: BATCH_SIZE,
+    });
+    if (claimError) {
+      console.error("Failed to claim due reminders:", claimError);
+      return json({ error: "Failed to claim due reminders" }, 500);
+    }
+
+    console.log("Due schedules:", (schedules || []).length);
+
+    const outcomes = [];
+    for (const schedule of (schedules || []) as ReminderSchedule[]) {
+      try {
+        outcomes.push(await runSchedule(schedule, settings as ReminderSettings));
+      } catch (err) {
+        // The step is already used up; the next one goes out on its own day
+        const message = (err as Error).message;
+        console.error(`Schedule ${schedule.id} failed:`, message);
+        outcomes.push({ schedule_id: schedule.id, status: "failed", error: message });
+      }
+    }
+
+    console.log("=== DOCUMENT REMINDERS DONE ===");
+    return json({ processed: outcomes.length, schedules: outcomes });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return json({ error: "Internal server error: " + (error as Error).message }, 500);
+  } finally {
+    await Promise.all(Object.values(transports).map((t) => t.close?.().catch(() => undefined)));
+  }
+});
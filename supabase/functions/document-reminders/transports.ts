@@ -0,0 +1,129 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export type ReminderChannel = "email" | "sms";
+
+export interface OutgoingMessage {
+  channel: ReminderChannel;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+/**
+ * Delivers reminder messages for one channel. send() throws when the message was not
+ * accepted; close() releases any connection held between messages.
+ */
+export interface ReminderTransport {
+  name: string;
+  send(message: OutgoingMessage): Promise<void>;
+  close?(): Promise<void>;
+}
+
+// Writes messages to the function log instead of sending them
+export const logTransport: ReminderTransport = {
+  name: "log",
+  send: async (message) => {
+    console.log(`[log transport] ${message.channel} to ${message.to}`, message.subject ?? "", "\n" + message.body);
+  },
+};
+
+interface SmtpConfig {
+  hostname: string;
+  port: number;
+  tls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+// One connection is opened on the first message and reused until close()
+export const smtpTransport = (config: SmtpConfig): ReminderTransport => {
+  let client: SMTPClient | null = null;
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      client ??= new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.tls,
+          auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+        },
+      });
+      await client.send({
+        from: config.from,
+        to: message.to,
+        subject: message.subject ?? "",
+        content: message.body,
+      });
+    },
+    close: async () => {
+      await client?.close();
+      client = null;
+    },
+  };
+};
+
+// POSTs { to, message } as JSON; any SMS provider can sit behind a small adapter at this URL
+export const smsGatewayTransport = (url: string, token?: string): ReminderTransport => ({
+  name: "sms_gateway",
+  send: async (message) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ to: message.to, message: message.body }),
+    });
+    if (!res.ok) {
+      throw new Error(`SMS gateway responded with status ${res.status}: ${await res.text().catch(() => "")}`);
+    }
+  },
+});
+
+/**
+ * Pick each channel's transport from the environment.
+ * REMINDER_EMAIL_TRANSPORT is 'smtp' or 'log' and REMINDER_SMS_TRANSPORT is 'sms_gateway' or 'log'.
+ * Unset, a channel uses its real transport when that transport is configured and 'log' otherwise.
+ */
+export const transportsFromEnv = (): Record<ReminderChannel, ReminderTransport> => {
+  const smtpHost = Deno.env.get("SMTP_HOST");
+  const smsGatewayUrl = Deno.env.get("SMS_GATEWAY_URL");
+
+  const emailChoice = Deno.env.get("REMINDER_EMAIL_TRANSPORT") || (smtpHost ? "smtp" : "log");
+  const smsChoice = Deno.env.get("REMINDER_SMS_TRANSPORT") || (smsGatewayUrl ? "sms_gateway" : "log");
+
+  let email: ReminderTransport;
+  if (emailChoice === "log") {
+    email = logTransport;
+  } else if (emailChoice === "smtp") {
+    const from = Deno.env.get("SMTP_FROM");
+    if (!smtpHost || !from) throw new Error("SMTP_HOST and SMTP_FROM are required for the smtp transport");
+    const port = Number(Deno.env.get("SMTP_PORT") || 465);
+    email = smtpTransport({
+      hostname: smtpHost,
+      port,
+      // Implicit TLS on 465; local stubs such as Inbucket or Mailpit accept plain connections
+      tls: (Deno.env.get("SMTP_TLS") ?? String(port === 465)) === "true",
+      username: Deno.env.get("SMTP_USER") || undefined,
+      password: Deno.env.get("SMTP_PASSWORD") || undefined,
+      from,
+    });
+  } else {
+    throw new Error(`Unknown REMINDER_EMAIL_TRANSPORT: ${emailChoice}`);
+  }
+
+  let sms: ReminderTransport;
+  if (smsChoice === "log") {
+    sms = logTransport;
+  } else if (smsChoice === "sms_gateway") {
+    if (!smsGatewayUrl) throw new Error("SMS_GATEWAY_URL is required for the sms_gateway transport");
+    sms = smsGatewayTransport(smsGatewayUrl, Deno.env.get("SMS_GATEWAY_TOKEN") || undefined);
+  } else {
+    throw new Error(`Unknown REMINDER_SMS_TRANSPORT: ${smsChoice}`);
+  }
+
+  return { email, sms };
+};
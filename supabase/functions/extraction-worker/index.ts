@@ -0,0 +1,166 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, apikey, x-client-info",
+};
+
+// Keep in sync with DEFAULT_BASE_URL in src/lib/backendClient.ts
+const DEFAULT_BACKEND_URL = "https://mlkkk63swrqairyiahlk357sui0argkn.lambda-url.ap-south-1.on.aws";
+const EXTRACTION_TIMEOUT_MS = 180_000;
+// One job per call keeps a run inside the edge function wall-clock limit; callers invoke
+// the worker again while jobs are queued
+const BATCH_SIZE = 1;
+// A job that fails this many times stays failed until someone retries it from the claim.
+// Keep in sync with claim_extraction_jobs(), which fails stalled jobs after as many attempts.
+const MAX_ATTEMPTS = 3;
+
+interface ExtractionJob {
+  id: string;
+  claim_id: string;
+  document_id: string;
+  document_label: string | null;
+  extraction_profile_id: string | null;
+  attempts: number;
+}
+
+interface FieldMapping {
+  key: string;
+  field: string;
+  type: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const backendUrl = (Deno.env.get("BACKEND_URL") || DEFAULT_BACKEND_URL).replace(/\/+$/, "");
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error("Missing environment variables");
+    return json({ error: "Server configuration error" }, 500);
+  }
+
+  const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  // Documents uploaded through the backend are stored as full URLs; the rest are storage paths
+  const downloadDocument = async (filePath: string): Promise<Blob> => {
+    if (/^https?:\/\//.test(filePath)) {
+      const res = await fetch(filePath);
+      if (!res.ok) throw new Error(`Failed to download document: status ${res.status}`);
+      return res.blob();
+    }
+    const { data, error } = await supabaseAdmin.storage.from("claim-documents").download(filePath);
+    if (error || !data) throw new Error("Failed to download document: " + error?.message);
+    return data;
+  };
+
+  const runJob = async (job: ExtractionJob) => {
+    if (!job.extraction_profile_id) throw new Error("The extraction profile was removed");
+
+    const [{ data: document, error: documentError }, { data: profile, error: profileError }] = await Promise.all([
+      supabaseAdmin.from("claim_documents").select("file_path").eq("id", job.document_id).single(),
+      supabaseAdmin
+        .from("extraction_profiles")
+        .select("document_type, fields")
+        .eq("id", job.extraction_profile_id)
+        .single(),
+    ]);
+    if (documentError || !document) throw new Error("Document not found");
+    if (profileError || !profile) throw new Error("Extraction profile not found");
+
+    const fields = (Array.isArray(profile.fields) ? profile.fields : []) as FieldMapping[];
+    if (fields.length === 0) throw new Error("The extraction profile has no fields");
+
+    const file = await downloadDocument(document.file_path);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), EXTRACTION_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${backendUrl}/extract-selective-fields`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          pdfData: encodeBase64(await file.arrayBuffer()),
+          claimId: job.claim_id,
+          fieldsToExtract: fields.map((f) => f.key),
+          documentType: profile.document_type,
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        throw new Error(`extract-selective-fields failed with status ${res.status}: ${await res.text().catch(() => "")}`);
+      }
+      const result = await res.json();
+      if (!result.success || !result.extractedData) {
+        throw new Error(result.message || "No data was extracted");
+      }
+      return { extractedData: result.extractedData, fieldDetails: result.fieldDetails ?? {} };
+    } catch (err) {
+      if (controller.signal.aborted) throw new Error("Extraction timed out");
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  try {
+    console.log("=== EXTRACTION WORKER START ===");
+
+    const { data: jobs, error: claimError } = await supabaseAdmin.rpc("claim_extraction_jobs", {
+      _limit: BATCH_SIZE,
+    });
+    if (claimError) {
+      console.error("Failed to claim jobs:", claimError);
+      return json({ error: "Failed to claim jobs" }, 500);
+    }
+
+    console.log("Claimed jobs:", (jobs || []).length);
+
+    const outcomes = [];
+    for (const job of (jobs || []) as ExtractionJob[]) {
+      try {
+        const result = await runJob(job);
+        await supabaseAdmin
+          .from("extraction_jobs")
+          .update({ status: "succeeded", result, finished_at: new Date().toISOString() })
+          .eq("id", job.id);
+        outcomes.push({ id: job.id, status: "succeeded" });
+      } catch (err) {
+        const message = (err as Error).message;
+        console.error(`Job ${job.id} failed (attempt ${job.attempts}):`, message);
+        // Transient failures go back on the queue until the attempts run out
+        const status = job.attempts < MAX_ATTEMPTS && !/not found|removed|no fields/i.test(message) ? "queued" : "failed";
+        await supabaseAdmin
+          .from("extraction_jobs")
+          .update({ status, error: message, finished_at: status === "failed" ? new Date().toISOString() : null })
+          .eq("id", job.id);
+        outcomes.push({ id: job.id, status, error: message });
+      }
+    }
+
+    console.log("=== EXTRACTION WORKER DONE ===");
+    return json({ processed: outcomes.length, jobs: outcomes });
+  } catch (error) {
+    console.error("Unexpected error:", error);
+    return json({ error: "Internal server error: " + (error as Error).message }, 500);
+  }
+});
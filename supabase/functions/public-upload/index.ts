@@ -4,9 +4,72 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, apikey, x-client-info",
 };
 
+// Keep in sync with src/lib/documentRules.ts
+const DEFAULT_MAX_SIZE_MB = 10;
+const DEFAULT_ALLOWED_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+type ErrorCode =
+  | "bad_request"
+  | "invalid_token"
+  | "expired"
+  | "revoked"
+  | "quota_exceeded"
+  | "bad_type"
+  | "too_large"
+  | "server_error";
+
+interface DocumentRule {
+  allowed_types?: string[];
+  max_size_mb?: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const fail = (code: ErrorCode, error: string, status: number) => json({ error, code }, status);
+
+const tokenStatusError = (status: string) => {
+  switch (status) {
+    case "expired":
+      return fail("expired", "This upload link has expired", 410);
+    case "revoked":
+      return fail("revoked", "This upload link has been revoked", 410);
+    case "quota_exceeded":
+      return fail("quota_exceeded", "This upload link has reached its upload limit", 429);
+    default:
+      return fail("invalid_token", "Invalid upload link", 401);
+  }
+};
+
+const resolveRule = (rules: Record<string, DocumentRule> | null, label: string | null) => {
+  const rule = (label && rules?.[label]) || {};
+  return {
+    allowed_types: rule.allowed_types?.length ? rule.allowed_types : DEFAULT_ALLOWED_TYPES,
+    max_size_mb: rule.max_size_mb || DEFAULT_MAX_SIZE_MB,
+  };
+};
+
+const getClientIp = (req: Request) =>
+  req.headers.get("cf-connecting-ip") ||
+  req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+  req.headers.get("x-real-ip") ||
+  null;
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -15,20 +78,17 @@ serve(async (req) => {
 
   try {
     console.log("=== PUBLIC UPLOAD START ===");
-    
+
     // Check environment variables
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    
+
     console.log("SUPABASE_URL:", supabaseUrl);
     console.log("SERVICE_ROLE_KEY exists:", !!supabaseKey);
-    
+
     if (!supabaseUrl || !supabaseKey) {
       console.error("Missing environment variables");
-      return new Response(
-        JSON.stringify({ error: "Server configuration error" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return fail("server_error", "Server configuration error", 500);
     }
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseKey, {
@@ -38,69 +98,131 @@ serve(async (req) => {
       },
     });
 
+    // Token details plus the document requirements (and their rules) for the claim
+    const loadTokenContext = async (token: string) => {
+      const { data: tokenRows, error: tokenError } = await supabaseAdmin
+        .rpc("validate_upload_token", { _token: token });
+
+      if (tokenError) {
+        console.error("Token validation error:", tokenError);
+        return { error: fail("server_error", "Token validation failed", 500) };
+      }
+
+      const tokenData = tokenRows?.[0];
+      console.log("Token validation result:", tokenData);
+
+      if (!tokenData) return { error: tokenStatusError("invalid") };
+      if (tokenData.status !== "valid") return { error: tokenStatusError(tokenData.status) };
+
+      const { data: claim } = await supabaseAdmin
+        .from("claims")
+        .select("id, policy_types(required_documents, document_rules)")
+        .eq("id", tokenData.claim_id)
+        .maybeSingle();
+
+      const policyType = (claim?.policy_types ?? null) as
+        | { required_documents: string[] | null; document_rules: Record<string, DocumentRule> | null }
+        | null;
+
+      return {
+        tokenData,
+        requiredDocuments: policyType?.required_documents ?? [],
+        rules: policyType?.document_rules ?? {},
+      };
+    };
+
+    // JSON body: { action: "inspect", token } - lets the upload page describe the link before any file is sent
+    if ((req.headers.get("content-type") || "").includes("application/json")) {
+      const { action, token } = await req.json();
+      if (action !== "inspect" || !token) {
+        return fail("bad_request", "Unsupported request", 400);
+      }
+
+      const context = await loadTokenContext(token);
+      if (context.error) return context.error;
+
+      const { tokenData, requiredDocuments, rules } = context;
+      const labels = tokenData.kind === "single" && tokenData.field_label
+        ? [tokenData.field_label]
+        : requiredDocuments;
+
+      return json({
+        kind: tokenData.kind,
+        field_label: tokenData.field_label,
+        expires_at: tokenData.expires_at,
+        remaining_uploads: tokenData.max_uploads === null
+          ? null
+          : Math.max(tokenData.max_uploads - tokenData.upload_count, 0),
+        requirements: labels.map((label: string) => ({ label, ...resolveRule(rules, label) })),
+        default_rule: resolveRule(rules, null),
+      });
+    }
+
     const formData = await req.formData();
     const file = formData.get("file") as File;
     const token = formData.get("token") as string;
+    const uploaderName = ((formData.get("uploader_name") as string) || "").trim();
+    const requestedLabel = ((formData.get("document_label") as string) || "").trim() || null;
 
-    console.log("Received file:", file?.name, "size:", file?.size);
-    console.log("Received token:", token);
+    console.log("Received file:", file?.name, "size:", file?.size, "type:", file?.type);
+    console.log("Received token prefix:", token?.slice(0, 8));
 
     if (!file || !token) {
-      return new Response(
-        JSON.stringify({ error: "Missing file or token" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return fail("bad_request", "Missing file or token", 400);
     }
 
-    // Validate token
-    console.log("Validating token...");
-    const { data: tokenData, error: tokenError } = await supabaseAdmin
-      .from("claim_documents")
-      .select("claim_id, field_label, token_expires_at")
-      .eq("upload_token", token)
-      .like("file_name", "__TOKEN_PLACEHOLDER_%")
-      .maybeSingle();
-
-    console.log("Token validation result:", { tokenData, tokenError });
-
-    if (tokenError) {
-      console.error("Token validation error:", tokenError);
-      return new Response(
-        JSON.stringify({ error: "Token validation failed" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!uploaderName) {
+      return fail("bad_request", "Uploader name is required", 400);
     }
 
-    if (!tokenData) {
-      console.error("Token not found");
-      return new Response(
-        JSON.stringify({ error: "Invalid or expired token" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    console.log("Validating token...");
+    const context = await loadTokenContext(token);
+    if (context.error) return context.error;
+
+    const { tokenData, requiredDocuments, rules } = context;
+
+    // Single-document links are pinned to their requirement; batch links let the uploader pick one
+    const documentLabel = tokenData.kind === "single"
+      ? tokenData.field_label
+      : requestedLabel && requiredDocuments.includes(requestedLabel) ? requestedLabel : null;
+
+    const rule = resolveRule(rules, documentLabel);
+    console.log("Applying rule:", documentLabel, rule);
+
+    if (!rule.allowed_types.includes(file.type)) {
+      return fail(
+        "bad_type",
+        `${file.type || "This file type"} is not accepted${documentLabel ? ` for ${documentLabel}` : ""}`,
+        415
       );
     }
 
-    // Check expiry
-    const expiresAt = new Date(tokenData.token_expires_at);
-    if (expiresAt < new Date()) {
-      console.error("Token expired");
-      return new Response(
-        JSON.stringify({ error: "Token has expired" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (file.size > rule.max_size_mb * 1024 * 1024) {
+      return fail("too_large", `File size exceeds ${rule.max_size_mb}MB limit`, 413);
     }
 
-    // Validate file size (10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      return new Response(
-        JSON.stringify({ error: "File size exceeds 10MB limit" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Count the upload first so concurrent requests cannot overrun max_uploads
+    const { data: consumedRows, error: consumeError } = await supabaseAdmin
+      .rpc("consume_upload_token", { _token: token });
+
+    const consumed = consumedRows?.[0];
+    if (consumeError || !consumed) {
+      console.error("Failed to consume token:", consumeError);
+      return fail("server_error", "Token validation failed", 500);
     }
+    if (consumed.status !== "valid") {
+      return tokenStatusError(consumed.status);
+    }
+
+    const releaseToken = async () => {
+      const { error } = await supabaseAdmin.rpc("release_upload_token", { _token_id: tokenData.token_id });
+      if (error) console.error("Failed to release token:", error);
+    };
 
     // Upload to storage
     console.log("Uploading to storage...");
     const fileName = `${Date.now()}-${file.name}`;
-    const filePath = `public-uploads/${tokenData.claim_id}/${token}/${fileName}`;
+    const filePath = `public-uploads/${tokenData.claim_id}/${tokenData.token_id}/${fileName}`;
 
     const { error: uploadError } = await supabaseAdmin.storage
       .from("claim-documents")
@@ -112,10 +234,8 @@ serve(async (req) => {
 
     if (uploadError) {
       console.error("Upload error:", uploadError);
-      return new Response(
-        JSON.stringify({ error: "Failed to upload file: " + uploadError.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      await releaseToken();
+      return fail("server_error", "Failed to upload file: " + uploadError.message, 500);
     }
 
     console.log("File uploaded successfully to:", filePath);
@@ -128,12 +248,21 @@ serve(async (req) => {
       file_path: filePath,
       file_type: file.type,
       file_size: file.size,
-      uploaded_by: "00000000-0000-0000-0000-000000000000",
-      field_label: tokenData.field_label,
+      uploaded_by: consumed.created_by || "00000000-0000-0000-0000-000000000000",
+      field_label: documentLabel,
       uploaded_via_link: true,
       is_selected: false,
+      metadata: {
+        uploader_name: uploaderName,
+        uploader_ip: getClientIp(req),
+        user_agent: req.headers.get("user-agent"),
+        upload_date: new Date().toISOString(),
+        upload_source: "public_link",
+        upload_token_id: tokenData.token_id,
+        document_label: documentLabel,
+      },
     };
-    
+
     console.log("Insert data:", insertData);
 
     const { data: insertedDoc, error: dbError } = await supabaseAdmin
@@ -144,32 +273,40 @@ serve(async (req) => {
 
     if (dbError) {
       console.error("DB error:", dbError);
-      // Cleanup: delete uploaded file
+      // Cleanup: delete uploaded file and give the upload back to the link
       await supabaseAdmin.storage.from("claim-documents").remove([filePath]);
-      
-      return new Response(
-        JSON.stringify({ error: "Failed to save document record: " + dbError.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      await releaseToken();
+
+      return fail("server_error", "Failed to save document record: " + dbError.message, 500);
     }
 
     console.log("Document record created:", insertedDoc);
+
+    // The insert trigger queues an extraction job when the requirement has a profile; start it
+    // without making the uploader wait for the result
+    const { count: queuedJobs } = await supabaseAdmin
+      .from("extraction_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("document_id", insertedDoc.id);
+
+    if (queuedJobs) {
+      console.log("Starting extraction worker for", queuedJobs, "job(s)");
+      const worker = supabaseAdmin.functions
+        .invoke("extraction-worker")
+        .catch((err) => console.error("Failed to start extraction worker:", err));
+      (globalThis as { EdgeRuntime?: { waitUntil: (promise: Promise<unknown>) => void } }).EdgeRuntime?.waitUntil(worker);
+    }
+
     console.log("=== PUBLIC UPLOAD SUCCESS ===");
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: "File uploaded successfully",
-        document: insertedDoc 
-      }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return json({
+      success: true,
+      message: "File uploaded successfully",
+      document: insertedDoc,
+    });
 
   } catch (error) {
     console.error("Unexpected error:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error: " + (error as Error).message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return fail("server_error", "Internal server error: " + (error as Error).message, 500);
   }
 });
@@ -0,0 +1,194 @@
+-- Dedicated table for shareable upload links.
+-- Replaces the __TOKEN_PLACEHOLDER_ / __BATCH_TOKEN_ rows that used to live in claim_documents.
+-- Only a SHA-256 hash of each token is stored; the plain token exists solely in the shared URL.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.upload_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'batch' CHECK (kind IN ('single', 'batch')),
+  label TEXT,
+  field_label TEXT,
+  max_uploads INTEGER CHECK (max_uploads IS NULL OR max_uploads > 0),
+  upload_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_upload_tokens_claim_id ON public.upload_tokens(claim_id);
+
+ALTER TABLE public.upload_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_upload_tokens_updated_at
+  BEFORE UPDATE ON public.upload_tokens
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for upload_tokens (claim owners and admins manage links)
+CREATE POLICY "Users can view upload tokens for their claims"
+ON public.upload_tokens
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = upload_tokens.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create upload tokens for their claims"
+ON public.upload_tokens
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by AND (
+    public.has_role(auth.uid(), 'admin') OR EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = upload_tokens.claim_id
+      AND claims.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can update upload tokens for their claims"
+ON public.upload_tokens
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = upload_tokens.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete upload tokens for their claims"
+ON public.upload_tokens
+FOR DELETE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = upload_tokens.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Look up a plain token and report its state without consuming it.
+-- status is one of: valid, expired, revoked, quota_exceeded. No row means the token is unknown.
+CREATE OR REPLACE FUNCTION public.validate_upload_token(_token TEXT)
+RETURNS TABLE (
+  token_id UUID,
+  claim_id UUID,
+  kind TEXT,
+  field_label TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_uploads INTEGER,
+  upload_count INTEGER,
+  status TEXT
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.claim_id,
+    t.kind,
+    t.field_label,
+    t.expires_at,
+    t.max_uploads,
+    t.upload_count,
+    CASE
+      WHEN t.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN t.expires_at < now() THEN 'expired'
+      WHEN t.max_uploads IS NOT NULL AND t.upload_count >= t.max_uploads THEN 'quota_exceeded'
+      ELSE 'valid'
+    END
+  FROM public.upload_tokens t
+  WHERE t.token_hash = encode(extensions.digest(_token, 'sha256'), 'hex')
+$$;
+
+-- Atomically count one upload against a token. The counter only moves when the token is valid.
+CREATE OR REPLACE FUNCTION public.consume_upload_token(_token TEXT)
+RETURNS TABLE (
+  token_id UUID,
+  claim_id UUID,
+  kind TEXT,
+  field_label TEXT,
+  created_by UUID,
+  status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.upload_tokens%ROWTYPE;
+  _status TEXT;
+BEGIN
+  SELECT * INTO _row
+  FROM public.upload_tokens t
+  WHERE t.token_hash = encode(extensions.digest(_token, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _status := CASE
+    WHEN _row.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN _row.expires_at < now() THEN 'expired'
+    WHEN _row.max_uploads IS NOT NULL AND _row.upload_count >= _row.max_uploads THEN 'quota_exceeded'
+    ELSE 'valid'
+  END;
+
+  IF _status = 'valid' THEN
+    UPDATE public.upload_tokens
+    SET upload_count = upload_count + 1, last_used_at = now()
+    WHERE id = _row.id;
+  END IF;
+
+  RETURN QUERY SELECT _row.id, _row.claim_id, _row.kind, _row.field_label, _row.created_by, _status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.validate_upload_token(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_upload_token(TEXT) TO anon, authenticated;
+
+-- Move existing placeholder tokens over so links already shared keep working
+INSERT INTO public.upload_tokens (
+  claim_id, token_hash, token_prefix, kind, label, field_label,
+  upload_count, expires_at, created_by, created_at
+)
+SELECT
+  d.claim_id,
+  encode(extensions.digest(d.upload_token, 'sha256'), 'hex'),
+  left(d.upload_token, 8),
+  CASE WHEN d.file_name LIKE '\_\_BATCH\_TOKEN\_%' THEN 'batch' ELSE 'single' END,
+  d.field_label,
+  CASE WHEN d.file_name LIKE '\_\_BATCH\_TOKEN\_%' THEN NULL ELSE d.field_label END,
+  (
+    SELECT count(*) FROM public.claim_documents u
+    WHERE u.claim_id = d.claim_id
+    AND u.metadata->>'upload_token_used' = d.upload_token
+  ),
+  COALESCE(d.token_expires_at, d.created_at),
+  d.uploaded_by,
+  d.created_at
+FROM public.claim_documents d
+WHERE d.upload_token IS NOT NULL
+  AND (d.file_name LIKE '\_\_TOKEN\_PLACEHOLDER\_%' OR d.file_name LIKE '\_\_BATCH\_TOKEN\_%')
+ON CONFLICT (token_hash) DO NOTHING;
+
+DELETE FROM public.claim_documents
+WHERE file_name LIKE '\_\_TOKEN\_PLACEHOLDER\_%'
+   OR file_name LIKE '\_\_BATCH\_TOKEN\_%';
@@ -0,0 +1,5 @@
+-- Per-requirement upload rules, keyed by document requirement label.
+-- e.g. { "Invoice": { "allowed_types": ["application/pdf"], "max_size_mb": 5 } }
+-- Enforced by the public-upload edge function; missing entries fall back to its defaults.
+ALTER TABLE public.policy_types
+ADD COLUMN document_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,54 @@
+-- Persist the report layout per claim in report_sections (one row per report section)
+-- section_key is the stable section id used by ReportPreview ("overview", "policy-details", dynamic section ids)
+ALTER TABLE public.report_sections
+ADD COLUMN section_key TEXT,
+ADD COLUMN title_override TEXT;
+
+UPDATE public.report_sections SET section_key = section_name WHERE section_key IS NULL;
+
+ALTER TABLE public.report_sections ALTER COLUMN section_key SET NOT NULL;
+
+CREATE UNIQUE INDEX idx_report_sections_claim_section_key
+ON public.report_sections(claim_id, section_key);
+
+CREATE POLICY "Admins can manage all report sections"
+ON public.report_sections
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Named report layouts per policy type; at most one default per policy type
+CREATE TABLE public.report_layout_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  policy_type_id UUID NOT NULL REFERENCES public.policy_types(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  layout JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_report_layout_templates_default
+ON public.report_layout_templates(policy_type_id)
+WHERE is_default;
+
+ALTER TABLE public.report_layout_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_report_layout_templates_updated_at
+  BEFORE UPDATE ON public.report_layout_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Report layout templates are viewable by authenticated users"
+ON public.report_layout_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage report layout templates"
+ON public.report_layout_templates
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,4 @@
+-- Per-user choice of PDF renderer: the report service, the in-browser renderer, or the service with a browser fallback
+ALTER TABLE public.profiles
+ADD COLUMN pdf_renderer TEXT NOT NULL DEFAULT 'auto'
+CHECK (pdf_renderer IN ('auto', 'remote', 'browser'));
@@ -0,0 +1,105 @@
+-- Issued report archive: each "Issue report" freezes the form data, the layout and the rendered PDF.
+-- Rows are never updated; a correction is issued as a new version.
+CREATE TABLE public.report_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL DEFAULT 0, -- assigned by trigger
+  stage TEXT NOT NULL CHECK (stage IN ('preliminary', 'interim', 'final')),
+  form_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  layout JSONB NOT NULL DEFAULT '{}'::jsonb,
+  pdf_path TEXT NOT NULL,
+  pdf_size INTEGER,
+  renderer TEXT,
+  notes TEXT,
+  issued_by UUID,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (claim_id, version_number)
+);
+
+CREATE INDEX idx_report_versions_claim_id ON public.report_versions(claim_id);
+
+-- Number versions per claim on insert so clients cannot pick their own
+CREATE OR REPLACE FUNCTION public.assign_report_version_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise concurrent issues for the same claim
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.claim_id::text));
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO NEW.version_number
+  FROM public.report_versions
+  WHERE claim_id = NEW.claim_id;
+
+  NEW.issued_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_report_version_number
+  BEFORE INSERT ON public.report_versions
+  FOR EACH ROW EXECUTE FUNCTION public.assign_report_version_number();
+
+ALTER TABLE public.report_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view report versions for their claims"
+ON public.report_versions
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = report_versions.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can issue report versions for their claims"
+ON public.report_versions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = issued_by AND (
+    public.has_role(auth.uid(), 'admin') OR EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id = report_versions.claim_id
+      AND claims.user_id = auth.uid()
+    )
+  )
+);
+
+-- Issued PDFs, stored as <claim_id>/<file>.pdf
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('issued-reports', 'issued-reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload issued reports for their claims"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'issued-reports' AND (
+    public.has_role(auth.uid(), 'admin') OR EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id::text = (storage.foldername(name))[1]
+      AND claims.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can view issued reports for their claims"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'issued-reports' AND (
+    public.has_role(auth.uid(), 'admin') OR EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id::text = (storage.foldername(name))[1]
+      AND claims.user_id = auth.uid()
+    )
+  )
+);
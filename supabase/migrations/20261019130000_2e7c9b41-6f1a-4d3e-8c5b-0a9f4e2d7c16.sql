@@ -0,0 +1,189 @@
+-- Claim status workflow: allowed transitions per role, mandatory reasons and guard conditions.
+-- Status changes go through transition_claim_status(); a trigger rejects direct updates of claims.status.
+CREATE TABLE public.claim_status_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  allowed_roles TEXT[] NOT NULL DEFAULT ARRAY['admin', 'user'],
+  requires_reason BOOLEAN NOT NULL DEFAULT false,
+  -- Named condition checked before the transition, see check_claim_status_guard()
+  guard TEXT CHECK (guard IS NULL OR guard IN ('fee_bill_finalized', 'report_issued', 'final_report_issued')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+ALTER TABLE public.claim_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_claim_status_transitions_updated_at
+  BEFORE UPDATE ON public.claim_status_transitions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Status transitions are viewable by authenticated users"
+ON public.claim_status_transitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage status transitions"
+ON public.claim_status_transitions
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.claim_status_transitions (from_status, to_status, allowed_roles, requires_reason, guard) VALUES
+  ('pending', 'submitted', ARRAY['admin', 'user'], false, NULL),
+  ('submitted', 'under_review', ARRAY['admin', 'user'], false, NULL),
+  ('submitted', 'pending', ARRAY['admin', 'user'], true, NULL),
+  ('under_review', 'approved', ARRAY['admin', 'user'], false, NULL),
+  ('under_review', 'rejected', ARRAY['admin', 'user'], true, NULL),
+  ('under_review', 'submitted', ARRAY['admin', 'user'], true, NULL),
+  ('approved', 'paid', ARRAY['admin', 'user'], false, 'fee_bill_finalized'),
+  ('approved', 'under_review', ARRAY['admin'], true, NULL),
+  ('rejected', 'under_review', ARRAY['admin'], true, NULL);
+
+-- Audit log of every status change
+CREATE TABLE public.claim_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  changed_by UUID,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_claim_status_history_claim_id ON public.claim_status_history(claim_id, changed_at DESC);
+
+ALTER TABLE public.claim_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by transition_claim_status(), so there are no insert/update policies
+CREATE POLICY "Users can view status history for their claims"
+ON public.claim_status_history
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = claim_status_history.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Returns NULL when the guard passes, otherwise the reason it failed
+CREATE OR REPLACE FUNCTION public.check_claim_status_guard(_claim_id UUID, _guard TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _guard IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF _guard = 'fee_bill_finalized' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE id = _claim_id AND form_data->>'fee_bill_finalized_at' IS NOT NULL
+    ) THEN
+      RETURN 'The fee bill must be finalized first';
+    END IF;
+  ELSIF _guard = 'report_issued' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.report_versions WHERE claim_id = _claim_id) THEN
+      RETURN 'A report must be issued first';
+    END IF;
+  ELSIF _guard = 'final_report_issued' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.report_versions WHERE claim_id = _claim_id AND stage = 'final') THEN
+      RETURN 'A final report must be issued first';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_claim_status(_claim_id UUID, _to_status TEXT, _reason TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from_status TEXT;
+  _owner UUID;
+  _role TEXT;
+  _transition public.claim_status_transitions%ROWTYPE;
+  _guard_error TEXT;
+BEGIN
+  SELECT status, user_id INTO _from_status, _owner
+  FROM public.claims
+  WHERE id = _claim_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  _role := COALESCE(public.get_user_role(auth.uid())::text, 'user');
+
+  IF _role <> 'admin' AND _owner IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this claim';
+  END IF;
+
+  SELECT * INTO _transition
+  FROM public.claim_status_transitions
+  WHERE from_status = _from_status AND to_status = _to_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move a claim from % to %', _from_status, _to_status;
+  END IF;
+
+  IF NOT (_role = ANY (_transition.allowed_roles)) THEN
+    RAISE EXCEPTION 'Your role cannot move a claim from % to %', _from_status, _to_status;
+  END IF;
+
+  IF _transition.requires_reason AND COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to move a claim to %', _to_status;
+  END IF;
+
+  _guard_error := public.check_claim_status_guard(_claim_id, _transition.guard);
+  IF _guard_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', _guard_error;
+  END IF;
+
+  PERFORM set_config('app.claim_status_transition', 'on', true);
+
+  UPDATE public.claims SET status = _to_status WHERE id = _claim_id;
+
+  INSERT INTO public.claim_status_history (claim_id, from_status, to_status, reason, changed_by)
+  VALUES (_claim_id, _from_status, _to_status, NULLIF(btrim(_reason), ''), auth.uid());
+
+  PERFORM set_config('app.claim_status_transition', 'off', true);
+
+  RETURN _to_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_claim_status(UUID, TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.enforce_claim_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND COALESCE(current_setting('app.claim_status_transition', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Claim status can only be changed through transition_claim_status()';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_claim_status_transition
+  BEFORE UPDATE OF status ON public.claims
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_claim_status_transition();
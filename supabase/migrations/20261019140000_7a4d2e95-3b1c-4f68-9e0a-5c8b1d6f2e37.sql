@@ -0,0 +1,83 @@
+-- Field-level audit trail for claims.form_data.
+-- A trigger diffs form_data on every update and logs one row per changed key with the
+-- editing user and where the edit came from. Writers tag the source by setting
+-- claims.last_edit_source in the same update; the trigger consumes and clears it.
+ALTER TABLE public.claims ADD COLUMN last_edit_source TEXT;
+
+CREATE TABLE public.claim_field_audit (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  field_key TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ai_extraction', 'public_upload', 'revert')),
+  changed_by UUID,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_claim_field_audit_claim_field ON public.claim_field_audit(claim_id, field_key, changed_at DESC);
+CREATE INDEX idx_claim_field_audit_claim_id ON public.claim_field_audit(claim_id, changed_at DESC);
+
+ALTER TABLE public.claim_field_audit ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below, so there are no insert/update policies
+CREATE POLICY "Users can view field audit for their claims"
+ON public.claim_field_audit
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = claim_field_audit.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Empty strings and JSON nulls both mean "no value" in the forms
+CREATE OR REPLACE FUNCTION public.normalize_form_value(_value JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN _value IS NULL OR _value = 'null'::jsonb OR _value = '""'::jsonb THEN NULL ELSE _value END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_claim_form_data()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source TEXT := COALESCE(NEW.last_edit_source, 'manual');
+  _key TEXT;
+  _old JSONB;
+  _new JSONB;
+BEGIN
+  IF NEW.form_data IS DISTINCT FROM OLD.form_data THEN
+    FOR _key IN
+      SELECT jsonb_object_keys(COALESCE(OLD.form_data, '{}'::jsonb))
+      UNION
+      SELECT jsonb_object_keys(COALESCE(NEW.form_data, '{}'::jsonb))
+    LOOP
+      -- Bookkeeping keys written alongside every save, not user-facing fields
+      CONTINUE WHEN _key IN ('field_labels', 'dynamic_sections_metadata');
+
+      _old := public.normalize_form_value(OLD.form_data -> _key);
+      _new := public.normalize_form_value(NEW.form_data -> _key);
+
+      IF _old IS DISTINCT FROM _new THEN
+        INSERT INTO public.claim_field_audit (claim_id, field_key, old_value, new_value, source, changed_by)
+        VALUES (NEW.id, _key, _old, _new, _source, auth.uid());
+      END IF;
+    END LOOP;
+  END IF;
+
+  NEW.last_edit_source := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER audit_claim_form_data
+  BEFORE UPDATE ON public.claims
+  FOR EACH ROW EXECUTE FUNCTION public.audit_claim_form_data();
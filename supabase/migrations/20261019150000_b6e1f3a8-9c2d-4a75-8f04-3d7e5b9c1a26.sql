@@ -0,0 +1,18 @@
+-- Row versioning for claims so concurrent editors can detect that someone else saved first.
+-- Clients update with "WHERE version = <version they loaded>"; zero matched rows means a conflict.
+ALTER TABLE public.claims ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION public.bump_claim_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_claim_version
+  BEFORE UPDATE ON public.claims
+  FOR EACH ROW EXECUTE FUNCTION public.bump_claim_version();
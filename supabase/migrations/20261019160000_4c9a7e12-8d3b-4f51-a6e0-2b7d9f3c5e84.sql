@@ -0,0 +1,61 @@
+-- Survey fee schedules. The fee bill picks the most specific active schedule for the claim
+-- (insurer + policy type, then insurer, then policy type, then the catch-all default) and
+-- computes the survey fee from the slab that contains the estimated loss amount.
+CREATE TABLE public.fee_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- NULL means "any insurer"; set for per-insurer overrides
+  insurer_id UUID REFERENCES public.insurers(id) ON DELETE CASCADE,
+  -- NULL means "any policy type"
+  policy_type_id UUID REFERENCES public.policy_types(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- [{ "from": 0, "to": 200000, "base_fee": 2800, "percent": 0.7 }, ...]
+  -- fee = base_fee + percent% of the loss above "from"; "to" is NULL on the last slab
+  slabs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  minimum_fee NUMERIC(12, 2),
+  maximum_fee NUMERIC(12, 2),
+  reinspection_fee NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  conveyance_per_visit NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  travel_rate_per_km NUMERIC(12, 3) NOT NULL DEFAULT 0,
+  photo_rate NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (minimum_fee IS NULL OR maximum_fee IS NULL OR minimum_fee <= maximum_fee)
+);
+
+-- One active schedule per insurer / policy type combination
+CREATE UNIQUE INDEX idx_fee_schedules_scope
+ON public.fee_schedules (
+  COALESCE(insurer_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  COALESCE(policy_type_id, '00000000-0000-0000-0000-000000000000'::uuid)
+)
+WHERE is_active;
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_fee_schedules_updated_at
+  BEFORE UPDATE ON public.fee_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Fee schedules are viewable by authenticated users"
+ON public.fee_schedules
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage fee schedules"
+ON public.fee_schedules
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The tariff the fee bill used before schedules existed
+INSERT INTO public.fee_schedules (
+  name, slabs, reinspection_fee, conveyance_per_visit, travel_rate_per_km, photo_rate
+) VALUES (
+  'Standard survey fee',
+  '[{"from": 0, "to": null, "base_fee": 2800, "percent": 0.7}]'::jsonb,
+  1000, 500, 15.307, 10
+);
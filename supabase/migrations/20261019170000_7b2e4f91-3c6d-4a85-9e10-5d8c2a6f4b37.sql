@@ -0,0 +1,57 @@
+-- GST registration of the surveyor firm, used when a fee bill is issued as a tax invoice.
+-- A single row: the fee bill reads it to decide CGST/SGST vs IGST and to fill the
+-- seller block of the e-invoice (IRN) export.
+CREATE TABLE public.gst_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  -- New fee bills start in GST mode when the firm is registered
+  gst_registered BOOLEAN NOT NULL DEFAULT false,
+  gstin TEXT,
+  legal_name TEXT,
+  trade_name TEXT,
+  address TEXT,
+  location TEXT,
+  pincode TEXT,
+  -- Two-digit GST state code; the first two characters of the GSTIN
+  state_code TEXT,
+  -- 997162: insurance claims adjustment services (surveyors and loss assessors)
+  sac_code TEXT NOT NULL DEFAULT '997162',
+  gst_rate NUMERIC(5, 2) NOT NULL DEFAULT 18,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  CHECK (state_code IS NULL OR state_code ~ '^[0-9]{2}$')
+);
+
+ALTER TABLE public.gst_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_gst_settings_updated_at
+  BEFORE UPDATE ON public.gst_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "GST settings are viewable by authenticated users"
+ON public.gst_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage GST settings"
+ON public.gst_settings
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.gst_settings (id) VALUES (true);
+
+-- Insurer GSTIN pre-fills the recipient on tax invoices; a bill can still override it
+-- for an office registered in another state
+ALTER TABLE public.insurers
+ADD COLUMN gstin TEXT CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$');
+
+CREATE POLICY "Admins can update insurers"
+ON public.insurers
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,210 @@
+-- Invoice number series. Fee bills draw sequential numbers per series and financial
+-- year (April to March), allocated when the bill is finalized. number_format accepts
+-- {prefix}, {fy} (e.g. 2026-27) and {seq}, which is zero-padded to sequence_padding.
+CREATE TABLE public.invoice_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- The surveyor firm issuing under this series
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL,
+  number_format TEXT NOT NULL DEFAULT '{prefix}/{fy}/{seq}',
+  sequence_padding INTEGER NOT NULL DEFAULT 4 CHECK (sequence_padding BETWEEN 1 AND 8),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (number_format LIKE '%{seq}%')
+);
+
+CREATE UNIQUE INDEX idx_invoice_series_default ON public.invoice_series (is_default) WHERE is_default;
+
+-- Last number handed out per series and financial year
+CREATE TABLE public.invoice_series_counters (
+  series_id UUID NOT NULL REFERENCES public.invoice_series(id) ON DELETE CASCADE,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (series_id, financial_year)
+);
+
+-- Fee-bill register: one row per issued invoice. A reopened bill keeps its number.
+CREATE TABLE public.fee_invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL UNIQUE REFERENCES public.claims(id) ON DELETE CASCADE,
+  series_id UUID NOT NULL REFERENCES public.invoice_series(id),
+  financial_year TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  invoice_number TEXT NOT NULL UNIQUE,
+  invoice_date DATE NOT NULL,
+  insurer_name TEXT,
+  taxable_value NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  gst_invoice BOOLEAN NOT NULL DEFAULT false,
+  payment_status TEXT NOT NULL DEFAULT 'unpaid' CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid')),
+  issued_by UUID,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (series_id, financial_year, sequence)
+);
+
+CREATE INDEX idx_fee_invoices_invoice_date ON public.fee_invoices (invoice_date DESC);
+
+ALTER TABLE public.invoice_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_series_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.fee_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_invoice_series_updated_at
+  BEFORE UPDATE ON public.invoice_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_fee_invoices_updated_at
+  BEFORE UPDATE ON public.fee_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Invoice series are viewable by authenticated users"
+ON public.invoice_series
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage invoice series"
+ON public.invoice_series
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Invoice counters are viewable by authenticated users"
+ON public.invoice_series_counters
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Counters only move through issue_fee_invoice; admins may reset them
+CREATE POLICY "Admins can manage invoice counters"
+ON public.invoice_series_counters
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view invoices for their claims"
+ON public.fee_invoices
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = fee_invoices.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update payment status for their claims"
+ON public.fee_invoices
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = fee_invoices.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Financial year label for a date: 2026-27 runs from 1 April 2026 to 31 March 2027
+CREATE OR REPLACE FUNCTION public.financial_year_of(_date DATE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM _date) >= 4
+      THEN EXTRACT(YEAR FROM _date)::int || '-' || lpad(((EXTRACT(YEAR FROM _date)::int + 1) % 100)::text, 2, '0')
+    ELSE (EXTRACT(YEAR FROM _date)::int - 1) || '-' || lpad((EXTRACT(YEAR FROM _date)::int % 100)::text, 2, '0')
+  END;
+$$;
+
+-- Issue (or re-issue) the invoice for a claim's fee bill. The first call allocates the
+-- next number of the series for the invoice date's financial year; the counter row is
+-- incremented in a single statement, so concurrent finalizes never share a number.
+-- Later calls, after the bill was reopened, refresh the amounts and keep the number.
+CREATE OR REPLACE FUNCTION public.issue_fee_invoice(
+  _claim_id UUID,
+  _series_id UUID,
+  _invoice_date DATE,
+  _taxable_value NUMERIC,
+  _tax_amount NUMERIC,
+  _total_amount NUMERIC,
+  _gst_invoice BOOLEAN DEFAULT false
+)
+RETURNS public.fee_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner UUID;
+  _insurer TEXT;
+  _series public.invoice_series%ROWTYPE;
+  _fy TEXT;
+  _sequence INTEGER;
+  _invoice public.fee_invoices%ROWTYPE;
+BEGIN
+  SELECT user_id, form_data->>'insurer' INTO _owner, _insurer
+  FROM public.claims
+  WHERE id = _claim_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') AND _owner IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this claim';
+  END IF;
+
+  UPDATE public.fee_invoices
+  SET invoice_date = _invoice_date,
+      insurer_name = _insurer,
+      taxable_value = _taxable_value,
+      tax_amount = _tax_amount,
+      total_amount = _total_amount,
+      gst_invoice = _gst_invoice
+  WHERE claim_id = _claim_id
+  RETURNING * INTO _invoice;
+
+  IF FOUND THEN
+    RETURN _invoice;
+  END IF;
+
+  SELECT * INTO _series FROM public.invoice_series WHERE id = _series_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice series not found or inactive';
+  END IF;
+
+  _fy := public.financial_year_of(_invoice_date);
+
+  INSERT INTO public.invoice_series_counters (series_id, financial_year, last_number)
+  VALUES (_series.id, _fy, 1)
+  ON CONFLICT (series_id, financial_year)
+  DO UPDATE SET last_number = invoice_series_counters.last_number + 1
+  RETURNING last_number INTO _sequence;
+
+  INSERT INTO public.fee_invoices (
+    claim_id, series_id, financial_year, sequence, invoice_number, invoice_date,
+    insurer_name, taxable_value, tax_amount, total_amount, gst_invoice, issued_by
+  ) VALUES (
+    _claim_id, _series.id, _fy, _sequence,
+    replace(replace(replace(_series.number_format,
+      '{prefix}', _series.prefix),
+      '{fy}', _fy),
+      '{seq}', lpad(_sequence::text, _series.sequence_padding, '0')),
+    _invoice_date, _insurer, _taxable_value, _tax_amount, _total_amount, _gst_invoice, auth.uid()
+  )
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+-- Seeded from the signatory on the current fee bill
+INSERT INTO public.invoice_series (name, prefix, is_default) VALUES ('Rajesh Gondalia', 'RG', true);
@@ -0,0 +1,105 @@
+-- Fee payments received against issued invoices. An invoice is settled by the amount
+-- received plus any TDS the insurer deducted at source; payment_status on fee_invoices
+-- now follows from the recorded payments instead of being set by hand.
+CREATE TABLE public.fee_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.fee_invoices(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('full', 'partial', 'advance')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  tds_amount NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (tds_amount >= 0),
+  payment_date DATE NOT NULL,
+  -- Bank reference (UTR) of the NEFT/RTGS credit
+  utr TEXT,
+  notes TEXT,
+  recorded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount + tds_amount > 0)
+);
+
+CREATE INDEX idx_fee_payments_invoice_id ON public.fee_payments (invoice_id, payment_date);
+
+ALTER TABLE public.fee_invoices
+ADD COLUMN amount_received NUMERIC(12, 2) NOT NULL DEFAULT 0,
+ADD COLUMN tds_deducted NUMERIC(12, 2) NOT NULL DEFAULT 0,
+ADD COLUMN last_payment_date DATE;
+
+ALTER TABLE public.fee_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their claims"
+ON public.fee_payments
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.fee_invoices
+    JOIN public.claims ON claims.id = fee_invoices.claim_id
+    WHERE fee_invoices.id = fee_payments.invoice_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can record payments for their claims"
+ON public.fee_payments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.fee_invoices
+    JOIN public.claims ON claims.id = fee_invoices.claim_id
+    WHERE fee_invoices.id = fee_payments.invoice_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can delete payments"
+ON public.fee_payments
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Payment status is derived now; nobody sets it directly
+DROP POLICY "Users can update payment status for their claims" ON public.fee_invoices;
+
+-- Status from what has been settled; a rupee of rounding still counts as paid
+CREATE OR REPLACE FUNCTION public.set_fee_invoice_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.payment_status := CASE
+    WHEN NEW.amount_received + NEW.tds_deducted >= NEW.total_amount - 1 AND NEW.total_amount > 0 THEN 'paid'
+    WHEN NEW.amount_received + NEW.tds_deducted > 0 THEN 'partially_paid'
+    ELSE 'unpaid'
+  END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_fee_invoice_payment_status
+  BEFORE INSERT OR UPDATE OF total_amount, amount_received, tds_deducted ON public.fee_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.set_fee_invoice_payment_status();
+
+CREATE OR REPLACE FUNCTION public.sync_fee_invoice_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice_id UUID := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+  UPDATE public.fee_invoices
+  SET (amount_received, tds_deducted, last_payment_date) = (
+    SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(tds_amount), 0), MAX(payment_date)
+    FROM public.fee_payments
+    WHERE invoice_id = _invoice_id
+  )
+  WHERE id = _invoice_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_fee_invoice_payments
+  AFTER INSERT OR UPDATE OR DELETE ON public.fee_payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_fee_invoice_payments();
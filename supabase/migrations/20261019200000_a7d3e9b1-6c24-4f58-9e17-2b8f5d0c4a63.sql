@@ -0,0 +1,172 @@
+-- Organisation profiles: the identity a surveyor issues fee bills and reports under.
+-- Replaces the firm name, bank account, signatory and letterhead that were hard-coded
+-- in the fee bill and report preview, so several surveyors in a practice can each
+-- issue under their own name.
+CREATE TABLE public.organisation_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Label shown when picking a profile, e.g. "Rajesh Gondalia - Bhilai"
+  name TEXT NOT NULL,
+  firm_name TEXT NOT NULL,
+  licence_number TEXT,
+  licence_valid_until DATE,
+  address TEXT,
+  phone TEXT,
+  email TEXT,
+  signatory_name TEXT NOT NULL,
+  signatory_designation TEXT,
+  signature_url TEXT,
+  -- Full letterhead for the first page; the footer-only background for later pages,
+  -- and for the first page when a report is printed without the header
+  letterhead_first_page_url TEXT,
+  letterhead_other_pages_url TEXT,
+  -- Surveyor whose bills and reports use this profile unless another is picked
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  invoice_series_id UUID REFERENCES public.invoice_series(id) ON DELETE SET NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one default profile
+CREATE UNIQUE INDEX organisation_profiles_single_default
+ON public.organisation_profiles (is_default)
+WHERE is_default;
+
+CREATE INDEX idx_organisation_profiles_user_id ON public.organisation_profiles (user_id);
+
+ALTER TABLE public.organisation_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organisation_profiles_updated_at
+  BEFORE UPDATE ON public.organisation_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Organisation profiles are viewable by authenticated users"
+ON public.organisation_profiles
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage organisation profiles"
+ON public.organisation_profiles
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Bank accounts printed on fee bills for RTGS/NEFT payment
+CREATE TABLE public.organisation_bank_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.organisation_profiles(id) ON DELETE CASCADE,
+  bank_name TEXT NOT NULL,
+  branch TEXT,
+  account_name TEXT,
+  account_number TEXT NOT NULL,
+  ifsc_code TEXT NOT NULL CHECK (ifsc_code ~ '^[A-Z]{4}0[A-Z0-9]{6}$'),
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one primary account per profile
+CREATE UNIQUE INDEX organisation_bank_accounts_single_primary
+ON public.organisation_bank_accounts (profile_id)
+WHERE is_primary;
+
+ALTER TABLE public.organisation_bank_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Organisation bank accounts are viewable by authenticated users"
+ON public.organisation_bank_accounts
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage organisation bank accounts"
+ON public.organisation_bank_accounts
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Insurer offices a fee bill is addressed to, e.g. a divisional office
+CREATE TABLE public.insurer_offices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  insurer_id UUID NOT NULL REFERENCES public.insurers(id) ON DELETE CASCADE,
+  office_name TEXT NOT NULL,
+  address TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one default office per insurer
+CREATE UNIQUE INDEX insurer_offices_single_default
+ON public.insurer_offices (insurer_id)
+WHERE is_default;
+
+ALTER TABLE public.insurer_offices ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_insurer_offices_updated_at
+  BEFORE UPDATE ON public.insurer_offices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Insurer offices are viewable by authenticated users"
+ON public.insurer_offices
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage insurer offices"
+ON public.insurer_offices
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Signatures and letterhead backgrounds. Public, because the PDF renderer fetches the
+-- backgrounds by URL.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('organisation-assets', 'organisation-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can upload organisation assets"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'organisation-assets' AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete organisation assets"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'organisation-assets' AND public.has_role(auth.uid(), 'admin'));
+
+-- Seed the profile, account and office that were hard-coded until now
+WITH profile AS (
+  INSERT INTO public.organisation_profiles (
+    name,
+    firm_name,
+    signatory_name,
+    letterhead_first_page_url,
+    letterhead_other_pages_url,
+    invoice_series_id,
+    is_default
+  )
+  SELECT
+    'Rajesh Gondalia',
+    'RAJESH GONDALIA',
+    'RAJESH GONDALIA',
+    'https://ik.imagekit.io/pritvik/Reports%20-%20generic%20bg.png?updatedAt=1763381793043',
+    'https://ik.imagekit.io/pritvik/Reports%20-%20generic%20footer%20only%20bg',
+    (SELECT id FROM public.invoice_series WHERE is_default LIMIT 1),
+    true
+  RETURNING id
+)
+INSERT INTO public.organisation_bank_accounts (profile_id, bank_name, branch, account_number, ifsc_code, is_primary)
+SELECT id, 'ICICI BANK LTD.', 'Nehru Nagar (East), Bhilai-490020 (C.G.)', '001605050333', 'ICIC0000186', true
+FROM profile;
+
+INSERT INTO public.insurer_offices (insurer_id, office_name, address, is_default)
+SELECT id, 'D.O. Tatibandh', 'D.O. Tatibandh,' || E'\n' || 'Raipur', true
+FROM public.insurers
+WHERE name ILIKE 'united india%'
+LIMIT 1;
@@ -0,0 +1,95 @@
+-- Motor depreciation rule sets. The assessment computes depreciation rates on spares from
+-- the vehicle's age (registration date to date of accident) and the part material.
+-- Rule sets are versioned: a change is saved as a new version, so assessments keep
+-- pointing at the rules they were computed with. The assessment uses the latest version
+-- in effect on the date of accident, for the claim's insurer or else the default.
+CREATE TABLE public.depreciation_rule_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- NULL means "any insurer"; set for per-insurer rules
+  insurer_id UUID REFERENCES public.insurers(id) ON DELETE CASCADE,
+  -- Numbered per insurer by set_depreciation_rule_set_version
+  version INTEGER NOT NULL DEFAULT 0,
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- [{ "up_to_months": 6, "percent": 0 }, ..., { "up_to_months": null, "percent": 50 }]
+  -- rate on metal parts by vehicle age; "up_to_months" is NULL on the last slab
+  metal_slabs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rubber_plastic_percent NUMERIC(5, 2) NOT NULL DEFAULT 50,
+  fibreglass_percent NUMERIC(5, 2) NOT NULL DEFAULT 30,
+  glass_percent NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (rubber_plastic_percent BETWEEN 0 AND 100),
+  CHECK (fibreglass_percent BETWEEN 0 AND 100),
+  CHECK (glass_percent BETWEEN 0 AND 100)
+);
+
+CREATE UNIQUE INDEX idx_depreciation_rule_sets_version
+ON public.depreciation_rule_sets (
+  COALESCE(insurer_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  version
+);
+
+ALTER TABLE public.depreciation_rule_sets ENABLE ROW LEVEL SECURITY;
+
+-- Versions are never edited, only added
+CREATE POLICY "Depreciation rule sets are viewable by authenticated users"
+ON public.depreciation_rule_sets
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can add depreciation rule sets"
+ON public.depreciation_rule_sets
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete depreciation rule sets"
+ON public.depreciation_rule_sets
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.set_depreciation_rule_set_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise version numbering per insurer
+  PERFORM pg_advisory_xact_lock(
+    hashtext('depreciation_rule_sets:' || COALESCE(NEW.insurer_id::text, 'default'))
+  );
+
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO NEW.version
+  FROM public.depreciation_rule_sets
+  WHERE insurer_id IS NOT DISTINCT FROM NEW.insurer_id;
+
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_depreciation_rule_set_version
+  BEFORE INSERT ON public.depreciation_rule_sets
+  FOR EACH ROW EXECUTE FUNCTION public.set_depreciation_rule_set_version();
+
+-- India Motor Tariff depreciation on parts: nil on glass, 50% on rubber, nylon and
+-- plastic, 30% on fibreglass and a rate by vehicle age on metal parts
+INSERT INTO public.depreciation_rule_sets (name, effective_from, metal_slabs) VALUES (
+  'India Motor Tariff',
+  '2000-01-01',
+  '[
+    {"up_to_months": 6, "percent": 0},
+    {"up_to_months": 12, "percent": 5},
+    {"up_to_months": 24, "percent": 10},
+    {"up_to_months": 36, "percent": 15},
+    {"up_to_months": 48, "percent": 25},
+    {"up_to_months": 60, "percent": 35},
+    {"up_to_months": 120, "percent": 40},
+    {"up_to_months": null, "percent": 50}
+  ]'::jsonb
+);
@@ -0,0 +1,47 @@
+-- Reasons a surveyor gives for assessing a line below the garage estimate. The reason
+-- label is copied onto the assessment row, so renaming a reason does not change reports
+-- already written.
+CREATE TABLE public.disallowance_reasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  -- 'spare', 'labour' or 'both'
+  applies_to TEXT NOT NULL DEFAULT 'both' CHECK (applies_to IN ('spare', 'labour', 'both')),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX disallowance_reasons_label
+ON public.disallowance_reasons (lower(label));
+
+ALTER TABLE public.disallowance_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_disallowance_reasons_updated_at
+  BEFORE UPDATE ON public.disallowance_reasons
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Disallowance reasons are viewable by authenticated users"
+ON public.disallowance_reasons
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage disallowance reasons"
+ON public.disallowance_reasons
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.disallowance_reasons (label, applies_to, sort_order) VALUES
+  ('Not related to the accident', 'both', 1),
+  ('Pre-existing / old damage', 'both', 2),
+  ('Repairable, replacement not justified', 'spare', 3),
+  ('Price above MRP / dealer price list', 'spare', 4),
+  ('Consumables not covered by policy', 'spare', 5),
+  ('Wear and tear / mechanical failure', 'both', 6),
+  ('Not supported by final invoice', 'both', 7),
+  ('Labour charges above approved rates', 'labour', 8),
+  ('Duplicated in estimate', 'both', 9);
@@ -0,0 +1,98 @@
+-- Admin-defined extraction profiles, one per kind of document. Each field mapping names the
+-- key asked of the extraction service, the form_data field it is written to, and how the
+-- extracted text is coerced:
+-- [{ "key": "invoice_no", "field": "invoice_number", "type": "text" }, ...]
+-- type is one of 'text', 'number', 'amount', 'date' or 'weight'.
+-- A document requirement picks its profile through
+-- policy_types.document_rules[label].extraction_profile_id.
+CREATE TABLE public.extraction_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  document_type TEXT NOT NULL,
+  description TEXT,
+  fields JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX extraction_profiles_name
+ON public.extraction_profiles (lower(name));
+
+ALTER TABLE public.extraction_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_extraction_profiles_updated_at
+  BEFORE UPDATE ON public.extraction_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Extraction profiles are viewable by authenticated users"
+ON public.extraction_profiles
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage extraction profiles"
+ON public.extraction_profiles
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.extraction_profiles (name, document_type, fields) VALUES
+  ('Survey request letter', 'Survey Request Letter', '[
+    {"key": "letter_reference", "field": "survey_request_reference", "type": "text"},
+    {"key": "letter_date", "field": "survey_request_date", "type": "date"},
+    {"key": "insurer_name", "field": "insurer_name", "type": "text"},
+    {"key": "insured_name", "field": "insured_name", "type": "text"},
+    {"key": "policy_number", "field": "policy_number", "type": "text"},
+    {"key": "claim_number", "field": "insurer_claim_number", "type": "text"},
+    {"key": "date_of_loss", "field": "date_of_loss", "type": "date"},
+    {"key": "place_of_survey", "field": "place_of_survey", "type": "text"}
+  ]'::jsonb),
+  ('Commercial invoice', 'Commercial Invoice', '[
+    {"key": "invoice_no", "field": "invoice_number", "type": "text"},
+    {"key": "invoice_date", "field": "invoice_date", "type": "date"},
+    {"key": "consignor_name", "field": "consignor_name", "type": "text"},
+    {"key": "consignee_name", "field": "consignee_name", "type": "text"},
+    {"key": "description_of_goods", "field": "description_of_goods", "type": "text"},
+    {"key": "invoice_value", "field": "invoice_value", "type": "amount"},
+    {"key": "currency", "field": "invoice_currency", "type": "text"}
+  ]'::jsonb),
+  ('Packing list', 'Packing List', '[
+    {"key": "packing_list_no", "field": "packing_list_number", "type": "text"},
+    {"key": "packing_list_date", "field": "packing_list_date", "type": "date"},
+    {"key": "number_of_packages", "field": "number_of_packages", "type": "number"},
+    {"key": "gross_weight", "field": "gross_weight_kg", "type": "weight"},
+    {"key": "net_weight", "field": "net_weight_kg", "type": "weight"}
+  ]'::jsonb),
+  ('LR / consignment note', 'LR / Consignment Note', '[
+    {"key": "lr_number", "field": "lr_number", "type": "text"},
+    {"key": "lr_date", "field": "lr_date", "type": "date"},
+    {"key": "transporter_name", "field": "transporter_name", "type": "text"},
+    {"key": "vehicle_number", "field": "carrying_vehicle_number", "type": "text"},
+    {"key": "from_place", "field": "transit_from", "type": "text"},
+    {"key": "to_place", "field": "transit_to", "type": "text"},
+    {"key": "number_of_packages", "field": "number_of_packages", "type": "number"},
+    {"key": "charged_weight", "field": "charged_weight_kg", "type": "weight"},
+    {"key": "freight_amount", "field": "freight_amount", "type": "amount"}
+  ]'::jsonb),
+  ('Driving licence', 'Driving Licence', '[
+    {"key": "licence_number", "field": "driver_licence_number", "type": "text"},
+    {"key": "holder_name", "field": "driver_name", "type": "text"},
+    {"key": "date_of_birth", "field": "driver_date_of_birth", "type": "date"},
+    {"key": "issue_date", "field": "driver_licence_issue_date", "type": "date"},
+    {"key": "valid_till", "field": "driver_licence_valid_till", "type": "date"},
+    {"key": "vehicle_classes", "field": "driver_licence_classes", "type": "text"},
+    {"key": "issuing_authority", "field": "driver_licence_authority", "type": "text"}
+  ]'::jsonb),
+  ('Registration certificate (RC)', 'Registration Certificate', '[
+    {"key": "registration_number", "field": "vehicle_registration_number", "type": "text"},
+    {"key": "registration_date", "field": "vehicle_registration_date", "type": "date"},
+    {"key": "owner_name", "field": "vehicle_owner_name", "type": "text"},
+    {"key": "chassis_number", "field": "chassis_number", "type": "text"},
+    {"key": "engine_number", "field": "engine_number", "type": "text"},
+    {"key": "make_model", "field": "vehicle_make_model", "type": "text"},
+    {"key": "fuel_type", "field": "vehicle_fuel_type", "type": "text"},
+    {"key": "unladen_weight", "field": "vehicle_unladen_weight_kg", "type": "weight"},
+    {"key": "fitness_valid_till", "field": "vehicle_fitness_valid_till", "type": "date"}
+  ]'::jsonb);
@@ -0,0 +1,129 @@
+-- Server-side extraction of uploaded claim documents. A job is queued when a document is
+-- uploaded to, or assigned to, a requirement that has an extraction profile
+-- (policy_types.document_rules[label].extraction_profile_id), whether it came from the app or
+-- a public upload link. The extraction-worker edge function claims queued jobs, runs them
+-- against the document service and stores the raw result for review in the claim.
+CREATE TABLE public.extraction_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.claim_documents(id) ON DELETE CASCADE,
+  document_label TEXT,
+  extraction_profile_id UUID REFERENCES public.extraction_profiles(id) ON DELETE SET NULL,
+  -- 'queued', 'running', 'succeeded' or 'failed'
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- { "extractedData": {...}, "fieldDetails": {...} } keyed by extraction key
+  result JSONB,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  -- Set once the result has been merged into the claim or dismissed
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX extraction_jobs_status ON public.extraction_jobs (status, created_at);
+CREATE INDEX extraction_jobs_claim ON public.extraction_jobs (claim_id, created_at DESC);
+
+ALTER TABLE public.extraction_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_extraction_jobs_updated_at
+  BEFORE UPDATE ON public.extraction_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can view extraction jobs for their claims"
+ON public.extraction_jobs
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = extraction_jobs.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Marking results reviewed and requeueing failed jobs
+CREATE POLICY "Users can update extraction jobs for their claims"
+ON public.extraction_jobs
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = extraction_jobs.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Queue a job for documents filed under a requirement with an active extraction profile
+CREATE OR REPLACE FUNCTION public.queue_extraction_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id UUID;
+BEGIN
+  IF NEW.field_label IS NULL OR NEW.file_type = 'placeholder' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.field_label IS NOT DISTINCT FROM OLD.field_label THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT ep.id INTO _profile_id
+  FROM public.claims c
+  JOIN public.policy_types pt ON pt.id = c.policy_type_id
+  JOIN public.extraction_profiles ep
+    ON ep.id::text = pt.document_rules -> NEW.field_label ->> 'extraction_profile_id'
+  WHERE c.id = NEW.claim_id
+  AND ep.is_active;
+
+  -- Reassigning a document back to the same requirement does not extract it again
+  IF _profile_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.extraction_jobs
+    WHERE document_id = NEW.id
+    AND extraction_profile_id = _profile_id
+    AND reviewed_at IS NULL
+  ) THEN
+    INSERT INTO public.extraction_jobs (claim_id, document_id, document_label, extraction_profile_id)
+    VALUES (NEW.claim_id, NEW.id, NEW.field_label, _profile_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_extraction_job_on_document
+  AFTER INSERT OR UPDATE OF field_label ON public.claim_documents
+  FOR EACH ROW EXECUTE FUNCTION public.queue_extraction_job();
+
+-- Hand queued jobs to a worker; concurrent workers never get the same job
+CREATE OR REPLACE FUNCTION public.claim_extraction_jobs(_limit INTEGER DEFAULT 5)
+RETURNS SETOF public.extraction_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.extraction_jobs j
+  SET status = 'running', started_at = now(), attempts = j.attempts + 1, error = NULL
+  WHERE j.id IN (
+    SELECT q.id FROM public.extraction_jobs q
+    WHERE q.status = 'queued'
+    ORDER BY q.created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_extraction_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_extraction_jobs(INTEGER) TO service_role;
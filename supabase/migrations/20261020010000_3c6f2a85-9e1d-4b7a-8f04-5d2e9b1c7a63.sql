@@ -0,0 +1,222 @@
+-- Per-claim document checklist. Each required document of the claim's policy type is
+-- 'missing' or 'received' depending on whether a document is filed under it, and a reviewer
+-- can mark it 'verified' (against a specific document) or 'waived' (with a reason).
+-- Requirements flagged mandatory (policy_types.document_rules[label].mandatory) must be
+-- verified or waived before the claim can be approved or a final report issued.
+CREATE TABLE public.claim_document_checks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  requirement_label TEXT NOT NULL,
+  -- 'verified' or 'waived'; missing/received are derived from claim_documents
+  status TEXT NOT NULL CHECK (status IN ('verified', 'waived')),
+  -- The document that was verified; deleting it drops the verification
+  document_id UUID REFERENCES public.claim_documents(id) ON DELETE CASCADE,
+  waiver_reason TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (claim_id, requirement_label),
+  CHECK (status <> 'verified' OR document_id IS NOT NULL),
+  CHECK (status <> 'waived' OR COALESCE(btrim(waiver_reason), '') <> '')
+);
+
+ALTER TABLE public.claim_document_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_claim_document_checks_updated_at
+  BEFORE UPDATE ON public.claim_document_checks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can manage document checks for their claims"
+ON public.claim_document_checks
+FOR ALL
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = claim_document_checks.claim_id
+    AND claims.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = claim_document_checks.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- One row per required document, in the policy type's order, with its effective status.
+-- A verification only counts while the verified document is still filed under the requirement.
+CREATE OR REPLACE FUNCTION public.get_document_checklist(_claim_id UUID)
+RETURNS TABLE (
+  requirement_label TEXT,
+  mandatory BOOLEAN,
+  status TEXT,
+  document_id UUID,
+  document_name TEXT,
+  waiver_reason TEXT,
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH requirements AS (
+    SELECT r.label, r.ord,
+      COALESCE((pt.document_rules -> r.label ->> 'mandatory')::boolean, false) AS mandatory
+    FROM public.claims c
+    JOIN public.policy_types pt ON pt.id = c.policy_type_id
+    CROSS JOIN LATERAL unnest(pt.required_documents) WITH ORDINALITY AS r(label, ord)
+    WHERE c.id = _claim_id
+  )
+  SELECT
+    req.label,
+    req.mandatory,
+    CASE
+      WHEN chk.status = 'waived' THEN 'waived'
+      WHEN verified.id IS NOT NULL THEN 'verified'
+      WHEN latest.id IS NOT NULL THEN 'received'
+      ELSE 'missing'
+    END,
+    COALESCE(verified.id, latest.id),
+    COALESCE(verified.file_name, latest.file_name),
+    CASE WHEN chk.status = 'waived' THEN chk.waiver_reason END,
+    CASE WHEN chk.status = 'waived' OR verified.id IS NOT NULL THEN chk.reviewed_by END,
+    CASE WHEN chk.status = 'waived' OR verified.id IS NOT NULL THEN chk.reviewed_at END
+  FROM requirements req
+  LEFT JOIN public.claim_document_checks chk
+    ON chk.claim_id = _claim_id AND chk.requirement_label = req.label
+  LEFT JOIN public.claim_documents verified
+    ON chk.status = 'verified' AND verified.id = chk.document_id AND verified.field_label = req.label
+  LEFT JOIN LATERAL (
+    SELECT d.id, d.file_name
+    FROM public.claim_documents d
+    WHERE d.claim_id = _claim_id
+    AND d.field_label = req.label
+    AND d.file_type IS DISTINCT FROM 'placeholder'
+    ORDER BY d.is_selected DESC NULLS LAST, d.created_at DESC
+    LIMIT 1
+  ) latest ON true
+  ORDER BY req.ord;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_document_checklist(UUID) TO authenticated;
+
+-- Checklist counts for the claims list
+CREATE OR REPLACE FUNCTION public.get_document_completeness(_claim_ids UUID[])
+RETURNS TABLE (
+  claim_id UUID,
+  total INTEGER,
+  received INTEGER,
+  complete INTEGER,
+  mandatory_outstanding INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    COUNT(item.requirement_label)::integer,
+    COUNT(item.requirement_label) FILTER (WHERE item.status <> 'missing')::integer,
+    COUNT(item.requirement_label) FILTER (WHERE item.status IN ('verified', 'waived'))::integer,
+    COUNT(item.requirement_label) FILTER (WHERE item.mandatory AND item.status NOT IN ('verified', 'waived'))::integer
+  FROM public.claims c
+  LEFT JOIN LATERAL public.get_document_checklist(c.id) item ON true
+  WHERE c.id = ANY (_claim_ids)
+  GROUP BY c.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_document_completeness(UUID[]) TO authenticated;
+
+-- NULL when every mandatory document is verified or waived, otherwise the reason
+CREATE OR REPLACE FUNCTION public.check_claim_documents_complete(_claim_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _outstanding TEXT;
+BEGIN
+  SELECT string_agg(requirement_label, ', ') INTO _outstanding
+  FROM public.get_document_checklist(_claim_id)
+  WHERE mandatory AND status NOT IN ('verified', 'waived');
+
+  IF _outstanding IS NOT NULL THEN
+    RETURN 'Mandatory documents must be verified or waived first: ' || _outstanding;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- New status guard
+ALTER TABLE public.claim_status_transitions DROP CONSTRAINT claim_status_transitions_guard_check;
+ALTER TABLE public.claim_status_transitions ADD CONSTRAINT claim_status_transitions_guard_check
+  CHECK (guard IS NULL OR guard IN ('fee_bill_finalized', 'report_issued', 'final_report_issued', 'documents_complete'));
+
+CREATE OR REPLACE FUNCTION public.check_claim_status_guard(_claim_id UUID, _guard TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _guard IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF _guard = 'fee_bill_finalized' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE id = _claim_id AND form_data->>'fee_bill_finalized_at' IS NOT NULL
+    ) THEN
+      RETURN 'The fee bill must be finalized first';
+    END IF;
+  ELSIF _guard = 'report_issued' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.report_versions WHERE claim_id = _claim_id) THEN
+      RETURN 'A report must be issued first';
+    END IF;
+  ELSIF _guard = 'final_report_issued' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.report_versions WHERE claim_id = _claim_id AND stage = 'final') THEN
+      RETURN 'A final report must be issued first';
+    END IF;
+  ELSIF _guard = 'documents_complete' THEN
+    RETURN public.check_claim_documents_complete(_claim_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+UPDATE public.claim_status_transitions
+SET guard = 'documents_complete'
+WHERE from_status = 'under_review' AND to_status = 'approved' AND guard IS NULL;
+
+-- Final reports cannot be issued while mandatory documents are outstanding
+CREATE OR REPLACE FUNCTION public.enforce_final_report_documents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _error TEXT;
+BEGIN
+  IF NEW.stage = 'final' THEN
+    _error := public.check_claim_documents_complete(NEW.claim_id);
+    IF _error IS NOT NULL THEN
+      RAISE EXCEPTION '%', _error;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_final_report_documents
+  BEFORE INSERT ON public.report_versions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_final_report_documents();
@@ -0,0 +1,199 @@
+-- Automated reminders chasing the insured and broker for documents that are still missing.
+-- A claim gets at most one reminder schedule. On each day of its cadence (days after the
+-- schedule started) the document-reminders edge function issues a fresh batch upload link
+-- and sends the email and SMS templates to every recipient, listing the requirements that
+-- get_document_checklist() still reports as missing. The schedule stops on its own once
+-- nothing is missing or the cadence runs out.
+
+-- Firm-wide defaults and message templates (single row)
+CREATE TABLE public.reminder_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  -- Copied onto new schedules; each schedule can change its own
+  default_cadence_days INTEGER[] NOT NULL DEFAULT '{3,7,14}',
+  -- How long each reminder's upload link stays open
+  link_expiry_days INTEGER NOT NULL DEFAULT 7 CHECK (link_expiry_days > 0),
+  -- Templates use {{placeholders}}; see REMINDER_PLACEHOLDERS in src/lib/documentReminders.ts
+  email_subject TEXT NOT NULL,
+  email_body TEXT NOT NULL,
+  sms_body TEXT NOT NULL,
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (cardinality(default_cadence_days) > 0)
+);
+
+ALTER TABLE public.reminder_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_reminder_settings_updated_at
+  BEFORE UPDATE ON public.reminder_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Reminder settings are viewable by authenticated users"
+ON public.reminder_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage reminder settings"
+ON public.reminder_settings
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.reminder_settings (email_subject, email_body, sms_body) VALUES (
+  'Documents pending for claim {{claim_number}}',
+  E'Dear {{recipient_name}},\n\n'
+  'We are still waiting for the following documents for claim {{claim_number}} ({{insured_name}}):\n\n'
+  '{{documents}}\n\n'
+  'Please upload them using this link, which is open until {{link_expires}}:\n'
+  '{{upload_link}}\n\n'
+  'If you have already sent them, please ignore this message.\n\n'
+  'Regards',
+  'Claim {{claim_number}}: documents pending - {{documents}}. Upload by {{link_expires}}: {{upload_link}}'
+);
+
+CREATE TABLE public.document_reminder_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL UNIQUE REFERENCES public.claims(id) ON DELETE CASCADE,
+  -- Days after started_at on which a reminder goes out, kept sorted and distinct
+  cadence_days INTEGER[] NOT NULL,
+  channels TEXT[] NOT NULL DEFAULT '{email}',
+  -- [{ "role": "insured" | "broker" | "other", "name": "...", "email": "...", "phone": "..." }]
+  recipients JSONB NOT NULL DEFAULT '[]',
+  -- 'active', 'paused', 'complete' (nothing missing) or 'ended' (cadence ran out)
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'complete', 'ended')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Index into cadence_days of the next reminder; next_send_at follows from it
+  next_step INTEGER NOT NULL DEFAULT 0,
+  next_send_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (cardinality(cadence_days) > 0),
+  CHECK (cardinality(channels) > 0 AND channels <@ ARRAY['email', 'sms']),
+  CHECK (jsonb_typeof(recipients) = 'array')
+);
+
+CREATE INDEX document_reminder_schedules_due ON public.document_reminder_schedules (next_send_at)
+  WHERE status = 'active';
+
+ALTER TABLE public.document_reminder_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_document_reminder_schedules_updated_at
+  BEFORE UPDATE ON public.document_reminder_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can manage reminder schedules for their claims"
+ON public.document_reminder_schedules
+FOR ALL
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = document_reminder_schedules.claim_id
+    AND claims.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = document_reminder_schedules.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Keep the cadence sorted and work out when the next reminder is due
+CREATE OR REPLACE FUNCTION public.set_reminder_next_send_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cadence_days := ARRAY(SELECT DISTINCT d FROM unnest(NEW.cadence_days) d WHERE d > 0 ORDER BY d);
+
+  NEW.next_send_at := CASE
+    WHEN NEW.next_step < cardinality(NEW.cadence_days)
+    THEN NEW.started_at + make_interval(days => NEW.cadence_days[NEW.next_step + 1])
+  END;
+
+  IF NEW.status = 'active' AND NEW.next_send_at IS NULL THEN
+    NEW.status := 'ended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_reminder_next_send_at
+  BEFORE INSERT OR UPDATE ON public.document_reminder_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.set_reminder_next_send_at();
+
+-- One row per message sent (or attempted) to one recipient on one channel
+CREATE TABLE public.document_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  claim_id UUID NOT NULL REFERENCES public.claims(id) ON DELETE CASCADE,
+  schedule_id UUID REFERENCES public.document_reminder_schedules(id) ON DELETE SET NULL,
+  -- 1-based position in the cadence
+  reminder_number INTEGER NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient_name TEXT,
+  -- Email address or phone number
+  recipient TEXT NOT NULL,
+  outstanding TEXT[] NOT NULL DEFAULT '{}',
+  upload_token_id UUID REFERENCES public.upload_tokens(id) ON DELETE SET NULL,
+  -- Which transport handled the message, e.g. 'smtp', 'sms_gateway' or 'log'
+  transport TEXT,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX document_reminders_claim ON public.document_reminders (claim_id, created_at DESC);
+
+ALTER TABLE public.document_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge function (service role)
+CREATE POLICY "Users can view reminders for their claims"
+ON public.document_reminders
+FOR SELECT
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR EXISTS (
+    SELECT 1 FROM public.claims
+    WHERE claims.id = document_reminders.claim_id
+    AND claims.user_id = auth.uid()
+  )
+);
+
+-- Hand due schedules to the edge function and move each past the step it is about to send.
+-- A schedule that fell behind (paused, or the function did not run) sends only the latest
+-- overdue reminder instead of catching up one run at a time.
+CREATE OR REPLACE FUNCTION public.claim_due_reminders(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.document_reminder_schedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.document_reminder_schedules s
+  SET next_step = GREATEST(
+    s.next_step + 1,
+    (SELECT count(*)::INTEGER FROM unnest(s.cadence_days) d WHERE s.started_at + make_interval(days => d) <= now())
+  )
+  WHERE s.id IN (
+    SELECT q.id FROM public.document_reminder_schedules q
+    WHERE q.status = 'active'
+    AND q.next_send_at <= now()
+    ORDER BY q.next_send_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_reminders(INTEGER) TO service_role;
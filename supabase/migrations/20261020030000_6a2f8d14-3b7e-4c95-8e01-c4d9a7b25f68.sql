@@ -0,0 +1,104 @@
+-- Invoice numbers: sequence_padding is a minimum width. lpad() truncates, so a series with
+-- padding 2 turned sequence 100 into "10" and collided with an earlier invoice number.
+-- Re-issuing an invoice may move its date, but not into another financial year: the number
+-- was allocated from that year's counter.
+CREATE OR REPLACE FUNCTION public.issue_fee_invoice(
+  _claim_id UUID,
+  _series_id UUID,
+  _invoice_date DATE,
+  _taxable_value NUMERIC,
+  _tax_amount NUMERIC,
+  _total_amount NUMERIC,
+  _gst_invoice BOOLEAN DEFAULT false
+)
+RETURNS public.fee_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _owner UUID;
+  _insurer TEXT;
+  _series public.invoice_series%ROWTYPE;
+  _fy TEXT;
+  _sequence INTEGER;
+  _invoice public.fee_invoices%ROWTYPE;
+BEGIN
+  SELECT user_id, form_data->>'insurer' INTO _owner, _insurer
+  FROM public.claims
+  WHERE id = _claim_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') AND _owner IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this claim';
+  END IF;
+
+  UPDATE public.fee_invoices
+  SET invoice_date = _invoice_date,
+      insurer_name = _insurer,
+      taxable_value = _taxable_value,
+      tax_amount = _tax_amount,
+      total_amount = _total_amount,
+      gst_invoice = _gst_invoice
+  WHERE claim_id = _claim_id
+  RETURNING * INTO _invoice;
+
+  IF FOUND THEN
+    RETURN _invoice;
+  END IF;
+
+  SELECT * INTO _series FROM public.invoice_series WHERE id = _series_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice series not found or inactive';
+  END IF;
+
+  _fy := public.financial_year_of(_invoice_date);
+
+  INSERT INTO public.invoice_series_counters (series_id, financial_year, last_number)
+  VALUES (_series.id, _fy, 1)
+  ON CONFLICT (series_id, financial_year)
+  DO UPDATE SET last_number = invoice_series_counters.last_number + 1
+  RETURNING last_number INTO _sequence;
+
+  INSERT INTO public.fee_invoices (
+    claim_id, series_id, financial_year, sequence, invoice_number, invoice_date,
+    insurer_name, taxable_value, tax_amount, total_amount, gst_invoice, issued_by
+  ) VALUES (
+    _claim_id, _series.id, _fy, _sequence,
+    replace(replace(replace(_series.number_format,
+      '{prefix}', _series.prefix),
+      '{fy}', _fy),
+      '{seq}', CASE
+        WHEN length(_sequence::text) < _series.sequence_padding
+          THEN lpad(_sequence::text, _series.sequence_padding, '0')
+        ELSE _sequence::text
+      END),
+    _invoice_date, _insurer, _taxable_value, _tax_amount, _total_amount, _gst_invoice, auth.uid()
+  )
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+-- Also holds for invoice_date edits made outside issue_fee_invoice(), e.g. with the service role
+CREATE OR REPLACE FUNCTION public.check_fee_invoice_date()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.financial_year_of(NEW.invoice_date) IS DISTINCT FROM OLD.financial_year THEN
+    RAISE EXCEPTION 'Invoice % was numbered in financial year %; its date must stay within that year',
+      OLD.invoice_number, OLD.financial_year;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_fee_invoice_date
+  BEFORE UPDATE OF invoice_date ON public.fee_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.check_fee_invoice_date();
@@ -0,0 +1,19 @@
+-- issueReportVersion removes the PDF it uploaded when the report_versions row cannot be
+-- written. Without a DELETE policy that cleanup was silently refused. Only files that no
+-- version points at can be removed, so the archive of issued PDFs stays intact.
+CREATE POLICY "Users can remove unissued report files for their claims"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'issued-reports' AND (
+    public.has_role(auth.uid(), 'admin') OR EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE claims.id::text = (storage.foldername(name))[1]
+      AND claims.user_id = auth.uid()
+    )
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.report_versions
+    WHERE report_versions.pdf_path = objects.name
+  )
+);
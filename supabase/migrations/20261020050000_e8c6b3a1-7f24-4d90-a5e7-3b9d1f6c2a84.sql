@@ -0,0 +1,19 @@
+-- Give back an upload counted by consume_upload_token when the file could not be stored.
+-- A single statement, so concurrent uploads on the same link cannot overwrite each other's count.
+CREATE OR REPLACE FUNCTION public.release_upload_token(_token_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.upload_tokens
+  SET upload_count = GREATEST(upload_count - 1, 0)
+  WHERE id = _token_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_upload_token(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_upload_token(UUID) TO service_role;
+
+-- Uploads only go through the public-upload edge function now, which uses the service role
+REVOKE EXECUTE ON FUNCTION public.consume_upload_token(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_upload_token(TEXT) TO service_role;
@@ -0,0 +1,33 @@
+-- A worker killed mid-run (edge functions have a wall-clock limit) left its jobs 'running'
+-- for good: only queued jobs were ever claimed. Jobs running for longer than the worker can
+-- possibly take are claimed again, and fail once their attempts run out. Workers now take
+-- one job per call so a run stays within the limit.
+-- Keep the interval in sync with EXTRACTION_JOB_STALE_MS in src/lib/extractionJobs.ts and
+-- the attempts with MAX_ATTEMPTS in the extraction-worker function.
+CREATE OR REPLACE FUNCTION public.claim_extraction_jobs(_limit INTEGER DEFAULT 1)
+RETURNS SETOF public.extraction_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.extraction_jobs
+  SET status = 'failed', error = 'Extraction did not finish', finished_at = now()
+  WHERE status = 'running'
+  AND started_at < now() - interval '10 minutes'
+  AND attempts >= 3;
+
+  RETURN QUERY
+  UPDATE public.extraction_jobs j
+  SET status = 'running', started_at = now(), attempts = j.attempts + 1, error = NULL
+  WHERE j.id IN (
+    SELECT q.id FROM public.extraction_jobs q
+    WHERE q.status = 'queued'
+    OR (q.status = 'running' AND q.started_at < now() - interval '10 minutes')
+    ORDER BY q.created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
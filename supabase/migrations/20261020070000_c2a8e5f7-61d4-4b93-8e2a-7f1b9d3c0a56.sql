@@ -0,0 +1,67 @@
+-- Audit form_data down to its leaf values. Logging each top-level key as one field recorded
+-- the whole assessment on every autosave, could not show which amount changed and reverted
+-- unrelated edits along with it. Nested keys and array indexes are joined with dots, e.g.
+-- assessment.spare.new_spares.3.assessed_others_metal. A value that changes between a
+-- container and a scalar (a row added or removed) is logged whole at its path.
+CREATE OR REPLACE FUNCTION public.form_data_changes(_path TEXT, _old JSONB, _new JSONB)
+RETURNS TABLE (path TEXT, old_value JSONB, new_value JSONB)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _key TEXT;
+  _i INTEGER;
+BEGIN
+  _old := public.normalize_form_value(_old);
+  _new := public.normalize_form_value(_new);
+
+  IF _old IS NOT DISTINCT FROM _new THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_typeof(_old) = 'object' AND jsonb_typeof(_new) = 'object' THEN
+    FOR _key IN SELECT jsonb_object_keys(_old) UNION SELECT jsonb_object_keys(_new) LOOP
+      RETURN QUERY SELECT * FROM public.form_data_changes(_path || '.' || _key, _old -> _key, _new -> _key);
+    END LOOP;
+  ELSIF jsonb_typeof(_old) = 'array' AND jsonb_typeof(_new) = 'array' THEN
+    FOR _i IN 0 .. GREATEST(jsonb_array_length(_old), jsonb_array_length(_new)) - 1 LOOP
+      RETURN QUERY SELECT * FROM public.form_data_changes(_path || '.' || _i, _old -> _i, _new -> _i);
+    END LOOP;
+  ELSE
+    path := _path;
+    old_value := _old;
+    new_value := _new;
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_claim_form_data()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source TEXT := COALESCE(NEW.last_edit_source, 'manual');
+  _key TEXT;
+BEGIN
+  IF NEW.form_data IS DISTINCT FROM OLD.form_data THEN
+    FOR _key IN
+      SELECT jsonb_object_keys(COALESCE(OLD.form_data, '{}'::jsonb))
+      UNION
+      SELECT jsonb_object_keys(COALESCE(NEW.form_data, '{}'::jsonb))
+    LOOP
+      -- Bookkeeping keys written alongside every save, not user-facing fields
+      CONTINUE WHEN _key IN ('field_labels', 'dynamic_sections_metadata');
+
+      INSERT INTO public.claim_field_audit (claim_id, field_key, old_value, new_value, source, changed_by)
+      SELECT NEW.id, c.path, c.old_value, c.new_value, _source, auth.uid()
+      FROM public.form_data_changes(_key, OLD.form_data -> _key, NEW.form_data -> _key) c;
+    END LOOP;
+  END IF;
+
+  NEW.last_edit_source := NULL;
+  RETURN NEW;
+END;
+$$;
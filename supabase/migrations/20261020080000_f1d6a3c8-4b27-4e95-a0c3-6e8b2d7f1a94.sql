@@ -0,0 +1,16 @@
+-- GST registration per organisation profile. Each profile bills under its own invoice series
+-- and bank account, so a firm with its own GSTIN must also be the supplier on its tax
+-- invoices and e-invoices; its state decides CGST/SGST against IGST. Profiles without a
+-- GSTIN keep using the firm-wide registration in gst_settings.
+ALTER TABLE public.organisation_profiles
+  ADD COLUMN gstin TEXT,
+  ADD COLUMN gst_legal_name TEXT,
+  ADD COLUMN gst_trade_name TEXT,
+  -- Registered address as on the GST certificate, which may differ from the letterhead
+  ADD COLUMN gst_address TEXT,
+  ADD COLUMN gst_location TEXT,
+  ADD COLUMN gst_pincode TEXT,
+  -- Two-digit GST state code; the first two characters of the GSTIN
+  ADD COLUMN gst_state_code TEXT,
+  ADD CONSTRAINT organisation_profiles_gstin_check CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  ADD CONSTRAINT organisation_profiles_gst_state_code_check CHECK (gst_state_code IS NULL OR gst_state_code ~ '^[0-9]{2}$');
@@ -0,0 +1,34 @@
+-- The fee_bill_finalized guard read form_data->>'fee_bill_finalized_at', which any claim
+-- editor can set from the client. It now needs the claim's invoice: fee_invoices rows are
+-- only written by issue_fee_invoice() when a bill is finalized, and users cannot insert them.
+CREATE OR REPLACE FUNCTION public.check_claim_status_guard(_claim_id UUID, _guard TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _guard IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF _guard = 'fee_bill_finalized' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.fee_invoices WHERE claim_id = _claim_id) THEN
+      RETURN 'The fee bill must be finalized first';
+    END IF;
+  ELSIF _guard = 'report_issued' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.report_versions WHERE claim_id = _claim_id) THEN
+      RETURN 'A report must be issued first';
+    END IF;
+  ELSIF _guard = 'final_report_issued' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.report_versions WHERE claim_id = _claim_id AND stage = 'final') THEN
+      RETURN 'A final report must be issued first';
+    END IF;
+  ELSIF _guard = 'documents_complete' THEN
+    RETURN public.check_claim_documents_complete(_claim_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;